@@ -5,11 +5,13 @@ import { Platform, StyleSheet, View } from 'react-native';
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const { stuckSyncCount } = useClinical();
 
   return (
     <Tabs
@@ -72,6 +74,9 @@ export default function TabLayout() {
         name="settings"
         options={{
           title: 'Settings',
+          // Changes stuck in the sync queue — see Settings › Sync Status
+          tabBarBadge: stuckSyncCount > 0 ? stuckSyncCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: colors.error },
           tabBarIcon: ({ color, focused }) => (
             <View style={focused ? [styles.activeIconBg, { backgroundColor: colors.primary + '15' }] : undefined}>
               <IconSymbol size={24} name="gearshape.fill" color={color} />
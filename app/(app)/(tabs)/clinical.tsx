@@ -3,8 +3,10 @@
  * Lists active and recent maternal profiles.
  * Supervisors see all units with a unit filter row.
  * Staff see only their active unit.
+ * A search bar and filter sheet search the cases on the device, offline too.
  */
 
+import { CaseSearchFilters, CaseSearchSheet, countCaseSearchFilters } from '@/components/clinical/case-search-sheet';
 import { Dropdown } from '@/components/ui/dropdown';
 import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/context/auth';
@@ -12,16 +14,18 @@ import { MaternalProfile, useClinical } from '@/context/clinical';
 import { useMode } from '@/context/mode';
 import { useUnits } from '@/context/unit';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { isEmptyCaseQuery } from '@/lib/case-search';
 import { RISK_COLORS, RISK_LABELS, RiskLevel } from '@/lib/risk-calculator';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     FlatList,
     RefreshControl,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
@@ -37,7 +41,7 @@ const STATUS_CONFIG: Record<string, { label: string; color: string; icon: string
 export default function ClinicalScreen() {
     const colorScheme = useColorScheme();
     const colors = Colors[colorScheme ?? 'light'];
-    const { profiles, allProfiles, isLoading, refreshProfiles, fetchAllFacilityProfiles, isSyncing, syncNow, isSimulation, clearTrainingData } = useClinical();
+    const { profiles, allProfiles, isLoading, refreshProfiles, fetchAllFacilityProfiles, searchProfiles, isSyncing, syncNow, isSimulation, clearTrainingData, realtimeStatus } = useClinical();
     const { activeUnit, availableUnits } = useUnits();
     const { profile: authProfile, user } = useAuth();
     const { setMode } = useMode();
@@ -45,6 +49,34 @@ export default function ClinicalScreen() {
     const [filter, setFilter] = useState<string | null>(null);
     const [showMyCasesOnly, setShowMyCasesOnly] = useState(false);
 
+    // ── Case search ───────────────────────────────────────────
+    const [searchText, setSearchText] = useState('');
+    const [searchFilters, setSearchFilters] = useState<CaseSearchFilters>({});
+    const [showSearchSheet, setShowSearchSheet] = useState(false);
+    /** Matching cases while a search is active, null otherwise */
+    const [searchResults, setSearchResults] = useState<MaternalProfile[] | null>(null);
+
+    const searchQuery = useMemo(() => ({ ...searchFilters, text: searchText }), [searchFilters, searchText]);
+    const isSearching = !isEmptyCaseQuery(searchQuery);
+    const activeFilterCount = countCaseSearchFilters(searchFilters);
+
+    // Re-run when the query changes (debounced for typing) or the case list refreshes
+    useEffect(() => {
+        if (!isSearching) {
+            setSearchResults(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const results = await searchProfiles(searchQuery);
+            if (!cancelled) setSearchResults(results);
+        }, 250);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isSearching, searchQuery, searchProfiles, profiles]);
+
     // ── Supervisor & Admin monitoring ─────────────────────────
     const isSupervisor = authProfile?.role === 'supervisor';
     const isAdmin = authProfile?.role === 'admin';
@@ -62,14 +94,14 @@ export default function ClinicalScreen() {
     const baseProfiles = useMemo(() => {
         // For supervisors, use allProfiles if monitoringMode is true, otherwise use profiles
         // Actually, with the new refreshProfiles, profiles already contains facility-wide for supervisors
-        let list = (isSupervisor || isAdmin) ? allProfiles : profiles;
+        let list = searchResults ?? ((isSupervisor || isAdmin) ? allProfiles : profiles);
 
         if (showMyCasesOnly && user?.id) {
             list = list.filter(p => p.created_by === user.id);
         }
 
         return list;
-    }, [isSupervisor, isAdmin, allProfiles, profiles, showMyCasesOnly, user?.id]);
+    }, [searchResults, isSupervisor, isAdmin, allProfiles, profiles, showMyCasesOnly, user?.id]);
 
     // Apply unit filter
     const unitFilteredProfiles = useMemo(() => {
@@ -232,6 +264,14 @@ export default function ClinicalScreen() {
                     </Text>
                 </View>
                 <View style={styles.headerActions}>
+                    {realtimeStatus !== 'off' && (
+                        <View style={[styles.livePill, { borderColor: colors.border }]}>
+                            <View style={[styles.liveDot, { backgroundColor: realtimeStatus === 'live' ? colors.success : colors.warning }]} />
+                            <Text style={[styles.liveText, { color: colors.textSecondary }]}>
+                                {realtimeStatus === 'live' ? 'Live' : 'Polling'}
+                            </Text>
+                        </View>
+                    )}
                     <TouchableOpacity
                         onPress={() => { syncNow(); if (isSupervisor || isAdmin) fetchAllFacilityProfiles(); }}
                         style={[styles.syncButton, { borderColor: colors.border }]}
@@ -315,6 +355,45 @@ export default function ClinicalScreen() {
                 </View>
             )}
 
+            {/* Search */}
+            <View style={styles.searchRow}>
+                <View style={[styles.searchBox, { backgroundColor: colors.inputBackground, borderColor: colors.inputBorder }]}>
+                    <Ionicons name="search-outline" size={18} color={colors.textSecondary} />
+                    <TextInput
+                        style={[styles.searchInput, { color: colors.text }]}
+                        value={searchText}
+                        onChangeText={setSearchText}
+                        placeholder="Search patient ID or notes"
+                        placeholderTextColor={colors.placeholder}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="search"
+                    />
+                    {searchText.length > 0 && (
+                        <TouchableOpacity onPress={() => setSearchText('')}>
+                            <Ionicons name="close-circle" size={18} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+                <TouchableOpacity
+                    style={[
+                        styles.filterButton,
+                        {
+                            borderColor: activeFilterCount > 0 ? colors.primary : colors.border,
+                            backgroundColor: activeFilterCount > 0 ? colors.primary + '15' : 'transparent',
+                        },
+                    ]}
+                    onPress={() => setShowSearchSheet(true)}
+                >
+                    <Ionicons name="options-outline" size={20} color={activeFilterCount > 0 ? colors.primary : colors.textSecondary} />
+                    {activeFilterCount > 0 && (
+                        <View style={[styles.filterBadge, { backgroundColor: colors.primary }]}>
+                            <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+                        </View>
+                    )}
+                </TouchableOpacity>
+            </View>
+
             {/* Filters Row */}
             <View style={styles.dropdownRow}>
                 {!isNormalUser && (monitoringMode || availableUnits.length > 1) && (
@@ -354,15 +433,27 @@ export default function ClinicalScreen() {
                 ListEmptyComponent={
                     <View style={styles.emptyContainer}>
                         <Ionicons name="medical-outline" size={48} color={colors.textSecondary} />
-                        <Text style={[styles.emptyTitle, { color: colors.text }]}>No Cases</Text>
+                        <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                            {isSearching ? 'No Matching Cases' : 'No Cases'}
+                        </Text>
                         <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
-                            {isStaff
-                                ? 'Tap "New" to create a patient record'
-                                : 'No maternal profiles in this unit yet'}
+                            {isSearching
+                                ? 'No cases on this device match the search'
+                                : isStaff
+                                    ? 'Tap "New" to create a patient record'
+                                    : 'No maternal profiles in this unit yet'}
                         </Text>
                     </View>
                 }
             />
+
+            <CaseSearchSheet
+                visible={showSearchSheet}
+                filters={searchFilters}
+                userId={user?.id}
+                onApply={setSearchFilters}
+                onClose={() => setShowSearchSheet(false)}
+            />
         </SafeAreaView>
     );
 }
@@ -426,6 +517,17 @@ const styles = StyleSheet.create({
         gap: 6,
     },
     modeToggleText: { ...Typography.labelSm },
+    livePill: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: Spacing.sm,
+        height: 28,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    liveDot: { width: 8, height: 8, borderRadius: 4 },
+    liveText: { ...Typography.labelSm },
     syncButton: {
         width: 40,
         height: 40,
@@ -444,6 +546,45 @@ const styles = StyleSheet.create({
     },
     newButtonText: { color: '#FFF', ...Typography.buttonMd },
 
+    searchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.md,
+        paddingBottom: Spacing.md,
+        gap: Spacing.sm,
+    },
+    searchBox: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        height: 40,
+        paddingHorizontal: Spacing.smd,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        gap: Spacing.sm,
+    },
+    searchInput: { flex: 1, ...Typography.bodyMd, paddingVertical: 0 },
+    filterButton: {
+        width: 40,
+        height: 40,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    filterBadge: {
+        position: 'absolute',
+        top: -6,
+        right: -6,
+        minWidth: 18,
+        height: 18,
+        borderRadius: 9,
+        paddingHorizontal: 4,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    filterBadgeText: { color: '#FFF', ...Typography.overline, fontSize: 10 },
+
     dropdownRow: {
         flexDirection: 'row',
         paddingHorizontal: Spacing.md,
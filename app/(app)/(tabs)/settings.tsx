@@ -7,18 +7,23 @@ import { useAuth } from '@/context/auth';
 import { useClinical } from '@/context/clinical';
 import { useAppTheme } from '@/context/theme';
 import { useToast } from '@/context/toast';
+import { describeBackgroundSyncRun } from '@/lib/background-sync-policy';
+import { TREND_WINDOW_OPTIONS_MINUTES } from '@/lib/shock-trend';
 import { supabase } from '@/lib/supabase';
+import { formatRetentionDays, formatWindowDays } from '@/lib/sync-scope';
 import * as Haptics from 'expo-haptics';
 import { Image } from 'expo-image';
-import { router } from 'expo-router';
-import React, { useEffect, useState } from 'react';
-import { ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Platform, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
 
 export default function SettingsScreen() {
   const { showToast } = useToast();
   const { preference, setThemePreference, theme } = useAppTheme();
   const { signOut, user, profile } = useAuth();
-  const { alarmMuted, toggleAlarmMute, syncNow, isSyncing, lastSyncResult } = useClinical();
+  const { alarmMuted, toggleAlarmMute, syncNow, isSyncing, lastSyncResult, syncConflicts, stuckSyncCount,
+    backgroundSyncAvailable, backgroundSyncPrefs, updateBackgroundSyncPrefs, lastBackgroundSync, refreshBackgroundSyncStatus,
+    deviceDataPrefs, syncQueueItems, trendWindowMinutes, setTrendWindowMinutes } = useClinical();
   const themeColors = Colors[theme];
   const isDark = preference === 'dark';
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
@@ -30,6 +35,13 @@ export default function SettingsScreen() {
     else setAvatarUrl(null);
   }, [profile?.avatar_url]);
 
+  // Background runs happen while this screen is closed — re-read the last result on focus
+  useFocusEffect(
+    useCallback(() => {
+      refreshBackgroundSyncStatus();
+    }, [refreshBackgroundSyncStatus])
+  );
+
   async function downloadImage(path: string) {
     try {
       const { data, error } = await supabase.storage.from('avatars').download(path);
@@ -40,7 +52,7 @@ export default function SettingsScreen() {
     } catch { }
   }
 
-  const handleSignOut = async () => {
+  const signOutNow = async () => {
     try {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       await signOut();
@@ -50,8 +62,30 @@ export default function SettingsScreen() {
     }
   };
 
+  // Signing out wipes the device's clinical data — warn before unsynced changes go with it
+  const handleSignOut = () => {
+    if (syncQueueItems.length === 0) {
+      signOutNow();
+      return;
+    }
+    const message = `${syncQueueItems.length} change${syncQueueItems.length === 1 ? ' has' : 's have'} not reached the server. Signing out sends what it can first, then erases all clinical data on this device, including any change still unsent.`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) signOutNow();
+      return;
+    }
+    Alert.alert(
+      'Unsynced Changes',
+      message,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sync Status', onPress: () => router.push('/(app)/clinical/sync-status') },
+        { text: 'Sign Out', style: 'destructive', onPress: signOutNow },
+      ]
+    );
+  };
+
   // Setting item component
-  const SettingItem = ({ label, icon, iconColor, value, type = 'arrow', onPress, onToggle, isLast = false }: any) => (
+  const SettingItem = ({ label, detail, icon, iconColor, value, type = 'arrow', onPress, onToggle, isLast = false }: any) => (
     <TouchableOpacity
       activeOpacity={type === 'toggle' ? 1 : 0.6}
       onPress={onPress}
@@ -64,7 +98,10 @@ export default function SettingsScreen() {
         <View style={[styles.iconContainer, { backgroundColor: iconColor || themeColors.primary }]}>
           <IconSymbol name={icon} size={18} color="#FFF" />
         </View>
-        <Text style={[styles.settingLabel, { color: themeColors.text }]}>{label}</Text>
+        <View style={styles.settingText}>
+          <Text style={[styles.settingLabel, { color: themeColors.text }]}>{label}</Text>
+          {!!detail && <Text style={[styles.settingDetail, { color: themeColors.textSecondary }]}>{detail}</Text>}
+        </View>
       </View>
 
       {type === 'toggle' ? (
@@ -150,11 +187,22 @@ export default function SettingsScreen() {
               Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
             }}
           />
+          <SettingItem
+            label="Deterioration Trend Window"
+            detail={`Looks back ${trendWindowMinutes} min from the latest reading`}
+            icon="chart.line.uptrend.xyaxis"
+            iconColor="#F97316"
+            onPress={() => {
+              // Step through the choices; an unknown stored value starts again at the first
+              const next = TREND_WINDOW_OPTIONS_MINUTES[(TREND_WINDOW_OPTIONS_MINUTES.indexOf(trendWindowMinutes) + 1) % TREND_WINDOW_OPTIONS_MINUTES.length];
+              setTrendWindowMinutes(next);
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            }}
+          />
           <SettingItem
             label={isSyncing ? 'Syncing...' : 'Sync Now'}
             icon="arrow.triangle.2.circlepath"
             iconColor="#3B82F6"
-            isLast
             onPress={async () => {
               if (isSyncing) return;
               Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -171,8 +219,74 @@ export default function SettingsScreen() {
               }
             }}
           />
+          <SettingItem
+            label={stuckSyncCount > 0 ? `Sync Status (${stuckSyncCount} stuck)` : 'Sync Status'}
+            icon="list.bullet.rectangle"
+            iconColor={stuckSyncCount > 0 ? '#EF4444' : '#64748B'}
+            onPress={() => router.push('/(app)/clinical/sync-status')}
+          />
+          <SettingItem
+            label="Data on This Device"
+            detail={`${deviceDataPrefs.windowDays ? formatWindowDays(deviceDataPrefs.windowDays) : 'All cases'} · closed cases ${deviceDataPrefs.retentionDays ? `removed after ${formatRetentionDays(deviceDataPrefs.retentionDays)}` : 'kept'}`}
+            icon="internaldrive"
+            iconColor="#8B5CF6"
+            isLast={syncConflicts.length === 0}
+            onPress={() => router.push('/(app)/clinical/device-data')}
+          />
+          {syncConflicts.length > 0 && (
+            <SettingItem
+              label={`Sync Conflicts (${syncConflicts.length})`}
+              icon="exclamationmark.triangle"
+              iconColor="#F59E0B"
+              isLast
+              onPress={() => router.push('/(app)/clinical/sync-conflicts')}
+            />
+          )}
         </Section>
 
+        {/* Background Sync */}
+        {backgroundSyncAvailable && (
+          <Section title="BACKGROUND SYNC">
+            <SettingItem
+              label="Sync When Closed"
+              detail={lastBackgroundSync
+                ? `Last run ${new Date(lastBackgroundSync.at).toLocaleString()} · ${describeBackgroundSyncRun(lastBackgroundSync)}`
+                : 'Not run yet'}
+              icon="icloud.and.arrow.up"
+              iconColor="#3B82F6"
+              type="toggle"
+              value={backgroundSyncPrefs.enabled}
+              onToggle={(val: boolean) => {
+                updateBackgroundSyncPrefs({ enabled: val });
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }}
+            />
+            <SettingItem
+              label="Wi-Fi Only"
+              icon="wifi"
+              iconColor="#0EA5E9"
+              type="toggle"
+              value={backgroundSyncPrefs.wifiOnly}
+              onToggle={(val: boolean) => {
+                updateBackgroundSyncPrefs({ wifiOnly: val });
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }}
+            />
+            <SettingItem
+              label="Pause on Low Battery"
+              icon="battery.25"
+              iconColor="#22C55E"
+              type="toggle"
+              value={backgroundSyncPrefs.pauseOnLowBattery}
+              isLast
+              onToggle={(val: boolean) => {
+                updateBackgroundSyncPrefs({ pauseOnLowBattery: val });
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }}
+            />
+          </Section>
+        )}
+
         {/* Account */}
         <Section title="ACCOUNT">
           <SettingItem
@@ -347,9 +461,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  settingText: {
+    flexShrink: 1,
+  },
   settingLabel: {
     ...Typography.bodyMd,
   },
+  settingDetail: {
+    ...Typography.bodySm,
+    marginTop: 2,
+  },
 
   // Identity Information
   identityCard: {
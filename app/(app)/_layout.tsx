@@ -13,7 +13,12 @@ export default function AppLayout() {
       <Stack.Screen name="clinical/new-patient" options={{ animation: 'slide_from_right' }} />
       <Stack.Screen name="clinical/patient-detail" options={{ animation: 'slide_from_right' }} />
       <Stack.Screen name="clinical/record-vitals" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="clinical/sync-conflicts" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="clinical/sync-status" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="clinical/device-data" options={{ animation: 'slide_from_right' }} />
       <Stack.Screen name="management/emergency-contacts" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="management/shock-thresholds" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="management/devices" options={{ animation: 'slide_from_right' }} />
     </Stack>
   );
 }
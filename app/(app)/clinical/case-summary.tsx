@@ -5,17 +5,21 @@
  * - Patient demographics + risk assessment
  * - Delivery time (if recorded)
  * - E-MOTIVE bundle step completion with timestamps
- * - All vital signs in a compact table
+ * - Vitals trend chart with threshold bands and E-MOTIVE markers
+ * - All vital signs in a compact table (amended/voided originals struck through)
  * - Case event timeline (condensed)
  * - Case outcome and total elapsed time
  */
 
+import { VitalsChart } from '@/components/clinical/vitals-chart';
 import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
 import { useClinical } from '@/context/clinical';
 import { useToast } from '@/context/toast';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { printCaseReport, shareCaseReport } from '@/lib/pdf/case-report';
+import { buildPreparednessChecklist, getPreparednessStatus } from '@/lib/preparedness';
 import { RISK_COLORS, RISK_LABELS, RiskLevel } from '@/lib/risk-calculator';
+import { getVitalChanges, isVoided } from '@/lib/vital-amendments';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import React, { useCallback } from 'react';
@@ -60,10 +64,13 @@ export default function CaseSummaryScreen() {
         vitalSigns,
         caseEvents,
         emotiveChecklist,
+        preparednessChecks,
+        thresholdSet,
         setActiveProfileId,
         refreshVitals,
         refreshCaseEvents,
         refreshEmotiveChecklist,
+        refreshPreparedness,
     } = useClinical();
 
     useFocusEffect(
@@ -73,8 +80,9 @@ export default function CaseSummaryScreen() {
                 refreshVitals(localId);
                 refreshCaseEvents(localId);
                 refreshEmotiveChecklist(localId);
+                refreshPreparedness(localId);
             }
-        }, [localId, refreshCaseEvents, refreshEmotiveChecklist, refreshVitals, setActiveProfileId])
+        }, [localId, refreshCaseEvents, refreshEmotiveChecklist, refreshPreparedness, refreshVitals, setActiveProfileId])
     );
 
     const profile = profiles.find(p => p.local_id === localId);
@@ -94,10 +102,14 @@ export default function CaseSummaryScreen() {
     }
 
     const riskColors = RISK_COLORS[profile.risk_level as RiskLevel] ?? RISK_COLORS.low;
+    const preparedness = getPreparednessStatus(
+        buildPreparednessChecklist(profile.riskResult ?? { level: profile.risk_level as RiskLevel, factors: [] }),
+        preparednessChecks
+    );
 
     const handlePrintPDF = async () => {
         try {
-            await printCaseReport({ profile, vitalSigns, emotiveChecklist, caseEvents });
+            await printCaseReport({ profile, vitalSigns, emotiveChecklist, caseEvents, thresholds: thresholdSet.thresholds, preparedness });
         } catch {
             showToast('Failed to generate PDF', 'error');
         }
@@ -105,7 +117,7 @@ export default function CaseSummaryScreen() {
 
     const handleSharePDF = async () => {
         try {
-            await shareCaseReport({ profile, vitalSigns, emotiveChecklist, caseEvents });
+            await shareCaseReport({ profile, vitalSigns, emotiveChecklist, caseEvents, thresholds: thresholdSet.thresholds, preparedness });
         } catch {
             showToast('Failed to share report', 'error');
         }
@@ -271,28 +283,46 @@ export default function CaseSummaryScreen() {
                 {/* Vital Signs */}
                 {vitalSigns.length > 0 && (
                     <SectionCard title={`Vital Signs (${vitalSigns.length})`} icon="pulse-outline" colors={colors}>
+                        <VitalsChart deliveryTime={profile.delivery_time} style={styles.embeddedChart} />
                         {/* Table header */}
                         <View style={[styles.vitalTableRow, styles.vitalTableHeader, { borderBottomColor: colors.border }]}>
                             {['Time', 'HR', 'BP', 'SpO2', 'EBL', 'SI'].map(h => (
                                 <Text key={h} style={[styles.vitalHeaderCell, { color: colors.textSecondary }]}>{h}</Text>
                             ))}
                         </View>
-                        {vitalSigns.map((v) => (
-                            <View key={v.local_id} style={[styles.vitalTableRow, { borderBottomColor: colors.border, borderBottomWidth: 1 }]}>
-                                <Text style={[styles.vitalCell, { color: colors.text }]}>
-                                    {new Date(v.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                                </Text>
-                                <Text style={[styles.vitalCell, { color: colors.text }]}>{v.heart_rate ?? '—'}</Text>
-                                <Text style={[styles.vitalCell, { color: colors.text }]}>
-                                    {v.systolic_bp && v.diastolic_bp ? `${v.systolic_bp}/${v.diastolic_bp}` : '—'}
-                                </Text>
-                                <Text style={[styles.vitalCell, { color: colors.text }]}>{v.spo2 != null ? `${v.spo2}%` : '—'}</Text>
-                                <Text style={[styles.vitalCell, { color: colors.text }]}>{v.estimated_blood_loss != null ? `${v.estimated_blood_loss}` : '—'}</Text>
-                                <Text style={[styles.vitalCell, { color: v.shockResult ? v.shockResult.bgColor : colors.text }]}>
-                                    {v.shockResult?.value.toFixed(1) ?? '—'}
-                                </Text>
-                            </View>
-                        ))}
+                        {vitalSigns.map((v) => {
+                            const voided = isVoided(v);
+                            const changes = getVitalChanges(v);
+                            const cell = [styles.vitalCell, { color: colors.text }, voided && styles.struck];
+                            return (
+                                <View key={v.local_id} style={{ borderBottomColor: colors.border, borderBottomWidth: 1 }}>
+                                    <View style={[styles.vitalTableRow, voided && { opacity: 0.6 }]}>
+                                        <Text style={cell}>
+                                            {new Date(v.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                        </Text>
+                                        <Text style={cell}>{v.heart_rate ?? '—'}</Text>
+                                        <Text style={cell}>
+                                            {v.systolic_bp && v.diastolic_bp ? `${v.systolic_bp}/${v.diastolic_bp}` : '—'}
+                                        </Text>
+                                        <Text style={cell}>{v.spo2 != null ? `${v.spo2}%` : '—'}</Text>
+                                        <Text style={cell}>{v.estimated_blood_loss != null ? `${v.estimated_blood_loss}` : '—'}</Text>
+                                        <Text style={[...cell, { color: v.shockResult && !voided ? v.shockResult.bgColor : colors.text }]}>
+                                            {v.shockResult?.value.toFixed(1) ?? '—'}
+                                        </Text>
+                                    </View>
+                                    {v.amendment_status && (
+                                        <Text style={[styles.amendmentNote, { color: colors.textSecondary }]}>
+                                            {voided ? 'Voided' : 'Amended'}: {v.amendment_reason}
+                                            {changes.map(c => (
+                                                <Text key={c.field}>
+                                                    {' · '}{c.label} <Text style={styles.struck}>{c.original ?? '—'}</Text> → {c.current ?? '—'}
+                                                </Text>
+                                            ))}
+                                        </Text>
+                                    )}
+                                </View>
+                            );
+                        })}
                         {peakBloodLoss !== null && (
                             <View style={[styles.peakRow, { borderTopColor: colors.border }]}>
                                 <Text style={[styles.peakLabel, { color: colors.textSecondary }]}>Peak Blood Loss</Text>
@@ -314,6 +344,13 @@ export default function CaseSummaryScreen() {
                                 status_change: { name: 'swap-horizontal', color: '#6B7280' },
                                 escalation:    { name: 'alert-circle', color: '#DC2626' },
                                 note:          { name: 'document-text', color: '#D97706' },
+                                amended:       { name: 'create', color: '#D97706' },
+                                voided:        { name: 'ban', color: '#DC2626' },
+                                risk_reassessed: { name: 'refresh', color: '#7C3AED' },
+                                preparedness:  { name: 'shield-checkmark', color: '#0891B2' },
+                                sync_conflict: { name: 'git-compare', color: '#D97706' },
+                                sync_retry:    { name: 'cloud-upload', color: '#2563EB' },
+                                sync_discard:  { name: 'cloud-offline', color: '#DC2626' },
                             };
                             const iconInfo = iconMap[event.event_type] ?? { name: 'ellipse', color: colors.textSecondary };
                             const isLast = index === caseEvents.length - 1;
@@ -532,6 +569,8 @@ const styles = StyleSheet.create({
     emotiveRight: { alignItems: 'flex-end', gap: 2 },
     emotiveTime: { ...Typography.labelSm, fontSize: 11 },
 
+    embeddedChart: { borderWidth: 0, borderRadius: 0, marginBottom: 0 },
+
     vitalTableRow: {
         flexDirection: 'row',
         paddingHorizontal: Spacing.sm,
@@ -540,6 +579,8 @@ const styles = StyleSheet.create({
     vitalTableHeader: { borderBottomWidth: 1 },
     vitalHeaderCell: { flex: 1, ...Typography.labelSm, textAlign: 'center' },
     vitalCell: { flex: 1, ...Typography.bodySm, fontSize: 12, textAlign: 'center' },
+    struck: { textDecorationLine: 'line-through' },
+    amendmentNote: { ...Typography.bodySm, fontSize: 11, paddingHorizontal: Spacing.md, paddingBottom: Spacing.xs },
 
     peakRow: {
         flexDirection: 'row',
@@ -0,0 +1,177 @@
+/**
+ * Data on This Device
+ *
+ * Controls how much patient data this device holds: which cases are pulled
+ * (own, unit or facility; optionally only recent ones) and how long closed
+ * cases are kept once the server has them. Cases with changes still waiting
+ * to sync are never removed.
+ */
+
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+    formatRetentionDays,
+    formatWindowDays,
+    RETENTION_OPTIONS_DAYS,
+    SYNC_SCOPE_LABELS,
+    SYNC_WINDOW_OPTIONS_DAYS,
+} from '@/lib/sync-scope';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export default function DeviceDataScreen() {
+    const { deviceDataPrefs, updateDeviceDataPrefs, availableScopeModes, purgeExpiredCases } = useClinical();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [isPurging, setIsPurging] = useState(false);
+
+    const activeMode = deviceDataPrefs.scopeMode && availableScopeModes.includes(deviceDataPrefs.scopeMode)
+        ? deviceDataPrefs.scopeMode
+        : availableScopeModes[availableScopeModes.length - 1];
+
+    const handlePurge = async () => {
+        setIsPurging(true);
+        try {
+            const removed = await purgeExpiredCases();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            showToast(removed > 0 ? `Removed ${removed} closed case${removed === 1 ? '' : 's'}` : 'No cases to remove', 'success');
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to remove cases', 'error');
+        } finally {
+            setIsPurging(false);
+        }
+    };
+
+    const renderChips = <T,>(options: T[], selected: T, label: (option: T) => string, onSelect: (option: T) => void) => (
+        <View style={styles.chipRow}>
+            {options.map(option => {
+                const active = option === selected;
+                return (
+                    <TouchableOpacity
+                        key={label(option)}
+                        style={[
+                            styles.chip,
+                            { borderColor: active ? colors.primary : colors.border },
+                            active && { backgroundColor: colors.primary + '10' },
+                        ]}
+                        onPress={() => {
+                            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                            onSelect(option);
+                        }}
+                    >
+                        <Text style={[styles.chipText, { color: active ? colors.primary : colors.textSecondary }]}>
+                            {label(option)}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => {
+                    if (router.canGoBack()) router.back();
+                    else router.replace('/(app)/(tabs)');
+                }} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: colors.text }]}>Data on This Device</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                {/* Sync scope */}
+                <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>CASES TO SYNC</Text>
+                {renderChips(availableScopeModes, activeMode, mode => SYNC_SCOPE_LABELS[mode], mode => updateDeviceDataPrefs({ scopeMode: mode }))}
+
+                <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>UPDATED WITHIN</Text>
+                {renderChips(SYNC_WINDOW_OPTIONS_DAYS, deviceDataPrefs.windowDays, formatWindowDays, days => updateDeviceDataPrefs({ windowDays: days }))}
+
+                <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                    Applies from the next sync. Cases already on this device stay until they are closed and removed below.
+                </Text>
+
+                {/* Retention */}
+                <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>REMOVE CLOSED CASES AFTER</Text>
+                {renderChips(RETENTION_OPTIONS_DAYS, deviceDataPrefs.retentionDays, formatRetentionDays, days => updateDeviceDataPrefs({ retentionDays: days }))}
+
+                <View style={[styles.infoCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                    <Ionicons name="shield-checkmark-outline" size={20} color={colors.primary} />
+                    <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+                        Closed cases are removed from this device once they have been unchanged for this long. They stay on the server.
+                        A case with changes that have not synced yet is always kept.
+                    </Text>
+                </View>
+
+                <TouchableOpacity
+                    style={[styles.purgeButton, { borderColor: colors.error }, !deviceDataPrefs.retentionDays && { opacity: 0.5 }]}
+                    onPress={handlePurge}
+                    disabled={isPurging || !deviceDataPrefs.retentionDays}
+                >
+                    {isPurging
+                        ? <ActivityIndicator size="small" color={colors.error} />
+                        : <Ionicons name="trash-outline" size={16} color={colors.error} />
+                    }
+                    <Text style={[styles.purgeText, { color: colors.error }]}>Remove Expired Cases Now</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1 },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: Spacing.md,
+        justifyContent: 'space-between',
+    },
+    backButton: { padding: Spacing.xs },
+    headerTitle: { ...Typography.headingMd },
+
+    content: { padding: Spacing.md, paddingBottom: 40 },
+
+    sectionLabel: { ...Typography.overline, marginBottom: Spacing.xs },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.sm, marginBottom: Spacing.md },
+    chip: {
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: Spacing.xs,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    chipText: { ...Typography.labelSm },
+    hint: { ...Typography.bodySm, marginBottom: Spacing.lg },
+
+    infoCard: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        padding: Spacing.md,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.md,
+    },
+    infoText: { ...Typography.bodySm, flex: 1 },
+
+    purgeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.sm,
+        height: 44,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+    },
+    purgeText: { ...Typography.buttonMd },
+});
@@ -3,17 +3,19 @@
  *
  * Collects demographics, pregnancy info, and AWHONN risk factors.
  * Shows live risk assessment as factors are toggled.
+ * Flags a possible returning patient by hospital ID, or name and age; linking
+ * her carries PPH and cesarean history over from earlier deliveries.
  */
 
 import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
-import { useClinical } from '@/context/clinical';
+import { ReturningPatient, useClinical } from '@/context/clinical';
 import { useToast } from '@/context/toast';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { calculateRisk, MaternalRiskInput, RISK_COLORS, RISK_LABELS } from '@/lib/risk-calculator';
+import { calculateRisk, getAllRiskFactors, MaternalRiskInput, RISK_COLORS, RISK_LABELS } from '@/lib/risk-calculator';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { router } from 'expo-router';
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     KeyboardAvoidingView,
     Modal,
@@ -29,14 +31,40 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+// Switches come from the current rule set; age, parity and GA are derived from the inputs above
+const RISK_FACTOR_OPTIONS = getAllRiskFactors();
+const MEDIUM_TOGGLES = RISK_FACTOR_OPTIONS.medium.filter(f => f.toggle);
+const HIGH_TOGGLES = RISK_FACTOR_OPTIONS.high.filter(f => f.toggle);
+
+const MATCH_REASON_LABELS: Record<ReturningPatient['reason'], string> = {
+    patient_number: 'Same hospital ID',
+    name_age: 'Same name and age',
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+    normal: 'Normal',
+    pph_resolved: 'PPH',
+    referred: 'Referred',
+};
+
+function describeEpisodes(match: ReturningPatient): string {
+    const { episodes } = match.history;
+    if (episodes.length === 0) return 'No earlier deliveries recorded';
+    const last = episodes[0];
+    const when = new Date(last.created_at).toLocaleDateString([], { dateStyle: 'medium' });
+    const outcome = last.outcome ? ` · ${OUTCOME_LABELS[last.outcome] ?? last.outcome}` : '';
+    return `${episodes.length} earlier ${episodes.length === 1 ? 'delivery' : 'deliveries'} · last ${when}${outcome}`;
+}
+
 export default function NewPatientScreen() {
     const colorScheme = useColorScheme();
     const colors = Colors[colorScheme ?? 'light'];
-    const { createProfile } = useClinical();
+    const { createProfile, findReturningPatients } = useClinical();
     const { showToast } = useToast();
 
     // Demographics
     const [patientId, setPatientId] = useState('');
+    const [patientName, setPatientName] = useState('');
     const [age, setAge] = useState('');
     const [gravida, setGravida] = useState('1');
     const [parity, setParity] = useState('0');
@@ -61,6 +89,12 @@ export default function NewPatientScreen() {
         hasPlacentaAccreta: false,
         hasActiveBleeding: false,
         hasMorbidObesity: false,
+        hasPreeclampsia: false,
+        isInducedLabor: false,
+        hasProlongedLabor: false,
+        hasMacrosomia: false,
+        hasProlongedSecondStage: false,
+        hasOperativeDelivery: false,
     });
 
     const [deliveryTime, setDeliveryTime] = useState<Date | null>(null);
@@ -69,6 +103,35 @@ export default function NewPatientScreen() {
     const [deliveryTimeInput, setDeliveryTimeInput] = useState('');
     const [isSaving, setIsSaving] = useState(false);
 
+    // Returning patient
+    const [matches, setMatches] = useState<ReturningPatient[]>([]);
+    const [linkedPatient, setLinkedPatient] = useState<ReturningPatient | null>(null);
+    const [dismissedPatientIds, setDismissedPatientIds] = useState<string[]>([]);
+    const [carriedOver, setCarriedOver] = useState<string[]>([]);
+
+    // Look for a known patient as the ID, name and age are typed
+    useEffect(() => {
+        if (linkedPatient || (!patientId.trim() && !(patientName.trim() && age))) {
+            setMatches([]);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const found = await findReturningPatients({
+                patientNumber: patientId.trim() || undefined,
+                name: patientName.trim() || undefined,
+                age: parseInt(age) || undefined,
+            });
+            if (!cancelled) setMatches(found);
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [patientId, patientName, age, linkedPatient, findReturningPatients]);
+
+    const suggestedMatch = matches.find(m => !dismissedPatientIds.includes(m.patient.local_id)) ?? null;
+
     // Live risk calculation
     const currentRisk = useMemo(() => {
         const input: MaternalRiskInput = {
@@ -88,6 +151,34 @@ export default function NewPatientScreen() {
         if (value) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     };
 
+    const handleLinkPatient = (match: ReturningPatient) => {
+        setLinkedPatient(match);
+        if (!patientId.trim() && match.patient.patient_number) setPatientId(match.patient.patient_number);
+        if (!patientName.trim() && match.patient.full_name) setPatientName(match.patient.full_name);
+
+        // Only switch factors on — what the clinician already set stays
+        const carried: string[] = [];
+        if (match.history.hasPphHistory && !riskInput.hasPphHistory) carried.push('PPH history');
+        if (match.history.hasPriorCesarean && !riskInput.hasPriorCesarean) carried.push('prior cesarean');
+        setRiskInput(prev => ({
+            ...prev,
+            hasPphHistory: prev.hasPphHistory || match.history.hasPphHistory,
+            hasPriorCesarean: prev.hasPriorCesarean || match.history.hasPriorCesarean,
+        }));
+        setCarriedOver(carried);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    const handleUnlinkPatient = () => {
+        if (linkedPatient) setDismissedPatientIds(ids => [...ids, linkedPatient.patient.local_id]);
+        setLinkedPatient(null);
+        setCarriedOver([]);
+    };
+
+    const handleDismissMatch = (match: ReturningPatient) => {
+        setDismissedPatientIds(ids => [...ids, match.patient.local_id]);
+    };
+
     const handleSave = async () => {
         if (!age || parseInt(age) < 1) {
             showToast('Please enter the patient age', 'error');
@@ -106,6 +197,8 @@ export default function NewPatientScreen() {
 
             const localId = await createProfile({
                 patientId: patientId.trim() || undefined,
+                patientLocalId: linkedPatient?.patient.local_id,
+                patientName: patientName.trim() || undefined,
                 age: parseInt(age),
                 gravida: parseInt(gravida) || 1,
                 parity: parseInt(parity) || 0,
@@ -199,8 +292,75 @@ export default function NewPatientScreen() {
                                 />
                             </View>
                         </View>
+                        <View style={styles.inputFull}>
+                            <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>Patient Name</Text>
+                            <TextInput
+                                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.inputBorder }]}
+                                value={patientName}
+                                onChangeText={setPatientName}
+                                placeholder="Optional — helps recognize a returning patient"
+                                placeholderTextColor={colors.placeholder}
+                                autoCapitalize="words"
+                            />
+                        </View>
                     </View>
 
+                    {/* Returning Patient */}
+                    {linkedPatient ? (
+                        <View style={[styles.matchCard, { backgroundColor: colors.primary + '10', borderColor: colors.primary }]}>
+                            <View style={styles.matchHeader}>
+                                <Ionicons name="link" size={20} color={colors.primary} />
+                                <View style={{ flex: 1 }}>
+                                    <Text style={[styles.matchTitle, { color: colors.text }]}>Returning patient</Text>
+                                    <Text style={[styles.matchDetail, { color: colors.textSecondary }]}>
+                                        {describeEpisodes(linkedPatient)}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity onPress={handleUnlinkPatient}>
+                                    <Text style={[styles.matchAction, { color: colors.primary }]}>Unlink</Text>
+                                </TouchableOpacity>
+                            </View>
+                            {carriedOver.length > 0 && (
+                                <Text style={[styles.matchNote, { color: colors.text }]}>
+                                    Carried over from earlier deliveries: {carriedOver.join(' and ')}. Review the risk factors below before saving.
+                                </Text>
+                            )}
+                        </View>
+                    ) : suggestedMatch && (
+                        <View style={[styles.matchCard, { backgroundColor: colors.warning + '12', borderColor: colors.warning }]}>
+                            <View style={styles.matchHeader}>
+                                <Ionicons name="people" size={20} color={colors.warning} />
+                                <View style={{ flex: 1 }}>
+                                    <Text style={[styles.matchTitle, { color: colors.text }]}>Possible returning patient</Text>
+                                    <Text style={[styles.matchDetail, { color: colors.textSecondary }]}>
+                                        {[
+                                            MATCH_REASON_LABELS[suggestedMatch.reason],
+                                            suggestedMatch.patient.full_name,
+                                            suggestedMatch.patient.patient_number,
+                                        ].filter(Boolean).join(' · ')}
+                                    </Text>
+                                    <Text style={[styles.matchDetail, { color: colors.textSecondary }]}>
+                                        {describeEpisodes(suggestedMatch)}
+                                    </Text>
+                                </View>
+                            </View>
+                            <View style={styles.matchButtons}>
+                                <TouchableOpacity
+                                    style={[styles.matchButton, { borderColor: colors.border }]}
+                                    onPress={() => handleDismissMatch(suggestedMatch)}
+                                >
+                                    <Text style={[styles.matchButtonText, { color: colors.textSecondary }]}>Different Patient</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[styles.matchButton, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                                    onPress={() => handleLinkPatient(suggestedMatch)}
+                                >
+                                    <Text style={[styles.matchButtonText, { color: '#FFF' }]}>Same Patient</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    )}
+
                     {/* Pregnancy Info */}
                     <Text style={[styles.sectionTitle, { color: colors.text }]}>Pregnancy Info</Text>
                     <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
@@ -293,56 +453,17 @@ export default function NewPatientScreen() {
                         Medium Risk Factors
                     </Text>
                     <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
-                        <RiskToggle
-                            label="Multiple Gestation"
-                            description="Twin, triplet, or higher"
-                            value={riskInput.isMultipleGestation}
-                            onToggle={(v) => toggleFactor('isMultipleGestation', v)}
-                            colors={colors}
-                        />
-                        <RiskToggle
-                            label="Prior Cesarean Section"
-                            description="Previous uterine incision"
-                            value={riskInput.hasPriorCesarean}
-                            onToggle={(v) => toggleFactor('hasPriorCesarean', v)}
-                            colors={colors}
-                        />
-                        <RiskToggle
-                            label="Placenta Previa"
-                            description="Low-lying placenta"
-                            value={riskInput.hasPlacentaPrevia}
-                            onToggle={(v) => toggleFactor('hasPlacentaPrevia', v)}
-                            colors={colors}
-                        />
-                        <RiskToggle
-                            label="Large Fibroids"
-                            description="May impair uterine contraction"
-                            value={riskInput.hasLargeFibroids}
-                            onToggle={(v) => toggleFactor('hasLargeFibroids', v)}
-                            colors={colors}
-                        />
-                        <RiskToggle
-                            label="Anemia (Hb <10)"
-                            description="Hematocrit <30%"
-                            value={riskInput.hasAnemia}
-                            onToggle={(v) => toggleFactor('hasAnemia', v)}
-                            colors={colors}
-                        />
-                        <RiskToggle
-                            label="Previous PPH"
-                            description="One prior episode"
-                            value={riskInput.hasPphHistory}
-                            onToggle={(v) => toggleFactor('hasPphHistory', v)}
-                            colors={colors}
-                        />
-                        <RiskToggle
-                            label="Intraamniotic Infection"
-                            description="Chorioamnionitis"
-                            value={riskInput.hasIntraamnioticInfection}
-                            onToggle={(v) => toggleFactor('hasIntraamnioticInfection', v)}
-                            colors={colors}
-                            isLast
-                        />
+                        {MEDIUM_TOGGLES.map((f, i) => (
+                            <RiskToggle
+                                key={f.id}
+                                label={f.toggle!.label}
+                                description={f.toggle!.description}
+                                value={!!riskInput[f.fieldName]}
+                                onToggle={(v) => toggleFactor(f.fieldName, v)}
+                                colors={colors}
+                                isLast={i === MEDIUM_TOGGLES.length - 1}
+                            />
+                        ))}
                     </View>
 
                     {/* High Risk Factors */}
@@ -350,55 +471,18 @@ export default function NewPatientScreen() {
                         ⚠ High Risk Factors
                     </Text>
                     <View style={[styles.section, { backgroundColor: colors.card, borderColor: '#FFCDD2' }]}>
-                        <RiskToggle
-                            label="Active Bleeding"
-                            description="Beyond bloody show"
-                            value={riskInput.hasActiveBleeding}
-                            onToggle={(v) => toggleFactor('hasActiveBleeding', v)}
-                            colors={colors}
-                            isHighRisk
-                        />
-                        <RiskToggle
-                            label="Placenta Accreta"
-                            description="Accreta, increta, or percreta"
-                            value={riskInput.hasPlacentaAccreta}
-                            onToggle={(v) => toggleFactor('hasPlacentaAccreta', v)}
-                            colors={colors}
-                            isHighRisk
-                        />
-                        <RiskToggle
-                            label="Known Coagulopathy"
-                            description="Bleeding disorder"
-                            value={riskInput.hasCoagulopathy}
-                            onToggle={(v) => toggleFactor('hasCoagulopathy', v)}
-                            colors={colors}
-                            isHighRisk
-                        />
-                        <RiskToggle
-                            label="Severe PPH History"
-                            description=">1 PPH or >1500mL or transfusion"
-                            value={riskInput.hasSeverePphHistory}
-                            onToggle={(v) => toggleFactor('hasSeverePphHistory', v)}
-                            colors={colors}
-                            isHighRisk
-                        />
-                        <RiskToggle
-                            label="Severe Anemia (Hb <8)"
-                            description="Critical hemoglobin level"
-                            value={riskInput.hasSevereAnemia}
-                            onToggle={(v) => toggleFactor('hasSevereAnemia', v)}
-                            colors={colors}
-                            isHighRisk
-                        />
-                        <RiskToggle
-                            label="Morbid Obesity"
-                            description="BMI ≥40"
-                            value={riskInput.hasMorbidObesity}
-                            onToggle={(v) => toggleFactor('hasMorbidObesity', v)}
-                            colors={colors}
-                            isHighRisk
-                            isLast
-                        />
+                        {HIGH_TOGGLES.map((f, i) => (
+                            <RiskToggle
+                                key={f.id}
+                                label={f.toggle!.label}
+                                description={f.toggle!.description}
+                                value={!!riskInput[f.fieldName]}
+                                onToggle={(v) => toggleFactor(f.fieldName, v)}
+                                colors={colors}
+                                isHighRisk
+                                isLast={i === HIGH_TOGGLES.length - 1}
+                            />
+                        ))}
                     </View>
 
                     {/* Notes */}
@@ -576,6 +660,7 @@ const styles = StyleSheet.create({
     inputRow: { flexDirection: 'row', gap: Spacing.smd },
     inputHalf: { flex: 1 },
     inputThird: { flex: 1 },
+    inputFull: { marginTop: Spacing.smd },
     inputLabel: { ...Typography.labelSm, marginBottom: Spacing.xs },
     input: {
         borderWidth: 1,
@@ -593,6 +678,29 @@ const styles = StyleSheet.create({
         ...Typography.bodyMd,
     },
 
+    // Returning patient
+    matchCard: {
+        borderRadius: Radius.lg,
+        borderWidth: 1.5,
+        padding: Spacing.md,
+        marginTop: Spacing.md,
+        gap: Spacing.smd,
+    },
+    matchHeader: { flexDirection: 'row', alignItems: 'flex-start', gap: Spacing.smd },
+    matchTitle: { ...Typography.labelLg },
+    matchDetail: { ...Typography.bodySm, marginTop: 2 },
+    matchAction: { ...Typography.labelMd },
+    matchNote: { ...Typography.bodySm },
+    matchButtons: { flexDirection: 'row', gap: Spacing.smd },
+    matchButton: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: Spacing.sm,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+    },
+    matchButtonText: { ...Typography.buttonMd },
+
     // Risk toggles
     toggleRow: {
         flexDirection: 'row',
@@ -2,23 +2,33 @@
  * Patient Detail — Overview of a maternal profile
  *
  * Shows risk assessment, vital signs timeline, shock index,
- * blood loss tracker, and case status controls.
+ * blood loss tracker, case status controls, and the patient's
+ * previous deliveries.
  */
 
+import { AmendVitalModal } from '@/components/clinical/amend-vital-modal';
+import { BloodLossLedger } from '@/components/clinical/blood-loss-ledger';
 import { CaseTimeline } from '@/components/clinical/case-timeline';
+import { DeteriorationBanner } from '@/components/clinical/deterioration-banner';
 import { EmotiveChecklist } from '@/components/clinical/emotive-checklist';
 import { EscalationModal } from '@/components/clinical/escalation-modal';
+import { PreparednessChecklist } from '@/components/clinical/preparedness-checklist';
+import { RiskReassessModal } from '@/components/clinical/risk-reassess-modal';
+import { VitalsChart } from '@/components/clinical/vitals-chart';
 import { VitalsPromptBanner } from '@/components/clinical/vitals-prompt-banner';
 import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
-import { useClinical } from '@/context/clinical';
+import { PatientHistory, useClinical, VitalSign } from '@/context/clinical';
 import { useAuth } from '@/context/auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatMeows } from '@/lib/meows';
+import { buildPreparednessChecklist, getPreparednessStatus } from '@/lib/preparedness';
 import { RISK_COLORS, RISK_LABELS, RiskLevel } from '@/lib/risk-calculator';
 import { assessBloodLoss } from '@/lib/shock-index';
+import { getVitalChanges, isVoided } from '@/lib/vital-amendments';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     Modal,
     Pressable,
@@ -43,22 +53,47 @@ export default function PatientDetailScreen() {
         latestVital,
         setActiveProfileId,
         refreshVitals,
+        bloodLossEntries,
+        cumulativeBloodLoss,
+        refreshBloodLoss,
+        riskAssessments,
+        refreshRiskAssessments,
+        preparednessChecks,
+        refreshPreparedness,
         updateProfileStatus,
         isLoading,
         refreshProfiles,
         caseEvents,
         refreshCaseEvents,
         refreshEmergencyContacts,
-        updateDeliveryTime
+        updateDeliveryTime,
+        getPatientHistory
     } = useClinical();
 
     const [showCloseModal, setShowCloseModal] = useState(false);
     const [showEscalationModal, setShowEscalationModal] = useState(false);
     const [showDeliveryPicker, setShowDeliveryPicker] = useState(false);
+    const [amendingVital, setAmendingVital] = useState<VitalSign | null>(null);
+    const [showReassessModal, setShowReassessModal] = useState(false);
     const [deliveryDateInput, setDeliveryDateInput] = useState('');
     const [deliveryTimeInput, setDeliveryTimeInput] = useState('');
+    const [patientHistory, setPatientHistory] = useState<PatientHistory | null>(null);
 
     const profile = profiles.find(p => p.local_id === localId);
+    const patientLocalId = profile?.patient_local_id;
+
+    // Earlier (and later) deliveries of the same patient
+    useEffect(() => {
+        if (!localId || !patientLocalId) {
+            setPatientHistory(null);
+            return;
+        }
+        let cancelled = false;
+        getPatientHistory(localId).then(history => {
+            if (!cancelled) setPatientHistory(history);
+        });
+        return () => { cancelled = true; };
+    }, [localId, patientLocalId, getPatientHistory]);
     
     // Debug: Let's log the values to understand the mismatch
     console.log('DEBUG - Patient Detail:', {
@@ -116,11 +151,14 @@ export default function PatientDetailScreen() {
                 // Refresh immediately to ensure we have the latest data
                 refreshProfiles().then(() => {
                     refreshVitals(localId);
+                    refreshBloodLoss(localId);
+                    refreshRiskAssessments(localId);
+                    refreshPreparedness(localId);
                     refreshCaseEvents(localId);
                     refreshEmergencyContacts();
                 });
             }
-        }, [localId, setActiveProfileId, refreshProfiles, refreshVitals, refreshCaseEvents, refreshEmergencyContacts])
+        }, [localId, setActiveProfileId, refreshProfiles, refreshVitals, refreshBloodLoss, refreshRiskAssessments, refreshPreparedness, refreshCaseEvents, refreshEmergencyContacts])
     );
 
     if (!profile) {
@@ -144,8 +182,12 @@ export default function PatientDetailScreen() {
     }
 
     const riskColors = RISK_COLORS[profile.risk_level as RiskLevel] ?? RISK_COLORS.low;
-    const peakBloodLoss = vitalSigns.reduce((peak, v) => Math.max(peak, v.estimated_blood_loss), 0);
-    const bloodLossAssessment = assessBloodLoss(peakBloodLoss);
+    const bloodLossAssessment = assessBloodLoss(cumulativeBloodLoss);
+    const preparedness = getPreparednessStatus(
+        buildPreparednessChecklist(profile.riskResult ?? { level: profile.risk_level as RiskLevel, factors: [] }),
+        preparednessChecks
+    );
+    const preparednessDone = preparedness.filter(p => p.completedAt).length;
 
     const handleStatusChange = async (newStatus: string) => {
         if (newStatus === 'closed') {
@@ -237,8 +279,35 @@ export default function PatientDetailScreen() {
                             ))}
                         </View>
                     )}
+
+                    {/* Risk history — newest first */}
+                    {riskAssessments.length > 0 && (
+                        <View style={[styles.riskHistory, { borderTopColor: riskColors.border + '60' }]}>
+                            {riskAssessments.map(a => (
+                                <View key={a.local_id} style={styles.riskHistoryRow}>
+                                    <Text style={[styles.riskHistoryTime, { color: riskColors.text }]}>
+                                        {new Date(a.assessed_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                    </Text>
+                                    <Text style={[styles.riskHistoryText, { color: riskColors.text }]} numberOfLines={2}>
+                                        {a.previous_risk_level ? `${RISK_LABELS[a.previous_risk_level as RiskLevel]} → ` : ''}{RISK_LABELS[a.risk_level as RiskLevel]} (score {a.risk_score})
+                                        {a.notes ? ` · ${a.notes}` : ''}
+                                    </Text>
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
+                    {profile.status !== 'closed' && isCreator && (
+                        <TouchableOpacity style={styles.amendButton} onPress={() => setShowReassessModal(true)}>
+                            <Ionicons name="refresh" size={14} color={riskColors.text} />
+                            <Text style={[styles.amendButtonText, { color: riskColors.text }]}>Reassess</Text>
+                        </TouchableOpacity>
+                    )}
                 </View>
 
+                {/* Trend-based deterioration warning */}
+                <DeteriorationBanner />
+
                 {/* Shock Index & Blood Loss */}
                 <View style={styles.metricsRow}>
                     {/* Shock Index */}
@@ -260,11 +329,11 @@ export default function PatientDetailScreen() {
                         )}
                     </View>
 
-                    {/* Peak Blood Loss */}
+                    {/* Cumulative Blood Loss */}
                     <View style={[styles.metricCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
-                        <Text style={[styles.metricLabel, { color: colors.textSecondary }]}>Peak Blood Loss</Text>
+                        <Text style={[styles.metricLabel, { color: colors.textSecondary }]}>Cumulative Blood Loss</Text>
                         <Text style={[styles.metricValue, { color: bloodLossAssessment.bgColor }]}>
-                            {peakBloodLoss} mL
+                            {cumulativeBloodLoss} mL
                         </Text>
                         <View style={[styles.metricBadge, { backgroundColor: bloodLossAssessment.bgColor }]}>
                             <Text style={[styles.metricBadgeText, { color: bloodLossAssessment.color }]}>
@@ -351,6 +420,46 @@ export default function PatientDetailScreen() {
                     )}
                 </TouchableOpacity>
 
+                {/* Preparedness Checklist */}
+                {preparedness.length > 0 && (
+                    <>
+                        <View style={styles.sectionHeaderRow}>
+                            <Text style={[styles.sectionTitle, { color: colors.text }]}>Preparedness</Text>
+                            <Text style={[styles.timelineCount, { color: preparednessDone === preparedness.length ? colors.success : colors.textSecondary }]}>
+                                {preparednessDone}/{preparedness.length} done
+                            </Text>
+                        </View>
+                        <PreparednessChecklist
+                            profileLocalId={localId!}
+                            items={preparedness}
+                            editable={isCreator && profile.status !== 'closed'}
+                        />
+                    </>
+                )}
+
+                {/* Vitals Trends */}
+                {vitalSigns.length > 0 && (
+                    <>
+                        <View style={styles.sectionHeaderRow}>
+                            <Text style={[styles.sectionTitle, { color: colors.text }]}>Trends</Text>
+                        </View>
+                        <VitalsChart deliveryTime={profile.delivery_time} />
+                    </>
+                )}
+
+                {/* Blood Loss Ledger */}
+                {bloodLossEntries.length > 0 && (
+                    <>
+                        <View style={styles.sectionHeaderRow}>
+                            <Text style={[styles.sectionTitle, { color: colors.text }]}>Blood Loss</Text>
+                            <Text style={[styles.timelineCount, { color: colors.textSecondary }]}>
+                                {bloodLossEntries.length} {bloodLossEntries.length === 1 ? 'entry' : 'entries'}
+                            </Text>
+                        </View>
+                        <BloodLossLedger />
+                    </>
+                )}
+
                 {/* Vital Signs History */}
                 <View style={styles.sectionHeaderRow}>
                     <Text style={[styles.sectionTitle, { color: colors.text }]}>Vital Signs</Text>
@@ -369,87 +478,140 @@ export default function PatientDetailScreen() {
                         </Text>
                     </View>
                 ) : (
-                    vitalSigns.map((v) => (
-                        <View
-                            key={v.local_id}
-                            style={[styles.vitalCard, { backgroundColor: colors.card, borderColor: colors.border }]}
-                        >
-                            {/* Sync indicator */}
-                            {!v.is_synced && (
-                                <View style={styles.syncIndicator}>
-                                    <Ionicons name="cloud-offline-outline" size={14} color={colors.textSecondary} />
-                                </View>
-                            )}
-
-                            {/* Header: time + shock badge */}
-                            <View style={styles.vitalCardHeader}>
-                                <Text style={[styles.vitalTime, { color: colors.textSecondary }]}>
-                                    {new Date(v.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                                    {' · '}
-                                    {new Date(v.recorded_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}
-                                </Text>
-                                {v.shockResult && (
-                                    <View style={[styles.shockBadge, { backgroundColor: v.shockResult.bgColor }]}>
-                                        <Text style={[styles.shockBadgeText, { color: v.shockResult.color }]}>
-                                            SI {v.shockResult.value.toFixed(1)} · {v.shockResult.label}
-                                        </Text>
+                    vitalSigns.map((v) => {
+                        const voided = isVoided(v);
+                        const changes = getVitalChanges(v);
+                        const canAmend = isCreator && profile.status !== 'closed' && !voided;
+                        return (
+                            <TouchableOpacity
+                                key={v.local_id}
+                                style={[styles.vitalCard, { backgroundColor: colors.card, borderColor: colors.border }, voided && { opacity: 0.6 }]}
+                                onLongPress={canAmend ? () => setAmendingVital(v) : undefined}
+                                activeOpacity={canAmend ? 0.8 : 1}
+                            >
+                                {/* Sync indicator */}
+                                {!v.is_synced && (
+                                    <View style={styles.syncIndicator}>
+                                        <Ionicons name="cloud-offline-outline" size={14} color={colors.textSecondary} />
                                     </View>
                                 )}
-                            </View>
 
-                            {/* Vital grid */}
-                            <View style={styles.vitalGrid}>
-                                {v.heart_rate != null && (
-                                    <View style={styles.vitalItem}>
-                                        <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>HR</Text>
-                                        <Text style={[styles.vitalItemValue, { color: colors.text }]}>
-                                            {v.heart_rate} <Text style={styles.vitalItemUnit}>bpm</Text>
-                                        </Text>
-                                    </View>
-                                )}
-                                {v.systolic_bp != null && (
-                                    <View style={styles.vitalItem}>
-                                        <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>BP</Text>
-                                        <Text style={[styles.vitalItemValue, { color: colors.text }]}>
-                                            {v.systolic_bp}/{v.diastolic_bp ?? '—'} <Text style={styles.vitalItemUnit}>mmHg</Text>
-                                        </Text>
-                                    </View>
-                                )}
-                                {v.temperature != null && (
-                                    <View style={styles.vitalItem}>
-                                        <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>Temp</Text>
-                                        <Text style={[styles.vitalItemValue, { color: colors.text }]}>
-                                            {v.temperature} <Text style={styles.vitalItemUnit}>°C</Text>
-                                        </Text>
-                                    </View>
-                                )}
-                                {v.respiratory_rate != null && (
-                                    <View style={styles.vitalItem}>
-                                        <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>RR</Text>
-                                        <Text style={[styles.vitalItemValue, { color: colors.text }]}>
-                                            {v.respiratory_rate} <Text style={styles.vitalItemUnit}>/min</Text>
-                                        </Text>
+                                {/* Header: time + shock/MEOWS badges */}
+                                <View style={styles.vitalCardHeader}>
+                                    <Text style={[styles.vitalTime, { color: colors.textSecondary }]}>
+                                        {new Date(v.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                        {' · '}
+                                        {new Date(v.recorded_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                                    </Text>
+                                    <View style={styles.badgeRow}>
+                                        {v.meowsResult && (v.meowsResult.red > 0 || v.meowsResult.yellow > 0) && (
+                                            <View style={[styles.shockBadge, { backgroundColor: v.meowsResult.bgColor }]}>
+                                                <Text style={[styles.shockBadgeText, { color: v.meowsResult.color }]}>
+                                                    MEOWS {formatMeows(v.meowsResult.red, v.meowsResult.yellow)}
+                                                </Text>
+                                            </View>
+                                        )}
+                                        {v.shockResult && (
+                                            <View style={[styles.shockBadge, { backgroundColor: v.shockResult.bgColor }]}>
+                                                <Text style={[styles.shockBadgeText, { color: v.shockResult.color }]}>
+                                                    SI {v.shockResult.value.toFixed(1)} · {v.shockResult.label}
+                                                </Text>
+                                            </View>
+                                        )}
                                     </View>
-                                )}
-                                {v.spo2 != null && (
-                                    <View style={styles.vitalItem}>
-                                        <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>SpO₂</Text>
-                                        <Text style={[styles.vitalItemValue, { color: colors.text }]}>
-                                            {v.spo2} <Text style={styles.vitalItemUnit}>%</Text>
-                                        </Text>
+                                </View>
+
+                                {/* Vital grid */}
+                                <View style={styles.vitalGrid}>
+                                    {v.heart_rate != null && (
+                                        <View style={styles.vitalItem}>
+                                            <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>HR</Text>
+                                            <Text style={[styles.vitalItemValue, { color: colors.text }, voided && styles.struck]}>
+                                                {v.heart_rate} <Text style={styles.vitalItemUnit}>bpm</Text>
+                                            </Text>
+                                        </View>
+                                    )}
+                                    {v.systolic_bp != null && (
+                                        <View style={styles.vitalItem}>
+                                            <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>BP</Text>
+                                            <Text style={[styles.vitalItemValue, { color: colors.text }, voided && styles.struck]}>
+                                                {v.systolic_bp}/{v.diastolic_bp ?? '—'} <Text style={styles.vitalItemUnit}>mmHg</Text>
+                                            </Text>
+                                        </View>
+                                    )}
+                                    {v.temperature != null && (
+                                        <View style={styles.vitalItem}>
+                                            <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>Temp</Text>
+                                            <Text style={[styles.vitalItemValue, { color: colors.text }, voided && styles.struck]}>
+                                                {v.temperature} <Text style={styles.vitalItemUnit}>°C</Text>
+                                            </Text>
+                                        </View>
+                                    )}
+                                    {v.respiratory_rate != null && (
+                                        <View style={styles.vitalItem}>
+                                            <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>RR</Text>
+                                            <Text style={[styles.vitalItemValue, { color: colors.text }, voided && styles.struck]}>
+                                                {v.respiratory_rate} <Text style={styles.vitalItemUnit}>/min</Text>
+                                            </Text>
+                                        </View>
+                                    )}
+                                    {v.spo2 != null && (
+                                        <View style={styles.vitalItem}>
+                                            <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>SpO₂</Text>
+                                            <Text style={[styles.vitalItemValue, { color: colors.text }, voided && styles.struck]}>
+                                                {v.spo2} <Text style={styles.vitalItemUnit}>%</Text>
+                                            </Text>
+                                        </View>
+                                    )}
+                                    {v.estimated_blood_loss != null && (
+                                        <View style={styles.vitalItem}>
+                                            <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>EBL</Text>
+                                            <Text style={[styles.vitalItemValue, { color: colors.text }, voided && styles.struck]}>
+                                                {v.estimated_blood_loss} <Text style={styles.vitalItemUnit}>mL</Text>
+                                            </Text>
+                                        </View>
+                                    )}
+                                </View>
+
+                                {/* Amendment audit: reason + originals struck through */}
+                                {v.amendment_status && (
+                                    <View style={[styles.amendmentRow, { borderTopColor: colors.border }]}>
+                                        <Ionicons
+                                            name={voided ? 'ban-outline' : 'create-outline'}
+                                            size={14}
+                                            color={voided ? colors.error : colors.warning}
+                                        />
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={[styles.amendmentText, { color: colors.textSecondary }]}>
+                                                {voided ? 'Voided' : 'Amended'}: {v.amendment_reason}
+                                            </Text>
+                                            {changes.length > 0 && (
+                                                <Text style={[styles.amendmentText, { color: colors.textSecondary }]}>
+                                                    {changes.map((c, i) => (
+                                                        <Text key={c.field}>
+                                                            {i > 0 ? ', ' : ''}{c.label}{' '}
+                                                            <Text style={styles.struck}>{c.original ?? '—'}</Text>
+                                                            {' → '}{c.current ?? '—'}
+                                                        </Text>
+                                                    ))}
+                                                </Text>
+                                            )}
+                                        </View>
                                     </View>
                                 )}
-                                {v.estimated_blood_loss != null && (
-                                    <View style={styles.vitalItem}>
-                                        <Text style={[styles.vitalItemLabel, { color: colors.textSecondary }]}>EBL</Text>
-                                        <Text style={[styles.vitalItemValue, { color: colors.text }]}>
-                                            {v.estimated_blood_loss} <Text style={styles.vitalItemUnit}>mL</Text>
-                                        </Text>
-                                    </View>
+                                {canAmend && (
+                                    <TouchableOpacity
+                                        style={styles.amendButton}
+                                        onPress={() => setAmendingVital(v)}
+                                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                    >
+                                        <Ionicons name="create-outline" size={14} color={colors.textSecondary} />
+                                        <Text style={[styles.amendButtonText, { color: colors.textSecondary }]}>Correct</Text>
+                                    </TouchableOpacity>
                                 )}
-                            </View>
-                        </View>
-                    ))
+                            </TouchableOpacity>
+                        );
+                    })
                 )}
 
                 {/* E-MOTIVE Bundle Checklist */}
@@ -478,6 +640,51 @@ export default function PatientDetailScreen() {
                     </View>
                 )}
 
+                {/* Previous Deliveries */}
+                {patientHistory && patientHistory.episodes.length > 0 && (
+                    <View style={styles.historySection}>
+                        <View style={styles.timelineHeader}>
+                            <Text style={[styles.sectionTitle, { color: colors.text }]}>Previous Deliveries</Text>
+                            <Text style={[styles.timelineCount, { color: colors.textSecondary }]}>
+                                {patientHistory.episodes.length}
+                            </Text>
+                        </View>
+                        {patientHistory.episodes.map(episode => {
+                            const episodeLevel: RiskLevel = RISK_COLORS[episode.risk_level as RiskLevel] ? episode.risk_level as RiskLevel : 'low';
+                            const episodeRisk = RISK_COLORS[episodeLevel];
+                            return (
+                                <TouchableOpacity
+                                    key={episode.local_id}
+                                    style={[styles.historyCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                                    onPress={() => router.push({
+                                        pathname: '/(app)/clinical/patient-detail',
+                                        params: { localId: episode.local_id },
+                                    })}
+                                    activeOpacity={0.7}
+                                >
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={[styles.historyDate, { color: colors.text }]}>
+                                            {new Date(episode.delivery_time ?? episode.created_at).toLocaleDateString([], { dateStyle: 'medium' })}
+                                        </Text>
+                                        <Text style={[styles.historyDetail, { color: colors.textSecondary }]}>
+                                            {episode.outcome === 'pph_resolved' ? 'PPH (resolved)'
+                                                : episode.outcome === 'referred' ? 'Referred'
+                                                    : episode.outcome === 'normal' ? 'Normal delivery'
+                                                        : episode.status.split('_').join(' ')}
+                                        </Text>
+                                    </View>
+                                    <View style={[styles.historyRiskBadge, { backgroundColor: episodeRisk.bg }]}>
+                                        <Text style={[styles.historyRiskText, { color: episodeRisk.text }]}>
+                                            {RISK_LABELS[episodeLevel]}
+                                        </Text>
+                                    </View>
+                                    <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                )}
+
                 {/* Case Timeline */}
                 <View style={styles.timelineHeader}>
                     <Text style={[styles.sectionTitle, { color: colors.text }]}>Case Timeline</Text>
@@ -497,6 +704,10 @@ export default function PatientDetailScreen() {
             {/* Emergency Escalation Modal */}
             <EscalationModal visible={showEscalationModal} onClose={() => setShowEscalationModal(false)} />
 
+            <AmendVitalModal vital={amendingVital} onClose={() => setAmendingVital(null)} />
+
+            <RiskReassessModal profile={profile} visible={showReassessModal} onClose={() => setShowReassessModal(false)} />
+
             {/* Close Case Outcome Modal */}
             <Modal visible={showCloseModal} transparent animationType="fade" onRequestClose={() => setShowCloseModal(false)}>
                 <Pressable style={styles.modalOverlay} onPress={() => setShowCloseModal(false)}>
@@ -643,6 +854,12 @@ const styles = StyleSheet.create({
     factorDot: { width: 6, height: 6, borderRadius: 3 },
     factorText: { ...Typography.bodySm },
 
+    // Risk history
+    riskHistory: { marginTop: Spacing.smd, paddingTop: Spacing.sm, borderTopWidth: 1, gap: Spacing.xs },
+    riskHistoryRow: { flexDirection: 'row', gap: Spacing.sm },
+    riskHistoryTime: { ...Typography.labelSm },
+    riskHistoryText: { ...Typography.bodySm, flex: 1 },
+
     // Metrics
     metricsRow: { flexDirection: 'row', gap: Spacing.smd, marginBottom: Spacing.md },
     metricCard: {
@@ -741,6 +958,27 @@ const styles = StyleSheet.create({
     sectionTitle: { ...Typography.headingSm },
     timelineCount: { ...Typography.bodySm },
 
+    // Previous deliveries
+    historySection: { marginBottom: Spacing.md },
+    historyCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        padding: Spacing.smd,
+        marginBottom: Spacing.sm,
+        ...Shadows.sm,
+    },
+    historyDate: { ...Typography.labelMd },
+    historyDetail: { ...Typography.bodySm, marginTop: 2, textTransform: 'capitalize' },
+    historyRiskBadge: {
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: 2,
+        borderRadius: Radius.full,
+    },
+    historyRiskText: { ...Typography.labelSm },
+
     // Vital cards
     vitalCard: {
         borderRadius: Radius.md,
@@ -756,6 +994,7 @@ const styles = StyleSheet.create({
         marginBottom: Spacing.sm,
     },
     vitalTime: { ...Typography.labelSm },
+    badgeRow: { flexDirection: 'row', gap: Spacing.xs },
     shockBadge: {
         paddingHorizontal: Spacing.sm,
         paddingVertical: 2,
@@ -774,6 +1013,24 @@ const styles = StyleSheet.create({
     vitalItemUnit: { ...Typography.bodySm, fontWeight: '400' },
 
     syncIndicator: { position: 'absolute', top: 8, right: 8 },
+    amendmentRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: Spacing.xs,
+        marginTop: Spacing.sm,
+        paddingTop: Spacing.sm,
+        borderTopWidth: 1,
+    },
+    amendmentText: { ...Typography.bodySm, fontSize: 12 },
+    struck: { textDecorationLine: 'line-through' },
+    amendButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-end',
+        gap: 4,
+        marginTop: Spacing.xs,
+    },
+    amendButtonText: { ...Typography.labelSm },
 
     // Empty states
     emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
@@ -7,19 +7,35 @@
  * - Live shock index calculation as values are entered
  * - Visual alert banner when SI crosses threshold
  * - Haptic feedback on critical values
+ * - Plausibility checks: impossible values block saving, unusual values
+ *   or sudden changes must be re-entered to confirm
  */
 
+import { EscalationModal } from '@/components/clinical/escalation-modal';
 import { ShockAlarmBanner } from '@/components/clinical/ShockAlarmBanner';
+import { VitalsConfirmModal } from '@/components/clinical/vitals-confirm-modal';
 import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
 import { useClinical } from '@/context/clinical';
 import { useToast } from '@/context/toast';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { ShockResult, assessBloodLoss, calculateShockIndex, triggerShockAlarm, triggerShockHaptic } from '@/lib/shock-index';
+import { BloodLossMethod, weighedVolumeMl } from '@/lib/blood-loss';
+import { calculateMeows, formatMeows } from '@/lib/meows';
+import {
+    ShockResult,
+    assessBloodLoss,
+    calculateShockIndex,
+    shouldEscalateShock,
+    shouldSoundAlarm,
+    triggerShockAlarm,
+    triggerShockHaptic,
+} from '@/lib/shock-index';
+import { VitalIssue, VitalsValues, isWithinHardLimits, validateVitals } from '@/lib/vitals-validation';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useMemo, useState } from 'react';
 import {
+    Alert,
     KeyboardAvoidingView,
     Platform,
     ScrollView,
@@ -42,7 +58,7 @@ export default function RecordVitalsScreen() {
     const { localId } = useLocalSearchParams<{ localId: string }>();
     const colorScheme = useColorScheme();
     const colors = Colors[colorScheme ?? 'light'];
-    const { recordVitals, profiles, emotiveChecklist, startEmotiveBundle, alarmMuted, toggleAlarmMute } = useClinical();
+    const { recordVitals, profiles, emotiveChecklist, startEmotiveBundle, alarmMuted, toggleAlarmMute, cumulativeBloodLoss, latestVital } = useClinical();
     const { showToast } = useToast();
 
     const profile = profiles.find(p => p.local_id === localId);
@@ -55,8 +71,12 @@ export default function RecordVitalsScreen() {
     const [respiratoryRate, setRespiratoryRate] = useState('');
     const [spo2, setSpo2] = useState('');
     const [bloodLoss, setBloodLoss] = useState('0');
-    const [bloodLossMethod, setBloodLossMethod] = useState<'visual' | 'drape' | 'weighed'>('visual');
+    const [bloodLossMethod, setBloodLossMethod] = useState<BloodLossMethod>('visual');
+    const [dryWeight, setDryWeight] = useState('');
+    const [wetWeight, setWetWeight] = useState('');
     const [isSaving, setIsSaving] = useState(false);
+    const [showEscalationModal, setShowEscalationModal] = useState(false);
+    const [pendingWarnings, setPendingWarnings] = useState<VitalIssue[]>([]);
 
     const isClosed = profile?.status === 'closed';
 
@@ -68,11 +88,17 @@ export default function RecordVitalsScreen() {
     const shockResult: ShockResult | null = useMemo(() => {
         const hr = parseInt(heartRate);
         const sbp = parseInt(systolicBp);
+        // A mistyped value (HR 1200, SBP 12) must not sound the alarm
+        if (hr > 0 && sbp > 0 && (!isWithinHardLimits('heartRate', hr) || !isWithinHardLimits('systolicBp', sbp))) {
+            pulseScale.value = 1;
+            triggerShockAlarm('normal');
+            return null;
+        }
         if (hr > 0 && sbp > 0) {
             const result = calculateShockIndex(hr, sbp);
 
-            // Trigger haptic + audio on significant level changes
-            if (result.level === 'critical' || result.level === 'emergency') {
+            // Trigger haptic + audio on levels the facility policy marks as alarming
+            if (shouldSoundAlarm(result.level)) {
                 triggerShockHaptic(result.level);
                 triggerShockAlarm(result.level);
                 pulseScale.value = withRepeat(
@@ -85,7 +111,7 @@ export default function RecordVitalsScreen() {
                 );
             } else {
                 pulseScale.value = 1;
-                triggerShockAlarm(result.level); // stops alarm for non-critical
+                triggerShockAlarm(result.level); // stops alarm for non-alarming levels
             }
 
             return result;
@@ -94,38 +120,87 @@ export default function RecordVitalsScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [heartRate, systolicBp]);
 
+    // Live MEOWS — scored from every charted parameter, not just HR/SBP
+    const meowsResult = useMemo(() => calculateMeows({
+        heartRate: parseInt(heartRate) || undefined,
+        systolicBp: parseInt(systolicBp) || undefined,
+        diastolicBp: parseInt(diastolicBp) || undefined,
+        temperature: parseFloat(temperature) || undefined,
+        respiratoryRate: parseInt(respiratoryRate) || undefined,
+        spo2: parseInt(spo2) || undefined,
+    }), [heartRate, systolicBp, diastolicBp, temperature, respiratoryRate, spo2]);
+
+    // Blood loss entered here is an increment — weighed entries derive it from pad/drape weights
+    const weighedMl = bloodLossMethod === 'weighed'
+        ? weighedVolumeMl(parseFloat(dryWeight), parseFloat(wetWeight))
+        : null;
+    const bloodLossIncrement = bloodLossMethod === 'weighed' ? (weighedMl ?? 0) : (parseInt(bloodLoss) || 0);
+    const projectedBloodLoss = cumulativeBloodLoss + bloodLossIncrement;
+
     const isPphSuspected = useMemo(() => {
-        const ebl = parseInt(bloodLoss) || 0;
+        const ebl = projectedBloodLoss;
         const si = shockResult?.value || 0;
         return ebl > 0 || si >= 0.9;
-    }, [bloodLoss, shockResult]);
+    }, [projectedBloodLoss, shockResult]);
 
     const shouldShowStartBundle = isPphSuspected && !emotiveChecklist && !isClosed;
 
-    // Blood loss assessment
-    const bloodLossResult = useMemo(() => {
-        const ebl = parseInt(bloodLoss) || 0;
-        return assessBloodLoss(ebl);
-    }, [bloodLoss]);
+    // Blood loss assessment — driven by the cumulative total, not this entry alone
+    const bloodLossResult = useMemo(() => assessBloodLoss(projectedBloodLoss), [projectedBloodLoss]);
+
+    const values: VitalsValues = useMemo(() => ({
+        heartRate: heartRate ? parseInt(heartRate) : undefined,
+        systolicBp: systolicBp ? parseInt(systolicBp) : undefined,
+        diastolicBp: diastolicBp ? parseInt(diastolicBp) : undefined,
+        temperature: temperature ? parseFloat(temperature) : undefined,
+        respiratoryRate: respiratoryRate ? parseInt(respiratoryRate) : undefined,
+        spo2: spo2 ? parseInt(spo2) : undefined,
+        bloodLossIncrement,
+    }), [heartRate, systolicBp, diastolicBp, temperature, respiratoryRate, spo2, bloodLossIncrement]);
+
+    // Same checks the provider enforces — shown live so problems are caught while typing
+    const validation = useMemo(() => validateVitals(values, latestVital), [values, latestVital]);
+
+    const goBack = () => {
+        if (router.canGoBack()) {
+            router.back();
+        } else {
+            router.replace('/(app)/(tabs)/clinical');
+        }
+    };
 
     const handleSave = async () => {
         if (!heartRate && !systolicBp) {
             showToast('Please enter at least heart rate or blood pressure', 'error');
             return;
         }
+        if (bloodLossMethod === 'weighed' && (dryWeight || wetWeight) && weighedMl === null) {
+            showToast('Wet weight must be at least the dry weight', 'error');
+            return;
+        }
+        if (validation.errors.length > 0) {
+            showToast(validation.errors[0].message, 'error');
+            return;
+        }
+        if (validation.warnings.length > 0) {
+            setPendingWarnings(validation.warnings);
+            return;
+        }
+
+        await submitVitals(false);
+    };
 
+    const submitVitals = async (overrideWarnings: boolean) => {
         setIsSaving(true);
         try {
             await recordVitals({
                 maternalProfileLocalId: localId!,
-                heartRate: heartRate ? parseInt(heartRate) : undefined,
-                systolicBp: systolicBp ? parseInt(systolicBp) : undefined,
-                diastolicBp: diastolicBp ? parseInt(diastolicBp) : undefined,
-                temperature: temperature ? parseFloat(temperature) : undefined,
-                respiratoryRate: respiratoryRate ? parseInt(respiratoryRate) : undefined,
-                spo2: spo2 ? parseInt(spo2) : undefined,
-                estimatedBloodLoss: parseInt(bloodLoss) || 0,
+                ...values,
+                bloodLossIncrement,
                 bloodLossMethod,
+                dryWeightG: bloodLossMethod === 'weighed' && dryWeight ? parseFloat(dryWeight) : undefined,
+                wetWeightG: bloodLossMethod === 'weighed' && wetWeight ? parseFloat(wetWeight) : undefined,
+                overrideWarnings,
             });
 
             if (shouldShowStartBundle && localId) {
@@ -133,11 +208,28 @@ export default function RecordVitalsScreen() {
             }
 
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            if (router.canGoBack()) {
-                router.back();
-            } else {
-                router.replace('/(app)/(tabs)/clinical');
+
+            // Facility SI escalation level or MEOWS trigger (1 red or 2+ yellow) — offer escalation before leaving
+            const reasons: string[] = [];
+            if (shockResult && shouldEscalateShock(shockResult.level)) {
+                reasons.push(`Shock index ${shockResult.value.toFixed(1)} (${shockResult.label})`);
             }
+            if (meowsResult.shouldEscalate) {
+                reasons.push(`MEOWS ${formatMeows(meowsResult.red, meowsResult.yellow)}: ${meowsResult.triggers.map(t => t.label).join(', ')}`);
+            }
+            if (reasons.length > 0) {
+                Alert.alert(
+                    'Escalation Recommended',
+                    `${reasons.join('\n')}\n\nUrgent medical review is recommended.`,
+                    [
+                        { text: 'Later', style: 'cancel', onPress: goBack },
+                        { text: 'Escalate', style: 'destructive', onPress: () => setShowEscalationModal(true) },
+                    ]
+                );
+                return;
+            }
+
+            goBack();
         } catch {
             showToast('Failed to record vital signs', 'error');
         } finally {
@@ -175,7 +267,7 @@ export default function RecordVitalsScreen() {
                     keyboardShouldPersistTaps="handled"
                 >
                     {/* Alarm Banner for Critical/Emergency */}
-                    {shockResult && (shockResult.level === 'critical' || shockResult.level === 'emergency') && (
+                    {shockResult && shouldSoundAlarm(shockResult.level) && (
                         <ShockAlarmBanner
                             shockLevel={shockResult.level}
                             shockValue={shockResult.value}
@@ -220,6 +312,33 @@ export default function RecordVitalsScreen() {
                         </Animated.View>
                     )}
 
+                    {/* Live MEOWS Banner */}
+                    {meowsResult.triggers.length > 0 && (
+                        <View style={[styles.meowsBanner, { backgroundColor: meowsResult.bgColor }]}>
+                            <View style={styles.shockBannerContent}>
+                                <Ionicons
+                                    name={meowsResult.shouldEscalate ? 'alert-circle' : 'warning'}
+                                    size={24}
+                                    color={meowsResult.color}
+                                />
+                                <View style={styles.shockTextContainer}>
+                                    <Text style={[styles.meowsValue, { color: meowsResult.color }]}>
+                                        MEOWS {formatMeows(meowsResult.red, meowsResult.yellow)}
+                                    </Text>
+                                    <Text style={[styles.shockLabel, { color: meowsResult.color }]}>
+                                        {meowsResult.label}
+                                    </Text>
+                                </View>
+                            </View>
+                            <Text style={[styles.shockDesc, { color: meowsResult.color }]}>
+                                {meowsResult.triggers.map(t => `${t.label} ${t.value}`).join(' · ')}
+                            </Text>
+                            <Text style={[styles.shockDesc, { color: meowsResult.color }]}>
+                                {meowsResult.description}
+                            </Text>
+                        </View>
+                    )}
+
                     {/* ─── Core Vitals ─── */}
                     <Text style={[styles.sectionTitle, { color: colors.text }]}>Core Vitals</Text>
                     <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
@@ -304,68 +423,114 @@ export default function RecordVitalsScreen() {
                     </View>
 
                     {/* ─── Blood Loss ─── */}
-                    <Text style={[styles.sectionTitle, { color: colors.text }]}>Blood Loss Estimation</Text>
+                    <Text style={[styles.sectionTitle, { color: colors.text }]}>Blood Loss Since Last Entry</Text>
                     <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
-                        {/* Main blood loss input */}
-                        <View style={[
-                            styles.bloodLossInputRow, 
-                            { 
-                                backgroundColor: isClosed ? colors.border + '10' : colors.inputBackground, 
-                                borderColor: colors.inputBorder,
-                                opacity: isClosed ? 0.7 : 1
-                            }
-                        ]}>
-                            <Ionicons name="water" size={22} color={parseInt(bloodLoss) > 500 ? '#EF4444' : colors.textSecondary} />
-                            <TextInput
-                                style={[styles.bloodLossValue, { color: colors.text }]}
-                                value={bloodLoss}
-                                onChangeText={(t) => setBloodLoss(t.replace(/[^0-9]/g, ''))}
-                                keyboardType="numeric"
-                                maxLength={5}
-                                placeholder="0"
-                                placeholderTextColor={colors.placeholder}
-                                editable={!isClosed}
-                            />
-                            <Text style={[styles.bloodLossUnit, { color: colors.textSecondary }]}>mL</Text>
+                        {/* Running total */}
+                        <View style={styles.runningTotalRow}>
+                            <Text style={[styles.runningTotalLabel, { color: colors.textSecondary }]}>Cumulative</Text>
+                            <Text style={[styles.runningTotalValue, { color: colors.text }]}>
+                                {cumulativeBloodLoss} mL{bloodLossIncrement > 0 ? ` → ${projectedBloodLoss} mL` : ''}
+                            </Text>
                         </View>
 
-                        {/* Blood loss quick buttons */}
-                        {!isClosed && (
-                            <View style={styles.quickButtons}>
-                                {[100, 250, 500, 1000].map((amount) => (
-                                    <TouchableOpacity
-                                        key={amount}
-                                        style={[styles.quickButton, {
-                                            borderColor: colors.border,
-                                            backgroundColor: colors.inputBackground,
-                                        }]}
-                                        onPress={() => {
-                                            const current = parseInt(bloodLoss) || 0;
-                                            setBloodLoss(String(current + amount));
-                                            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                                        }}
-                                        activeOpacity={0.6}
-                                    >
-                                        <Text style={[styles.quickButtonText, { color: colors.primary }]}>
-                                            +{amount}
-                                        </Text>
-                                    </TouchableOpacity>
-                                ))}
-                                <TouchableOpacity
-                                    style={[styles.quickButton, {
-                                        borderColor: colors.error + '40',
-                                        backgroundColor: colors.error + '08',
-                                    }]}
-                                    onPress={() => {
-                                        setBloodLoss('0');
-                                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                                    }}
-                                    activeOpacity={0.6}
-                                >
-                                    <Text style={[styles.quickButtonText, { color: colors.error }]}>Reset</Text>
-                                </TouchableOpacity>
+                        {/* Main blood loss input */}
+                        {bloodLossMethod !== 'weighed' && (
+                            <>
+                                <View style={[
+                                    styles.bloodLossInputRow, 
+                                    { 
+                                        backgroundColor: isClosed ? colors.border + '10' : colors.inputBackground, 
+                                        borderColor: colors.inputBorder,
+                                        opacity: isClosed ? 0.7 : 1
+                                    }
+                                ]}>
+                                    <Ionicons name="water" size={22} color={parseInt(bloodLoss) > 500 ? '#EF4444' : colors.textSecondary} />
+                                    <TextInput
+                                        style={[styles.bloodLossValue, { color: colors.text }]}
+                                        value={bloodLoss}
+                                        onChangeText={(t) => setBloodLoss(t.replace(/[^0-9]/g, ''))}
+                                        keyboardType="numeric"
+                                        maxLength={5}
+                                        placeholder="0"
+                                        placeholderTextColor={colors.placeholder}
+                                        editable={!isClosed}
+                                    />
+                                    <Text style={[styles.bloodLossUnit, { color: colors.textSecondary }]}>mL</Text>
+                                </View>
+
+                                {/* Blood loss quick buttons */}
+                                {!isClosed && (
+                                    <View style={styles.quickButtons}>
+                                        {[100, 250, 500, 1000].map((amount) => (
+                                            <TouchableOpacity
+                                                key={amount}
+                                                style={[styles.quickButton, {
+                                                    borderColor: colors.border,
+                                                    backgroundColor: colors.inputBackground,
+                                                }]}
+                                                onPress={() => {
+                                                    const current = parseInt(bloodLoss) || 0;
+                                                    setBloodLoss(String(current + amount));
+                                                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                                                }}
+                                                activeOpacity={0.6}
+                                            >
+                                                <Text style={[styles.quickButtonText, { color: colors.primary }]}>
+                                                    +{amount}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                        <TouchableOpacity
+                                            style={[styles.quickButton, {
+                                                borderColor: colors.error + '40',
+                                                backgroundColor: colors.error + '08',
+                                            }]}
+                                            onPress={() => {
+                                                setBloodLoss('0');
+                                                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                                            }}
+                                            activeOpacity={0.6}
+                                        >
+                                            <Text style={[styles.quickButtonText, { color: colors.error }]}>Reset</Text>
+                                        </TouchableOpacity>
+                                    </View>
+                                )}
+                            </>
+                        )}
+
+                        {/* Weighed: dry vs wet pad/drape weights (1 g ≈ 1 mL) */}
+                        {bloodLossMethod === 'weighed' && (
+                            <View style={styles.inputRow}>
+                                <VitalInput
+                                    label="Dry Weight"
+                                    value={dryWeight}
+                                    onChangeText={setDryWeight}
+                                    unit="g"
+                                    icon="scale-outline"
+                                    colors={colors}
+                                    placeholder="0"
+                                    isDecimal
+                                    editable={!isClosed}
+                                />
+                                <VitalInput
+                                    label="Wet Weight"
+                                    value={wetWeight}
+                                    onChangeText={setWetWeight}
+                                    unit="g"
+                                    icon="water-outline"
+                                    iconColor="#EF4444"
+                                    colors={colors}
+                                    placeholder="0"
+                                    isDecimal
+                                    editable={!isClosed}
+                                />
                             </View>
                         )}
+                        {bloodLossMethod === 'weighed' && weighedMl !== null && (
+                            <Text style={[styles.weighedResult, { color: colors.text }]}>
+                                = {weighedMl} mL blood
+                            </Text>
+                        )}
 
                         {/* Method selector */}
                         <Text style={[styles.methodLabel, { color: colors.textSecondary }]}>Method</Text>
@@ -399,7 +564,7 @@ export default function RecordVitalsScreen() {
                         </View>
 
                         {/* Blood loss assessment */}
-                        {parseInt(bloodLoss) > 0 && (
+                        {projectedBloodLoss > 0 && (
                             <View style={[styles.bloodLossBanner, { backgroundColor: bloodLossResult.bgColor }]}>
                                 <Text style={[styles.bloodLossBannerLabel, { color: bloodLossResult.color }]}>
                                     {bloodLossResult.label}
@@ -411,6 +576,27 @@ export default function RecordVitalsScreen() {
                         )}
                     </View>
 
+                    {/* Plausibility issues */}
+                    {(validation.errors.length > 0 || validation.warnings.length > 0) && (
+                        <View style={[styles.issuesCard, { backgroundColor: colors.card, borderColor: validation.errors.length > 0 ? colors.error : colors.warning }]}>
+                            {[...validation.errors, ...validation.warnings].map(issue => (
+                                <View key={`${issue.field}-${issue.kind}`} style={styles.issueRow}>
+                                    <Ionicons
+                                        name={issue.severity === 'error' ? 'close-circle' : 'warning'}
+                                        size={16}
+                                        color={issue.severity === 'error' ? colors.error : colors.warning}
+                                    />
+                                    <Text style={[styles.issueText, { color: colors.text }]}>{issue.message}</Text>
+                                </View>
+                            ))}
+                            {validation.errors.length === 0 && (
+                                <Text style={[styles.issueHint, { color: colors.textSecondary }]}>
+                                    You will be asked to re-enter these values before saving.
+                                </Text>
+                            )}
+                        </View>
+                    )}
+
                     {/* Save Button */}
                     <TouchableOpacity
                         style={[
@@ -439,6 +625,24 @@ export default function RecordVitalsScreen() {
                     <View style={{ height: 40 }} />
                 </ScrollView>
             </KeyboardAvoidingView>
+
+            <VitalsConfirmModal
+                visible={pendingWarnings.length > 0}
+                warnings={pendingWarnings}
+                onCancel={() => setPendingWarnings([])}
+                onConfirm={() => {
+                    setPendingWarnings([]);
+                    submitVitals(true);
+                }}
+            />
+
+            <EscalationModal
+                visible={showEscalationModal}
+                onClose={() => {
+                    setShowEscalationModal(false);
+                    goBack();
+                }}
+            />
         </SafeAreaView>
     );
 }
@@ -539,6 +743,14 @@ const styles = StyleSheet.create({
     shockLabel: { ...Typography.labelSm },
     shockDesc: { ...Typography.bodySm, marginTop: Spacing.xs },
 
+    // MEOWS banner
+    meowsBanner: {
+        borderRadius: Radius.lg,
+        padding: Spacing.smd,
+        marginBottom: Spacing.md,
+    },
+    meowsValue: { ...Typography.labelLg, fontWeight: '800' },
+
     // Sections
     sectionTitle: {
         ...Typography.labelMd,
@@ -612,6 +824,15 @@ const styles = StyleSheet.create({
         padding: 0,
     },
     bloodLossUnit: { ...Typography.bodyLg, fontWeight: '500' },
+    runningTotalRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: Spacing.smd,
+    },
+    runningTotalLabel: { ...Typography.labelSm },
+    runningTotalValue: { ...Typography.labelMd, fontWeight: '700' },
+    weighedResult: { ...Typography.labelMd, textAlign: 'right', marginBottom: Spacing.smd },
 
     quickButtons: {
         flexDirection: 'row',
@@ -658,6 +879,18 @@ const styles = StyleSheet.create({
     bloodLossBannerLabel: { ...Typography.labelMd, fontWeight: '700' },
     bloodLossBannerDesc: { ...Typography.bodySm, marginTop: 2, textAlign: 'center' },
 
+    // Plausibility issues
+    issuesCard: {
+        borderWidth: 1,
+        borderRadius: Radius.md,
+        padding: Spacing.smd,
+        marginTop: Spacing.md,
+        gap: Spacing.xs,
+    },
+    issueRow: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+    issueText: { ...Typography.bodySm, flex: 1 },
+    issueHint: { ...Typography.bodySm, fontSize: 12, marginTop: 2 },
+
     // Save button
     saveButton: {
         flexDirection: 'row',
@@ -0,0 +1,221 @@
+/**
+ * Sync Conflicts
+ *
+ * Lists patient records and E-MOTIVE checklists that were changed both on
+ * this device and on the server, where the automatic merge could not decide.
+ * For each conflicting field group the clinician keeps this device's version
+ * or the server's; the decision is pushed and logged on the case timeline.
+ */
+
+import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { LocalSyncConflict } from '@/lib/clinical-db';
+import { CONFLICT_TABLE_LABELS, ConflictChoice, ConflictTable, FieldConflict } from '@/lib/sync-conflicts';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+    ActivityIndicator,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export default function SyncConflictsScreen() {
+    const { syncConflicts, refreshSyncConflicts, resolveSyncConflict, profiles } = useClinical();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [choices, setChoices] = useState<Record<string, Record<string, ConflictChoice>>>({});
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    useFocusEffect(
+        useCallback(() => {
+            refreshSyncConflicts();
+        }, [refreshSyncConflicts])
+    );
+
+    const choose = (conflictId: string, key: string, choice: ConflictChoice) => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [key]: choice } }));
+    };
+
+    const handleResolve = async (conflict: LocalSyncConflict) => {
+        setSavingId(conflict.id);
+        try {
+            await resolveSyncConflict(conflict.id, choices[conflict.id] ?? {});
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            showToast('Decision saved', 'success');
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to resolve conflict', 'error');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => {
+                    if (router.canGoBack()) router.back();
+                    else router.replace('/(app)/(tabs)');
+                }} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: colors.text }]}>Sync Conflicts</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                {syncConflicts.length === 0 ? (
+                    <View style={styles.emptyState}>
+                        <Ionicons name="checkmark-circle-outline" size={48} color={colors.success} />
+                        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                            No conflicts — this device and the server agree.
+                        </Text>
+                    </View>
+                ) : (
+                    <Text style={[styles.intro, { color: colors.textSecondary }]}>
+                        These records were changed here and on another device. Changes that did not
+                        overlap were merged automatically; choose which version to keep for the rest.
+                    </Text>
+                )}
+
+                {syncConflicts.map(conflict => {
+                    const fields: FieldConflict[] = JSON.parse(conflict.fields);
+                    const profile = profiles.find(p => p.local_id === conflict.maternal_profile_local_id);
+                    const selected = choices[conflict.id] ?? {};
+                    return (
+                        <View
+                            key={conflict.id}
+                            style={[styles.conflictCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                        >
+                            <View style={styles.conflictHeader}>
+                                <Ionicons name="git-compare-outline" size={18} color={colors.warning} />
+                                <View style={{ flex: 1 }}>
+                                    <Text style={[styles.conflictTitle, { color: colors.text }]}>
+                                        {CONFLICT_TABLE_LABELS[conflict.table_name as ConflictTable]}
+                                        {profile?.patient_id ? ` · ${profile.patient_id}` : ''}
+                                    </Text>
+                                    <Text style={[styles.conflictMeta, { color: colors.textSecondary }]}>
+                                        Detected {new Date(conflict.detected_at).toLocaleString()}
+                                    </Text>
+                                </View>
+                            </View>
+
+                            {fields.map(field => {
+                                const choice = selected[field.key] ?? 'local';
+                                return (
+                                    <View key={field.key} style={styles.fieldBlock}>
+                                        <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>{field.label}</Text>
+                                        {([
+                                            { key: 'local', title: 'This device', value: field.local, icon: 'phone-portrait-outline' },
+                                            { key: 'remote', title: 'Server', value: field.remote, icon: 'cloud-outline' },
+                                        ] as const).map(opt => {
+                                            const active = choice === opt.key;
+                                            return (
+                                                <TouchableOpacity
+                                                    key={opt.key}
+                                                    style={[
+                                                        styles.option,
+                                                        { borderColor: active ? colors.primary : colors.border },
+                                                        active && { backgroundColor: colors.primary + '10' },
+                                                    ]}
+                                                    onPress={() => choose(conflict.id, field.key, opt.key)}
+                                                >
+                                                    <Ionicons
+                                                        name={active ? 'radio-button-on' : 'radio-button-off'}
+                                                        size={18}
+                                                        color={active ? colors.primary : colors.textSecondary}
+                                                    />
+                                                    <View style={{ flex: 1 }}>
+                                                        <View style={styles.optionTitleRow}>
+                                                            <Ionicons name={opt.icon} size={12} color={colors.textSecondary} />
+                                                            <Text style={[styles.optionTitle, { color: colors.textSecondary }]}>{opt.title}</Text>
+                                                        </View>
+                                                        <Text style={[styles.optionValue, { color: colors.text }]}>{opt.value}</Text>
+                                                    </View>
+                                                </TouchableOpacity>
+                                            );
+                                        })}
+                                    </View>
+                                );
+                            })}
+
+                            <TouchableOpacity
+                                style={[styles.resolveButton, { backgroundColor: colors.primary }, savingId === conflict.id && { opacity: 0.6 }]}
+                                onPress={() => handleResolve(conflict)}
+                                disabled={!!savingId}
+                            >
+                                {savingId === conflict.id
+                                    ? <ActivityIndicator color="#FFF" />
+                                    : <Text style={styles.resolveButtonText}>Keep Selected</Text>
+                                }
+                            </TouchableOpacity>
+                        </View>
+                    );
+                })}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1 },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: Spacing.md,
+        justifyContent: 'space-between',
+    },
+    backButton: { padding: Spacing.xs },
+    headerTitle: { ...Typography.headingMd },
+
+    content: { padding: Spacing.md, paddingBottom: 40 },
+
+    emptyState: { alignItems: 'center', gap: Spacing.sm, marginTop: Spacing.xl },
+    emptyText: { ...Typography.bodyMd, textAlign: 'center' },
+    intro: { ...Typography.bodySm, marginBottom: Spacing.md },
+
+    conflictCard: {
+        padding: Spacing.md,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.md,
+        ...Shadows.sm,
+    },
+    conflictHeader: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm, marginBottom: Spacing.sm },
+    conflictTitle: { ...Typography.labelLg },
+    conflictMeta: { ...Typography.bodySm },
+
+    fieldBlock: { marginTop: Spacing.sm, gap: Spacing.xs },
+    fieldLabel: { ...Typography.overline },
+    option: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.smd,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+    },
+    optionTitleRow: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+    optionTitle: { ...Typography.labelSm },
+    optionValue: { ...Typography.bodyMd, marginTop: 2 },
+
+    resolveButton: {
+        height: 48,
+        borderRadius: Radius.md,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginTop: Spacing.md,
+    },
+    resolveButtonText: { ...Typography.buttonMd, color: '#FFF' },
+});
@@ -0,0 +1,461 @@
+/**
+ * Sync Status
+ *
+ * Everything on this device that has not reached the server yet, grouped by
+ * case and table: pending changes, changes backing off or held by a conflict,
+ * and changes that failed for good. Each shows its last error and how long it
+ * has waited. A change can be retried with a fresh retry budget or discarded;
+ * both are logged on the case timeline.
+ */
+
+import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { SyncQueueItem } from '@/lib/clinical-db';
+import {
+    formatStuckThreshold,
+    formatSyncAge,
+    getDiscardedWith,
+    getSyncItemAgeMs,
+    getSyncItemState,
+    groupSyncItems,
+    isSyncItemStuck,
+    SYNC_STATE_LABELS,
+    SYNC_STUCK_OPTIONS_MINUTES,
+    SYNC_TABLE_LABELS,
+    SyncItemState,
+} from '@/lib/sync-status';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    Platform,
+    Pressable,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const DISCARD_MESSAGE = 'This change will not be sent to the server. The record stays on this device, and the discard is logged on the case timeline.';
+
+/** A new case can't reach the server without its insert, so the changes queued against it go too */
+function discardMessage(withCount: number): string {
+    if (withCount === 0) return DISCARD_MESSAGE;
+    const changes = withCount === 1 ? '1 other change' : `${withCount} other changes`;
+    return `This new case will not be sent to the server, and neither will the ${changes} queued for it. `
+        + 'The case and its records stay on this device, and the discard is logged on the case timeline.';
+}
+
+export default function SyncStatusScreen() {
+    const {
+        syncQueueItems,
+        refreshSyncQueue,
+        retrySyncQueueItem,
+        discardSyncQueueItem,
+        syncConflicts,
+        syncStuckMinutes,
+        setSyncStuckMinutes,
+        profiles,
+    } = useClinical();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [discardTarget, setDiscardTarget] = useState<SyncQueueItem | null>(null);
+
+    useFocusEffect(
+        useCallback(() => {
+            refreshSyncQueue();
+        }, [refreshSyncQueue])
+    );
+
+    const now = new Date();
+    const stateOf = (item: SyncQueueItem): SyncItemState => getSyncItemState(
+        item,
+        syncConflicts.some(c => c.table_name === item.table_name && c.record_local_id === item.record_id),
+        now
+    );
+    const counts = syncQueueItems.reduce<Record<SyncItemState, number>>(
+        (acc, item) => ({ ...acc, [stateOf(item)]: acc[stateOf(item)] + 1 }),
+        { pending: 0, deferred: 0, failed: 0 }
+    );
+    const groups = groupSyncItems(syncQueueItems);
+
+    const stateColor: Record<SyncItemState, string> = {
+        pending: colors.primary,
+        deferred: colors.warning,
+        failed: colors.error,
+    };
+
+    const handleRetry = async (item: SyncQueueItem) => {
+        setBusyId(item.id);
+        try {
+            await retrySyncQueueItem(item.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            showToast('Queued for the next sync', 'success');
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to retry', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const discard = async (item: SyncQueueItem) => {
+        const withCount = getDiscardedWith(item, syncQueueItems).length;
+        setBusyId(item.id);
+        try {
+            await discardSyncQueueItem(item.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            showToast(withCount > 0 ? `New case discarded with ${withCount} queued ${withCount === 1 ? 'change' : 'changes'}` : 'Change discarded', 'success');
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to discard', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDiscard = (item: SyncQueueItem) => {
+        if (Platform.OS === 'web') {
+            setDiscardTarget(item);
+        } else {
+            Alert.alert(
+                'Discard Change',
+                discardMessage(getDiscardedWith(item, syncQueueItems).length),
+                [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Discard', style: 'destructive', onPress: () => discard(item) },
+                ]
+            );
+        }
+    };
+
+    const confirmDiscard = async () => {
+        if (!discardTarget) return;
+        const item = discardTarget;
+        setDiscardTarget(null);
+        await discard(item);
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => {
+                    if (router.canGoBack()) router.back();
+                    else router.replace('/(app)/(tabs)');
+                }} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: colors.text }]}>Sync Status</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                {/* Summary */}
+                <View style={styles.summaryRow}>
+                    {(Object.keys(counts) as SyncItemState[]).map(state => (
+                        <View key={state} style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                            <Text style={[styles.summaryCount, { color: counts[state] > 0 ? stateColor[state] : colors.text }]}>
+                                {counts[state]}
+                            </Text>
+                            <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>{SYNC_STATE_LABELS[state]}</Text>
+                        </View>
+                    ))}
+                </View>
+
+                {/* Stuck threshold */}
+                <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>FLAG AS STUCK AFTER</Text>
+                <View style={styles.chipRow}>
+                    {SYNC_STUCK_OPTIONS_MINUTES.map(minutes => {
+                        const active = minutes === syncStuckMinutes;
+                        return (
+                            <TouchableOpacity
+                                key={minutes}
+                                style={[
+                                    styles.chip,
+                                    { borderColor: active ? colors.primary : colors.border },
+                                    active && { backgroundColor: colors.primary + '10' },
+                                ]}
+                                onPress={() => {
+                                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                                    setSyncStuckMinutes(minutes);
+                                }}
+                            >
+                                <Text style={[styles.chipText, { color: active ? colors.primary : colors.textSecondary }]}>
+                                    {formatStuckThreshold(minutes)}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+
+                {syncQueueItems.length === 0 && (
+                    <View style={styles.emptyState}>
+                        <Ionicons name="cloud-done-outline" size={48} color={colors.success} />
+                        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                            Everything on this device has reached the server.
+                        </Text>
+                    </View>
+                )}
+
+                {groups.map(group => {
+                    const profile = profiles.find(p => p.local_id === group.caseLocalId);
+                    const caseTitle = group.caseLocalId
+                        ? `Case ${profile?.patient_id || group.caseLocalId.slice(0, 8)}`
+                        : 'Facility data';
+                    return (
+                        <View
+                            key={group.caseLocalId ?? 'none'}
+                            style={[styles.caseCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                        >
+                            <View style={styles.caseHeader}>
+                                <Ionicons name={group.caseLocalId ? 'person-outline' : 'business-outline'} size={18} color={colors.primary} />
+                                <Text style={[styles.caseTitle, { color: colors.text }]}>{caseTitle}</Text>
+                            </View>
+
+                            {group.tables.map(table => (
+                                <View key={table.tableName} style={styles.tableBlock}>
+                                    <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                                        {(SYNC_TABLE_LABELS[table.tableName] ?? table.tableName).toUpperCase()}
+                                    </Text>
+
+                                    {table.items.map(item => {
+                                        const state = stateOf(item);
+                                        const stuck = isSyncItemStuck(item, syncStuckMinutes, now);
+                                        return (
+                                            <View key={item.id} style={[styles.itemRow, { borderColor: stuck ? colors.error + '60' : colors.border }]}>
+                                                <View style={styles.itemHeader}>
+                                                    <View style={[styles.stateBadge, { backgroundColor: stateColor[state] + '18' }]}>
+                                                        <Text style={[styles.stateBadgeText, { color: stateColor[state] }]}>
+                                                            {SYNC_STATE_LABELS[state]}
+                                                        </Text>
+                                                    </View>
+                                                    <Text style={[styles.itemOperation, { color: colors.text }]}>{item.operation}</Text>
+                                                    <Text style={[styles.itemAge, { color: stuck ? colors.error : colors.textSecondary }]}>
+                                                        {formatSyncAge(getSyncItemAgeMs(item, now))}
+                                                    </Text>
+                                                </View>
+
+                                                {!!item.error_message && (
+                                                    <Text style={[styles.itemError, { color: colors.error }]}>{item.error_message}</Text>
+                                                )}
+                                                <Text style={[styles.itemMeta, { color: colors.textSecondary }]}>
+                                                    {item.retry_count} of {item.max_retries} attempts
+                                                    {state === 'deferred' && item.next_attempt_at
+                                                        ? ` · next ${new Date(item.next_attempt_at).toLocaleTimeString()}`
+                                                        : ''}
+                                                </Text>
+
+                                                <View style={styles.itemActions}>
+                                                    <TouchableOpacity
+                                                        style={[styles.actionButton, { borderColor: colors.border }]}
+                                                        onPress={() => handleDiscard(item)}
+                                                        disabled={!!busyId}
+                                                    >
+                                                        <Ionicons name="trash-outline" size={14} color={colors.error} />
+                                                        <Text style={[styles.actionText, { color: colors.error }]}>Discard</Text>
+                                                    </TouchableOpacity>
+                                                    <TouchableOpacity
+                                                        style={[styles.actionButton, { borderColor: colors.primary }]}
+                                                        onPress={() => handleRetry(item)}
+                                                        disabled={!!busyId}
+                                                    >
+                                                        {busyId === item.id
+                                                            ? <ActivityIndicator size="small" color={colors.primary} />
+                                                            : <Ionicons name="refresh" size={14} color={colors.primary} />
+                                                        }
+                                                        <Text style={[styles.actionText, { color: colors.primary }]}>Retry</Text>
+                                                    </TouchableOpacity>
+                                                </View>
+                                            </View>
+                                        );
+                                    })}
+                                </View>
+                            ))}
+                        </View>
+                    );
+                })}
+            </ScrollView>
+
+            {/* Discard Confirmation Modal (web) */}
+            <Modal visible={!!discardTarget} transparent animationType="fade" onRequestClose={() => setDiscardTarget(null)}>
+                <Pressable style={styles.discardOverlay} onPress={() => setDiscardTarget(null)}>
+                    <Pressable style={[styles.discardDialog, { backgroundColor: colors.card }]}>
+                        <View style={styles.discardIconCircle}>
+                            <Ionicons name="trash-outline" size={28} color="#EF4444" />
+                        </View>
+                        <Text style={[styles.discardTitle, { color: colors.text }]}>Discard Change</Text>
+                        <Text style={[styles.discardMessage, { color: colors.textSecondary }]}>
+                            {discardTarget && discardMessage(getDiscardedWith(discardTarget, syncQueueItems).length)}
+                        </Text>
+                        <View style={styles.discardActions}>
+                            <TouchableOpacity
+                                style={[styles.discardCancelBtn, { borderColor: colors.border }]}
+                                onPress={() => setDiscardTarget(null)}
+                            >
+                                <Text style={[styles.discardCancelText, { color: colors.textSecondary }]}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.discardConfirmBtn}
+                                onPress={confirmDiscard}
+                            >
+                                <Ionicons name="trash" size={16} color="#FFF" />
+                                <Text style={styles.discardConfirmText}>Discard</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </Modal>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1 },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: Spacing.md,
+        justifyContent: 'space-between',
+    },
+    backButton: { padding: Spacing.xs },
+    headerTitle: { ...Typography.headingMd },
+
+    content: { padding: Spacing.md, paddingBottom: 40 },
+
+    summaryRow: { flexDirection: 'row', gap: Spacing.sm, marginBottom: Spacing.md },
+    summaryCard: {
+        flex: 1,
+        alignItems: 'center',
+        padding: Spacing.smd,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+    },
+    summaryCount: { ...Typography.headingMd },
+    summaryLabel: { ...Typography.labelSm },
+
+    sectionLabel: { ...Typography.overline, marginBottom: Spacing.xs },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.sm, marginBottom: Spacing.md },
+    chip: {
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: Spacing.xs,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    chipText: { ...Typography.labelSm },
+
+    emptyState: { alignItems: 'center', gap: Spacing.sm, marginTop: Spacing.xl },
+    emptyText: { ...Typography.bodyMd, textAlign: 'center' },
+
+    caseCard: {
+        padding: Spacing.md,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.md,
+        ...Shadows.sm,
+    },
+    caseHeader: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm, marginBottom: Spacing.sm },
+    caseTitle: { ...Typography.labelLg },
+
+    tableBlock: { marginTop: Spacing.sm },
+    itemRow: {
+        padding: Spacing.smd,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        marginBottom: Spacing.sm,
+        gap: 4,
+    },
+    itemHeader: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+    stateBadge: { paddingHorizontal: Spacing.sm, paddingVertical: 2, borderRadius: Radius.full },
+    stateBadgeText: { ...Typography.labelSm },
+    itemOperation: { ...Typography.labelMd, flex: 1, textTransform: 'capitalize' },
+    itemAge: { ...Typography.labelSm },
+    itemError: { ...Typography.bodySm },
+    itemMeta: { ...Typography.bodySm },
+    itemActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: Spacing.sm, marginTop: Spacing.xs },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: Spacing.smd,
+        height: 34,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+    },
+    actionText: { ...Typography.labelSm },
+
+    // Discard confirmation modal
+    discardOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: Spacing.lg,
+    },
+    discardDialog: {
+        width: '100%',
+        maxWidth: 380,
+        borderRadius: Radius.xl,
+        padding: Spacing.xl,
+        alignItems: 'center',
+        ...Shadows.lg,
+    },
+    discardIconCircle: {
+        width: 56,
+        height: 56,
+        borderRadius: 28,
+        backgroundColor: '#FEE2E2',
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginBottom: Spacing.md,
+    },
+    discardTitle: {
+        ...Typography.headingSm,
+        marginBottom: Spacing.xs,
+    },
+    discardMessage: {
+        ...Typography.bodySm,
+        textAlign: 'center',
+        marginBottom: Spacing.xl,
+        lineHeight: 20,
+    },
+    discardActions: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+        width: '100%',
+    },
+    discardCancelBtn: {
+        flex: 1,
+        height: 44,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    discardCancelText: {
+        ...Typography.buttonMd,
+    },
+    discardConfirmBtn: {
+        flex: 1,
+        height: 44,
+        borderRadius: Radius.md,
+        backgroundColor: '#EF4444',
+        flexDirection: 'row',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 6,
+    },
+    discardConfirmText: {
+        color: '#FFF',
+        ...Typography.buttonMd,
+    },
+});
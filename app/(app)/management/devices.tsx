@@ -0,0 +1,221 @@
+/**
+ * Devices — Supervisor/Admin UI
+ *
+ * Lists the devices staff have signed in on, newest check-in first.
+ * Supervisors and admins can revoke a device: at its next check-in it
+ * wipes its clinical data and signs out. Only admins can restore a
+ * revoked device, so a lost phone that turns up can be used again.
+ */
+
+import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/context/auth';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { listDevices, restoreDevice, revokeDevice, UserDevice } from '@/lib/device-revocation';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const PLATFORM_ICONS: Record<string, string> = {
+    ios: 'phone-portrait-outline',
+    android: 'phone-portrait-outline',
+    web: 'desktop-outline',
+};
+
+const ownerName = (device: UserDevice) =>
+    device.owner?.full_name || device.owner?.username || 'Unknown user';
+
+export default function DevicesManagement() {
+    const { profile: authProfile } = useAuth();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const canRevoke = authProfile?.role === 'supervisor' || authProfile?.role === 'admin';
+    const canRestore = authProfile?.role === 'admin';
+
+    const [devices, setDevices] = useState<UserDevice[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyKey, setBusyKey] = useState<string | null>(null);
+
+    const loadDevices = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setDevices(await listDevices());
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to load devices', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [showToast]);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadDevices();
+        }, [loadDevices])
+    );
+
+    const confirmAction = (title: string, message: string, action: string, onConfirm: () => void) => {
+        if (Platform.OS === 'web') {
+            if (confirm(message)) onConfirm();
+            return;
+        }
+        Alert.alert(title, message, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: action, style: 'destructive', onPress: onConfirm },
+        ]);
+    };
+
+    const run = async (device: UserDevice, change: () => Promise<void>, done: string) => {
+        setBusyKey(`${device.device_id}:${device.user_id}`);
+        try {
+            await change();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            showToast(done, 'success');
+            await loadDevices();
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to update the device', 'error');
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleRevoke = (device: UserDevice) => confirmAction(
+        'Revoke Device',
+        `${ownerName(device)}'s device will erase its clinical data and sign out the next time it is online. Changes it has not synced are lost.`,
+        'Revoke',
+        () => run(device, () => revokeDevice(device.device_id, device.user_id), 'Device revoked'),
+    );
+
+    const handleRestore = (device: UserDevice) => confirmAction(
+        'Restore Device',
+        `${ownerName(device)} will be able to sign in and keep clinical data on the device again.`,
+        'Restore',
+        () => run(device, () => restoreDevice(device.device_id, device.user_id), 'Device restored'),
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => {
+                    if (router.canGoBack()) router.back();
+                    else router.replace('/(app)/(tabs)');
+                }} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: colors.text }]}>Devices</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                {isLoading && devices.length === 0 && <ActivityIndicator color={colors.primary} style={styles.loading} />}
+
+                {!isLoading && devices.length === 0 && (
+                    <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No devices have checked in yet.</Text>
+                )}
+
+                {devices.map(device => {
+                    const key = `${device.device_id}:${device.user_id}`;
+                    const revoked = !!device.revoked_at;
+                    return (
+                        <View
+                            key={key}
+                            style={[styles.deviceCard, { backgroundColor: colors.card, borderColor: revoked ? colors.error + '60' : colors.border }]}
+                        >
+                            <View style={styles.deviceHeader}>
+                                <Ionicons
+                                    name={(PLATFORM_ICONS[device.platform ?? ''] ?? 'hardware-chip-outline') as any}
+                                    size={20}
+                                    color={revoked ? colors.error : colors.primary}
+                                />
+                                <View style={styles.deviceInfo}>
+                                    <Text style={[styles.deviceOwner, { color: colors.text }]}>{ownerName(device)}</Text>
+                                    <Text style={[styles.deviceMeta, { color: colors.textSecondary }]}>
+                                        {device.platform ?? 'unknown'} · last seen {new Date(device.last_seen_at).toLocaleString()}
+                                    </Text>
+                                    {revoked && (
+                                        <Text style={[styles.deviceMeta, { color: colors.error }]}>
+                                            Revoked {new Date(device.revoked_at!).toLocaleString()}
+                                        </Text>
+                                    )}
+                                </View>
+                            </View>
+
+                            {busyKey === key ? (
+                                <ActivityIndicator color={colors.primary} style={styles.action} />
+                            ) : revoked ? (
+                                canRestore && (
+                                    <TouchableOpacity
+                                        style={[styles.action, styles.actionButton, { borderColor: colors.primary }]}
+                                        onPress={() => handleRestore(device)}
+                                    >
+                                        <Text style={[styles.actionText, { color: colors.primary }]}>Restore</Text>
+                                    </TouchableOpacity>
+                                )
+                            ) : (
+                                canRevoke && (
+                                    <TouchableOpacity
+                                        style={[styles.action, styles.actionButton, { borderColor: colors.error }]}
+                                        onPress={() => handleRevoke(device)}
+                                    >
+                                        <Text style={[styles.actionText, { color: colors.error }]}>Revoke</Text>
+                                    </TouchableOpacity>
+                                )
+                            )}
+                        </View>
+                    );
+                })}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1 },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: Spacing.md,
+        justifyContent: 'space-between',
+    },
+    backButton: { padding: Spacing.xs },
+    headerTitle: { ...Typography.headingMd },
+
+    content: { padding: Spacing.md, paddingBottom: 40 },
+    loading: { marginTop: Spacing.xl },
+    emptyText: { ...Typography.bodySm, textAlign: 'center', marginTop: Spacing.xl },
+
+    deviceCard: {
+        padding: Spacing.md,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.smd,
+        ...Shadows.sm,
+    },
+    deviceHeader: { flexDirection: 'row', alignItems: 'flex-start', gap: Spacing.smd },
+    deviceInfo: { flex: 1 },
+    deviceOwner: { ...Typography.labelLg },
+    deviceMeta: { ...Typography.bodySm },
+
+    action: { alignSelf: 'flex-end', marginTop: Spacing.sm },
+    actionButton: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.xs,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    actionText: { ...Typography.buttonSm },
+});
@@ -0,0 +1,354 @@
+/**
+ * Shock Index Thresholds — Supervisor/Admin UI
+ *
+ * Edits the facility's shock index cut-offs, labels, and which levels
+ * sound the alarm, vibrate, or prompt escalation. Saving publishes a new
+ * version; readings record the version they were classified against.
+ * An admin can pick any facility, including when they have none of
+ * their own.
+ */
+
+import { Dropdown } from '@/components/ui/dropdown';
+import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/context/auth';
+import { useClinical } from '@/context/clinical';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+    DEFAULT_THRESHOLD_SET,
+    SHOCK_LEVELS,
+    ShockAlarmPolicy,
+    ShockLevel,
+    ShockThreshold,
+    ShockThresholdSet,
+    validateThresholds,
+} from '@/lib/shock-index';
+import { supabase } from '@/lib/supabase';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+type PolicyKey = keyof ShockAlarmPolicy;
+
+const POLICY_OPTIONS: { key: PolicyKey; label: string; icon: string }[] = [
+    { key: 'audio', label: 'Alarm', icon: 'volume-high-outline' },
+    { key: 'haptic', label: 'Vibrate', icon: 'phone-portrait-outline' },
+    { key: 'escalate', label: 'Escalate', icon: 'alert-circle-outline' },
+];
+
+interface ThresholdDraft {
+    level: ShockLevel;
+    min: string;
+    label: string;
+}
+
+function toDrafts(thresholds: ShockThreshold[]): ThresholdDraft[] {
+    return SHOCK_LEVELS.map(level => {
+        const t = thresholds.find(th => th.level === level)!;
+        return { level, min: t.min.toString(), label: t.label };
+    });
+}
+
+export default function ShockThresholdsManagement() {
+    const { thresholdSet, publishThresholdSet, refreshThresholdSet, loadThresholdSet } = useClinical();
+    const { profile: authProfile } = useAuth();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const isAdmin = authProfile?.role === 'admin';
+
+    // Admins choose the facility; null is their own (if they have one)
+    const [facilities, setFacilities] = useState<{ id: string; name: string }[]>([]);
+    const [selectedFacilityId, setSelectedFacilityId] = useState<string | null>(null);
+    const [otherSet, setOtherSet] = useState<ShockThresholdSet | null>(null);
+    const facilityId = selectedFacilityId ?? authProfile?.facility_id ?? null;
+    const editedSet = selectedFacilityId && selectedFacilityId !== authProfile?.facility_id
+        ? otherSet ?? DEFAULT_THRESHOLD_SET
+        : thresholdSet;
+
+    const canManage = (authProfile?.role === 'supervisor' || isAdmin) && !!facilityId;
+
+    const [drafts, setDrafts] = useState<ThresholdDraft[]>(() => toDrafts(thresholdSet.thresholds));
+    const [policy, setPolicy] = useState<ShockAlarmPolicy>(thresholdSet.policy);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        refreshThresholdSet();
+    }, [refreshThresholdSet]);
+
+    useEffect(() => {
+        if (!isAdmin) return;
+        supabase.from('facilities').select('id, name').order('name').then(({ data }) => setFacilities(data ?? []));
+    }, [isAdmin]);
+
+    useEffect(() => {
+        setOtherSet(null);
+        if (selectedFacilityId && selectedFacilityId !== authProfile?.facility_id) {
+            loadThresholdSet(selectedFacilityId).then(setOtherSet);
+        }
+    }, [selectedFacilityId, authProfile?.facility_id, loadThresholdSet]);
+
+    // Reload the form whenever a newer version arrives
+    useEffect(() => {
+        setDrafts(toDrafts(editedSet.thresholds));
+        setPolicy(editedSet.policy);
+    }, [editedSet]);
+
+    const updateDraft = (level: ShockLevel, field: 'min' | 'label', value: string) => {
+        setDrafts(prev => prev.map(d => d.level === level ? { ...d, [field]: value } : d));
+    };
+
+    const togglePolicy = (key: PolicyKey, level: ShockLevel) => {
+        setPolicy(prev => ({
+            ...prev,
+            [key]: prev[key].includes(level)
+                ? prev[key].filter(l => l !== level)
+                : [...prev[key], level],
+        }));
+    };
+
+    const handleRestoreDefaults = () => {
+        setDrafts(toDrafts(DEFAULT_THRESHOLD_SET.thresholds));
+        setPolicy(DEFAULT_THRESHOLD_SET.policy);
+    };
+
+    const handleSave = async () => {
+        if (!facilityId) return;
+        // Colours and descriptions carry over from the current set — only cut-offs and labels are editable
+        const thresholds: ShockThreshold[] = drafts.map(d => {
+            const base = editedSet.thresholds.find(t => t.level === d.level)!;
+            return { ...base, min: parseFloat(d.min), label: d.label.trim().toUpperCase() };
+        });
+
+        const error = validateThresholds(thresholds);
+        if (error) {
+            Alert.alert('Invalid thresholds', error);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await publishThresholdSet(thresholds, policy, facilityId);
+            if (facilityId !== authProfile?.facility_id) setOtherSet(await loadThresholdSet(facilityId));
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        } catch (err: any) {
+            console.error('Error publishing thresholds:', err);
+            Alert.alert('Error', err?.message ?? 'Failed to save thresholds. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => {
+                    if (router.canGoBack()) router.back();
+                    else router.replace('/(app)/(tabs)');
+                }} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: colors.text }]}>Shock Thresholds</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                {isAdmin && (
+                    <View style={styles.facilityPicker}>
+                        <Dropdown
+                            label="Facility"
+                            value={selectedFacilityId}
+                            options={facilities.map(f => ({ label: f.name, value: f.id }))}
+                            onSelect={setSelectedFacilityId}
+                            allLabel={authProfile?.facility_id ? 'My facility' : 'Choose a facility'}
+                            icon="business-outline"
+                        />
+                    </View>
+                )}
+
+                <View style={[styles.versionCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                    <Ionicons name="git-branch-outline" size={18} color={colors.primary} />
+                    <Text style={[styles.versionText, { color: colors.text }]}>
+                        {editedSet.version === 0
+                            ? 'Using built-in defaults'
+                            : `Version ${editedSet.version} · ${new Date(editedSet.created_at).toLocaleDateString()}`}
+                    </Text>
+                </View>
+
+                {drafts.map(d => (
+                    <View
+                        key={d.level}
+                        style={[styles.levelCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                    >
+                        <View style={styles.levelHeader}>
+                            <View style={[styles.levelDot, { backgroundColor: editedSet.thresholds.find(t => t.level === d.level)?.bgColor }]} />
+                            <Text style={[styles.levelName, { color: colors.text }]}>{d.level}</Text>
+                        </View>
+
+                        <View style={styles.inputRow}>
+                            <View style={styles.inputGroup}>
+                                <Text style={[styles.label, { color: colors.textSecondary }]}>SI ≥</Text>
+                                <TextInput
+                                    style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.inputBackground }]}
+                                    value={d.min}
+                                    onChangeText={v => updateDraft(d.level, 'min', v)}
+                                    keyboardType="decimal-pad"
+                                    editable={canManage && d.level !== 'normal'}
+                                />
+                            </View>
+                            <View style={[styles.inputGroup, { flex: 2 }]}>
+                                <Text style={[styles.label, { color: colors.textSecondary }]}>Label</Text>
+                                <TextInput
+                                    style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.inputBackground }]}
+                                    value={d.label}
+                                    onChangeText={v => updateDraft(d.level, 'label', v)}
+                                    autoCapitalize="characters"
+                                    editable={canManage}
+                                />
+                            </View>
+                        </View>
+
+                        <View style={styles.policyRow}>
+                            {POLICY_OPTIONS.map(opt => {
+                                const active = policy[opt.key].includes(d.level);
+                                return (
+                                    <TouchableOpacity
+                                        key={opt.key}
+                                        style={[
+                                            styles.policyChip,
+                                            { borderColor: active ? colors.primary : colors.border },
+                                            active && { backgroundColor: colors.primary + '15' },
+                                        ]}
+                                        onPress={() => togglePolicy(opt.key, d.level)}
+                                        disabled={!canManage}
+                                    >
+                                        <Ionicons
+                                            name={opt.icon as any}
+                                            size={14}
+                                            color={active ? colors.primary : colors.textSecondary}
+                                        />
+                                        <Text style={[styles.policyChipText, { color: active ? colors.primary : colors.textSecondary }]}>
+                                            {opt.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+                    </View>
+                ))}
+
+                {canManage ? (
+                    <View style={styles.actions}>
+                        <TouchableOpacity
+                            style={[styles.actionButton, { borderColor: colors.border }]}
+                            onPress={handleRestoreDefaults}
+                        >
+                            <Text style={[styles.actionButtonText, { color: colors.textSecondary }]}>Restore Defaults</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.actionButton, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                            onPress={handleSave}
+                            disabled={isSaving}
+                        >
+                            {isSaving
+                                ? <ActivityIndicator color="#FFF" />
+                                : <Text style={[styles.actionButtonText, { color: '#FFF' }]}>Publish Version</Text>
+                            }
+                        </TouchableOpacity>
+                    </View>
+                ) : (
+                    <Text style={[styles.readOnlyText, { color: colors.textSecondary }]}>
+                        {isAdmin
+                            ? 'Choose a facility to change its thresholds.'
+                            : 'Only supervisors and admins can change thresholds.'}
+                    </Text>
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1 },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: Spacing.md,
+        justifyContent: 'space-between',
+    },
+    backButton: { padding: Spacing.xs },
+    headerTitle: { ...Typography.headingMd },
+
+    content: { padding: Spacing.md, paddingBottom: 40 },
+
+    facilityPicker: { marginBottom: Spacing.md },
+
+    versionCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        padding: Spacing.smd,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        marginBottom: Spacing.md,
+    },
+    versionText: { ...Typography.labelMd },
+
+    levelCard: {
+        padding: Spacing.md,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.md,
+        ...Shadows.sm,
+    },
+    levelHeader: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm, marginBottom: Spacing.sm },
+    levelDot: { width: 10, height: 10, borderRadius: 5 },
+    levelName: { ...Typography.labelLg, textTransform: 'capitalize' },
+
+    inputRow: { flexDirection: 'row', gap: Spacing.smd },
+    inputGroup: { flex: 1 },
+    label: { ...Typography.overline, marginBottom: Spacing.xs },
+    input: {
+        ...Typography.bodyMd,
+        borderWidth: 1,
+        borderRadius: Radius.md,
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: Spacing.sm,
+    },
+
+    policyRow: { flexDirection: 'row', gap: Spacing.sm, marginTop: Spacing.smd },
+    policyChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: 6,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    policyChipText: { ...Typography.labelSm },
+
+    actions: { flexDirection: 'row', gap: Spacing.md, marginTop: Spacing.sm },
+    actionButton: {
+        flex: 1,
+        height: 48,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    actionButtonText: { ...Typography.buttonMd },
+    readOnlyText: { ...Typography.bodySm, textAlign: 'center', marginTop: Spacing.sm },
+});
@@ -12,6 +12,8 @@ import { ThemeProvider as AppThemeProvider } from '@/context/theme';
 import { ToastProvider } from '@/context/toast';
 import { UnitProvider } from '@/context/unit';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+// Defines the background sync task — it has to exist before the OS runs it
+import '@/lib/background-sync';
 
 export const unstable_settings = {
   anchor: '(app)/(tabs)',
@@ -0,0 +1,299 @@
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { AmendVitalsInput, useClinical, VitalSign } from '@/context/clinical';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { AMENDABLE_FIELDS, AmendableVitalField } from '@/lib/vital-amendments';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    Pressable,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+type AmendMode = 'amend' | 'void';
+
+interface AmendVitalModalProps {
+    vital: VitalSign | null;
+    onClose: () => void;
+}
+
+/**
+ * Correct or void a recorded reading. A reason is always required; the
+ * original values are kept and shown struck through in reports.
+ */
+export function AmendVitalModal({ vital, onClose }: AmendVitalModalProps) {
+    const { amendVitalSign, voidVitalSign } = useClinical();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [mode, setMode] = useState<AmendMode>('amend');
+    const [drafts, setDrafts] = useState<Partial<Record<AmendableVitalField, string>>>({});
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Prefill from the reading each time the modal opens
+    useEffect(() => {
+        if (!vital) return;
+        setMode('amend');
+        setReason('');
+        setDrafts(Object.fromEntries(
+            AMENDABLE_FIELDS.map(({ field }) => [field, vital[field] != null ? String(vital[field]) : ''])
+        ));
+    }, [vital]);
+
+    const handleSubmit = async () => {
+        if (!vital) return;
+        if (!reason.trim()) {
+            showToast('Please give a reason', 'error');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (mode === 'void') {
+                await voidVitalSign(vital.local_id, reason);
+            } else {
+                const changes: AmendVitalsInput = {};
+                for (const { field } of AMENDABLE_FIELDS) {
+                    const raw = drafts[field]?.trim() ?? '';
+                    const value = raw ? parseFloat(raw) : undefined;
+                    if (value !== (vital[field] ?? undefined)) changes[field] = value;
+                }
+                if (Object.keys(changes).length === 0) {
+                    showToast('No values were changed', 'error');
+                    return;
+                }
+                await amendVitalSign(vital.local_id, changes, reason);
+            }
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            onClose();
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to update reading', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal visible={!!vital} transparent animationType="slide" onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                style={{ flex: 1 }}
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            >
+                <Pressable style={styles.overlay} onPress={onClose}>
+                    <Pressable style={[styles.content, { backgroundColor: colors.background }]}>
+                        <View style={styles.header}>
+                            <View style={styles.headerLeft}>
+                                <Ionicons name="create-outline" size={24} color={colors.primary} />
+                                <Text style={[styles.title, { color: colors.text }]}>
+                                    {vital
+                                        ? `Reading at ${new Date(vital.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                                        : 'Reading'}
+                                </Text>
+                            </View>
+                            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                                <Ionicons name="close" size={24} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled">
+                            {/* Mode selector */}
+                            <View style={styles.modeRow}>
+                                {([
+                                    { key: 'amend', label: 'Correct Values', icon: 'create-outline', color: colors.primary },
+                                    { key: 'void', label: 'Void Reading', icon: 'ban-outline', color: colors.error },
+                                ] as const).map(opt => {
+                                    const active = mode === opt.key;
+                                    return (
+                                        <TouchableOpacity
+                                            key={opt.key}
+                                            style={[
+                                                styles.modeButton,
+                                                { borderColor: active ? opt.color : colors.border },
+                                                active && { backgroundColor: opt.color + '15' },
+                                            ]}
+                                            onPress={() => setMode(opt.key)}
+                                        >
+                                            <Ionicons name={opt.icon} size={16} color={active ? opt.color : colors.textSecondary} />
+                                            <Text style={[styles.modeText, { color: active ? opt.color : colors.textSecondary }]}>
+                                                {opt.label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+
+                            {mode === 'amend' ? (
+                                <View style={styles.fieldGrid}>
+                                    {AMENDABLE_FIELDS.map(({ field, label, unit }) => (
+                                        <View key={field} style={styles.fieldItem}>
+                                            <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>{label} ({unit})</Text>
+                                            <TextInput
+                                                style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.inputBackground }]}
+                                                value={drafts[field] ?? ''}
+                                                onChangeText={v => setDrafts(prev => ({ ...prev, [field]: v }))}
+                                                keyboardType="decimal-pad"
+                                                placeholder="—"
+                                                placeholderTextColor={colors.placeholder}
+                                            />
+                                        </View>
+                                    ))}
+                                </View>
+                            ) : (
+                                <Text style={[styles.voidText, { color: colors.textSecondary }]}>
+                                    The reading stays in the record, struck through, and is excluded from trends, charts and alarms.
+                                </Text>
+                            )}
+
+                            <Text style={[styles.fieldLabel, { color: colors.textSecondary, marginTop: Spacing.md }]}>Reason (required)</Text>
+                            <TextInput
+                                style={[styles.input, styles.reasonInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.inputBackground }]}
+                                value={reason}
+                                onChangeText={setReason}
+                                placeholder={mode === 'void' ? 'e.g. Recorded on the wrong patient' : 'e.g. Transcription error — HR was 112'}
+                                placeholderTextColor={colors.placeholder}
+                                multiline
+                            />
+                        </ScrollView>
+
+                        <View style={styles.actions}>
+                            <TouchableOpacity
+                                style={[styles.actionButton, { borderColor: colors.border }]}
+                                onPress={onClose}
+                            >
+                                <Text style={[styles.actionText, { color: colors.textSecondary }]}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.actionButton,
+                                    {
+                                        backgroundColor: mode === 'void' ? colors.error : colors.primary,
+                                        borderColor: mode === 'void' ? colors.error : colors.primary,
+                                    },
+                                    (!reason.trim() || isSaving) && { opacity: 0.5 },
+                                ]}
+                                onPress={handleSubmit}
+                                disabled={!reason.trim() || isSaving}
+                            >
+                                {isSaving
+                                    ? <ActivityIndicator color="#FFF" />
+                                    : <Text style={[styles.actionText, { color: '#FFF' }]}>{mode === 'void' ? 'Void' : 'Save Correction'}</Text>
+                                }
+                            </TouchableOpacity>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    content: {
+        borderTopLeftRadius: Radius.xl,
+        borderTopRightRadius: Radius.xl,
+        maxHeight: '85%',
+        paddingBottom: 20,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: Spacing.lg,
+        borderBottomWidth: 1,
+        borderBottomColor: '#00000010',
+    },
+    headerLeft: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    title: {
+        ...Typography.headingMd,
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    scroll: {
+        paddingHorizontal: Spacing.lg,
+    },
+    modeRow: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        marginVertical: Spacing.md,
+    },
+    modeButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.xs,
+        paddingVertical: Spacing.sm,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+    },
+    modeText: {
+        ...Typography.labelSm,
+    },
+    fieldGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginHorizontal: -Spacing.xs,
+    },
+    fieldItem: {
+        width: '50%',
+        paddingHorizontal: Spacing.xs,
+        marginBottom: Spacing.sm,
+    },
+    fieldLabel: {
+        ...Typography.overline,
+        marginBottom: Spacing.xs,
+    },
+    input: {
+        ...Typography.bodyMd,
+        borderWidth: 1,
+        borderRadius: Radius.md,
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: Spacing.sm,
+    },
+    reasonInput: {
+        minHeight: 64,
+        textAlignVertical: 'top',
+    },
+    voidText: {
+        ...Typography.bodySm,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+        paddingHorizontal: Spacing.lg,
+        paddingTop: Spacing.md,
+    },
+    actionButton: {
+        flex: 1,
+        height: 48,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    actionText: {
+        ...Typography.buttonMd,
+    },
+});
@@ -0,0 +1,87 @@
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { BloodLossMethod, withRunningTotals } from '@/lib/blood-loss';
+import { voidedReadingIds } from '@/lib/vital-amendments';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+const METHOD_LABELS: Record<BloodLossMethod, { label: string; icon: string }> = {
+    visual: { label: 'Visual', icon: 'eye-outline' },
+    drape: { label: 'Drape', icon: 'layers-outline' },
+    weighed: { label: 'Weighed', icon: 'scale-outline' },
+};
+
+export function BloodLossLedger() {
+    const { bloodLossEntries, vitalSigns } = useClinical();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    if (bloodLossEntries.length === 0) return null;
+
+    // Newest first, but running totals are accumulated chronologically
+    const rows = withRunningTotals(bloodLossEntries, voidedReadingIds(vitalSigns)).reverse();
+
+    return (
+        <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            {rows.map((entry, index) => {
+                const method = METHOD_LABELS[entry.method as BloodLossMethod] ?? METHOD_LABELS.visual;
+                return (
+                    <View
+                        key={entry.local_id}
+                        style={[styles.row, index < rows.length - 1 && { borderBottomWidth: 1, borderBottomColor: colors.border }]}
+                    >
+                        <Ionicons name={method.icon as any} size={16} color={colors.textSecondary} />
+                        <View style={styles.details}>
+                            <Text style={[styles.increment, { color: colors.text }, !entry.counted && styles.voided]}>+{entry.volume_ml} mL</Text>
+                            <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                                {method.label}
+                                {entry.method === 'weighed' && entry.dry_weight_g != null && entry.wet_weight_g != null
+                                    ? ` · ${entry.wet_weight_g} g − ${entry.dry_weight_g} g`
+                                    : ''}
+                                {' · '}
+                                {new Date(entry.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {!entry.counted && ' · reading voided'}
+                            </Text>
+                        </View>
+                        <Text style={[styles.total, { color: colors.textSecondary }]}>
+                            {entry.running_total_ml} mL
+                        </Text>
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        paddingHorizontal: Spacing.md,
+        marginBottom: Spacing.md,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingVertical: Spacing.smd,
+    },
+    details: {
+        flex: 1,
+    },
+    increment: {
+        ...Typography.labelMd,
+    },
+    voided: {
+        textDecorationLine: 'line-through',
+    },
+    meta: {
+        ...Typography.bodySm,
+        marginTop: 2,
+    },
+    total: {
+        ...Typography.labelSm,
+    },
+});
@@ -0,0 +1,308 @@
+/**
+ * Case Search Filter Sheet
+ *
+ * Structured filters for the Clinical tab's case search: status, risk
+ * level, risk factors, outcome, admission date and creator. Edits a draft
+ * and hands the filters back on Apply; the free text stays in the search
+ * bar.
+ */
+
+import { Colors, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { CaseSearchQuery } from '@/lib/case-search';
+import { getAllRiskFactors, RISK_LABELS, RiskLevel } from '@/lib/risk-calculator';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    Pressable,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+// ── Options ───────────────────────────────────────────────────
+
+export type CaseSearchFilters = Omit<CaseSearchQuery, 'text'>;
+
+const STATUS_OPTIONS = [
+    { value: 'pre_delivery', label: 'Pre-Delivery' },
+    { value: 'active', label: 'Active' },
+    { value: 'monitoring', label: 'Monitoring' },
+    { value: 'closed', label: 'Closed' },
+];
+
+const OUTCOME_OPTIONS = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'pph_resolved', label: 'PPH Resolved' },
+    { value: 'referred', label: 'Referred' },
+];
+
+/** Admitted within the last `days` days; 0 is since midnight */
+const ADMITTED_OPTIONS: { label: string; days: number | null }[] = [
+    { label: 'Any Time', days: null },
+    { label: 'Today', days: 0 },
+    { label: 'Last 7 Days', days: 7 },
+    { label: 'Last 30 Days', days: 30 },
+];
+
+const RISK_FACTORS = (() => {
+    const { high, medium } = getAllRiskFactors();
+    return [...high, ...medium];
+})();
+
+function admittedFrom(days: number | null): string | undefined {
+    if (days === null) return undefined;
+    const from = new Date();
+    if (days === 0) from.setHours(0, 0, 0, 0);
+    else from.setDate(from.getDate() - days);
+    return from.toISOString();
+}
+
+/** Number of filters set — shown as a badge on the filter button */
+export function countCaseSearchFilters(filters: CaseSearchFilters): number {
+    return (filters.statuses?.length ?? 0)
+        + (filters.riskLevels?.length ?? 0)
+        + (filters.factorIds?.length ?? 0)
+        + (filters.outcomes?.length ?? 0)
+        + (filters.createdBy ? 1 : 0)
+        + (filters.from ? 1 : 0);
+}
+
+function toggle<T>(list: T[] | undefined, value: T): T[] {
+    const current = list ?? [];
+    return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+}
+
+// ── Props ─────────────────────────────────────────────────────
+
+interface CaseSearchSheetProps {
+    visible: boolean;
+    filters: CaseSearchFilters;
+    /** Set as `createdBy` by the "Created by me" option */
+    userId?: string;
+    onApply: (filters: CaseSearchFilters) => void;
+    onClose: () => void;
+}
+
+// ── Component ─────────────────────────────────────────────────
+
+export function CaseSearchSheet({ visible, filters, userId, onApply, onClose }: CaseSearchSheetProps) {
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [draft, setDraft] = useState<CaseSearchFilters>(filters);
+    const [admittedDays, setAdmittedDays] = useState<number | null>(null);
+
+    // Start from the applied filters each time the sheet opens
+    useEffect(() => {
+        if (visible) {
+            setDraft(filters);
+            if (!filters.from) setAdmittedDays(null);
+        }
+    }, [visible, filters]);
+
+    const handleApply = () => {
+        onApply({ ...draft, from: admittedFrom(admittedDays) });
+        onClose();
+    };
+
+    const handleReset = () => {
+        setDraft({});
+        setAdmittedDays(null);
+    };
+
+    const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            style={[
+                styles.chip,
+                selected
+                    ? { backgroundColor: colors.primary + '15', borderColor: colors.primary }
+                    : { borderColor: colors.border },
+            ]}
+            onPress={onPress}
+            activeOpacity={0.7}
+        >
+            {selected && <Ionicons name="checkmark" size={14} color={colors.primary} />}
+            <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="slide"
+            onRequestClose={onClose}
+        >
+            <Pressable style={styles.overlay} onPress={onClose}>
+                <Pressable style={[styles.sheet, { backgroundColor: colors.card }]}>
+                    {/* Handle */}
+                    <View style={[styles.handle, { backgroundColor: colors.border }]} />
+
+                    {/* Header */}
+                    <View style={styles.header}>
+                        <Ionicons name="options-outline" size={22} color={colors.primary} />
+                        <Text style={[styles.headerTitle, { color: colors.text }]}>Filter Cases</Text>
+                        <TouchableOpacity onPress={handleReset}>
+                            <Text style={[styles.resetText, { color: colors.primary }]}>Reset</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={22} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>STATUS</Text>
+                        <View style={styles.chipRow}>
+                            {STATUS_OPTIONS.map(option => renderChip(
+                                option.value,
+                                option.label,
+                                !!draft.statuses?.includes(option.value),
+                                () => setDraft(d => ({ ...d, statuses: toggle(d.statuses, option.value) })),
+                            ))}
+                        </View>
+
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>RISK LEVEL</Text>
+                        <View style={styles.chipRow}>
+                            {(Object.keys(RISK_LABELS) as RiskLevel[]).map(level => renderChip(
+                                level,
+                                RISK_LABELS[level],
+                                !!draft.riskLevels?.includes(level),
+                                () => setDraft(d => ({ ...d, riskLevels: toggle(d.riskLevels, level) })),
+                            ))}
+                        </View>
+
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>RISK FACTORS</Text>
+                        <View style={styles.chipRow}>
+                            {RISK_FACTORS.map(factor => renderChip(
+                                factor.id,
+                                factor.label,
+                                !!draft.factorIds?.includes(factor.id),
+                                () => setDraft(d => ({ ...d, factorIds: toggle(d.factorIds, factor.id) })),
+                            ))}
+                        </View>
+
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>OUTCOME</Text>
+                        <View style={styles.chipRow}>
+                            {OUTCOME_OPTIONS.map(option => renderChip(
+                                option.value,
+                                option.label,
+                                !!draft.outcomes?.includes(option.value),
+                                () => setDraft(d => ({ ...d, outcomes: toggle(d.outcomes, option.value) })),
+                            ))}
+                        </View>
+
+                        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>ADMITTED</Text>
+                        <View style={styles.chipRow}>
+                            {ADMITTED_OPTIONS.map(option => renderChip(
+                                option.label,
+                                option.label,
+                                admittedDays === option.days,
+                                () => setAdmittedDays(option.days),
+                            ))}
+                        </View>
+
+                        {userId && (
+                            <>
+                                <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>CREATED BY</Text>
+                                <View style={styles.chipRow}>
+                                    {renderChip('anyone', 'Anyone', !draft.createdBy, () => setDraft(d => ({ ...d, createdBy: undefined })))}
+                                    {renderChip('me', 'Me', draft.createdBy === userId, () => setDraft(d => ({ ...d, createdBy: userId })))}
+                                </View>
+                            </>
+                        )}
+                    </ScrollView>
+
+                    {/* Apply */}
+                    <TouchableOpacity
+                        style={[styles.applyButton, { backgroundColor: colors.primary }]}
+                        onPress={handleApply}
+                        activeOpacity={0.8}
+                    >
+                        <Ionicons name="search" size={18} color="#FFF" />
+                        <Text style={styles.applyButtonText}>Show Cases</Text>
+                    </TouchableOpacity>
+                </Pressable>
+            </Pressable>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        borderTopLeftRadius: Radius.xl,
+        borderTopRightRadius: Radius.xl,
+        maxHeight: '85%',
+        paddingBottom: Spacing.xl,
+        ...Shadows.lg,
+    },
+    handle: {
+        width: 36,
+        height: 4,
+        borderRadius: 2,
+        alignSelf: 'center',
+        marginTop: Spacing.sm,
+        marginBottom: Spacing.md,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingHorizontal: Spacing.lg,
+        paddingBottom: Spacing.sm,
+    },
+    headerTitle: {
+        ...Typography.headingSm,
+        flex: 1,
+    },
+    resetText: { ...Typography.labelMd },
+    closeButton: { padding: 4 },
+    scroll: {
+        paddingHorizontal: Spacing.lg,
+    },
+    sectionLabel: {
+        ...Typography.overline,
+        marginTop: Spacing.md,
+        marginBottom: Spacing.sm,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.sm,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: 6,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    chipText: { ...Typography.labelSm },
+    applyButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.sm,
+        marginHorizontal: Spacing.lg,
+        marginTop: Spacing.md,
+        paddingVertical: Spacing.smd,
+        borderRadius: Radius.md,
+    },
+    applyButtonText: {
+        color: '#FFF',
+        ...Typography.buttonMd,
+    },
+});
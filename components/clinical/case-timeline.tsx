@@ -60,6 +60,14 @@ function getEventIcon(type: string) {
         case 'status_change': return 'time';
         case 'escalation': return 'alert-circle';
         case 'note': return 'chatbox-text';
+        case 'deterioration': return 'trending-up';
+        case 'amended': return 'create';
+        case 'voided': return 'ban';
+        case 'risk_reassessed': return 'refresh';
+        case 'preparedness': return 'shield-checkmark';
+        case 'sync_conflict': return 'git-compare';
+        case 'sync_retry': return 'cloud-upload';
+        case 'sync_discard': return 'cloud-offline';
         default: return 'ellipse';
     }
 }
@@ -71,6 +79,14 @@ function getEventColor(type: string, colors: any) {
         case 'status_change': return '#6B7280';
         case 'escalation': return '#EF4444';
         case 'note': return '#F59E0B';
+        case 'deterioration': return '#E65100';
+        case 'amended': return '#F59E0B';
+        case 'voided': return '#EF4444';
+        case 'risk_reassessed': return '#8B5CF6';
+        case 'preparedness': return '#0891B2';
+        case 'sync_conflict': return '#F59E0B';
+        case 'sync_retry': return '#3B82F6';
+        case 'sync_discard': return '#EF4444';
         default: return colors.border;
     }
 }
@@ -82,7 +98,10 @@ function formatEventData(type: string, dataInput: any) {
         const data = typeof dataInput === 'string' ? JSON.parse(dataInput) : dataInput;
         
         if (type === 'vitals') {
-            return `HR: ${data.hr || '—'} bpm, BP: ${data.bp || '—'} mmHg, SI: ${data.si?.toFixed(1) || '—'}`;
+            const meows = data.meows ? `, MEOWS: ${data.meows.red}R/${data.meows.yellow}Y` : '';
+            const ebl = data.ebl_increment ? `, EBL: +${data.ebl_increment} mL (${data.ebl} mL total)` : '';
+            const confirmed = data.overridden_warnings?.length ? ` · ${data.overridden_warnings.length} unusual value(s) confirmed` : '';
+            return `HR: ${data.hr || '—'} bpm, BP: ${data.bp || '—'} mmHg, SI: ${data.si?.toFixed(1) || '—'}${meows}${ebl}${confirmed}`;
         }
         if (type === 'emotive_step') {
             const parts = [];
@@ -96,6 +115,32 @@ function formatEventData(type: string, dataInput: any) {
             const newS = String(data.new_status || 'unknown').split('_').join(' ');
             return `From ${oldS} to ${newS}${data.outcome ? ` (Outcome: ${data.outcome})` : ''}`;
         }
+        if (type === 'amended' || type === 'voided') {
+            const changes = (data.changes ?? []).map((c: any) => `${c.field.replace('_', ' ')} ${c.from ?? '—'} → ${c.to ?? '—'}`);
+            return [...changes, `Reason: ${data.reason}`].join(', ');
+        }
+        if (type === 'risk_reassessed') {
+            const parts = [`Score ${data.from?.score ?? '—'} → ${data.to?.score ?? '—'}`];
+            if (data.added?.length) parts.push(`Added: ${data.added.join(', ')}`);
+            if (data.removed?.length) parts.push(`Removed: ${data.removed.join(', ')}`);
+            if (data.notes) parts.push(`Notes: ${data.notes}`);
+            return parts.join(' · ');
+        }
+        if (type === 'sync_conflict') {
+            return (data.kept ?? [])
+                .map((k: any) => `${k.field}: kept ${k.version === 'remote' ? 'server' : 'device'} version (${k.value})`)
+                .join(' · ');
+        }
+        if (type === 'sync_retry' || type === 'sync_discard') {
+            return [`After ${data.attempts ?? 0} attempt(s)`, data.error ? `Last error: ${data.error}` : ''].filter(Boolean).join(' · ');
+        }
+        if (type === 'preparedness') {
+            // The label already names the item
+            return '';
+        }
+        if (type === 'deterioration') {
+            return data.summary || 'Vitals trending towards shock';
+        }
         if (type === 'note') {
             if (data.causes && Array.isArray(data.causes)) {
                 return `Causes: ${data.causes.join(', ')}${data.notes ? ` · Notes: ${data.notes}` : ''}`;
@@ -0,0 +1,86 @@
+/**
+ * DeteriorationBanner — Trend-based early warning
+ *
+ * Shown when successive vitals are trending towards shock even though
+ * the latest single reading may still be within normal thresholds.
+ * Dismissing hides it until the next reading re-evaluates the trend.
+ */
+
+import { Radius, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { describeTrend } from '@/lib/shock-trend';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+export function DeteriorationBanner() {
+    const { vitalsTrend } = useClinical();
+    // Dismissal is tied to the latest reading — a new reading re-shows the banner
+    const [dismissedAt, setDismissedAt] = useState<string | null>(null);
+
+    if (!vitalsTrend?.isDeteriorating || dismissedAt === vitalsTrend.windowEnd) return null;
+
+    return (
+        <View style={styles.banner}>
+            <View style={styles.row}>
+                <Ionicons name="trending-up" size={24} color="#FFFFFF" />
+                <View style={styles.textContainer}>
+                    <Text style={styles.title}>DETERIORATING TREND</Text>
+                    <Text style={styles.subtitle}>
+                        {vitalsTrend.readingCount} readings — reassess and consider starting E-MOTIVE
+                    </Text>
+                </View>
+                <TouchableOpacity
+                    onPress={() => setDismissedAt(vitalsTrend.windowEnd)}
+                    style={styles.dismissButton}
+                    hitSlop={8}
+                >
+                    <Ionicons name="close" size={18} color="#FFFFFF" />
+                </TouchableOpacity>
+            </View>
+            <View style={styles.metrics}>
+                {vitalsTrend.worsening.map(m => (
+                    <Text key={m.metric} style={styles.metricText}>• {describeTrend(m)}</Text>
+                ))}
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    banner: {
+        backgroundColor: '#E65100',
+        padding: Spacing.smd,
+        borderRadius: Radius.md,
+        marginBottom: Spacing.md,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    textContainer: {
+        flex: 1,
+    },
+    title: {
+        ...Typography.labelLg,
+        color: '#FFFFFF',
+        fontWeight: '800',
+    },
+    subtitle: {
+        ...Typography.bodySm,
+        color: 'rgba(255,255,255,0.9)',
+        marginTop: 2,
+    },
+    dismissButton: {
+        padding: Spacing.xs,
+    },
+    metrics: {
+        marginTop: Spacing.sm,
+        gap: 2,
+    },
+    metricText: {
+        ...Typography.bodySm,
+        color: '#FFFFFF',
+    },
+});
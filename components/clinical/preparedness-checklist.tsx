@@ -0,0 +1,107 @@
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { PreparednessStatus } from '@/lib/preparedness';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import React, { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface PreparednessChecklistProps {
+    profileLocalId: string;
+    items: PreparednessStatus[];
+    editable: boolean;
+}
+
+export function PreparednessChecklist({ profileLocalId, items, editable }: PreparednessChecklistProps) {
+    const { setPreparednessItem } = useClinical();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    const handleToggle = async (item: PreparednessStatus) => {
+        if (!editable || savingId) return;
+        setSavingId(item.id);
+        try {
+            await setPreparednessItem(profileLocalId, item.id, !item.completedAt);
+            if (!item.completedAt) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to update checklist', 'error');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            {items.map((item, index) => {
+                const done = !!item.completedAt;
+                return (
+                    <TouchableOpacity
+                        key={item.id}
+                        style={[styles.row, index < items.length - 1 && { borderBottomWidth: 1, borderBottomColor: colors.border }]}
+                        onPress={() => handleToggle(item)}
+                        activeOpacity={editable ? 0.7 : 1}
+                    >
+                        {savingId === item.id
+                            ? <ActivityIndicator size="small" color={colors.primary} style={styles.checkIcon} />
+                            : <Ionicons
+                                name={done ? 'checkbox' : 'square-outline'}
+                                size={22}
+                                color={done ? colors.success : colors.textSecondary}
+                                style={styles.checkIcon}
+                            />
+                        }
+                        <View style={styles.details}>
+                            <Text style={[styles.label, { color: colors.text }, done && styles.doneLabel]}>{item.label}</Text>
+                            <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                                {item.description} · {item.reasons.join(', ')}
+                            </Text>
+                        </View>
+                        {done && (
+                            <Text style={[styles.time, { color: colors.success }]}>
+                                {new Date(item.completedAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </Text>
+                        )}
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        paddingHorizontal: Spacing.md,
+        marginBottom: Spacing.md,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingVertical: Spacing.smd,
+    },
+    checkIcon: {
+        width: 22,
+    },
+    details: {
+        flex: 1,
+    },
+    label: {
+        ...Typography.labelMd,
+    },
+    doneLabel: {
+        opacity: 0.7,
+    },
+    meta: {
+        ...Typography.bodySm,
+        marginTop: 2,
+    },
+    time: {
+        ...Typography.labelSm,
+    },
+});
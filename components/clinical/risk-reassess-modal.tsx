@@ -0,0 +1,299 @@
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { MaternalProfile, profileToRiskInput, useClinical } from '@/context/clinical';
+import { useToast } from '@/context/toast';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+    calculateRisk,
+    getAllRiskFactors,
+    MaternalRiskInput,
+    RISK_COLORS,
+    RISK_LABELS,
+    RiskLevel,
+} from '@/lib/risk-calculator';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    Pressable,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+interface RiskReassessModalProps {
+    profile: MaternalProfile | null;
+    visible: boolean;
+    onClose: () => void;
+}
+
+// Intrapartum factors first — they are the ones that change during labor
+const { high, medium } = getAllRiskFactors();
+const OPTIONS = [...high, ...medium].filter(f => f.toggle);
+const INTRAPARTUM_OPTIONS = OPTIONS.filter(f => f.intrapartum);
+const OTHER_OPTIONS = OPTIONS.filter(f => !f.intrapartum);
+
+/**
+ * Re-run the risk calculation when new facts emerge during labor.
+ * The result replaces the profile's risk and is kept in the risk history.
+ */
+export function RiskReassessModal({ profile, visible, onClose }: RiskReassessModalProps) {
+    const { reassessRisk } = useClinical();
+    const { showToast } = useToast();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [input, setInput] = useState<MaternalRiskInput | null>(null);
+    const [notes, setNotes] = useState('');
+    const [showOther, setShowOther] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start from the stored factors each time the modal opens
+    useEffect(() => {
+        if (!visible || !profile) return;
+        setInput(profileToRiskInput(profile));
+        setNotes('');
+        setShowOther(false);
+    }, [visible, profile]);
+
+    const preview = useMemo(() => (input ? calculateRisk(input) : null), [input]);
+
+    if (!profile || !input || !preview) return null;
+
+    const previousLevel = profile.risk_level as RiskLevel;
+    const previewColors = RISK_COLORS[preview.level];
+
+    const toggle = (field: keyof MaternalRiskInput, value: boolean) => {
+        setInput(prev => (prev ? { ...prev, [field]: value } : prev));
+        if (value) Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await reassessRisk(profile.local_id, input, notes);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            onClose();
+        } catch (err: any) {
+            showToast(err?.message ?? 'Failed to save reassessment', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderOption = (f: typeof OPTIONS[number], isLast: boolean) => (
+        <View
+            key={f.id}
+            style={[styles.toggleRow, !isLast && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.border }]}
+        >
+            <View style={{ flex: 1 }}>
+                <Text style={[styles.toggleLabel, { color: f.category === 'high' && input[f.fieldName] ? '#C62828' : colors.text }]}>
+                    {f.toggle!.label}
+                </Text>
+                <Text style={[styles.toggleDesc, { color: colors.textSecondary }]}>{f.toggle!.description}</Text>
+            </View>
+            <Switch
+                value={!!input[f.fieldName]}
+                onValueChange={v => toggle(f.fieldName, v)}
+                trackColor={{ false: colors.inputBorder, true: f.category === 'high' ? '#EF9A9A' : colors.primary + '60' }}
+                thumbColor={input[f.fieldName] ? (f.category === 'high' ? '#C62828' : colors.primary) : '#E0E0E0'}
+            />
+        </View>
+    );
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                style={{ flex: 1 }}
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            >
+                <Pressable style={styles.overlay} onPress={onClose}>
+                    <Pressable style={[styles.content, { backgroundColor: colors.background }]}>
+                        <View style={styles.header}>
+                            <View style={styles.headerLeft}>
+                                <Ionicons name="refresh-circle-outline" size={24} color={colors.primary} />
+                                <Text style={[styles.title, { color: colors.text }]}>Reassess Risk</Text>
+                            </View>
+                            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                                <Ionicons name="close" size={24} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled">
+                            {/* Live result */}
+                            <View style={[styles.preview, { backgroundColor: previewColors.bg, borderColor: previewColors.border }]}>
+                                <Text style={[styles.previewLevels, { color: previewColors.text }]}>
+                                    {RISK_LABELS[previousLevel] ?? previousLevel}
+                                    {'  →  '}
+                                    {RISK_LABELS[preview.level]}
+                                </Text>
+                                <Text style={[styles.previewSummary, { color: previewColors.text }]}>
+                                    {preview.summary} · Score {preview.score}
+                                </Text>
+                            </View>
+
+                            <Text style={[styles.groupTitle, { color: colors.textSecondary }]}>Labor & Delivery</Text>
+                            <View style={[styles.group, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                                {INTRAPARTUM_OPTIONS.map((f, i) => renderOption(f, i === INTRAPARTUM_OPTIONS.length - 1))}
+                            </View>
+
+                            <TouchableOpacity style={styles.otherToggle} onPress={() => setShowOther(v => !v)}>
+                                <Text style={[styles.groupTitle, { color: colors.textSecondary, marginTop: 0 }]}>Other Factors</Text>
+                                <Ionicons name={showOther ? 'chevron-up' : 'chevron-down'} size={16} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                            {showOther && (
+                                <View style={[styles.group, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                                    {OTHER_OPTIONS.map((f, i) => renderOption(f, i === OTHER_OPTIONS.length - 1))}
+                                </View>
+                            )}
+
+                            <Text style={[styles.groupTitle, { color: colors.textSecondary }]}>Notes (optional)</Text>
+                            <TextInput
+                                style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.inputBackground }]}
+                                value={notes}
+                                onChangeText={setNotes}
+                                placeholder="e.g. Second stage 3.5 h, ventouse delivery"
+                                placeholderTextColor={colors.placeholder}
+                                multiline
+                            />
+                        </ScrollView>
+
+                        <View style={styles.actions}>
+                            <TouchableOpacity
+                                style={[styles.actionButton, { borderColor: colors.border }]}
+                                onPress={onClose}
+                            >
+                                <Text style={[styles.actionText, { color: colors.textSecondary }]}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.actionButton,
+                                    { backgroundColor: colors.primary, borderColor: colors.primary },
+                                    isSaving && { opacity: 0.5 },
+                                ]}
+                                onPress={handleSave}
+                                disabled={isSaving}
+                            >
+                                {isSaving
+                                    ? <ActivityIndicator color="#FFF" />
+                                    : <Text style={[styles.actionText, { color: '#FFF' }]}>Save Reassessment</Text>
+                                }
+                            </TouchableOpacity>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    content: {
+        borderTopLeftRadius: Radius.xl,
+        borderTopRightRadius: Radius.xl,
+        maxHeight: '90%',
+        paddingBottom: 20,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: Spacing.lg,
+        borderBottomWidth: 1,
+        borderBottomColor: '#00000010',
+    },
+    headerLeft: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    title: {
+        ...Typography.headingMd,
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    scroll: {
+        paddingHorizontal: Spacing.lg,
+    },
+    preview: {
+        borderRadius: Radius.lg,
+        borderWidth: 1.5,
+        padding: Spacing.md,
+        marginTop: Spacing.md,
+    },
+    previewLevels: {
+        ...Typography.labelLg,
+    },
+    previewSummary: {
+        ...Typography.bodySm,
+        marginTop: 2,
+    },
+    groupTitle: {
+        ...Typography.overline,
+        marginTop: Spacing.md,
+        marginBottom: Spacing.xs,
+    },
+    group: {
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        paddingHorizontal: Spacing.md,
+    },
+    otherToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginTop: Spacing.md,
+    },
+    toggleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: Spacing.smd,
+        gap: Spacing.sm,
+    },
+    toggleLabel: {
+        ...Typography.labelMd,
+    },
+    toggleDesc: {
+        ...Typography.bodySm,
+        marginTop: 2,
+    },
+    input: {
+        ...Typography.bodyMd,
+        borderWidth: 1,
+        borderRadius: Radius.md,
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: Spacing.sm,
+        minHeight: 64,
+        textAlignVertical: 'top',
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+        paddingHorizontal: Spacing.lg,
+        paddingTop: Spacing.md,
+    },
+    actionButton: {
+        flex: 1,
+        height: 48,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    actionText: {
+        ...Typography.buttonMd,
+    },
+});
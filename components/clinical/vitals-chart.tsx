@@ -0,0 +1,294 @@
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useClinical } from '@/context/clinical';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+    buildVitalsChartData,
+    CHART_METRIC_ORDER,
+    CHART_METRICS,
+    ChartLayout,
+    ChartMetric,
+    createChartScale,
+    formatChartMinutes,
+    formatChartValue,
+} from '@/lib/vitals-chart';
+import React, { useMemo, useState } from 'react';
+import { LayoutChangeEvent, StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+
+const CHART_HEIGHT = 180;
+const PADDING = { top: 18, right: 8, bottom: 20, left: 36 };
+
+/**
+ * Time-series chart of the active patient's vitals. Drawn with plain Views
+ * (no SVG dependency) so it renders offline on every platform.
+ */
+export function VitalsChart({ deliveryTime, style }: { deliveryTime?: string | null; style?: StyleProp<ViewStyle> }) {
+    const { vitalSigns, emotiveChecklist, thresholdSet } = useClinical();
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+
+    const [metric, setMetric] = useState<ChartMetric>('shock_index');
+    const [width, setWidth] = useState(0);
+
+    const data = useMemo(
+        () => buildVitalsChartData(vitalSigns, {
+            deliveryTime,
+            emotive: emotiveChecklist,
+            thresholds: thresholdSet.thresholds,
+        }),
+        [vitalSigns, deliveryTime, emotiveChecklist, thresholdSet]
+    );
+
+    if (vitalSigns.length === 0) return null;
+
+    const config = CHART_METRICS[metric];
+    const points = data.series[metric];
+    const layout: ChartLayout = { width, height: CHART_HEIGHT, padding: PADDING };
+    const scale = createChartScale(data, metric, layout);
+    const plotBottom = CHART_HEIGHT - PADDING.bottom;
+    const plotWidth = width - PADDING.left - PADDING.right;
+
+    const handleLayout = (e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width);
+
+    return (
+        <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.border }, style]}>
+            {/* Metric selector */}
+            <View style={styles.chipRow}>
+                {CHART_METRIC_ORDER.map(m => {
+                    const active = m === metric;
+                    return (
+                        <TouchableOpacity
+                            key={m}
+                            style={[
+                                styles.chip,
+                                { borderColor: active ? CHART_METRICS[m].color : colors.border },
+                                active && { backgroundColor: CHART_METRICS[m].color + '15' },
+                            ]}
+                            onPress={() => setMetric(m)}
+                        >
+                            <Text style={[styles.chipText, { color: active ? CHART_METRICS[m].color : colors.textSecondary }]}>
+                                {CHART_METRICS[m].shortLabel}
+                            </Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+
+            <View style={{ height: CHART_HEIGHT }} onLayout={handleLayout}>
+                {width > 0 && (
+                    <>
+                        {/* Threshold bands (SI only) */}
+                        {metric === 'shock_index' && data.siBands.map(band => {
+                            const [yMin, yMax] = scale.yDomain;
+                            const from = Math.max(band.from, yMin);
+                            const to = Math.min(band.to, yMax);
+                            if (to <= from) return null;
+                            return (
+                                <View
+                                    key={band.label}
+                                    style={[styles.band, {
+                                        left: PADDING.left,
+                                        width: plotWidth,
+                                        top: scale.y(to),
+                                        height: scale.y(from) - scale.y(to),
+                                        backgroundColor: band.color + '1F',
+                                    }]}
+                                />
+                            );
+                        })}
+
+                        {/* Grid + y labels */}
+                        {scale.yTicks.map(v => (
+                            <React.Fragment key={`y-${v}`}>
+                                <View style={[styles.gridLine, { left: PADDING.left, width: plotWidth, top: scale.y(v), backgroundColor: colors.border }]} />
+                                <Text style={[styles.axisLabel, styles.yLabel, { top: scale.y(v) - 7, width: PADDING.left - 4, color: colors.textSecondary }]}>
+                                    {formatChartValue(metric, v)}
+                                </Text>
+                            </React.Fragment>
+                        ))}
+
+                        {/* X ticks */}
+                        {scale.xTicks.map(t => (
+                            <Text
+                                key={`x-${t}`}
+                                style={[styles.axisLabel, styles.xLabel, { left: scale.x(t) - 20, top: plotBottom + 4, color: colors.textSecondary }]}
+                            >
+                                {formatChartMinutes(t, data.originIsDelivery)}
+                            </Text>
+                        ))}
+
+                        {/* Delivery line */}
+                        {data.originIsDelivery && (
+                            <View style={[styles.vLine, { left: scale.x(0), top: PADDING.top, height: plotBottom - PADDING.top, backgroundColor: colors.primary }]} />
+                        )}
+
+                        {/* E-MOTIVE markers */}
+                        {data.markers.map(m => (
+                            <React.Fragment key={m.letter}>
+                                <View style={[styles.vLine, styles.markerLine, { left: scale.x(m.minutes), top: PADDING.top, height: plotBottom - PADDING.top, borderColor: m.color }]} />
+                                <Text style={[styles.markerLetter, { left: scale.x(m.minutes) - 12, color: m.color }]}>{m.letter}</Text>
+                            </React.Fragment>
+                        ))}
+
+                        {/* Series */}
+                        {config.secondaryColor && (
+                            <Polyline
+                                points={points
+                                    .filter(p => p.secondary !== undefined)
+                                    .map(p => ({ x: scale.x(p.minutes), y: scale.y(p.secondary!) }))}
+                                color={config.secondaryColor}
+                            />
+                        )}
+                        <Polyline
+                            points={points.map(p => ({ x: scale.x(p.minutes), y: scale.y(p.value) }))}
+                            color={config.color}
+                        />
+                    </>
+                )}
+            </View>
+
+            {/* Latest value + marker legend */}
+            <View style={styles.footer}>
+                <Text style={[styles.latestText, { color: config.color }]}>
+                    {points.length > 0
+                        ? `${config.label}: ${formatChartValue(metric, points[points.length - 1].value)}${points[points.length - 1].secondary !== undefined ? `/${points[points.length - 1].secondary}` : ''} ${config.unit}`
+                        : `No ${config.label} readings`}
+                </Text>
+                <Text style={[styles.originText, { color: colors.textSecondary }]}>
+                    {data.originIsDelivery ? 'Minutes since delivery' : 'Minutes since first reading'}
+                </Text>
+            </View>
+            {data.markers.length > 0 && (
+                <View style={styles.legendRow}>
+                    {data.markers.map(m => (
+                        <Text key={m.letter} style={[styles.legendItem, { color: m.color }]}>
+                            {m.letter} {m.label}
+                        </Text>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+// ── Sub-components ────────────────────────────────────────────
+
+/** Line segments are thin Views rotated between consecutive points */
+function Polyline({ points, color }: { points: { x: number; y: number }[]; color: string }) {
+    return (
+        <>
+            {points.slice(1).map((p, i) => {
+                const prev = points[i];
+                const dx = p.x - prev.x;
+                const dy = p.y - prev.y;
+                const length = Math.sqrt(dx * dx + dy * dy);
+                return (
+                    <View
+                        key={`seg-${i}`}
+                        style={[styles.segment, {
+                            left: (prev.x + p.x) / 2 - length / 2,
+                            top: (prev.y + p.y) / 2 - 1,
+                            width: length,
+                            backgroundColor: color,
+                            transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+                        }]}
+                    />
+                );
+            })}
+            {points.map((p, i) => (
+                <View key={`pt-${i}`} style={[styles.point, { left: p.x - 3.5, top: p.y - 3.5, backgroundColor: color }]} />
+            ))}
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        padding: Spacing.smd,
+        marginBottom: Spacing.md,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.xs,
+        marginBottom: Spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: 4,
+        borderRadius: Radius.full,
+        borderWidth: 1,
+    },
+    chipText: {
+        ...Typography.labelSm,
+    },
+    band: {
+        position: 'absolute',
+    },
+    gridLine: {
+        position: 'absolute',
+        height: StyleSheet.hairlineWidth,
+    },
+    axisLabel: {
+        position: 'absolute',
+        fontSize: 9,
+    },
+    yLabel: {
+        left: 0,
+        textAlign: 'right',
+    },
+    xLabel: {
+        width: 40,
+        textAlign: 'center',
+    },
+    vLine: {
+        position: 'absolute',
+        width: 1.5,
+    },
+    markerLine: {
+        width: 0,
+        borderLeftWidth: 1,
+        borderStyle: 'dashed',
+    },
+    markerLetter: {
+        position: 'absolute',
+        top: 0,
+        width: 24,
+        textAlign: 'center',
+        fontSize: 10,
+        fontWeight: '700',
+    },
+    segment: {
+        position: 'absolute',
+        height: 2,
+    },
+    point: {
+        position: 'absolute',
+        width: 7,
+        height: 7,
+        borderRadius: 3.5,
+    },
+    footer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: Spacing.xs,
+    },
+    latestText: {
+        ...Typography.labelSm,
+    },
+    originText: {
+        fontSize: 11,
+    },
+    legendRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.sm,
+        marginTop: Spacing.xs,
+    },
+    legendItem: {
+        fontSize: 11,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,210 @@
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { VITAL_LIMITS, VitalIssue } from '@/lib/vitals-validation';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    Pressable,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+interface VitalsConfirmModalProps {
+    visible: boolean;
+    warnings: VitalIssue[];
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+/**
+ * Double-entry confirmation for implausible or sudden-change values.
+ * Each flagged value must be typed again and match before saving.
+ */
+export function VitalsConfirmModal({ visible, warnings, onConfirm, onCancel }: VitalsConfirmModalProps) {
+    const colorScheme = useColorScheme();
+    const colors = Colors[colorScheme ?? 'light'];
+    const [reentered, setReentered] = useState<Record<string, string>>({});
+
+    // Start blank each time the modal opens
+    useEffect(() => {
+        if (visible) setReentered({});
+    }, [visible]);
+
+    const fields = Array.from(new Set(warnings.map(w => w.field)));
+    const matches = (field: string) => {
+        const value = warnings.find(w => w.field === field)!.value;
+        const typed = parseFloat(reentered[field] ?? '');
+        return !isNaN(typed) && typed === value;
+    };
+    const allConfirmed = fields.every(matches);
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+            <KeyboardAvoidingView
+                style={{ flex: 1 }}
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            >
+                <Pressable style={styles.overlay} onPress={onCancel}>
+                    <Pressable style={[styles.content, { backgroundColor: colors.background }]}>
+                        <View style={styles.header}>
+                            <View style={styles.headerLeft}>
+                                <Ionicons name="warning" size={24} color={colors.warning} />
+                                <Text style={[styles.title, { color: colors.text }]}>Confirm Unusual Values</Text>
+                            </View>
+                            <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+                                <Ionicons name="close" size={24} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled">
+                            <Text style={[styles.intro, { color: colors.textSecondary }]}>
+                                Re-check the patient and type each value again to confirm it.
+                            </Text>
+
+                            {fields.map(field => {
+                                const issues = warnings.filter(w => w.field === field);
+                                const limit = VITAL_LIMITS[field];
+                                const ok = matches(field);
+                                return (
+                                    <View
+                                        key={field}
+                                        style={[styles.fieldCard, { backgroundColor: colors.card, borderColor: ok ? colors.success : colors.border }]}
+                                    >
+                                        {issues.map(issue => (
+                                            <Text key={issue.kind} style={[styles.issueText, { color: colors.text }]}>
+                                                {issue.message}
+                                            </Text>
+                                        ))}
+                                        <View style={styles.inputRow}>
+                                            <TextInput
+                                                style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.inputBackground }]}
+                                                value={reentered[field] ?? ''}
+                                                onChangeText={v => setReentered(prev => ({ ...prev, [field]: v }))}
+                                                placeholder={`Re-enter ${limit.label.toLowerCase()}`}
+                                                placeholderTextColor={colors.placeholder}
+                                                keyboardType="decimal-pad"
+                                            />
+                                            <Text style={[styles.unit, { color: colors.textSecondary }]}>{limit.unit}</Text>
+                                            {ok && <Ionicons name="checkmark-circle" size={20} color={colors.success} />}
+                                        </View>
+                                    </View>
+                                );
+                            })}
+                        </ScrollView>
+
+                        <View style={styles.actions}>
+                            <TouchableOpacity
+                                style={[styles.actionButton, { borderColor: colors.border }]}
+                                onPress={onCancel}
+                            >
+                                <Text style={[styles.actionText, { color: colors.textSecondary }]}>Edit Values</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.actionButton,
+                                    { backgroundColor: colors.primary, borderColor: colors.primary },
+                                    !allConfirmed && { opacity: 0.5 },
+                                ]}
+                                onPress={onConfirm}
+                                disabled={!allConfirmed}
+                            >
+                                <Text style={[styles.actionText, { color: '#FFF' }]}>Confirm & Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    content: {
+        borderTopLeftRadius: Radius.xl,
+        borderTopRightRadius: Radius.xl,
+        maxHeight: '85%',
+        paddingBottom: 20,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: Spacing.lg,
+        borderBottomWidth: 1,
+        borderBottomColor: '#00000010',
+    },
+    headerLeft: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    title: {
+        ...Typography.headingMd,
+    },
+    closeButton: {
+        padding: Spacing.xs,
+    },
+    scroll: {
+        paddingHorizontal: Spacing.lg,
+    },
+    intro: {
+        ...Typography.bodySm,
+        marginVertical: Spacing.md,
+    },
+    fieldCard: {
+        padding: Spacing.md,
+        borderRadius: Radius.lg,
+        borderWidth: 1,
+        marginBottom: Spacing.sm,
+        gap: Spacing.xs,
+    },
+    issueText: {
+        ...Typography.labelMd,
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        marginTop: Spacing.xs,
+    },
+    input: {
+        flex: 1,
+        ...Typography.bodyMd,
+        borderWidth: 1,
+        borderRadius: Radius.md,
+        paddingHorizontal: Spacing.smd,
+        paddingVertical: Spacing.sm,
+    },
+    unit: {
+        ...Typography.labelSm,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+        paddingHorizontal: Spacing.lg,
+        paddingTop: Spacing.md,
+    },
+    actionButton: {
+        flex: 1,
+        height: 48,
+        borderRadius: Radius.md,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    actionText: {
+        ...Typography.buttonMd,
+    },
+});
@@ -139,6 +139,20 @@ export function AdminDashboard() {
       color: '#0EA5E9',
       onPress: () => router.push('/(app)/management/emergency-contacts'),
     },
+    {
+      label: 'Shock Thresholds',
+      description: 'Set facility shock index cut-offs and alarm policy',
+      icon: 'gauge' as const,
+      color: '#D32F2F',
+      onPress: () => router.push('/(app)/management/shock-thresholds'),
+    },
+    {
+      label: 'Devices',
+      description: 'Revoke a lost device or restore one that turned up',
+      icon: 'lock.fill' as const,
+      color: '#64748B',
+      onPress: () => router.push('/(app)/management/devices'),
+    },
   ];
 
   return (
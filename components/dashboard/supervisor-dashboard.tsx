@@ -153,6 +153,12 @@ export function SupervisorDashboard() {
           color="#0EA5E9"
           onPress={() => router.push('/(app)/management/emergency-contacts')}
         />
+        <ActionItem
+          label="SI Thresholds"
+          icon="gauge"
+          color="#D32F2F"
+          onPress={() => router.push('/(app)/management/shock-thresholds')}
+        />
       </View>
 
       {/* Recent Active Cases */}
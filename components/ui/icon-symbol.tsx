@@ -65,10 +65,18 @@ const MAPPING = {
   'square.grid.2x2.fill': 'grid-outline',
   'clock.arrow.circlepath': 'time-outline',
   'info.circle': 'information-circle-outline',
+  'exclamationmark.triangle': 'warning-outline',
+  'list.bullet.rectangle': 'list-outline',
+  'icloud.and.arrow.up': 'cloud-upload-outline',
+  'wifi': 'wifi-outline',
+  'battery.25': 'battery-half-outline',
+  'internaldrive': 'phone-portrait-outline',
   'pause.circle': 'pause-circle-outline',
   'play.circle': 'play-circle-outline',
   // Clinical / medical
   'cross.case.fill': 'medkit-outline',
+  'gauge': 'speedometer-outline',
+  'chart.line.uptrend.xyaxis': 'trending-up-outline',
 } as IconMapping;
 
 export function IconSymbol({
@@ -2,7 +2,10 @@ import NetInfo from '@react-native-community/netinfo';
 import { Session, User } from '@supabase/supabase-js';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { cacheProfile, clearProfileCache, getCachedProfile, getLatestCachedUser, initDatabase } from '../lib/db';
+import { checkInDevice } from '../lib/device-revocation';
 import { authenticateBiometric, deleteOfflineCredentials, saveOfflineCredentials, verifyOfflineCredentials } from '../lib/security';
+import { wipeSharedDB } from '../lib/shared-db';
+import { processQueue } from '../lib/sync-queue';
 import { supabase } from '../lib/supabase';
 
 type Profile = {
@@ -87,12 +90,26 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           setProfile(freshProfile);
           await cacheProfile(userId, freshProfile, freshUserObj || user);
         }
+
+        await enforceDeviceRevocation();
       }
     } catch (error) {
       console.warn('[Auth] fetchProfile error (non-fatal):', error);
     }
   };
 
+  /** Wipe and sign out if this device has been revoked for the user */
+  const enforceDeviceRevocation = async () => {
+    try {
+      if (await checkInDevice()) {
+        console.warn('[Auth] Device revoked — wiping local data and signing out');
+        await signOut();
+      }
+    } catch (error) {
+      console.warn('[Auth] Device check-in failed (non-fatal):', error);
+    }
+  };
+
   /** Try to load cached user from SQLite as a fallback for offline startup */
   const fallbackToCache = async () => {
     try {
@@ -217,9 +234,16 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   const signOut = async () => {
+    // Last chance to send queued changes while the session is valid — anything still
+    // unsent is erased with the database below. Callers warn the user about that first.
+    try {
+      if ((await NetInfo.fetch()).isConnected) await processQueue();
+    } catch (e) { console.warn('[Auth] Sync before sign-out failed:', e); }
     // Clear all persistent state so cold start lands on login
     await clearProfileCache();
     await deleteOfflineCredentials();
+    // Destroy the encrypted clinical database and its key — nothing readable stays on the device
+    try { await wipeSharedDB(); } catch (e) { console.warn('[Auth] Database wipe failed:', e); }
     // Always call signOut — clears SecureStore session tokens even if network request fails
     try { await supabase.auth.signOut(); } catch { /* ignore network errors */ }
     setSession(null);
@@ -4,53 +4,90 @@
  * Manages the clinical workflow state:
  * - Active maternal profiles for the current unit
  * - Vital signs for active cases
+ * - Cumulative blood loss ledger (per-entry increments)
  * - Auto-prompt timer for vital sign recording
+ * - Plausibility checks on vitals (hard limits block, unusual values need confirmation)
+ * - Amending / voiding vitals with a reason, keeping the original values
+ * - Intrapartum risk reassessment with a history of risk snapshots
+ * - Risk-driven preparedness checklist completions
+ * - Trend-based deterioration alerts across successive vitals
+ * - Facility shock index thresholds and alarm policy (cached for offline use)
  * - Sync lifecycle with offline-first approach
+ * - Sync conflicts held for review, resolved per field group
+ * - Patients across delivery episodes: returning-patient matching and history
  */
 
 import {
     deleteEmergencyContact,
-    getCaseEvents,
+    discardSyncItem,
     getEmergencyContacts,
-    getEmotiveChecklist,
-    getMaternalProfile,
-    getMaternalProfiles,
-    getVitalSigns,
+    getLatestShockThresholdSet,
+    getOpenSyncConflicts,
+    getPatient,
+    getPatients,
+    getUnsyncedSyncItems,
     initClinicalDatabase,
+    LocalBloodLossEntry,
     LocalCaseEvent,
     LocalEmergencyContact,
     LocalEmotiveChecklist,
     LocalMaternalProfile,
+    LocalPatient,
+    LocalPreparednessCheck,
+    LocalRiskAssessment,
+    LocalShockThresholdSet,
+    LocalSyncConflict,
     LocalVitalSign,
-    saveCaseEvent,
+    purgeClosedCases,
+    retrySyncItem,
     saveEmergencyContacts,
-    saveEmotiveChecklist,
-    saveMaternalProfile,
-    saveVitalSign,
-    updateDeliveryTime,
-    updateEmotiveStep,
-    updateMaternalProfileStatus
+    savePatient,
+    saveShockThresholdSets,
+    saveSyncConflict,
+    SyncQueueItem
 } from '@/lib/clinical-db';
-import {
-    clearAllTrainingData,
-    deleteTrainingProfile,
-    getTrainingCaseEvents,
-    getTrainingChecklist,
-    getTrainingProfile,
-    getTrainingProfiles,
-    getTrainingVitals,
-    saveTrainingCaseEvent,
-    saveTrainingChecklist,
-    saveTrainingProfile,
-    saveTrainingVitals,
-} from '@/lib/training-db';
+import { clinicalStore, trainingStore } from '@/lib/clinical-store';
+import { configureBackgroundSync, getBackgroundSyncPrefs, getLastBackgroundSyncRun, isBackgroundSyncAvailable, setBackgroundSyncPrefs } from '@/lib/background-sync';
+import { BackgroundSyncPrefs, BackgroundSyncRun, DEFAULT_BACKGROUND_SYNC_PREFS } from '@/lib/background-sync-policy';
 import { initAlarmSounds, isAlarmMuted, releaseAlarmSounds, setAlarmMuted } from '@/lib/audio/shock-alarm';
-import { calculateRisk, MaternalRiskInput, RiskResult } from '@/lib/risk-calculator';
-import { calculateShockIndex, ShockResult, triggerShockAlarm } from '@/lib/shock-index';
+import { BloodLossMethod, cumulativeBloodLoss } from '@/lib/blood-loss';
+import { CaseSearchQuery, matchesCaseQuery } from '@/lib/case-search';
+import { calculateMeows, MeowsInput, MeowsResult } from '@/lib/meows';
+import { EpisodeBleeding, estimateBirthYear, findPatientMatches, PatientLookup, PatientMatch, priorEpisodeHistory, PriorEpisodeHistory } from '@/lib/patient-identity';
+import { PREPAREDNESS_ITEMS, preparednessCheckLocalId } from '@/lib/preparedness';
+import {
+    calculateRisk,
+    diffRiskFactors,
+    getRiskRuleSet,
+    MaternalRiskInput,
+    RiskResult,
+    snapshotFactors,
+} from '@/lib/risk-calculator';
+import {
+    calculateShockIndex,
+    DEFAULT_THRESHOLD_SET,
+    setActiveThresholdSet,
+    ShockAlarmPolicy,
+    ShockResult,
+    ShockThreshold,
+    ShockThresholdSet,
+    shouldSoundAlarm,
+    triggerShockAlarm,
+} from '@/lib/shock-index';
+import { analyzeVitalsTrend, DEFAULT_TREND_CONFIG, TrendResult } from '@/lib/shock-trend';
+import { RealtimeFeedStatus, subscribeToFacilityChanges } from '@/lib/realtime-sync';
 import { supabase } from '@/lib/supabase';
+import { CONFLICT_TABLE_LABELS, ConflictChoice, ConflictTable, FieldConflict, resolveMerge } from '@/lib/sync-conflicts';
+import { getAvailableScopeModes, getPullScopeMode, PullScope, SyncScopeMode } from '@/lib/sync-cursor';
+import { DEFAULT_SYNC_STUCK_MINUTES, getSyncItemCase, isSyncItemStuck, SYNC_TABLE_LABELS } from '@/lib/sync-status';
+import { applyDeviceDataPrefs, DEFAULT_DEVICE_DATA_PREFS, DeviceDataPrefs, getRetentionCutoff, parseDeviceDataPrefs } from '@/lib/sync-scope';
 import { generateUUID, processQueue, pullFromRemote, queueOperation, startSyncListener, stopSyncListener } from '@/lib/sync-queue';
+import { AmendableVitalField, isVoided, parseOriginalValues, snapshotOriginalValues, VitalAmendmentStatus, voidedReadingIds } from '@/lib/vital-amendments';
+import { validateVitals } from '@/lib/vitals-validation';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
-import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import * as Haptics from 'expo-haptics';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from './auth';
 import { useMode } from './mode';
 import { useUnits } from './unit';
@@ -63,8 +100,22 @@ export interface MaternalProfile extends LocalMaternalProfile {
 
 export interface VitalSign extends LocalVitalSign {
     shockResult?: ShockResult;
+    meowsResult?: MeowsResult;
 }
 
+const toMeowsInput = (v: LocalVitalSign): MeowsInput => ({
+    heartRate: v.heart_rate,
+    systolicBp: v.systolic_bp,
+    diastolicBp: v.diastolic_bp,
+    temperature: v.temperature,
+    respiratoryRate: v.respiratory_rate,
+    spo2: v.spo2,
+});
+
+const SYNC_STUCK_MINUTES_KEY = 'motivaid_sync_stuck_minutes';
+const TREND_WINDOW_MINUTES_KEY = 'motivaid_trend_window_minutes';
+const DEVICE_DATA_PREFS_KEY = 'motivaid_device_data_prefs';
+
 export type EmotiveStep = 'early_detection' | 'massage' | 'oxytocin' | 'txa' | 'iv_fluids' | 'escalation';
 
 type ClinicalContextType = {
@@ -74,6 +125,14 @@ type ClinicalContextType = {
     activeProfile: MaternalProfile | null;
     vitalSigns: VitalSign[];
     latestVital: VitalSign | null;
+    vitalsTrend: TrendResult | null;
+    /** How far back from the latest reading the deterioration trend looks */
+    trendWindowMinutes: number;
+    setTrendWindowMinutes: (minutes: number) => Promise<void>;
+    bloodLossEntries: LocalBloodLossEntry[];
+    cumulativeBloodLoss: number;
+    riskAssessments: LocalRiskAssessment[];
+    preparednessChecks: LocalPreparednessCheck[];
 
     // Loading states
     isLoading: boolean;
@@ -84,13 +143,59 @@ type ClinicalContextType = {
     updateProfileStatus: (localId: string, status: string, outcome?: string) => Promise<void>;
     updateDeliveryTime: (localId: string, deliveryTime: string) => Promise<void>;
     recordVitals: (input: RecordVitalsInput) => Promise<void>;
+    amendVitalSign: (vitalLocalId: string, changes: AmendVitalsInput, reason: string) => Promise<void>;
+    voidVitalSign: (vitalLocalId: string, reason: string) => Promise<void>;
+    refreshBloodLoss: (profileLocalId: string) => Promise<void>;
+    reassessRisk: (profileLocalId: string, changes: Partial<MaternalRiskInput>, notes?: string) => Promise<RiskResult>;
+    refreshRiskAssessments: (profileLocalId: string) => Promise<void>;
+    setPreparednessItem: (profileLocalId: string, itemId: string, completed: boolean) => Promise<void>;
+    refreshPreparedness: (profileLocalId: string) => Promise<void>;
     setActiveProfileId: (localId: string | null) => void;
     refreshProfiles: () => Promise<void>;
     fetchAllFacilityProfiles: () => Promise<void>;
+    /** Cases on this device matching the query — works offline */
+    searchProfiles: (query: CaseSearchQuery) => Promise<MaternalProfile[]>;
+    /** Known patients who may be the one being registered, with what their earlier episodes show */
+    findReturningPatients: (lookup: PatientLookup) => Promise<ReturningPatient[]>;
+    /** The patient a case belongs to and her other delivery episodes */
+    getPatientHistory: (profileLocalId: string) => Promise<PatientHistory | null>;
     refreshVitals: (profileLocalId: string) => Promise<void>;
     syncNow: () => Promise<void>;
     lastSyncResult: { pushed: number; pulled: number; errors: number } | null;
 
+    // Sync conflicts
+    syncConflicts: LocalSyncConflict[];
+    refreshSyncConflicts: () => Promise<void>;
+    resolveSyncConflict: (conflictId: string, choices: Record<string, ConflictChoice>) => Promise<void>;
+
+    // Sync status
+    syncQueueItems: SyncQueueItem[];
+    /** Items dead-lettered or waiting longer than syncStuckMinutes */
+    stuckSyncCount: number;
+    syncStuckMinutes: number;
+    setSyncStuckMinutes: (minutes: number) => Promise<void>;
+    refreshSyncQueue: () => Promise<void>;
+    retrySyncQueueItem: (itemId: string) => Promise<void>;
+    discardSyncQueueItem: (itemId: string) => Promise<void>;
+
+    // Background sync (native only — unavailable on web or when the OS restricts it)
+    backgroundSyncAvailable: boolean;
+    backgroundSyncPrefs: BackgroundSyncPrefs;
+    updateBackgroundSyncPrefs: (changes: Partial<BackgroundSyncPrefs>) => Promise<void>;
+    lastBackgroundSync: BackgroundSyncRun | null;
+    refreshBackgroundSyncStatus: () => Promise<void>;
+
+    /** Supervisors' live facility feed — 'polling' while the realtime socket is unavailable */
+    realtimeStatus: RealtimeFeedStatus;
+
+    // Device data: which cases are pulled and how long closed ones are kept
+    deviceDataPrefs: DeviceDataPrefs;
+    updateDeviceDataPrefs: (changes: Partial<DeviceDataPrefs>) => Promise<void>;
+    /** Scope modes this user may choose, narrowest first */
+    availableScopeModes: SyncScopeMode[];
+    /** Remove closed cases past the retention threshold; returns how many were removed */
+    purgeExpiredCases: () => Promise<number>;
+
     // E-MOTIVE checklist
     emotiveChecklist: LocalEmotiveChecklist | null;
     startEmotiveBundle: (profileLocalId: string) => Promise<void>;
@@ -120,6 +225,14 @@ type ClinicalContextType = {
     alarmMuted: boolean;
     toggleAlarmMute: () => Promise<void>;
 
+    // Shock index thresholds (facility-configurable)
+    thresholdSet: ShockThresholdSet;
+    refreshThresholdSet: () => Promise<void>;
+    /** Newest published set for any facility (admins edit other facilities' sets); null if none */
+    loadThresholdSet: (facilityId: string) => Promise<ShockThresholdSet | null>;
+    /** Publishes for the user's facility, or for `facilityId` — any facility for an admin */
+    publishThresholdSet: (thresholds: ShockThreshold[], policy: ShockAlarmPolicy, facilityId?: string) => Promise<void>;
+
     // Training / simulation
     isSimulation: boolean;
     clearTrainingData: () => Promise<void>;
@@ -128,6 +241,10 @@ type ClinicalContextType = {
 
 export interface CreateProfileInput {
     patientId?: string;
+    /** Link the case to this known patient (a returning patient) */
+    patientLocalId?: string;
+    /** Registers a new patient with the case when no patientLocalId is given */
+    patientName?: string;
     age: number;
     gravida: number;
     parity: number;
@@ -138,6 +255,16 @@ export interface CreateProfileInput {
     notes?: string;
 }
 
+export interface ReturningPatient extends PatientMatch {
+    history: PriorEpisodeHistory;
+}
+
+export interface PatientHistory {
+    patient: LocalPatient;
+    /** The patient's other delivery episodes, most recent first */
+    episodes: MaternalProfile[];
+}
+
 export interface RecordVitalsInput {
     maternalProfileLocalId: string;
     heartRate?: number;
@@ -146,16 +273,22 @@ export interface RecordVitalsInput {
     temperature?: number;
     respiratoryRate?: number;
     spo2?: number;
-    estimatedBloodLoss: number;
-    bloodLossMethod?: 'visual' | 'drape' | 'weighed';
+    bloodLossIncrement: number; // mL lost since the previous entry (not the running total)
+    bloodLossMethod?: BloodLossMethod;
+    dryWeightG?: number;        // weighed only
+    wetWeightG?: number;        // weighed only
+    overrideWarnings?: boolean; // clinician re-entered the implausible / sudden-change values
 }
 
+/** Corrected values — only the fields being changed need to be present */
+export type AmendVitalsInput = Partial<Pick<LocalVitalSign, AmendableVitalField>>;
+
 const ClinicalContext = createContext<ClinicalContextType | undefined>(undefined);
 
 // ── Provider ─────────────────────────────────────────────────
 
 export const ClinicalProvider = ({ children }: { children: React.ReactNode }) => {
-    const { user, profile: authProfile } = useAuth();
+    const { user, profile: authProfile, isLoading: isAuthLoading } = useAuth();
     const { activeUnit } = useUnits();
     const { isSimulation } = useMode();
 
@@ -164,9 +297,23 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
     const [allProfiles, setAllProfiles] = useState<MaternalProfile[]>([]);
     const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
     const [vitalSigns, setVitalSigns] = useState<VitalSign[]>([]);
+    const [trendWindowMinutes, setTrendWindowMinutesState] = useState(DEFAULT_TREND_CONFIG.windowMinutes);
+    const [bloodLossEntries, setBloodLossEntries] = useState<LocalBloodLossEntry[]>([]);
+    const [riskAssessments, setRiskAssessments] = useState<LocalRiskAssessment[]>([]);
+    const [preparednessChecks, setPreparednessChecks] = useState<LocalPreparednessCheck[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [isSyncing, setIsSyncing] = useState(false);
     const [lastSyncResult, setLastSyncResult] = useState<{ pushed: number; pulled: number; errors: number } | null>(null);
+    const [syncConflicts, setSyncConflicts] = useState<LocalSyncConflict[]>([]);
+    const [syncQueueItems, setSyncQueueItems] = useState<SyncQueueItem[]>([]);
+    const [syncStuckMinutes, setSyncStuckMinutesState] = useState(DEFAULT_SYNC_STUCK_MINUTES);
+    const [syncClock, setSyncClock] = useState(() => Date.now());
+    const [backgroundSyncAvailable, setBackgroundSyncAvailable] = useState(false);
+    const [backgroundSyncPrefs, setBackgroundSyncPrefsState] = useState<BackgroundSyncPrefs>(DEFAULT_BACKGROUND_SYNC_PREFS);
+    const [lastBackgroundSync, setLastBackgroundSync] = useState<BackgroundSyncRun | null>(null);
+    const [realtimeStatus, setRealtimeStatus] = useState<RealtimeFeedStatus>('off');
+    const [deviceDataPrefs, setDeviceDataPrefsState] = useState<DeviceDataPrefs>(DEFAULT_DEVICE_DATA_PREFS);
+    const [deviceDataPrefsLoaded, setDeviceDataPrefsLoaded] = useState(false);
 
     // E-MOTIVE checklist state
     const [emotiveChecklist, setEmotiveChecklist] = useState<LocalEmotiveChecklist | null>(null);
@@ -178,6 +325,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
     // Alarm state
     const [alarmActive, setAlarmActive] = useState(false);
     const [alarmMuted, setAlarmMutedState] = useState(false);
+    const [thresholdSet, setThresholdSet] = useState<ShockThresholdSet>(DEFAULT_THRESHOLD_SET);
 
     // Auto-prompt state
     const [vitalsPromptInterval, setVitalsPromptInterval] = useState(15); // minutes
@@ -194,7 +342,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
             // ── Simulation mode — read from training tables only ──
             if (isSimulation) {
-                const trainingProfiles = await getTrainingProfiles();
+                const trainingProfiles = await trainingStore.getProfiles();
                 const enriched = trainingProfiles.map(p => ({
                     ...p,
                     riskResult: calculateRiskFromProfile(p),
@@ -209,7 +357,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             const isNormalUser = !authProfile?.role || authProfile.role === 'user';
 
             // First try local data
-            const localProfiles = await getMaternalProfiles(isSupervisor ? undefined : activeUnit?.id);
+            const localProfiles = await clinicalStore.getProfiles({ unitId: isSupervisor ? undefined : activeUnit?.id });
 
             // Try to fetch from Supabase if online
             const netState = await NetInfo.fetch();
@@ -278,7 +426,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                 .order('updated_at', { ascending: false });
 
             if (!error && data) {
-                const localProfiles = await getMaternalProfiles();
+                const localProfiles = await clinicalStore.getProfiles();
                 const merged = mergeRemoteIntoLocal(localProfiles, data);
                 const enriched = merged.map(p => ({
                     ...p,
@@ -293,11 +441,92 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         }
     }, [authProfile?.facility_id]);
 
+    const searchProfiles = useCallback(async (query: CaseSearchQuery): Promise<MaternalProfile[]> => {
+        await initClinicalDatabase();
+        const isSupervisor = authProfile?.role === 'supervisor' || authProfile?.role === 'admin';
+        const found = isSimulation
+            ? await trainingStore.searchProfiles(query.text ?? '')
+            : await clinicalStore.searchProfiles(query.text ?? '', { unitId: isSupervisor ? undefined : activeUnit?.id });
+        return found
+            .map(p => ({ ...p, riskResult: calculateRiskFromProfile(p) }))
+            .filter(p => matchesCaseQuery(p, query, p.riskResult.factors.map(f => f.id)));
+    }, [activeUnit?.id, authProfile?.role, isSimulation]);
+
+    // ── Patients ──────────────────────────────────────────────
+
+    /** Delivery episodes of a patient on this device, merged with the server's when reachable */
+    const getPatientEpisodes = useCallback(async (patientLocalId: string): Promise<MaternalProfile[]> => {
+        let episodes = await clinicalStore.getProfiles({ patientLocalId });
+        try {
+            const { data, error } = await supabase
+                .from('maternal_profiles')
+                .select('*')
+                .eq('patient_local_id', patientLocalId);
+            if (!error && data) episodes = mergeRemoteIntoLocal(episodes, data);
+        } catch {
+            // Offline — the episodes on this device
+        }
+        return episodes.map(p => ({ ...p, riskResult: calculateRiskFromProfile(p) }));
+    }, []);
+
+    const findReturningPatients = useCallback(async (lookup: PatientLookup): Promise<ReturningPatient[]> => {
+        // Training cases are not linked to real patients
+        if (isSimulation) return [];
+        await initClinicalDatabase();
+        const facilityId = activeUnit?.facility_id || authProfile?.facility_id;
+        const known = facilityId
+            ? await getPatients(facilityId)
+            : (await getPatients()).filter(p => p.created_by === user?.id);
+
+        return Promise.all(findPatientMatches(known, lookup).map(async match => {
+            const episodes = await getPatientEpisodes(match.patient.local_id);
+            return { ...match, history: priorEpisodeHistory(episodes, await getEpisodeBleeding(episodes)) };
+        }));
+    }, [activeUnit?.facility_id, authProfile?.facility_id, user?.id, isSimulation, getPatientEpisodes]);
+
+    const getPatientHistory = useCallback(async (profileLocalId: string): Promise<PatientHistory | null> => {
+        if (isSimulation) return null;
+        await initClinicalDatabase();
+        const profile = await clinicalStore.getProfile(profileLocalId);
+        if (!profile?.patient_local_id) return null;
+
+        const patient = await getPatient(profile.patient_local_id);
+        if (!patient) return null;
+
+        const episodes = await getPatientEpisodes(patient.local_id);
+        return {
+            patient,
+            episodes: episodes
+                .filter(e => e.local_id !== profileLocalId)
+                .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+        };
+    }, [isSimulation, getPatientEpisodes]);
+
     const createProfile = useCallback(async (input: CreateProfileInput): Promise<string> => {
         await initClinicalDatabase();
         const localId = generateUUID();
         const riskResult = calculateRisk(input.riskInput);
         const now = new Date().toISOString();
+        const facilityId = activeUnit?.facility_id || authProfile?.facility_id || undefined;
+
+        // A new case is one delivery episode — register the patient it belongs to unless she is already known
+        let patientLocalId = isSimulation ? undefined : input.patientLocalId;
+        if (!isSimulation && !patientLocalId && (input.patientId || input.patientName)) {
+            const patient: LocalPatient = {
+                local_id: generateUUID(),
+                facility_id: facilityId,
+                patient_number: input.patientId,
+                full_name: input.patientName,
+                birth_year: estimateBirthYear(input.age),
+                created_by: user?.id,
+                is_synced: false,
+                created_at: now,
+                updated_at: now,
+            };
+            await savePatient(patient);
+            await queueOperation('patients', patient.local_id, 'insert', patient);
+            patientLocalId = patient.local_id;
+        }
 
         // Debug: Log user info during profile creation
         console.log('DEBUG - Creating Profile:', {
@@ -309,30 +538,20 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
         const profile: LocalMaternalProfile = {
             local_id: localId,
-            facility_id: activeUnit?.facility_id || authProfile?.facility_id || undefined, // Allow missing for normal users
+            facility_id: facilityId, // Allow missing for normal users
             unit_id: activeUnit?.id || undefined, // Allow missing for unassigned staff and normal users
             created_by: user?.id,
             patient_id: input.patientId,
+            patient_local_id: patientLocalId,
             age: input.age,
             gravida: input.gravida,
             parity: input.parity,
             gestational_age_weeks: input.gestationalAgeWeeks,
-            is_multiple_gestation: input.riskInput.isMultipleGestation,
-            has_prior_cesarean: input.riskInput.hasPriorCesarean,
-            has_placenta_previa: input.riskInput.hasPlacentaPrevia,
-            has_large_fibroids: input.riskInput.hasLargeFibroids,
-            has_anemia: input.riskInput.hasAnemia,
-            has_pph_history: input.riskInput.hasPphHistory,
-            has_intraamniotic_infection: input.riskInput.hasIntraamnioticInfection,
-            has_severe_anemia: input.riskInput.hasSevereAnemia,
-            has_coagulopathy: input.riskInput.hasCoagulopathy,
-            has_severe_pph_history: input.riskInput.hasSeverePphHistory,
-            has_placenta_accreta: input.riskInput.hasPlacentaAccreta,
-            has_active_bleeding: input.riskInput.hasActiveBleeding,
-            has_morbid_obesity: input.riskInput.hasMorbidObesity,
+            ...riskInputToProfileFields(input.riskInput),
             hemoglobin_level: input.hemoglobinLevel,
             risk_level: riskResult.level,
             risk_score: riskResult.score,
+            risk_rule_version: riskResult.ruleSetVersion,
             delivery_time: input.deliveryTime,
             status: 'pre_delivery',
             notes: input.notes,
@@ -343,10 +562,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
         if (isSimulation) {
             // Training mode — save to training tables, no sync
-            const { is_synced: _, ...trainingProfile } = profile;
-            await saveTrainingProfile(trainingProfile);
+            await trainingStore.saveProfile(profile);
         } else {
-            await saveMaternalProfile(profile);
+            await clinicalStore.saveProfile(profile);
             await queueOperation('maternal_profiles', localId, 'insert', profile);
         }
 
@@ -380,20 +598,12 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
         const oldStatus = oldProfile?.status;
 
+        const fields = outcome ? { status, outcome } : { status };
         if (isSimulation) {
             // Training mode — update training profile directly
-            const existing = await getTrainingProfile(localId);
-            if (existing) {
-                const { is_synced: _, ...rest } = existing;
-                await saveTrainingProfile({
-                    ...rest,
-                    status,
-                    outcome: outcome ?? rest.outcome,
-                    updated_at: new Date().toISOString(),
-                });
-            }
+            await trainingStore.updateProfile(localId, fields);
         } else {
-            await updateMaternalProfileStatus(localId, status, outcome);
+            await clinicalStore.updateProfile(localId, fields);
         }
 
         // Auto-log status change event
@@ -409,7 +619,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
         if (!isSimulation) {
             try {
-                const updated = await getMaternalProfile(localId);
+                const updated = await clinicalStore.getProfile(localId);
                 if (updated) {
                     await queueOperation('maternal_profiles', localId, 'update', updated);
                 }
@@ -422,14 +632,10 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
     const updateDeliveryTimeCallback = useCallback(async (localId: string, deliveryTime: string) => {
         if (isSimulation) {
-            const existing = await getTrainingProfile(localId);
-            if (existing) {
-                const { is_synced: _, ...rest } = existing;
-                await saveTrainingProfile({ ...rest, delivery_time: deliveryTime, updated_at: new Date().toISOString() });
-            }
+            await trainingStore.updateProfile(localId, { delivery_time: deliveryTime });
         } else {
-            await updateDeliveryTime(localId, deliveryTime);
-            const updated = await getMaternalProfile(localId);
+            await clinicalStore.updateProfile(localId, { delivery_time: deliveryTime });
+            const updated = await clinicalStore.getProfile(localId);
             if (updated) {
                 await queueOperation('maternal_profiles', localId, 'update', updated);
             }
@@ -442,13 +648,13 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
     const refreshCaseEvents = useCallback(async (profileLocalId: string) => {
         try {
             if (isSimulation) {
-                const events = await getTrainingCaseEvents(profileLocalId);
+                const events = await trainingStore.getCaseEvents(profileLocalId);
                 setCaseEvents(events);
                 return;
             }
 
             // First try local
-            const local = await getCaseEvents(profileLocalId);
+            const local = await clinicalStore.getCaseEvents(profileLocalId);
             setCaseEvents(local);
 
             // Try remote if online
@@ -505,10 +711,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         };
 
         if (isSimulation) {
-            const { is_synced: _, ...trainingEvent } = event;
-            await saveTrainingCaseEvent(trainingEvent);
+            await trainingStore.saveCaseEvent(event);
         } else {
-            await saveCaseEvent(event);
+            await clinicalStore.saveCaseEvent(event);
             await queueOperation('case_events', localId, 'insert', event);
         }
         await refreshCaseEvents(eventInput.maternal_profile_id);
@@ -631,17 +836,88 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         }
     }, [authProfile?.facility_id]);
 
+    // ── Shock Threshold Operations ───────────────────────────
+
+    const applyThresholdSet = useCallback((set: ShockThresholdSet | null) => {
+        setActiveThresholdSet(set);
+        setThresholdSet(set ?? DEFAULT_THRESHOLD_SET);
+    }, []);
+
+    const refreshThresholdSet = useCallback(async () => {
+        const facilityId = authProfile?.facility_id;
+        if (!facilityId) {
+            applyThresholdSet(null);
+            return;
+        }
+        try {
+            // Cached copy first so thresholds work offline
+            const local = await getLatestShockThresholdSet(facilityId);
+            applyThresholdSet(local ? toThresholdSet(local) : null);
+
+            const remote = await pullLatestThresholdSet(facilityId, local);
+            if (remote) applyThresholdSet(toThresholdSet(remote));
+        } catch (error) {
+            console.error('Error refreshing shock thresholds:', error);
+        }
+    }, [authProfile?.facility_id, applyThresholdSet]);
+
+    const loadThresholdSet = useCallback(async (facilityId: string): Promise<ShockThresholdSet | null> => {
+        const local = await getLatestShockThresholdSet(facilityId);
+        const latest = await pullLatestThresholdSet(facilityId, local).catch(() => null) ?? local;
+        return latest ? toThresholdSet(latest) : null;
+    }, []);
+
+    const publishThresholdSet = useCallback(async (
+        thresholds: ShockThreshold[],
+        policy: ShockAlarmPolicy,
+        facilityId: string | undefined = authProfile?.facility_id ?? undefined
+    ) => {
+        if (!facilityId) throw new Error('Choose a facility to publish thresholds for');
+        if (authProfile?.role !== 'supervisor' && authProfile?.role !== 'admin') {
+            throw new Error('Only supervisors and admins can change shock thresholds');
+        }
+        if (authProfile.role === 'supervisor' && facilityId !== authProfile.facility_id) {
+            throw new Error('Supervisors can only change their own facility\'s thresholds');
+        }
+        const isOwnFacility = facilityId === authProfile.facility_id;
+        const current = isOwnFacility ? thresholdSet.version : (await getLatestShockThresholdSet(facilityId))?.version ?? 0;
+
+        // Every publish is a new version — earlier readings keep pointing at the set they used (by id).
+        // The server assigns the final number on insert, so two publishers can't collide;
+        // this one only orders the set on this device until the sync reads the real one back.
+        const set: ShockThresholdSet = {
+            id: generateUUID(),
+            facility_id: facilityId,
+            version: current + 1,
+            thresholds,
+            policy,
+            created_by: user?.id,
+            created_at: new Date().toISOString(),
+        };
+
+        await saveShockThresholdSets([{
+            ...set,
+            thresholds: JSON.stringify(thresholds),
+            policy: JSON.stringify(policy),
+            is_synced: false,
+        }]);
+        await queueOperation('shock_threshold_sets', set.id, 'insert', set);
+
+        if (isOwnFacility) applyThresholdSet(set);
+    }, [authProfile?.facility_id, authProfile?.role, user?.id, thresholdSet.version, applyThresholdSet]);
+
     // ── Vital Sign Operations ────────────────────────────────
 
     const refreshVitals = useCallback(async (profileLocalId: string) => {
         try {
             if (isSimulation) {
-                const trainingVitals = await getTrainingVitals(profileLocalId);
+                const trainingVitals = await trainingStore.getVitalSigns(profileLocalId);
                 const enriched: VitalSign[] = trainingVitals.map(v => ({
                     ...v,
                     shockResult: v.heart_rate && v.systolic_bp
-                        ? calculateShockIndex(v.heart_rate, v.systolic_bp)
+                        ? calculateShockIndex(v.heart_rate, v.systolic_bp, thresholdSet)
                         : undefined,
+                    meowsResult: calculateMeows(toMeowsInput(v)),
                 }));
                 setVitalSigns(enriched);
                 if (enriched.length > 0) {
@@ -651,7 +927,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             }
 
             // First try local
-            const local = await getVitalSigns(profileLocalId);
+            const local = await clinicalStore.getVitalSigns(profileLocalId);
 
             let finalVitals = local;
 
@@ -680,8 +956,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             const enriched: VitalSign[] = finalVitals.map(v => ({
                 ...v,
                 shockResult: v.heart_rate && v.systolic_bp
-                    ? calculateShockIndex(v.heart_rate, v.systolic_bp)
+                    ? calculateShockIndex(v.heart_rate, v.systolic_bp, thresholdSet)
                     : undefined,
+                meowsResult: calculateMeows(toMeowsInput(v)),
             }));
             setVitalSigns(enriched);
 
@@ -692,6 +969,116 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         } catch (error) {
             console.error('Error refreshing vitals:', error);
         }
+    }, [isSimulation, thresholdSet]);
+
+    const refreshBloodLoss = useCallback(async (profileLocalId: string) => {
+        try {
+            if (isSimulation) {
+                setBloodLossEntries(await trainingStore.getBloodLossEntries(profileLocalId));
+                return;
+            }
+
+            const local = await clinicalStore.getBloodLossEntries(profileLocalId);
+            let finalEntries = local;
+
+            const netState = await NetInfo.fetch();
+            if (netState.isConnected) {
+                const { data: profileData } = await supabase
+                    .from('maternal_profiles')
+                    .select('id')
+                    .or(`local_id.eq.${profileLocalId},id.eq.${profileLocalId}`)
+                    .maybeSingle();
+
+                if (profileData?.id) {
+                    const { data, error } = await supabase
+                        .from('blood_loss_entries')
+                        .select('*')
+                        .eq('maternal_profile_id', profileData.id)
+                        .order('recorded_at', { ascending: false });
+
+                    if (!error && data) {
+                        finalEntries = mergeRemoteItems(local, data, 'recorded_at');
+                    }
+                }
+            }
+
+            setBloodLossEntries(finalEntries);
+        } catch (error) {
+            console.error('Error refreshing blood loss ledger:', error);
+        }
+    }, [isSimulation]);
+
+    const refreshRiskAssessments = useCallback(async (profileLocalId: string) => {
+        try {
+            if (isSimulation) {
+                setRiskAssessments(await trainingStore.getRiskAssessments(profileLocalId));
+                return;
+            }
+
+            const local = await clinicalStore.getRiskAssessments(profileLocalId);
+            let finalAssessments = local;
+
+            const netState = await NetInfo.fetch();
+            if (netState.isConnected) {
+                const { data: profileData } = await supabase
+                    .from('maternal_profiles')
+                    .select('id')
+                    .or(`local_id.eq.${profileLocalId},id.eq.${profileLocalId}`)
+                    .maybeSingle();
+
+                if (profileData?.id) {
+                    const { data, error } = await supabase
+                        .from('risk_assessments')
+                        .select('*')
+                        .eq('maternal_profile_id', profileData.id)
+                        .order('assessed_at', { ascending: false });
+
+                    if (!error && data) {
+                        finalAssessments = mergeRemoteItems(local, data, 'assessed_at');
+                    }
+                }
+            }
+
+            setRiskAssessments(finalAssessments);
+        } catch (error) {
+            console.error('Error refreshing risk assessments:', error);
+        }
+    }, [isSimulation]);
+
+    const refreshPreparedness = useCallback(async (profileLocalId: string) => {
+        try {
+            if (isSimulation) {
+                setPreparednessChecks(await trainingStore.getPreparednessChecks(profileLocalId));
+                return;
+            }
+
+            const local = await clinicalStore.getPreparednessChecks(profileLocalId);
+            let finalChecks = local;
+
+            const netState = await NetInfo.fetch();
+            if (netState.isConnected) {
+                const { data: profileData } = await supabase
+                    .from('maternal_profiles')
+                    .select('id')
+                    .or(`local_id.eq.${profileLocalId},id.eq.${profileLocalId}`)
+                    .maybeSingle();
+
+                if (profileData?.id) {
+                    const { data, error } = await supabase
+                        .from('preparedness_checks')
+                        .select('*')
+                        .eq('maternal_profile_id', profileData.id);
+
+                    if (!error && data) {
+                        finalChecks = mergeRemoteItems(local, data, 'updated_at');
+                    }
+                }
+            }
+
+            setPreparednessChecks(finalChecks);
+        } catch (error) {
+            console.error('Error refreshing preparedness checks:', error);
+        }
     }, [isSimulation]);
 
     const recordVitals = useCallback(async (input: RecordVitalsInput) => {
@@ -701,9 +1088,27 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             return;
         }
 
+        // Plausibility — hard limits always reject; unusual values must have been confirmed
+        const previousVitals = isSimulation
+            ? await trainingStore.getVitalSigns(input.maternalProfileLocalId)
+            : await clinicalStore.getVitalSigns(input.maternalProfileLocalId);
+        const validation = validateVitals(input, previousVitals.find(v => !isVoided(v)));
+        if (validation.errors.length > 0) {
+            throw new Error(validation.errors.map(e => e.message).join('; '));
+        }
+        if (validation.warnings.length > 0 && !input.overrideWarnings) {
+            throw new Error(`Unconfirmed values: ${validation.warnings.map(w => w.message).join('; ')}`);
+        }
+
         const localId = generateUUID();
         const now = new Date().toISOString();
 
+        // Blood loss is entered as an increment; the vital carries the running total
+        const priorEntries = isSimulation
+            ? await trainingStore.getBloodLossEntries(input.maternalProfileLocalId)
+            : await clinicalStore.getBloodLossEntries(input.maternalProfileLocalId);
+        const bloodLossTotal = cumulativeBloodLoss(priorEntries, voidedReadingIds(previousVitals)) + input.bloodLossIncrement;
+
         const shockIndex = input.heartRate && input.systolicBp && input.systolicBp > 0
             ? Math.round((input.heartRate / input.systolicBp) * 10) / 10
             : undefined;
@@ -719,32 +1124,65 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             respiratory_rate: input.respiratoryRate,
             spo2: input.spo2,
             shock_index: shockIndex,
-            estimated_blood_loss: input.estimatedBloodLoss,
+            threshold_set_id: thresholdSet.id === DEFAULT_THRESHOLD_SET.id ? undefined : thresholdSet.id,
+            threshold_version: thresholdSet.version,
+            estimated_blood_loss: bloodLossTotal,
             blood_loss_method: input.bloodLossMethod,
             is_synced: false,
             recorded_at: now,
         };
 
+        // MEOWS is scored alongside SI so both travel with the reading
+        const meows = calculateMeows(toMeowsInput(vital));
+        vital.meows_red = meows.red;
+        vital.meows_yellow = meows.yellow;
+        vital.meows_level = meows.level;
+
         if (isSimulation) {
-            const { is_synced: _, ...trainingVital } = vital;
-            await saveTrainingVitals(trainingVital);
+            await trainingStore.saveVitalSign(vital);
         } else {
-            await saveVitalSign(vital);
+            await clinicalStore.saveVitalSign(vital);
             await queueOperation('vital_signs', localId, 'insert', vital);
         }
 
-        // Trigger shock alarm for critical/emergency
-        if (shockIndex !== undefined && input.heartRate && input.systolicBp) {
-            const shockResult = calculateShockIndex(input.heartRate, input.systolicBp);
-            if (shockResult.level === 'critical' || shockResult.level === 'emergency') {
-                triggerShockAlarm(shockResult.level);
-                setAlarmActive(true);
+        if (input.bloodLossIncrement > 0) {
+            const entry: LocalBloodLossEntry = {
+                local_id: generateUUID(),
+                maternal_profile_local_id: input.maternalProfileLocalId,
+                recorded_by: user?.id,
+                method: input.bloodLossMethod ?? 'visual',
+                volume_ml: input.bloodLossIncrement,
+                dry_weight_g: input.dryWeightG,
+                wet_weight_g: input.wetWeightG,
+                vital_sign_local_id: localId,
+                is_synced: false,
+                recorded_at: now,
+            };
+            if (isSimulation) {
+                await trainingStore.saveBloodLossEntry(entry);
             } else {
-                triggerShockAlarm(shockResult.level); // stops alarm
-                setAlarmActive(false);
+                await clinicalStore.saveBloodLossEntry(entry);
+                await queueOperation('blood_loss_entries', entry.local_id, 'insert', entry);
             }
         }
 
+        // Trigger shock alarm for levels the facility policy marks as audible
+        if (shockIndex !== undefined && input.heartRate && input.systolicBp) {
+            const shockResult = calculateShockIndex(input.heartRate, input.systolicBp, thresholdSet);
+            triggerShockAlarm(shockResult.level); // stops alarm for non-audible levels
+            setAlarmActive(shouldSoundAlarm(shockResult.level));
+        }
+
+        // Trend check — flags a deteriorating course even if the latest SI is still normal
+        const history = isSimulation
+            ? await trainingStore.getVitalSigns(input.maternalProfileLocalId)
+            : await clinicalStore.getVitalSigns(input.maternalProfileLocalId);
+        const readings = history.filter(v => !isVoided(v));
+        const trendConfig = { windowMinutes: trendWindowMinutes };
+        const trend = analyzeVitalsTrend(readings, trendConfig);
+        // Only the reading that turns the course deteriorating is logged, not every one while it stays so
+        const wasDeteriorating = analyzeVitalsTrend(readings.filter(v => v.local_id !== localId), trendConfig).isDeteriorating;
+
         // Auto-log event (addCaseEvent has its own closed-case guard)
         await addCaseEvent({
             maternal_profile_id: input.maternalProfileLocalId,
@@ -754,16 +1192,284 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                 hr: input.heartRate,
                 bp: `${input.systolicBp}/${input.diastolicBp}`,
                 si: shockIndex,
-                ebl: input.estimatedBloodLoss
+                meows: { red: meows.red, yellow: meows.yellow, level: meows.level },
+                ebl: bloodLossTotal,
+                ebl_increment: input.bloodLossIncrement,
+                ebl_method: input.bloodLossMethod,
+                ...(validation.warnings.length > 0 && {
+                    overridden_warnings: validation.warnings.map(w => ({
+                        field: w.field,
+                        kind: w.kind,
+                        value: w.value,
+                        previous: w.previous,
+                        message: w.message,
+                    })),
+                }),
             }),
             performed_by: user?.id,
         });
 
+        if (trend.isDeteriorating) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        }
+        if (trend.isDeteriorating && !wasDeteriorating) {
+            await addCaseEvent({
+                maternal_profile_id: input.maternalProfileLocalId,
+                event_type: 'deterioration',
+                event_label: 'Deteriorating trend detected',
+                event_data: JSON.stringify({
+                    summary: trend.summary,
+                    window_start: trend.windowStart,
+                    window_end: trend.windowEnd,
+                    worsening: trend.worsening.map(m => ({
+                        metric: m.metric,
+                        first: m.first,
+                        last: m.last,
+                        slope_per_hour: Math.round(m.slopePerHour * 100) / 100,
+                    })),
+                }),
+                performed_by: user?.id,
+            });
+        }
+
         setLastVitalsTime(new Date(now));
         setIsVitalsPromptDue(false);
 
         await refreshVitals(input.maternalProfileLocalId);
-    }, [user, refreshVitals, profiles, addCaseEvent, isSimulation]);
+        await refreshBloodLoss(input.maternalProfileLocalId);
+    }, [user, refreshVitals, refreshBloodLoss, profiles, addCaseEvent, isSimulation, thresholdSet, trendWindowMinutes]);
+
+    // ── Vital Sign Amendments ────────────────────────────────
+
+    const saveVitalAmendment = useCallback(async (
+        vitalLocalId: string,
+        status: VitalAmendmentStatus,
+        reason: string,
+        changes: AmendVitalsInput = {}
+    ) => {
+        const existing = vitalSigns.find(v => v.local_id === vitalLocalId);
+        if (!existing) throw new Error('Vital sign not found');
+        if (!reason.trim()) throw new Error('A reason is required to amend or void a reading');
+        if (isVoided(existing)) throw new Error('This reading has already been voided');
+
+        // Rows merged straight from Supabase carry the remote profile id only
+        const profileLocalId = existing.maternal_profile_local_id ?? activeProfileId;
+        const profile = profiles.find(p => p.local_id === profileLocalId);
+        if (!profileLocalId) throw new Error('Vital sign has no patient');
+        if (profile?.status === 'closed') throw new Error('Cannot amend vitals for a closed case');
+
+        const { shockResult: _s, meowsResult: _m, ...stored } = existing;
+        // The first-recorded values are captured once and never replaced by later amendments
+        const original = parseOriginalValues(stored.original_values) ?? snapshotOriginalValues(stored);
+
+        const updated: LocalVitalSign = {
+            ...stored,
+            ...(status === 'amended' ? changes : {}),
+            maternal_profile_local_id: profileLocalId,
+            amendment_status: status,
+            amendment_reason: reason.trim(),
+            original_values: JSON.stringify(original),
+            amended_by: user?.id,
+            amended_at: new Date().toISOString(),
+            is_synced: false,
+        };
+
+        if (status === 'amended') {
+            // toMeowsInput doubles as the camelCase shape validateVitals expects
+            const validation = validateVitals(toMeowsInput(updated));
+            if (validation.errors.length > 0) {
+                throw new Error(validation.errors.map(e => e.message).join('; '));
+            }
+            updated.shock_index = updated.heart_rate && updated.systolic_bp && updated.systolic_bp > 0
+                ? Math.round((updated.heart_rate / updated.systolic_bp) * 10) / 10
+                : undefined;
+            const meows = calculateMeows(toMeowsInput(updated));
+            updated.meows_red = meows.red;
+            updated.meows_yellow = meows.yellow;
+            updated.meows_level = meows.level;
+        }
+
+        if (isSimulation) {
+            await trainingStore.saveVitalSign(updated);
+        } else {
+            await clinicalStore.saveVitalSign(updated);
+            // original_values is JSONB remotely
+            await queueOperation('vital_signs', vitalLocalId, 'update', { ...updated, original_values: original });
+        }
+
+        const changed = (Object.keys(changes) as AmendableVitalField[])
+            .filter(f => (changes[f] ?? null) !== (stored[f] ?? null))
+            .map(f => ({ field: f, from: stored[f] ?? null, to: changes[f] ?? null }));
+        const readingTime = new Date(existing.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+        await addCaseEvent({
+            maternal_profile_id: profileLocalId,
+            event_type: status,
+            event_label: status === 'voided'
+                ? `Vitals voided (${readingTime} reading)`
+                : `Vitals amended (${readingTime} reading)`,
+            event_data: JSON.stringify({
+                vital_local_id: vitalLocalId,
+                reason: reason.trim(),
+                original,
+                ...(status === 'amended' && { changes: changed }),
+            }),
+            performed_by: user?.id,
+        });
+
+        await refreshVitals(profileLocalId);
+    }, [vitalSigns, activeProfileId, profiles, user?.id, isSimulation, addCaseEvent, refreshVitals]);
+
+    const amendVitalSign = useCallback(
+        (vitalLocalId: string, changes: AmendVitalsInput, reason: string) =>
+            saveVitalAmendment(vitalLocalId, 'amended', reason, changes),
+        [saveVitalAmendment]
+    );
+
+    const voidVitalSign = useCallback(
+        (vitalLocalId: string, reason: string) => saveVitalAmendment(vitalLocalId, 'voided', reason),
+        [saveVitalAmendment]
+    );
+
+    // ── Risk Reassessment ────────────────────────────────────
+
+    const reassessRisk = useCallback(async (
+        profileLocalId: string,
+        changes: Partial<MaternalRiskInput>,
+        notes?: string
+    ): Promise<RiskResult> => {
+        const current = profiles.find(p => p.local_id === profileLocalId);
+        if (!current) throw new Error('Patient not found');
+        if (current.status === 'closed') throw new Error('Cannot reassess risk for a closed case');
+
+        const { riskResult: previous, ...inMemory } = current;
+        const stored = (isSimulation
+            ? await trainingStore.getProfile(profileLocalId)
+            : await clinicalStore.getProfile(profileLocalId)) ?? inMemory;
+
+        // Reassessment always uses the current rule set
+        const riskInput = { ...profileToRiskInput(stored), ...changes };
+        const riskResult = calculateRisk(riskInput);
+        const now = new Date().toISOString();
+
+        const updated: LocalMaternalProfile = {
+            ...stored,
+            ...riskInputToProfileFields(riskInput),
+            risk_level: riskResult.level,
+            risk_score: riskResult.score,
+            risk_rule_version: riskResult.ruleSetVersion,
+            is_synced: false,
+            updated_at: now,
+        };
+
+        const assessment: LocalRiskAssessment = {
+            local_id: generateUUID(),
+            maternal_profile_local_id: profileLocalId,
+            assessed_by: user?.id,
+            previous_risk_level: stored.risk_level,
+            previous_risk_score: stored.risk_score,
+            risk_level: riskResult.level,
+            risk_score: riskResult.score,
+            risk_rule_version: riskResult.ruleSetVersion,
+            factors: JSON.stringify(snapshotFactors(riskResult.factors)),
+            notes: notes?.trim() || undefined,
+            is_synced: false,
+            assessed_at: now,
+        };
+
+        if (isSimulation) {
+            await trainingStore.saveProfile(updated);
+            await trainingStore.saveRiskAssessment(assessment);
+        } else {
+            await clinicalStore.saveProfile(updated);
+            await queueOperation('maternal_profiles', profileLocalId, 'update', updated);
+            await clinicalStore.saveRiskAssessment(assessment);
+            // factors is JSONB remotely
+            await queueOperation('risk_assessments', assessment.local_id, 'insert', {
+                ...assessment,
+                factors: snapshotFactors(riskResult.factors),
+            });
+        }
+
+        const { added, removed } = diffRiskFactors(previous?.factors ?? [], riskResult.factors);
+        await addCaseEvent({
+            maternal_profile_id: profileLocalId,
+            event_type: 'risk_reassessed',
+            event_label: stored.risk_level === riskResult.level
+                ? `Risk reassessed — remains ${riskResult.level}`
+                : `Risk reassessed — ${stored.risk_level} to ${riskResult.level}`,
+            event_data: JSON.stringify({
+                from: { level: stored.risk_level, score: stored.risk_score },
+                to: { level: riskResult.level, score: riskResult.score },
+                added,
+                removed,
+                rule_version: riskResult.ruleSetVersion,
+                notes: assessment.notes,
+            }),
+            performed_by: user?.id,
+        });
+
+        await refreshProfiles();
+        await refreshRiskAssessments(profileLocalId);
+        return riskResult;
+    }, [profiles, isSimulation, user?.id, addCaseEvent, refreshProfiles, refreshRiskAssessments]);
+
+    // ── Preparedness Checklist ───────────────────────────────
+
+    const setPreparednessItem = useCallback(async (
+        profileLocalId: string,
+        itemId: string,
+        completed: boolean
+    ) => {
+        const profile = profiles.find(p => p.local_id === profileLocalId);
+        if (profile?.status === 'closed') throw new Error('Cannot update preparedness for a closed case');
+
+        const item = PREPAREDNESS_ITEMS.find(i => i.id === itemId);
+        if (!item) throw new Error(`Unknown preparedness item: ${itemId}`);
+
+        let existing = (isSimulation
+            ? await trainingStore.getPreparednessChecks(profileLocalId)
+            : await clinicalStore.getPreparednessChecks(profileLocalId)
+        ).find(c => c.item_id === itemId);
+        // Another device may have ticked it already — update that row rather than add a second
+        if (!existing && !isSimulation) {
+            existing = await findRemotePreparednessCheck(profileLocalId, itemId) ?? undefined;
+        }
+
+        const now = new Date().toISOString();
+        const check: LocalPreparednessCheck = {
+            local_id: existing?.local_id ?? preparednessCheckLocalId(profileLocalId, itemId),
+            remote_id: existing?.remote_id,
+            maternal_profile_local_id: profileLocalId,
+            item_id: itemId,
+            completed_at: completed ? now : undefined,
+            completed_by: completed ? user?.id : undefined,
+            is_synced: false,
+            updated_at: now,
+        };
+
+        if (isSimulation) {
+            await trainingStore.savePreparednessCheck(check);
+        } else {
+            await clinicalStore.savePreparednessCheck(check);
+            // Remote columns must be cleared explicitly when unticking
+            await queueOperation('preparedness_checks', check.local_id, existing ? 'update' : 'insert', {
+                ...check,
+                completed_at: check.completed_at ?? null,
+                completed_by: check.completed_by ?? null,
+            });
+        }
+
+        await addCaseEvent({
+            maternal_profile_id: profileLocalId,
+            event_type: 'preparedness',
+            event_label: completed ? `Preparedness: ${item.label}` : `Preparedness unticked: ${item.label}`,
+            event_data: JSON.stringify({ item_id: itemId, completed }),
+            performed_by: user?.id,
+        });
+
+        await refreshPreparedness(profileLocalId);
+    }, [profiles, isSimulation, user?.id, addCaseEvent, refreshPreparedness]);
 
     const dismissVitalsPrompt = useCallback(() => {
         setIsVitalsPromptDue(false);
@@ -774,13 +1480,13 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
     const refreshEmotiveChecklist = useCallback(async (profileLocalId: string) => {
         try {
             if (isSimulation) {
-                const checklist = await getTrainingChecklist(profileLocalId);
+                const checklist = await trainingStore.getChecklist(profileLocalId);
                 setEmotiveChecklist(checklist);
                 return;
             }
 
             // First try local
-            const local = await getEmotiveChecklist(profileLocalId);
+            const local = await clinicalStore.getChecklist(profileLocalId);
             setEmotiveChecklist(local);
 
             // Try remote if online
@@ -836,10 +1542,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         };
 
         if (isSimulation) {
-            const { is_synced: _, ...trainingChecklist } = newChecklist;
-            await saveTrainingChecklist(trainingChecklist);
+            await trainingStore.saveChecklist(newChecklist);
         } else {
-            await saveEmotiveChecklist(newChecklist);
+            await clinicalStore.saveChecklist(newChecklist);
             await queueOperation('emotive_checklists', localId, 'insert', newChecklist);
         }
         setEmotiveChecklist(newChecklist);
@@ -897,10 +1602,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             if (details?.notes) (newChecklist as any)[`${step}_notes`] = details.notes;
 
             if (isSimulation) {
-                const { is_synced: _, ...trainingChecklist } = newChecklist;
-                await saveTrainingChecklist(trainingChecklist);
+                await trainingStore.saveChecklist(newChecklist);
             } else {
-                await saveEmotiveChecklist(newChecklist);
+                await clinicalStore.saveChecklist(newChecklist);
                 await queueOperation('emotive_checklists', localId, 'insert', newChecklist);
             }
             setEmotiveChecklist(newChecklist);
@@ -929,8 +1633,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             if (isSimulation) {
                 // In simulation, re-save the whole checklist with updated fields
                 const updatedChecklist = { ...emotiveChecklist, ...fields, updated_at: now };
-                const { is_synced: _, ...trainingChecklist } = updatedChecklist;
-                await saveTrainingChecklist(trainingChecklist);
+                await trainingStore.saveChecklist(updatedChecklist);
                 setEmotiveChecklist(updatedChecklist);
 
                 const wasDone = (emotiveChecklist as any)[`${step}_done`];
@@ -944,10 +1647,10 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                     });
                 }
             } else {
-                await updateEmotiveStep(emotiveChecklist.local_id, fields);
+                await clinicalStore.updateChecklist(emotiveChecklist.local_id, fields);
 
                 // Queue sync
-                const updated = await getEmotiveChecklist(activeProfileId);
+                const updated = await clinicalStore.getChecklist(activeProfileId);
                 if (updated) {
                     await queueOperation('emotive_checklists', emotiveChecklist.local_id, 'update', updated);
                     setEmotiveChecklist(updated);
@@ -994,10 +1697,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                 updated_at: now,
             };
             if (isSimulation) {
-                const { is_synced: _, ...trainingChecklist } = newChecklist;
-                await saveTrainingChecklist(trainingChecklist);
+                await trainingStore.saveChecklist(newChecklist);
             } else {
-                await saveEmotiveChecklist(newChecklist);
+                await clinicalStore.saveChecklist(newChecklist);
                 await queueOperation('emotive_checklists', localId, 'insert', newChecklist);
             }
             setEmotiveChecklist(newChecklist);
@@ -1008,12 +1710,11 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             };
             if (isSimulation) {
                 const updatedChecklist = { ...emotiveChecklist, ...fields, updated_at: new Date().toISOString() };
-                const { is_synced: _, ...trainingChecklist } = updatedChecklist;
-                await saveTrainingChecklist(trainingChecklist);
+                await trainingStore.saveChecklist(updatedChecklist);
                 setEmotiveChecklist(updatedChecklist);
             } else {
-                await updateEmotiveStep(emotiveChecklist.local_id, fields);
-                const updated = await getEmotiveChecklist(profileLocalId);
+                await clinicalStore.updateChecklist(emotiveChecklist.local_id, fields);
+                const updated = await clinicalStore.getChecklist(profileLocalId);
                 if (updated) {
                     await queueOperation('emotive_checklists', emotiveChecklist.local_id, 'update', updated);
                     setEmotiveChecklist(updated);
@@ -1034,10 +1735,13 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
     // ── Training / Simulation ────────────────────────────────
 
     const clearTrainingDataCallback = useCallback(async () => {
-        await clearAllTrainingData();
+        await trainingStore.clear();
         if (isSimulation) {
             setProfiles([]);
             setVitalSigns([]);
+            setBloodLossEntries([]);
+            setRiskAssessments([]);
+            setPreparednessChecks([]);
             setEmotiveChecklist(null);
             setCaseEvents([]);
             setActiveProfileId(null);
@@ -1046,7 +1750,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
 
     const deleteProfile = useCallback(async (localId: string) => {
         if (isSimulation) {
-            await deleteTrainingProfile(localId);
+            await trainingStore.deleteCase(localId);
         }
         // Clear active if deleting current profile
         if (activeProfileId === localId) {
@@ -1055,6 +1759,20 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         await refreshProfiles();
     }, [isSimulation, activeProfileId, refreshProfiles]);
 
+    // ── Deterioration Trend ──────────────────────────────────
+
+    const vitalsTrend = useMemo<TrendResult | null>(
+        () => vitalSigns.length > 0
+            ? analyzeVitalsTrend(vitalSigns.filter(v => !isVoided(v)), { windowMinutes: trendWindowMinutes })
+            : null,
+        [vitalSigns, trendWindowMinutes]
+    );
+
+    const setTrendWindowMinutes = useCallback(async (minutes: number) => {
+        setTrendWindowMinutesState(minutes);
+        await AsyncStorage.setItem(TREND_WINDOW_MINUTES_KEY, String(minutes));
+    }, []);
+
     // ── Alarm ─────────────────────────────────────────────────
 
     const toggleAlarmMute = useCallback(async () => {
@@ -1063,8 +1781,56 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         await setAlarmMuted(newMuted);
     }, [alarmMuted]);
 
+    // ── Device Data ──────────────────────────────────────────
+
+    /** What this user may pull, narrowed by their device data prefs */
+    const pullScope = useMemo<PullScope>(() => applyDeviceDataPrefs({
+        userId: user?.id,
+        facilityId: authProfile?.facility_id ?? undefined,
+        unitId: activeUnit?.id,
+        role: authProfile?.role,
+    }, deviceDataPrefs), [user?.id, authProfile?.facility_id, authProfile?.role, activeUnit?.id, deviceDataPrefs]);
+
+    const availableScopeModes = useMemo(() => getAvailableScopeModes(pullScope), [pullScope]);
+
+    const updateDeviceDataPrefs = useCallback(async (changes: Partial<DeviceDataPrefs>) => {
+        const prefs = { ...deviceDataPrefs, ...changes };
+        setDeviceDataPrefsState(prefs);
+        await AsyncStorage.setItem(DEVICE_DATA_PREFS_KEY, JSON.stringify(prefs));
+    }, [deviceDataPrefs]);
+
+    const purgeExpiredCases = useCallback(async () => {
+        const cutoff = getRetentionCutoff(deviceDataPrefs);
+        if (isSimulation || !cutoff) return 0;
+
+        const purged = await purgeClosedCases(cutoff);
+        if (purged.length > 0) {
+            console.log(`[Clinical] Retention removed ${purged.length} closed case(s) from this device`);
+            if (activeProfileId && purged.includes(activeProfileId)) setActiveProfileId(null);
+            await refreshProfiles();
+        }
+        return purged.length;
+    }, [deviceDataPrefs, isSimulation, activeProfileId, refreshProfiles]);
+
     // ── Sync ─────────────────────────────────────────────────
 
+    const refreshSyncConflicts = useCallback(async () => {
+        if (isSimulation) {
+            setSyncConflicts([]);
+            return;
+        }
+        setSyncConflicts(await getOpenSyncConflicts());
+    }, [isSimulation]);
+
+    const refreshSyncQueue = useCallback(async () => {
+        if (isSimulation) {
+            setSyncQueueItems([]);
+            return;
+        }
+        setSyncQueueItems(await getUnsyncedSyncItems());
+        setSyncClock(Date.now());
+    }, [isSimulation]);
+
     const syncNow = useCallback(async () => {
         if (isSimulation) return; // No sync in simulation mode
         setIsSyncing(true);
@@ -1073,12 +1839,7 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
             const pushResult = await processQueue();
 
             // 2. Pull: download remote data into SQLite
-            const pullResult = await pullFromRemote({
-                userId: user?.id,
-                facilityId: authProfile?.facility_id,
-                unitId: activeUnit?.id,
-                role: authProfile?.role,
-            });
+            const pullResult = await pullFromRemote(pullScope);
 
             setLastSyncResult({
                 pushed: pushResult.synced,
@@ -1086,18 +1847,193 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                 errors: pushResult.failed + pullResult.errors,
             });
 
-            // 3. Refresh React state from SQLite
+            // 3. Drop closed cases past retention, then refresh React state from SQLite
+            await purgeExpiredCases();
             await refreshProfiles();
+            await refreshSyncConflicts();
+            await refreshSyncQueue();
             await refreshEmergencyContacts();
+            await refreshThresholdSet();
             if (activeProfileId) {
                 await refreshVitals(activeProfileId);
+                await refreshBloodLoss(activeProfileId);
+                await refreshRiskAssessments(activeProfileId);
+                await refreshPreparedness(activeProfileId);
                 await refreshCaseEvents(activeProfileId);
                 await refreshEmotiveChecklist(activeProfileId);
             }
         } finally {
             setIsSyncing(false);
         }
-    }, [refreshProfiles, activeProfileId, refreshCaseEvents, refreshEmergencyContacts, isSimulation, user?.id, authProfile?.facility_id, authProfile?.role, activeUnit?.id, refreshVitals, refreshEmotiveChecklist]);
+    }, [refreshProfiles, refreshSyncConflicts, refreshSyncQueue, activeProfileId, refreshCaseEvents, refreshEmergencyContacts, refreshThresholdSet, isSimulation, pullScope, purgeExpiredCases, refreshVitals, refreshBloodLoss, refreshRiskAssessments, refreshPreparedness, refreshEmotiveChecklist]);
+
+    // ── Sync Conflicts ───────────────────────────────────────
+
+    /**
+     * Settle a held conflict: groups set to 'remote' take the server values,
+     * the rest keep this device's. The result is pushed as a normal update and
+     * the decision is logged on the case timeline.
+     */
+    const resolveSyncConflict = useCallback(async (
+        conflictId: string,
+        choices: Record<string, ConflictChoice>
+    ) => {
+        const conflict = syncConflicts.find(c => c.id === conflictId);
+        if (!conflict) throw new Error('Sync conflict not found');
+
+        const table = conflict.table_name as ConflictTable;
+        const local: LocalMaternalProfile | LocalEmotiveChecklist | null = table === 'maternal_profiles'
+            ? await clinicalStore.getProfile(conflict.record_local_id)
+            : await clinicalStore.getChecklist(conflict.maternal_profile_local_id);
+        if (!local) throw new Error('Record not found on this device');
+
+        const now = new Date().toISOString();
+        const updated: any = {
+            ...local,
+            ...resolveMerge(table, local, JSON.parse(conflict.remote_version), choices),
+            is_synced: false,
+            updated_at: now,
+        };
+
+        if (table === 'maternal_profiles') {
+            await clinicalStore.saveProfile(updated);
+        } else {
+            await clinicalStore.saveChecklist(updated);
+        }
+        await saveSyncConflict({
+            ...conflict,
+            status: 'resolved',
+            resolution: JSON.stringify(choices),
+            resolved_by: user?.id,
+            resolved_at: now,
+        });
+        await queueOperation(table, local.local_id, 'update', updated);
+
+        const fields: FieldConflict[] = JSON.parse(conflict.fields);
+        await addCaseEvent({
+            maternal_profile_id: conflict.maternal_profile_local_id,
+            event_type: 'sync_conflict',
+            event_label: `Sync conflict resolved: ${CONFLICT_TABLE_LABELS[table]}`,
+            event_data: JSON.stringify({
+                table,
+                kept: fields.map(f => ({
+                    field: f.label,
+                    version: choices[f.key] ?? 'local',
+                    value: choices[f.key] === 'remote' ? f.remote : f.local,
+                })),
+            }),
+            performed_by: user?.id,
+        });
+
+        await refreshSyncConflicts();
+        await refreshProfiles();
+        if (table === 'emotive_checklists' && activeProfileId === conflict.maternal_profile_local_id) {
+            await refreshEmotiveChecklist(conflict.maternal_profile_local_id);
+        }
+    }, [syncConflicts, user?.id, addCaseEvent, refreshSyncConflicts, refreshProfiles, activeProfileId, refreshEmotiveChecklist]);
+
+    // ── Sync Status ──────────────────────────────────────────
+
+    const stuckSyncCount = syncQueueItems.filter(item =>
+        isSyncItemStuck(item, syncStuckMinutes, new Date(syncClock))
+    ).length;
+
+    const setSyncStuckMinutes = useCallback(async (minutes: number) => {
+        setSyncStuckMinutesState(minutes);
+        await AsyncStorage.setItem(SYNC_STUCK_MINUTES_KEY, String(minutes));
+    }, []);
+
+    /** Log a manual retry or discard on the case the queued change belongs to */
+    const logSyncQueueAction = useCallback(async (item: SyncQueueItem, action: 'retry' | 'discard') => {
+        const caseLocalId = getSyncItemCase(item);
+        if (!caseLocalId) return;
+        const label = SYNC_TABLE_LABELS[item.table_name] ?? item.table_name;
+        await addCaseEvent({
+            maternal_profile_id: caseLocalId,
+            event_type: action === 'retry' ? 'sync_retry' : 'sync_discard',
+            event_label: action === 'retry'
+                ? `Sync retried: ${label} ${item.operation}`
+                : `Unsent change discarded: ${label} ${item.operation}`,
+            event_data: JSON.stringify({
+                table: item.table_name,
+                operation: item.operation,
+                record_id: item.record_id,
+                status: item.status,
+                attempts: item.retry_count,
+                error: item.error_message ?? null,
+                queued_at: item.created_at,
+            }),
+            performed_by: user?.id,
+        });
+    }, [addCaseEvent, user?.id]);
+
+    const retrySyncQueueItem = useCallback(async (itemId: string) => {
+        const item = syncQueueItems.find(i => i.id === itemId);
+        if (!item) throw new Error('Queued change not found');
+
+        await retrySyncItem(itemId);
+        await logSyncQueueAction(item, 'retry');
+        await refreshSyncQueue();
+
+        NetInfo.fetch().then(async (state) => {
+            if (!state.isConnected) return;
+            await processQueue();
+            await refreshSyncQueue();
+        }).catch(err => console.warn('[Clinical] Retry sync failed:', err));
+    }, [syncQueueItems, logSyncQueueAction, refreshSyncQueue]);
+
+    const discardSyncQueueItem = useCallback(async (itemId: string) => {
+        const item = syncQueueItems.find(i => i.id === itemId);
+        if (!item) throw new Error('Queued change not found');
+
+        // Log first: the timeline event is itself queued for sync. For a new case it is
+        // discarded with the case's other queued changes and stays on this device.
+        await logSyncQueueAction(item, 'discard');
+        await discardSyncItem(itemId);
+        await refreshSyncQueue();
+    }, [syncQueueItems, logSyncQueueAction, refreshSyncQueue]);
+
+    // ── Background Sync ──────────────────────────────────────
+
+    const refreshBackgroundSyncStatus = useCallback(async () => {
+        setBackgroundSyncAvailable(await isBackgroundSyncAvailable());
+        setBackgroundSyncPrefsState(await getBackgroundSyncPrefs());
+        setLastBackgroundSync(await getLastBackgroundSyncRun());
+    }, []);
+
+    const updateBackgroundSyncPrefs = useCallback(async (changes: Partial<BackgroundSyncPrefs>) => {
+        const prefs = { ...backgroundSyncPrefs, ...changes };
+        setBackgroundSyncPrefsState(prefs);
+        await setBackgroundSyncPrefs(prefs);
+    }, [backgroundSyncPrefs]);
+
+    // ── Realtime ─────────────────────────────────────────────
+
+    /**
+     * Pull what changed in the facility and reload state from SQLite without
+     * the loading spinner — runs on every realtime burst and poll.
+     */
+    const applyFacilityChanges = useCallback(async () => {
+        await pullFromRemote(pullScope);
+
+        const enriched = (await clinicalStore.getProfiles()).map(p => ({
+            ...p,
+            riskResult: calculateRiskFromProfile(p),
+        }));
+        setProfiles(enriched);
+        setAllProfiles(enriched);
+
+        await refreshSyncConflicts();
+        if (activeProfileId) {
+            await refreshVitals(activeProfileId);
+            await refreshCaseEvents(activeProfileId);
+            await refreshEmotiveChecklist(activeProfileId);
+        }
+    }, [pullScope, activeProfileId, refreshSyncConflicts, refreshVitals, refreshCaseEvents, refreshEmotiveChecklist]);
+
+    // The channel outlives changes to the active case — it always calls the latest handler
+    const applyFacilityChangesRef = useRef(applyFacilityChanges);
+    applyFacilityChangesRef.current = applyFacilityChanges;
 
     // ── Effects ──────────────────────────────────────────────
 
@@ -1108,52 +2044,105 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
         initAlarmSounds().then(() => {
             setAlarmMutedState(isAlarmMuted());
         });
+        refreshBackgroundSyncStatus();
+        AsyncStorage.getItem(SYNC_STUCK_MINUTES_KEY).then((stored) => {
+            const minutes = Number(stored);
+            if (stored && minutes > 0) setSyncStuckMinutesState(minutes);
+        });
+        AsyncStorage.getItem(TREND_WINDOW_MINUTES_KEY).then((stored) => {
+            const minutes = Number(stored);
+            if (stored && minutes > 0) setTrendWindowMinutesState(minutes);
+        });
+        AsyncStorage.getItem(DEVICE_DATA_PREFS_KEY).then((stored) => {
+            setDeviceDataPrefsState(parseDeviceDataPrefs(stored));
+            setDeviceDataPrefsLoaded(true);
+        });
         return () => {
             stopSyncListener();
             releaseAlarmSounds();
         };
-    }, []);
+    }, [refreshBackgroundSyncStatus]);
+
+    // Keep the background task pointed at the signed-in user's pull scope; stop it on sign-out
+    useEffect(() => {
+        if (isAuthLoading || !deviceDataPrefsLoaded) return;
+        configureBackgroundSync(user?.id ? pullScope : null);
+    }, [isAuthLoading, deviceDataPrefsLoaded, user?.id, pullScope]);
+
+    // Supervisors pulling the whole facility follow its cases live
+    const followsFacility = getPullScopeMode(pullScope) === 'facility';
+    useEffect(() => {
+        const facilityId = authProfile?.facility_id;
+        if (isSimulation || !user?.id || !facilityId || !followsFacility) return;
+
+        return subscribeToFacilityChanges(
+            facilityId,
+            () => applyFacilityChangesRef.current(),
+            setRealtimeStatus
+        );
+    }, [isSimulation, user?.id, authProfile?.facility_id, followsFacility]);
 
     // Pull remote data on first load when online (enables cross-device sync)
     const hasPulledRef = useRef(false);
     useEffect(() => {
-        if (hasPulledRef.current || !user?.id || isSimulation) return;
+        // Wait for the stored scope so the first pull isn't wider than the user chose
+        if (hasPulledRef.current || !user?.id || isSimulation || !deviceDataPrefsLoaded) return;
         hasPulledRef.current = true;
         NetInfo.fetch().then(async (state) => {
             if (state.isConnected) {
-                await pullFromRemote({
-                    userId: user.id,
-                    facilityId: authProfile?.facility_id,
-                    unitId: activeUnit?.id,
-                    role: authProfile?.role,
-                });
+                await pullFromRemote(pullScope);
                 refreshProfiles();
+                refreshSyncConflicts();
             }
         }).catch(err => console.warn('[Clinical] Initial pull failed:', err));
-    }, [user?.id, authProfile?.facility_id, authProfile?.role, activeUnit?.id, isSimulation, refreshProfiles]);
+    }, [user?.id, pullScope, isSimulation, deviceDataPrefsLoaded, refreshProfiles, refreshSyncConflicts]);
+
+    // Apply retention on start-up and whenever the threshold changes — also offline
+    const purgeExpiredCasesRef = useRef(purgeExpiredCases);
+    purgeExpiredCasesRef.current = purgeExpiredCases;
+    useEffect(() => {
+        if (!deviceDataPrefsLoaded) return;
+        purgeExpiredCasesRef.current().catch(err => console.warn('[Clinical] Retention purge failed:', err));
+    }, [deviceDataPrefsLoaded, deviceDataPrefs.retentionDays, isSimulation]);
 
     // Load profiles and contacts when unit or mode changes
     useEffect(() => {
         // Reset active profile when switching modes
         setActiveProfileId(null);
         refreshProfiles();
+        refreshThresholdSet();
+        refreshSyncConflicts();
+        refreshSyncQueue();
         if (!isSimulation) {
             refreshEmergencyContacts();
         }
-    }, [activeUnit?.id, refreshEmergencyContacts, refreshProfiles, isSimulation]);
+    }, [activeUnit?.id, refreshEmergencyContacts, refreshProfiles, refreshThresholdSet, refreshSyncConflicts, refreshSyncQueue, isSimulation]);
+
+    // Re-read the sync queue every minute so the stuck badge tracks queue age
+    useEffect(() => {
+        if (isSimulation) return;
+        const timer = setInterval(refreshSyncQueue, 60_000);
+        return () => clearInterval(timer);
+    }, [isSimulation, refreshSyncQueue]);
 
     // Load vitals, checklist, and events when active profile changes
     useEffect(() => {
         if (activeProfileId) {
             refreshVitals(activeProfileId);
+            refreshBloodLoss(activeProfileId);
+            refreshRiskAssessments(activeProfileId);
+            refreshPreparedness(activeProfileId);
             refreshEmotiveChecklist(activeProfileId);
             refreshCaseEvents(activeProfileId);
         } else {
             setVitalSigns([]);
+            setBloodLossEntries([]);
+            setRiskAssessments([]);
+            setPreparednessChecks([]);
             setEmotiveChecklist(null);
             setCaseEvents([]);
         }
-    }, [activeProfileId, refreshCaseEvents, refreshEmotiveChecklist, refreshVitals]);
+    }, [activeProfileId, refreshCaseEvents, refreshEmotiveChecklist, refreshVitals, refreshBloodLoss, refreshRiskAssessments, refreshPreparedness]);
 
     // Auto-prompt timer
     useEffect(() => {
@@ -1180,7 +2169,9 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
     // ── Active Profile ───────────────────────────────────────
 
     const activeProfile = profiles.find(p => p.local_id === activeProfileId) ?? null;
-    const latestVital = vitalSigns.length > 0 ? vitalSigns[0] : null;
+    // Voided readings stay in the list (struck through) but never count as the latest
+    const latestVital = vitalSigns.find(v => !isVoided(v)) ?? null;
+    const totalBloodLoss = cumulativeBloodLoss(bloodLossEntries, voidedReadingIds(vitalSigns));
 
     return (
         <ClinicalContext.Provider
@@ -1190,18 +2181,55 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                 activeProfile,
                 vitalSigns,
                 latestVital,
+                vitalsTrend,
+                trendWindowMinutes,
+                setTrendWindowMinutes,
+                bloodLossEntries,
+                cumulativeBloodLoss: totalBloodLoss,
+                riskAssessments,
+                preparednessChecks,
                 isLoading,
                 isSyncing,
                 createProfile,
                 updateProfileStatus,
                 updateDeliveryTime: updateDeliveryTimeCallback,
                 recordVitals,
+                amendVitalSign,
+                voidVitalSign,
+                refreshBloodLoss,
+                reassessRisk,
+                refreshRiskAssessments,
+                setPreparednessItem,
+                refreshPreparedness,
                 setActiveProfileId,
                 refreshProfiles,
                 fetchAllFacilityProfiles,
+                searchProfiles,
+                findReturningPatients,
+                getPatientHistory,
                 refreshVitals,
                 syncNow,
                 lastSyncResult,
+                syncConflicts,
+                refreshSyncConflicts,
+                resolveSyncConflict,
+                syncQueueItems,
+                stuckSyncCount,
+                syncStuckMinutes,
+                setSyncStuckMinutes,
+                refreshSyncQueue,
+                retrySyncQueueItem,
+                discardSyncQueueItem,
+                backgroundSyncAvailable,
+                backgroundSyncPrefs,
+                updateBackgroundSyncPrefs,
+                lastBackgroundSync,
+                refreshBackgroundSyncStatus,
+                realtimeStatus,
+                deviceDataPrefs,
+                updateDeviceDataPrefs,
+                availableScopeModes,
+                purgeExpiredCases,
                 emotiveChecklist,
                 startEmotiveBundle,
                 toggleEmotiveStep,
@@ -1223,6 +2251,10 @@ export const ClinicalProvider = ({ children }: { children: React.ReactNode }) =>
                 alarmActive,
                 alarmMuted,
                 toggleAlarmMute,
+                thresholdSet,
+                refreshThresholdSet,
+                loadThresholdSet,
+                publishThresholdSet,
                 isSimulation,
                 clearTrainingData: clearTrainingDataCallback,
                 deleteProfile,
@@ -1241,8 +2273,112 @@ export const useClinical = () => {
 
 // ── Helpers ──────────────────────────────────────────────────
 
+function toThresholdSet(local: LocalShockThresholdSet): ShockThresholdSet {
+    return {
+        id: local.id,
+        facility_id: local.facility_id,
+        version: local.version,
+        thresholds: JSON.parse(local.thresholds),
+        policy: JSON.parse(local.policy),
+        created_by: local.created_by,
+        created_at: local.created_at,
+    };
+}
+
+/**
+ * The server's newest set for a facility, cached on the device. Null when
+ * offline or when it is older than `local` — a set published here that has
+ * not synced yet.
+ */
+async function pullLatestThresholdSet(
+    facilityId: string,
+    local: LocalShockThresholdSet | null
+): Promise<LocalShockThresholdSet | null> {
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) return null;
+
+    const { data, error } = await supabase
+        .from('shock_threshold_sets')
+        .select('*')
+        .eq('facility_id', facilityId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    if (error || !data || (local && data.version < local.version)) return null;
+
+    const remote: LocalShockThresholdSet = {
+        id: data.id,
+        facility_id: data.facility_id,
+        version: data.version,
+        thresholds: JSON.stringify(data.thresholds),
+        policy: JSON.stringify(data.policy),
+        created_by: data.created_by ?? undefined,
+        created_at: data.created_at,
+        is_synced: true,
+    };
+    await saveShockThresholdSets([remote]);
+    return remote;
+}
+
+/** Bleeding recorded in each episode kept on the device, for priorEpisodeHistory */
+async function getEpisodeBleeding(episodes: LocalMaternalProfile[]): Promise<Record<string, EpisodeBleeding>> {
+    const bleeding: Record<string, EpisodeBleeding> = {};
+    for (const episode of episodes) {
+        const [entries, vitals, checklist] = await Promise.all([
+            clinicalStore.getBloodLossEntries(episode.local_id),
+            clinicalStore.getVitalSigns(episode.local_id),
+            clinicalStore.getChecklist(episode.local_id),
+        ]);
+        bleeding[episode.local_id] = {
+            bloodLossMl: cumulativeBloodLoss(entries, voidedReadingIds(vitals)),
+            emotiveStarted: !!checklist,
+        };
+    }
+    return bleeding;
+}
+
+/** The server's check for a case's item, or null when offline or there is none */
+async function findRemotePreparednessCheck(
+    profileLocalId: string,
+    itemId: string
+): Promise<LocalPreparednessCheck | null> {
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) return null;
+
+    const { data: profileData } = await supabase
+        .from('maternal_profiles')
+        .select('id')
+        .or(`local_id.eq.${profileLocalId},id.eq.${profileLocalId}`)
+        .maybeSingle();
+    if (!profileData?.id) return null;
+
+    const { data, error } = await supabase
+        .from('preparedness_checks')
+        .select('*')
+        .eq('maternal_profile_id', profileData.id)
+        .eq('item_id', itemId)
+        .maybeSingle();
+    if (error || !data) return null;
+
+    return {
+        local_id: data.local_id || data.id,
+        remote_id: data.id,
+        maternal_profile_local_id: profileLocalId,
+        item_id: data.item_id,
+        completed_at: data.completed_at ?? undefined,
+        completed_by: data.completed_by ?? undefined,
+        is_synced: true,
+        updated_at: data.updated_at,
+    };
+}
+
 function calculateRiskFromProfile(p: LocalMaternalProfile): RiskResult {
-    return calculateRisk({
+    return calculateRisk(profileToRiskInput(p), getRiskRuleSet(p.risk_rule_version));
+}
+
+/** Risk calculator input from the factor flags stored on a profile */
+export function profileToRiskInput(p: LocalMaternalProfile): MaternalRiskInput {
+    return {
         age: p.age,
         parity: p.parity,
         gestationalAgeWeeks: p.gestational_age_weeks ?? undefined,
@@ -1259,8 +2395,39 @@ function calculateRiskFromProfile(p: LocalMaternalProfile): RiskResult {
         hasPlacentaAccreta: p.has_placenta_accreta,
         hasActiveBleeding: p.has_active_bleeding,
         hasMorbidObesity: p.has_morbid_obesity,
+        hasPreeclampsia: !!p.has_preeclampsia,
+        isInducedLabor: !!p.is_induced_labor,
+        hasProlongedLabor: !!p.has_prolonged_labor,
+        hasMacrosomia: !!p.has_macrosomia,
+        hasProlongedSecondStage: !!p.has_prolonged_second_stage,
+        hasOperativeDelivery: !!p.has_operative_delivery,
         hemoglobinLevel: p.hemoglobin_level ?? undefined,
-    });
+    };
+}
+
+/** Risk factor flags as stored on the profile row */
+function riskInputToProfileFields(input: MaternalRiskInput) {
+    return {
+        is_multiple_gestation: input.isMultipleGestation,
+        has_prior_cesarean: input.hasPriorCesarean,
+        has_placenta_previa: input.hasPlacentaPrevia,
+        has_large_fibroids: input.hasLargeFibroids,
+        has_anemia: input.hasAnemia,
+        has_pph_history: input.hasPphHistory,
+        has_intraamniotic_infection: input.hasIntraamnioticInfection,
+        has_severe_anemia: input.hasSevereAnemia,
+        has_coagulopathy: input.hasCoagulopathy,
+        has_severe_pph_history: input.hasSeverePphHistory,
+        has_placenta_accreta: input.hasPlacentaAccreta,
+        has_active_bleeding: input.hasActiveBleeding,
+        has_morbid_obesity: input.hasMorbidObesity,
+        has_preeclampsia: input.hasPreeclampsia,
+        is_induced_labor: input.isInducedLabor,
+        has_prolonged_labor: input.hasProlongedLabor,
+        has_macrosomia: input.hasMacrosomia,
+        has_prolonged_second_stage: input.hasProlongedSecondStage,
+        has_operative_delivery: input.hasOperativeDelivery,
+    };
 }
 
 function mergeRemoteIntoLocal(
@@ -0,0 +1,22 @@
+// https://docs.expo.dev/develop/unit-testing/
+const shared = {
+  setupFiles: ['<rootDir>/jest.setup.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/support/'],
+};
+
+/** @type {import('jest').Config} */
+module.exports = {
+  projects: [
+    { ...shared, preset: 'jest-expo/ios' },
+    {
+      // Suites that run against the web (IndexedDB and localStorage) records too
+      ...shared,
+      preset: 'jest-expo/web',
+      setupFiles: [...shared.setupFiles, 'fake-indexeddb/auto'],
+      testMatch: ['<rootDir>/lib/__tests__/clinical-store.test.ts', '<rootDir>/lib/__tests__/retention.test.ts'],
+    },
+  ],
+};
@@ -0,0 +1,26 @@
+/**
+ * Jest setup — stand-ins for the device and network modules lib/ imports,
+ * so the offline store and sync engine run in Node: the shared database is
+ * an in-memory SQLite database, the network is offline unless a test says
+ * otherwise, and Supabase is never reached (tests use the in-memory sync
+ * backend).
+ */
+
+// The web project runs under jsdom, which lacks the structuredClone that IndexedDB (fake-indexeddb) needs
+if (typeof globalThis.structuredClone === 'undefined') {
+    const v8 = require('v8');
+    globalThis.structuredClone = (value: any) => v8.deserialize(v8.serialize(value));
+}
+
+jest.mock('@/lib/shared-db', () => require('@/lib/__tests__/support/test-db'));
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+jest.mock('@react-native-community/netinfo', () => ({
+    fetch: jest.fn(async () => ({ isConnected: false })),
+    addEventListener: jest.fn(() => () => {}),
+}));
+
+jest.mock('expo-crypto', () => ({
+    getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
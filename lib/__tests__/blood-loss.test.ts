@@ -0,0 +1,46 @@
+/**
+ * Blood loss ledger totals: increments add up, and an entry logged with a
+ * reading that was later voided drops out of the total.
+ */
+
+import { cumulativeBloodLoss, withRunningTotals } from '@/lib/blood-loss';
+import { voidedReadingIds } from '@/lib/vital-amendments';
+
+const entries = [
+    { volume_ml: 200, recorded_at: '2026-03-01T08:00:00.000Z', vital_sign_local_id: 'vital-1' },
+    { volume_ml: 3000, recorded_at: '2026-03-01T08:15:00.000Z', vital_sign_local_id: 'vital-2' },  // mistyped
+    { volume_ml: 150, recorded_at: '2026-03-01T08:30:00.000Z', vital_sign_local_id: 'vital-3' },
+];
+
+describe('cumulativeBloodLoss', () => {
+    it('adds up every increment', () => {
+        expect(cumulativeBloodLoss(entries)).toBe(3350);
+    });
+
+    it('leaves out the increment of a voided reading', () => {
+        const voided = voidedReadingIds([
+            { local_id: 'vital-1' },
+            { local_id: 'vital-2', amendment_status: 'voided' },
+            { local_id: 'vital-3', amendment_status: 'amended' },
+        ]);
+
+        expect(cumulativeBloodLoss(entries, voided)).toBe(350);
+    });
+
+    it('keeps entries not logged with a reading', () => {
+        const unlinked = [{ volume_ml: 100, recorded_at: '2026-03-01T09:00:00.000Z' }];
+        expect(cumulativeBloodLoss(unlinked, new Set(['vital-2']))).toBe(100);
+    });
+});
+
+describe('withRunningTotals', () => {
+    it('carries the total past a voided entry unchanged', () => {
+        const rows = withRunningTotals([...entries].reverse(), new Set(['vital-2']));
+
+        expect(rows.map(r => [r.running_total_ml, r.counted])).toEqual([
+            [200, true],
+            [200, false],
+            [350, true],
+        ]);
+    });
+});
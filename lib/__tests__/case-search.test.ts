@@ -0,0 +1,35 @@
+/**
+ * Case search date bounds: a bare date covers the whole local day, a
+ * timestamp is taken as is.
+ */
+
+import { matchesCaseQuery } from '@/lib/case-search';
+import type { LocalMaternalProfile } from '@/lib/local-records';
+
+/** Admitted at a local time on 1 March 2026 */
+function admittedAt(hours: number, minutes = 0): LocalMaternalProfile {
+    return {
+        created_at: new Date(2026, 2, 1, hours, minutes).toISOString(),
+        status: 'pre_delivery',
+        risk_level: 'low',
+    } as LocalMaternalProfile;
+}
+
+describe('matchesCaseQuery date bounds', () => {
+    it('includes the whole day for a date-only `to`', () => {
+        expect(matchesCaseQuery(admittedAt(0, 1), { to: '2026-03-01' }, [])).toBe(true);
+        expect(matchesCaseQuery(admittedAt(23, 59), { to: '2026-03-01' }, [])).toBe(true);
+        expect(matchesCaseQuery(admittedAt(23, 59), { to: '2026-02-28' }, [])).toBe(false);
+    });
+
+    it('starts a date-only `from` at the beginning of that day', () => {
+        expect(matchesCaseQuery(admittedAt(0, 0), { from: '2026-03-01' }, [])).toBe(true);
+        expect(matchesCaseQuery(admittedAt(23, 59), { from: '2026-03-02' }, [])).toBe(false);
+    });
+
+    it('compares a timestamp bound exactly', () => {
+        const noon = new Date(2026, 2, 1, 12).toISOString();
+        expect(matchesCaseQuery(admittedAt(11, 59), { to: noon }, [])).toBe(true);
+        expect(matchesCaseQuery(admittedAt(12, 1), { to: noon }, [])).toBe(false);
+    });
+});
@@ -0,0 +1,278 @@
+/**
+ * ClinicalStore conformance suite. It runs once per platform (see
+ * jest.config.js) — against the SQLite backend in the native project and
+ * the IndexedDB backend in the web project — and both must behave the same.
+ */
+
+import { clinicalStore, getStoreTable, trainingStore } from '@/lib/clinical-store';
+import type { LocalMaternalProfile, LocalVitalSign } from '@/lib/local-records';
+import { deleteStoreDatabase, storeBackend } from '@/lib/store-backend';
+import { Platform } from 'react-native';
+
+function profile(overrides: Partial<LocalMaternalProfile> = {}): LocalMaternalProfile {
+    return {
+        local_id: 'case-1',
+        created_by: 'user-1',
+        unit_id: 'unit-1',
+        patient_id: 'MRN-0042',
+        age: 31,
+        gravida: 3,
+        parity: 2,
+        is_multiple_gestation: false,
+        has_prior_cesarean: true,
+        has_placenta_previa: false,
+        has_large_fibroids: false,
+        has_anemia: false,
+        has_pph_history: false,
+        has_intraamniotic_infection: false,
+        has_severe_anemia: false,
+        has_coagulopathy: false,
+        has_severe_pph_history: false,
+        has_placenta_accreta: false,
+        has_active_bleeding: false,
+        has_morbid_obesity: false,
+        has_preeclampsia: false,
+        is_induced_labor: false,
+        has_prolonged_labor: false,
+        has_macrosomia: false,
+        has_prolonged_second_stage: false,
+        has_operative_delivery: false,
+        hemoglobin_level: 10.5,
+        risk_level: 'medium',
+        risk_score: 3,
+        status: 'pre_delivery',
+        notes: 'Retained placenta suspected',
+        is_synced: false,
+        created_at: '2026-03-01T08:00:00.000Z',
+        updated_at: '2026-03-01T08:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function vital(overrides: Partial<LocalVitalSign> = {}): LocalVitalSign {
+    return {
+        local_id: 'vital-1',
+        maternal_profile_local_id: 'case-1',
+        heart_rate: 96,
+        systolic_bp: 110,
+        diastolic_bp: 70,
+        estimated_blood_loss: 250,
+        is_synced: false,
+        recorded_at: '2026-03-01T08:05:00.000Z',
+        ...overrides,
+    };
+}
+
+const ids = (rows: { local_id: string }[]) => rows.map(r => r.local_id);
+
+beforeEach(async () => {
+    await clinicalStore.clear();
+    await trainingStore.clear();
+});
+
+describe(`ClinicalStore on ${Platform.OS}`, () => {
+    // ── Profiles ─────────────────────────────────────────────
+
+    it('reads back what it saved, with its types', async () => {
+        await clinicalStore.saveProfile(profile());
+
+        expect(await clinicalStore.getProfile('case-1')).toMatchObject({
+            local_id: 'case-1',
+            age: 31,
+            has_prior_cesarean: true,
+            has_anemia: false,
+            hemoglobin_level: 10.5,
+            notes: 'Retained placenta suspected',
+            is_synced: false,
+            created_at: '2026-03-01T08:00:00.000Z',
+        });
+        expect(await clinicalStore.getProfile('missing')).toBeNull();
+    });
+
+    it('replaces the fields a later save carries', async () => {
+        await clinicalStore.saveProfile(profile());
+        await clinicalStore.saveProfile(profile({ status: 'delivered', has_prior_cesarean: false }));
+
+        expect(await clinicalStore.getProfile('case-1')).toMatchObject({ status: 'delivered', has_prior_cesarean: false });
+        expect(await clinicalStore.getProfiles()).toHaveLength(1);
+    });
+
+    it('updates some fields and marks the profile edited', async () => {
+        await clinicalStore.saveProfile(profile({ remote_id: 'remote-1', is_synced: true }));
+
+        await clinicalStore.updateProfile('case-1', { notes: 'Uterine atony' });
+
+        const updated = await clinicalStore.getProfile('case-1');
+        expect(updated).toMatchObject({
+            notes: 'Uterine atony',
+            patient_id: 'MRN-0042',
+            remote_id: 'remote-1',
+            is_synced: false,
+            created_at: '2026-03-01T08:00:00.000Z',
+        });
+        expect(updated!.updated_at > '2026-03-01T08:00:00.000Z').toBe(true);
+    });
+
+    it('ignores an update to a profile it does not have', async () => {
+        await clinicalStore.updateProfile('missing', { notes: 'x' });
+        expect(await clinicalStore.getProfiles()).toEqual([]);
+    });
+
+    it('filters profiles and lists the most recently updated first', async () => {
+        await clinicalStore.saveProfile(profile({ local_id: 'old', updated_at: '2026-03-01T08:00:00.000Z' }));
+        await clinicalStore.saveProfile(profile({ local_id: 'new', updated_at: '2026-03-02T08:00:00.000Z' }));
+        await clinicalStore.saveProfile(profile({ local_id: 'closed', status: 'closed', unit_id: 'unit-2' }));
+        await clinicalStore.saveProfile(profile({ local_id: 'returning', patient_local_id: 'patient-1', updated_at: '2026-03-01T09:00:00.000Z' }));
+
+        expect(ids(await clinicalStore.getProfiles({ status: 'pre_delivery', unitId: 'unit-1' }))).toEqual(['new', 'returning', 'old']);
+        expect(ids(await clinicalStore.getProfiles({ unitId: 'unit-2' }))).toEqual(['closed']);
+        expect(ids(await clinicalStore.getProfiles({ patientLocalId: 'patient-1' }))).toEqual(['returning']);
+        expect(ids(await clinicalStore.getProfiles({ status: 'delivered' }))).toEqual([]);
+    });
+
+    // ── Backend writes ───────────────────────────────────────
+
+    it('keeps the fields a put leaves out', async () => {
+        const table = getStoreTable('clinical', 'maternal_profiles');
+        await clinicalStore.saveProfile(profile({ remote_id: 'remote-1', is_synced: true }));
+
+        await storeBackend.put(table, { local_id: 'case-1', notes: 'Bleeding controlled' });
+
+        expect(await clinicalStore.getProfile('case-1')).toMatchObject({
+            notes: 'Bleeding controlled',
+            remote_id: 'remote-1',
+            is_synced: true,
+            age: 31,
+            created_at: '2026-03-01T08:00:00.000Z',
+        });
+    });
+
+    it('clears a field a put sets to undefined', async () => {
+        const table = getStoreTable('clinical', 'maternal_profiles');
+        await clinicalStore.saveProfile(profile());
+
+        await storeBackend.put(table, { local_id: 'case-1', notes: undefined });
+
+        expect((await clinicalStore.getProfile('case-1'))!.notes ?? null).toBeNull();
+    });
+
+    // ── Search ───────────────────────────────────────────────
+
+    it('finds profiles by word prefixes of the patient id and notes', async () => {
+        await clinicalStore.saveProfile(profile());
+        await clinicalStore.saveProfile(profile({ local_id: 'case-2', patient_id: 'MRN-0100', notes: 'Prolonged labour' }));
+
+        expect(ids(await clinicalStore.searchProfiles('retain'))).toEqual(['case-1']);
+        expect(ids(await clinicalStore.searchProfiles('mrn 0100'))).toEqual(['case-2']);
+        expect(ids(await clinicalStore.searchProfiles('placenta labour'))).toEqual([]);
+        expect(ids(await clinicalStore.searchProfiles('mrn')).sort()).toEqual(['case-1', 'case-2']);
+        expect(ids(await clinicalStore.searchProfiles('  ')).sort()).toEqual(['case-1', 'case-2']);
+    });
+
+    it('searches within the filter and follows edits', async () => {
+        await clinicalStore.saveProfile(profile());
+        await clinicalStore.saveProfile(profile({ local_id: 'case-2', status: 'closed' }));
+
+        expect(ids(await clinicalStore.searchProfiles('retained', { status: 'closed' }))).toEqual(['case-2']);
+
+        await clinicalStore.updateProfile('case-2', { notes: 'Uterine atony' });
+        expect(ids(await clinicalStore.searchProfiles('retained'))).toEqual(['case-1']);
+        expect(ids(await clinicalStore.searchProfiles('atony'))).toEqual(['case-2']);
+    });
+
+    // ── Case records ─────────────────────────────────────────
+
+    it('lists a case’s records newest first, including those keyed by its remote id', async () => {
+        await clinicalStore.saveProfile(profile({ remote_id: 'remote-1' }));
+        await clinicalStore.saveVitalSign(vital({ local_id: 'first', recorded_at: '2026-03-01T08:05:00.000Z' }));
+        await clinicalStore.saveVitalSign(vital({ local_id: 'pulled', maternal_profile_local_id: 'remote-1', recorded_at: '2026-03-01T08:10:00.000Z' }));
+        await clinicalStore.saveVitalSign(vital({ local_id: 'other', maternal_profile_local_id: 'case-2' }));
+
+        expect(ids(await clinicalStore.getVitalSigns('case-1'))).toEqual(['pulled', 'first']);
+        expect((await clinicalStore.getVitalSigns('case-1'))[0]).toMatchObject({ heart_rate: 96, is_synced: false });
+    });
+
+    it('round-trips structured checklist fields', async () => {
+        await clinicalStore.saveChecklist({
+            local_id: 'checklist-1',
+            maternal_profile_local_id: 'case-1',
+            early_detection_done: true,
+            massage_done: true,
+            oxytocin_done: false,
+            txa_done: false,
+            iv_fluids_done: false,
+            escalation_done: false,
+            diagnostics_causes: ['tone', 'tissue'],
+            created_at: '2026-03-01T08:00:00.000Z',
+            updated_at: '2026-03-01T08:00:00.000Z',
+        });
+
+        await clinicalStore.updateChecklist('checklist-1', { oxytocin_done: true });
+
+        expect(await clinicalStore.getChecklist('case-1')).toMatchObject({
+            early_detection_done: true,
+            oxytocin_done: true,
+            txa_done: false,
+            diagnostics_causes: ['tone', 'tissue'],
+            is_synced: false,
+        });
+    });
+
+    it('deletes a case with everything recorded against it, and nothing else', async () => {
+        await clinicalStore.saveProfile(profile({ remote_id: 'remote-1' }));
+        await clinicalStore.saveProfile(profile({ local_id: 'case-2' }));
+        await clinicalStore.saveVitalSign(vital());
+        await clinicalStore.saveVitalSign(vital({ local_id: 'pulled', maternal_profile_local_id: 'remote-1' }));
+        await clinicalStore.saveVitalSign(vital({ local_id: 'kept', maternal_profile_local_id: 'case-2' }));
+        await clinicalStore.saveCaseEvent({
+            local_id: 'event-1', maternal_profile_id: 'case-1', event_type: 'vitals', event_label: 'Vitals', occurred_at: '2026-03-01T08:05:00.000Z',
+        });
+
+        await clinicalStore.deleteCase('case-1');
+
+        expect(await clinicalStore.getProfile('case-1')).toBeNull();
+        expect(await clinicalStore.getVitalSigns('case-1')).toEqual([]);
+        expect(await clinicalStore.getVitalSigns('remote-1')).toEqual([]);
+        expect(await clinicalStore.getCaseEvents('case-1')).toEqual([]);
+        expect(ids(await clinicalStore.getVitalSigns('case-2'))).toEqual(['kept']);
+    });
+
+    // ── Training ─────────────────────────────────────────────
+
+    it('keeps training cases apart, without sync state', async () => {
+        await clinicalStore.saveProfile(profile({ local_id: 'real' }));
+        await trainingStore.saveProfile(profile({ local_id: 'drill', remote_id: 'remote-x', is_synced: true }));
+
+        expect(ids(await clinicalStore.getProfiles())).toEqual(['real']);
+        expect(ids(await trainingStore.getProfiles())).toEqual(['drill']);
+        expect((await trainingStore.getProfile('drill'))!.remote_id ?? null).toBeNull();
+
+        await trainingStore.clear();
+        expect(await trainingStore.getProfiles()).toEqual([]);
+        expect(ids(await clinicalStore.getProfiles())).toEqual(['real']);
+    });
+});
+
+// ── Web storage ──────────────────────────────────────────────
+
+(Platform.OS === 'web' ? describe : describe.skip)('IndexedDB storage', () => {
+    it('moves case records earlier builds kept in localStorage', async () => {
+        await deleteStoreDatabase();
+        localStorage.setItem('motivaid_profiles', JSON.stringify([['legacy', profile({ local_id: 'legacy' })]]));
+        localStorage.setItem('motivaid_vitals', JSON.stringify([['vital-1', vital({ maternal_profile_local_id: 'legacy' })]]));
+
+        expect(ids(await clinicalStore.getProfiles())).toEqual(['legacy']);
+        expect(ids(await clinicalStore.getVitalSigns('legacy'))).toEqual(['vital-1']);
+        expect(localStorage.getItem('motivaid_profiles')).toBeNull();
+    });
+
+    it('deletes every record with the database', async () => {
+        await clinicalStore.saveProfile(profile());
+        await trainingStore.saveProfile(profile({ local_id: 'drill' }));
+
+        await deleteStoreDatabase();
+
+        expect(await clinicalStore.getProfiles()).toEqual([]);
+        expect(await trainingStore.getProfiles()).toEqual([]);
+    });
+});
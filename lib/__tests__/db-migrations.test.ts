@@ -0,0 +1,270 @@
+/**
+ * Upgrade harness: a database left at every earlier schema version, with
+ * data in it, is brought up to the current one and must end up with the
+ * same schema as a fresh install and all of its data.
+ */
+
+import { LOCAL_DB_MIGRATIONS, LOCAL_DB_VERSION, migrateLocalDatabase } from '@/lib/db-migrations';
+import { openTestDatabase, TestDatabase } from './support/test-db';
+
+const PROFILE_ID = 'case-1';
+
+/** Table → column names, plus every trigger and index, as sorted lists */
+async function describeSchema(db: TestDatabase) {
+    const objects = await db.getAllAsync<{ type: string; name: string }>(
+        `SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name`
+    );
+    const tables: Record<string, string[]> = {};
+    for (const { type, name } of objects) {
+        if (type !== 'table' || /_fts_/.test(name)) continue; // FTS5 shadow tables follow their index
+        const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${name})`);
+        tables[name] = columns.map(c => c.name).sort();
+    }
+    return {
+        tables,
+        others: objects.filter(o => o.type !== 'table').map(o => `${o.type}:${o.name}`),
+    };
+}
+
+async function userVersion(db: TestDatabase) {
+    return (await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version'))!.user_version;
+}
+
+async function count(db: TestDatabase, table: string) {
+    return (await db.getFirstAsync<{ n: number }>(`SELECT COUNT(*) AS n FROM ${table}`))!.n;
+}
+
+/** A database migrated only as far as `version` */
+async function databaseAt(version: number) {
+    const db = openTestDatabase();
+    await migrateLocalDatabase(db, LOCAL_DB_MIGRATIONS.slice(0, version));
+    return db;
+}
+
+/**
+ * Rows a device at `version` could hold, written with only the columns
+ * that version had: a case with each kind of record, a training case and
+ * queued work.
+ */
+async function seed(db: TestDatabase, version: number) {
+    await db.runAsync(
+        `INSERT INTO maternal_profiles_local (local_id, remote_id, patient_id, age, notes, is_synced, created_at, updated_at)
+     VALUES (?, 'remote-1', 'MRN-0042', 31, 'Retained placenta, transfused', 1, '2026-01-05T10:00:00Z', '2026-01-05T11:00:00Z')`,
+        [PROFILE_ID]
+    );
+    await db.runAsync(
+        `INSERT INTO vital_signs_local (local_id, maternal_profile_local_id, heart_rate, systolic_bp, estimated_blood_loss)
+     VALUES ('vital-1', ?, 112, 90, 600)`,
+        [PROFILE_ID]
+    );
+    await db.runAsync(
+        `INSERT INTO emotive_checklists_local (local_id, maternal_profile_local_id, massage_done) VALUES ('checklist-1', ?, 1)`,
+        [PROFILE_ID]
+    );
+    await db.runAsync(
+        `INSERT INTO case_events_local (local_id, maternal_profile_id, event_type, event_label) VALUES ('event-1', ?, 'vitals', 'Vitals recorded')`,
+        [PROFILE_ID]
+    );
+    await db.runAsync(
+        `INSERT INTO maternal_profiles_training (local_id, patient_id, age, notes) VALUES ('drill-1', 'SIM-7', 25, 'Simulation drill')`
+    );
+    await db.runAsync(
+        `INSERT INTO sync_queue_local (id, table_name, record_id, operation, payload, status)
+     VALUES ('queue-1', 'vital_signs', 'vital-1', 'insert', '{}', ?)`,
+        [version > 0 && version < 9 ? 'failed' : 'pending']
+    );
+
+    if (version >= 3) {
+        await db.runAsync(
+            `INSERT INTO shock_threshold_sets_local (id, facility_id, version, thresholds, policy) VALUES ('thresholds-1', 'facility-1', 1, '{}', '{}')`
+        );
+    }
+    if (version >= 4) {
+        await db.runAsync(
+            `INSERT INTO blood_loss_entries_local (local_id, maternal_profile_local_id, method, volume_ml) VALUES ('loss-1', ?, 'drape', 350)`,
+            [PROFILE_ID]
+        );
+    }
+    if (version >= 7) {
+        await db.runAsync(
+            `INSERT INTO risk_assessments_local (local_id, maternal_profile_local_id, risk_level, risk_score, risk_rule_version, factors)
+       VALUES ('assessment-1', ?, 'high', 6, 1, '[]')`,
+            [PROFILE_ID]
+        );
+    }
+    if (version >= 8) {
+        await db.runAsync(
+            `INSERT INTO preparedness_checks_local (local_id, maternal_profile_local_id, item_id) VALUES ('check-1', ?, 'iv_access')`,
+            [PROFILE_ID]
+        );
+    }
+    if (version >= 11) {
+        await db.runAsync(`INSERT INTO sync_cursors_local (key, high_water_mark) VALUES ('maternal_profiles|user:u1', '2026-01-05T11:00:00Z')`);
+    }
+}
+
+/**
+ * Tables as the app's first releases created them, before the runner
+ * recorded a version: the baseline without the columns added since.
+ */
+async function createPreRunnerTables(db: TestDatabase) {
+    await LOCAL_DB_MIGRATIONS[0].up(db);
+    for (const column of ['blood_loss_ai_estimate', 'blood_loss_confidence', 'blood_loss_ai_method']) {
+        await db.execAsync(`ALTER TABLE vital_signs_local DROP COLUMN ${column}`);
+    }
+    for (const table of ['emotive_checklists_local', 'emotive_checklists_training']) {
+        await db.execAsync(`ALTER TABLE ${table} DROP COLUMN diagnostics_causes`);
+        await db.execAsync(`ALTER TABLE ${table} DROP COLUMN diagnostics_notes`);
+    }
+}
+
+let current: Awaited<ReturnType<typeof describeSchema>>;
+
+beforeAll(async () => {
+    const fresh = await databaseAt(LOCAL_DB_VERSION);
+    current = await describeSchema(fresh);
+    await fresh.closeAsync();
+});
+
+describe('migrateLocalDatabase', () => {
+    it('numbers the steps 1 to LOCAL_DB_VERSION without gaps', () => {
+        expect(LOCAL_DB_MIGRATIONS.map(m => m.version)).toEqual(
+            Array.from({ length: LOCAL_DB_VERSION }, (_, i) => i + 1)
+        );
+    });
+
+    it('rejects steps out of order', async () => {
+        const [first, second] = LOCAL_DB_MIGRATIONS;
+        await expect(migrateLocalDatabase(openTestDatabase(), [second, first])).rejects.toThrow(/increasing order/);
+    });
+
+    it('does nothing on a database already at the current version', async () => {
+        const db = await databaseAt(LOCAL_DB_VERSION);
+        expect(await migrateLocalDatabase(db)).toEqual({ fromVersion: LOCAL_DB_VERSION, toVersion: LOCAL_DB_VERSION, applied: [] });
+    });
+
+    it('leaves a database from a newer build alone', async () => {
+        const db = await databaseAt(LOCAL_DB_VERSION);
+        await db.execAsync(`PRAGMA user_version = ${LOCAL_DB_VERSION + 1}`);
+        expect((await migrateLocalDatabase(db)).applied).toEqual([]);
+        expect(await userVersion(db)).toBe(LOCAL_DB_VERSION + 1);
+    });
+
+    it('rolls back a step that fails, version bump included', async () => {
+        const db = await databaseAt(LOCAL_DB_VERSION);
+        const broken = {
+            version: LOCAL_DB_VERSION + 1,
+            name: 'broken',
+            up: async () => {
+                await db.execAsync('CREATE TABLE half_done (id TEXT)');
+                throw new Error('disk full');
+            },
+        };
+
+        await expect(migrateLocalDatabase(db, [...LOCAL_DB_MIGRATIONS, broken])).rejects.toThrow('disk full');
+
+        expect(await userVersion(db)).toBe(LOCAL_DB_VERSION);
+        expect(await db.getFirstAsync(`SELECT name FROM sqlite_master WHERE name = 'half_done'`)).toBeNull();
+    });
+
+    it('can run every step again over tables and columns that already exist', async () => {
+        // As on installs whose startup code created them before the runner existed
+        const db = openTestDatabase();
+        for (const migration of LOCAL_DB_MIGRATIONS) await migration.up(db);
+        await seed(db, LOCAL_DB_VERSION);
+
+        expect((await migrateLocalDatabase(db)).applied).toHaveLength(LOCAL_DB_VERSION);
+        expect(await describeSchema(db)).toEqual(current);
+        expect(await count(db, 'maternal_profiles_local_fts')).toBe(1);
+    });
+});
+
+// ── Upgrades ─────────────────────────────────────────────────
+
+describe.each(Array.from({ length: LOCAL_DB_VERSION }, (_, version) => version))('upgrading from version %i', (version) => {
+    let db: TestDatabase;
+    let result: Awaited<ReturnType<typeof migrateLocalDatabase>>;
+
+    beforeAll(async () => {
+        db = await databaseAt(version);
+        if (version === 0) await createPreRunnerTables(db);
+        await seed(db, version);
+        result = await migrateLocalDatabase(db);
+    });
+
+    afterAll(() => db.closeAsync());
+
+    it('applies every later step, in order', async () => {
+        expect(result).toEqual({
+            fromVersion: version,
+            toVersion: LOCAL_DB_VERSION,
+            applied: LOCAL_DB_MIGRATIONS.slice(version).map(m => m.name),
+        });
+        expect(await userVersion(db)).toBe(LOCAL_DB_VERSION);
+    });
+
+    it('ends with the same schema as a fresh install', async () => {
+        expect(await describeSchema(db)).toEqual(current);
+    });
+
+    it('keeps every row', async () => {
+        const expected: Record<string, number> = {
+            maternal_profiles_local: 1,
+            vital_signs_local: 1,
+            emotive_checklists_local: 1,
+            case_events_local: 1,
+            maternal_profiles_training: 1,
+            sync_queue_local: 1,
+            shock_threshold_sets_local: version >= 3 ? 1 : 0,
+            blood_loss_entries_local: version >= 4 ? 1 : 0,
+            risk_assessments_local: version >= 7 ? 1 : 0,
+            preparedness_checks_local: version >= 8 ? 1 : 0,
+            sync_cursors_local: version >= 11 ? 1 : 0,
+        };
+        for (const [table, rows] of Object.entries(expected)) {
+            expect([table, await count(db, table)]).toEqual([table, rows]);
+        }
+        expect(await db.getFirstAsync(`SELECT remote_id, patient_id, age, is_synced FROM maternal_profiles_local`)).toEqual({
+            remote_id: 'remote-1', patient_id: 'MRN-0042', age: 31, is_synced: 1,
+        });
+    });
+
+    it('fills new columns with their defaults', async () => {
+        expect(await db.getFirstAsync(
+            `SELECT has_preeclampsia, risk_rule_version, patient_local_id FROM maternal_profiles_local`
+        )).toEqual({ has_preeclampsia: 0, risk_rule_version: null, patient_local_id: null });
+        expect(await db.getFirstAsync(`SELECT meows_level, threshold_version FROM vital_signs_local`)).toEqual({
+            meows_level: null, threshold_version: null,
+        });
+    });
+
+    it('gives queue items failed before backoff existed their retries back', async () => {
+        expect(await db.getFirstAsync(`SELECT status, next_attempt_at FROM sync_queue_local`)).toEqual({
+            status: 'pending', next_attempt_at: null,
+        });
+    });
+
+    it('indexes existing cases for search and keeps the index in step', async () => {
+        const search = (table: string, text: string) => db.getAllAsync<{ local_id: string }>(
+            `SELECT local_id FROM ${table}_fts WHERE ${table}_fts MATCH ?`, [text]
+        );
+        expect(await search('maternal_profiles_local', 'retain*')).toEqual([{ local_id: PROFILE_ID }]);
+        expect(await search('maternal_profiles_local', '"MRN 0042"')).toEqual([{ local_id: PROFILE_ID }]);
+        expect(await search('maternal_profiles_training', 'drill')).toEqual([{ local_id: 'drill-1' }]);
+
+        await db.runAsync(`UPDATE maternal_profiles_local SET notes = 'Uterine atony' WHERE local_id = ?`, [PROFILE_ID]);
+        expect(await search('maternal_profiles_local', 'retain*')).toEqual([]);
+        expect(await search('maternal_profiles_local', 'atony')).toEqual([{ local_id: PROFILE_ID }]);
+    });
+
+    it('links existing cases to patients', async () => {
+        await db.runAsync(
+            `INSERT INTO patients_local (local_id, facility_id, patient_number, full_name, birth_year) VALUES ('patient-1', 'facility-1', 'MRN-0042', 'Amina Yusuf', 1995)`
+        );
+        await db.runAsync(`UPDATE maternal_profiles_local SET patient_local_id = 'patient-1' WHERE local_id = ?`, [PROFILE_ID]);
+
+        expect(await db.getAllAsync(
+            `SELECT p.local_id FROM maternal_profiles_local p JOIN patients_local pt ON pt.local_id = p.patient_local_id WHERE pt.patient_number = 'MRN-0042'`
+        )).toEqual([{ local_id: PROFILE_ID }]);
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * Prior episode history: an earlier delivery counts as PPH when it closed
+ * as one, when its blood loss reached 500 mL, or when it was referred out
+ * of an E-MOTIVE bundle.
+ */
+
+import type { LocalMaternalProfile } from '@/lib/local-records';
+import { priorEpisodeHistory } from '@/lib/patient-identity';
+
+function episode(localId: string, overrides: Partial<LocalMaternalProfile> = {}): LocalMaternalProfile {
+    return {
+        local_id: localId,
+        created_at: '2025-06-01T08:00:00.000Z',
+        status: 'closed',
+        outcome: 'normal',
+        has_pph_history: false,
+        has_severe_pph_history: false,
+        has_prior_cesarean: false,
+        ...overrides,
+    } as LocalMaternalProfile;
+}
+
+const noBleeding = { bloodLossMl: 200, emotiveStarted: false };
+
+describe('priorEpisodeHistory', () => {
+    it('counts an episode that closed as PPH', () => {
+        expect(priorEpisodeHistory([episode('e1', { outcome: 'pph_resolved' })]).hasPphHistory).toBe(true);
+    });
+
+    it('counts an episode whose blood loss reached 500 mL whatever its outcome', () => {
+        const episodes = [episode('e1'), episode('e2', { outcome: 'referred' })];
+
+        expect(priorEpisodeHistory(episodes, { e1: { bloodLossMl: 500, emotiveStarted: false } }).hasPphHistory).toBe(true);
+        expect(priorEpisodeHistory(episodes, { e2: { bloodLossMl: 650, emotiveStarted: false } }).hasPphHistory).toBe(true);
+        expect(priorEpisodeHistory(episodes, { e1: { bloodLossMl: 499, emotiveStarted: false } }).hasPphHistory).toBe(false);
+    });
+
+    it('counts a referral out of an E-MOTIVE bundle', () => {
+        const referred = episode('e1', { outcome: 'referred' });
+
+        expect(priorEpisodeHistory([referred], { e1: { bloodLossMl: 300, emotiveStarted: true } }).hasPphHistory).toBe(true);
+        expect(priorEpisodeHistory([referred], { e1: noBleeding }).hasPphHistory).toBe(false);
+    });
+
+    it('does not count a normal delivery', () => {
+        expect(priorEpisodeHistory([episode('e1')], { e1: { ...noBleeding, emotiveStarted: true } }).hasPphHistory).toBe(false);
+    });
+});
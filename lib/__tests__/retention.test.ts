@@ -0,0 +1,126 @@
+/**
+ * Retention purge: closed cases the server fully has are removed from the
+ * device, and a patient goes with the last episode kept here. Runs once per
+ * platform, like the ClinicalStore suite.
+ */
+
+import { addToSyncQueue, getPatient, purgeClosedCases, savePatient } from '@/lib/clinical-db';
+import { clinicalStore } from '@/lib/clinical-store';
+import type { LocalMaternalProfile, LocalPatient } from '@/lib/local-records';
+import { wipeSharedDB } from '@/lib/shared-db';
+
+const CLOSED_AT = '2026-01-10T08:00:00.000Z';
+const CUTOFF = '2026-02-01T00:00:00.000Z';
+
+function patient(localId: string, overrides: Partial<LocalPatient> = {}): LocalPatient {
+    return {
+        local_id: localId,
+        facility_id: 'facility-1',
+        patient_number: `MRN-${localId}`,
+        full_name: 'Amina Okafor',
+        birth_year: 1995,
+        is_synced: true,
+        created_at: CLOSED_AT,
+        updated_at: CLOSED_AT,
+        ...overrides,
+    };
+}
+
+function episode(localId: string, patientLocalId: string, overrides: Partial<LocalMaternalProfile> = {}): LocalMaternalProfile {
+    return {
+        local_id: localId,
+        patient_local_id: patientLocalId,
+        age: 31,
+        gravida: 3,
+        parity: 2,
+        is_multiple_gestation: false,
+        has_prior_cesarean: false,
+        has_placenta_previa: false,
+        has_large_fibroids: false,
+        has_anemia: false,
+        has_pph_history: false,
+        has_intraamniotic_infection: false,
+        has_severe_anemia: false,
+        has_coagulopathy: false,
+        has_severe_pph_history: false,
+        has_placenta_accreta: false,
+        has_active_bleeding: false,
+        has_morbid_obesity: false,
+        has_preeclampsia: false,
+        is_induced_labor: false,
+        has_prolonged_labor: false,
+        has_macrosomia: false,
+        has_prolonged_second_stage: false,
+        has_operative_delivery: false,
+        risk_level: 'low',
+        risk_score: 0,
+        status: 'closed',
+        is_synced: true,
+        created_at: CLOSED_AT,
+        updated_at: CLOSED_AT,
+        ...overrides,
+    };
+}
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await wipeSharedDB();
+    await clinicalStore.clear();
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('purgeClosedCases', () => {
+    it('removes a patient with the last episode kept on the device', async () => {
+        await savePatient(patient('patient-1'));
+        await clinicalStore.saveProfile(episode('case-1', 'patient-1'));
+
+        expect(await purgeClosedCases(CUTOFF)).toEqual(['case-1']);
+
+        expect(await clinicalStore.getProfile('case-1')).toBeNull();
+        expect(await getPatient('patient-1')).toBeNull();
+    });
+
+    it('removes records kept under the case\'s remote id', async () => {
+        await clinicalStore.saveProfile(episode('case-5', 'patient-5', { remote_id: 'remote-5' }));
+        await clinicalStore.saveVitalSign({
+            local_id: 'vital-5',
+            maternal_profile_local_id: 'remote-5',
+            estimated_blood_loss: 0,
+            is_synced: true,
+            recorded_at: CLOSED_AT,
+        });
+
+        expect(await purgeClosedCases(CUTOFF)).toEqual(['case-5']);
+
+        expect(await clinicalStore.getVitalSigns('remote-5')).toEqual([]);
+    });
+
+    it('keeps the patient while another episode is on the device', async () => {
+        await savePatient(patient('patient-2'));
+        await clinicalStore.saveProfile(episode('case-2', 'patient-2'));
+        await clinicalStore.saveProfile(episode('case-3', 'patient-2', { status: 'post_delivery' }));
+
+        expect(await purgeClosedCases(CUTOFF)).toEqual(['case-2']);
+
+        expect(await getPatient('patient-2')).not.toBeNull();
+    });
+
+    it('keeps a patient the server does not have yet', async () => {
+        await savePatient(patient('patient-3', { is_synced: false }));
+        await addToSyncQueue({
+            id: 'queue-patient-3',
+            table_name: 'patients',
+            record_id: 'patient-3',
+            operation: 'insert',
+            payload: JSON.stringify(patient('patient-3', { is_synced: false })),
+        });
+        await clinicalStore.saveProfile(episode('case-4', 'patient-3'));
+
+        expect(await purgeClosedCases(CUTOFF)).toEqual(['case-4']);
+
+        expect(await getPatient('patient-3')).not.toBeNull();
+    });
+});
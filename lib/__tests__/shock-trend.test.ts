@@ -0,0 +1,121 @@
+/**
+ * Vitals trend engine: least-squares slopes per hour, the minimum number of
+ * readings, the trend window, and the rate limits at which a metric counts
+ * as worsening and the patient as deteriorating.
+ */
+
+import { analyzeVitalsTrend, TrendReading } from '@/lib/shock-trend';
+
+const START = Date.parse('2026-03-01T08:00:00.000Z');
+
+/** A reading `minutes` after the start */
+function at(minutes: number, values: Omit<TrendReading, 'recorded_at'>): TrendReading {
+    return { recorded_at: new Date(START + minutes * 60_000).toISOString(), ...values };
+}
+
+const metric = (readings: TrendReading[], name: string, config = {}) =>
+    analyzeVitalsTrend(readings, config).metrics.find(m => m.metric === name);
+
+describe('analyzeVitalsTrend', () => {
+    it('fits a least-squares slope in units per hour', () => {
+        // Not a straight line: 80 → 90 → 88 over 30 minutes
+        const hr = metric([at(0, { heart_rate: 80 }), at(15, { heart_rate: 90 }), at(30, { heart_rate: 88 })], 'heart_rate');
+
+        expect(hr).toMatchObject({ samples: 3, first: 80, last: 88, change: 8 });
+        expect(hr!.slopePerHour).toBeCloseTo(16);
+    });
+
+    it('needs the minimum number of readings per metric before it trusts a slope', () => {
+        const readings = [at(0, { heart_rate: 80 }), at(15, { heart_rate: 120 })];
+
+        expect(analyzeVitalsTrend(readings)).toMatchObject({ isDeteriorating: false, metrics: [], readingCount: 2 });
+        expect(metric(readings, 'heart_rate', { minReadings: 2 })).toMatchObject({ samples: 2, isWorsening: true });
+    });
+
+    it('only analyses readings inside the window before the latest one', () => {
+        const readings = [
+            at(0, { heart_rate: 140 }),   // outside a 60-minute window
+            at(50, { heart_rate: 80 }),
+            at(70, { heart_rate: 81 }),
+            at(90, { heart_rate: 82 }),
+        ];
+
+        const result = analyzeVitalsTrend(readings);
+        expect(result.readingCount).toBe(3);
+        expect(result.windowStart).toBe(readings[1].recorded_at);
+        expect(result.windowEnd).toBe(readings[3].recorded_at);
+
+        // A wider window takes the early reading in, and the falling rate with it
+        expect(analyzeVitalsTrend(readings, { windowMinutes: 120 }).readingCount).toBe(4);
+        expect(metric(readings, 'heart_rate', { windowMinutes: 120 })!.slopePerHour).toBeLessThan(0);
+    });
+
+    it('flags a heart rate rising faster than the per-hour limit', () => {
+        const rising = (step: number) =>
+            [0, 20, 40].map((m, i) => at(m, { heart_rate: 80 + i * step }));
+
+        expect(metric(rising(6), 'heart_rate')).toMatchObject({ isWorsening: true });   // 18 bpm/h
+        expect(metric(rising(4), 'heart_rate')).toMatchObject({ isWorsening: false });  // 12 bpm/h, under 15
+    });
+
+    it('ignores a shock index rise smaller than the minimum change', () => {
+        const si = (values: number[]) => values.map((v, i) => at(i * 5, { shock_index: v }));
+
+        expect(metric(si([0.7, 0.75, 0.8]), 'shock_index')).toMatchObject({ isWorsening: false });
+        expect(metric(si([0.7, 0.8, 0.9]), 'shock_index')).toMatchObject({ isWorsening: true });
+    });
+
+    it('takes the shock index from HR and SBP unrounded when both are there', () => {
+        const si = metric([
+            at(0, { heart_rate: 90, systolic_bp: 120, shock_index: 0.8 }),
+            at(15, { heart_rate: 90, systolic_bp: 120, shock_index: 0.8 }),
+            at(30, { heart_rate: 90, systolic_bp: 120, shock_index: 0.8 }),
+        ], 'shock_index');
+
+        expect(si!.last).toBeCloseTo(0.75);
+    });
+
+    it('deteriorates on a worsening shock index alone', () => {
+        const result = analyzeVitalsTrend([
+            at(0, { shock_index: 0.7 }),
+            at(15, { shock_index: 0.85 }),
+            at(30, { shock_index: 1.0 }),
+        ]);
+
+        expect(result.isDeteriorating).toBe(true);
+        expect(result.summary).toBe('Deteriorating — Shock Index 0.70 → 1.00');
+    });
+
+    it('needs two other worsening metrics to deteriorate', () => {
+        const hrOnly = [at(0, { heart_rate: 80 }), at(15, { heart_rate: 90 }), at(30, { heart_rate: 100 })];
+        expect(analyzeVitalsTrend(hrOnly)).toMatchObject({ isDeteriorating: false, summary: 'Stable — no deteriorating trend detected' });
+
+        const hrAndBleeding = [
+            at(0, { heart_rate: 80, estimated_blood_loss: 0 }),
+            at(15, { heart_rate: 90, estimated_blood_loss: 150 }),
+            at(30, { heart_rate: 100, estimated_blood_loss: 300 }),
+        ];
+        const result = analyzeVitalsTrend(hrAndBleeding);
+        expect(result.isDeteriorating).toBe(true);
+        expect(result.worsening.map(m => m.metric)).toEqual(['heart_rate', 'estimated_blood_loss']);
+    });
+
+    it('flags a falling systolic BP', () => {
+        const sbp = metric([
+            at(0, { systolic_bp: 120 }),
+            at(15, { systolic_bp: 112 }),
+            at(30, { systolic_bp: 105 }),
+        ], 'systolic_bp');
+
+        expect(sbp).toMatchObject({ change: -15, isWorsening: true });
+    });
+
+    it('has nothing to say without readings', () => {
+        expect(analyzeVitalsTrend([{ recorded_at: 'not a date', heart_rate: 80 }])).toMatchObject({
+            isDeteriorating: false,
+            readingCount: 0,
+            windowStart: null,
+            summary: 'Not enough readings to assess trend',
+        });
+    });
+});
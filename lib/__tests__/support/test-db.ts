@@ -0,0 +1,86 @@
+/**
+ * Test Database
+ *
+ * An in-memory SQLite database (better-sqlite3) behind the part of the
+ * expo-sqlite connection the app uses. jest.setup.ts puts this module in
+ * place of lib/shared-db, so getSharedDB() hands out a database migrated to
+ * the current schema and wipeSharedDB() starts the next one empty.
+ */
+
+import { migrateLocalDatabase } from '@/lib/db-migrations';
+import Database from 'better-sqlite3';
+
+export interface TestDatabase {
+    execAsync(source: string): Promise<void>;
+    runAsync(source: string, params?: unknown[]): Promise<{ lastInsertRowId: number; changes: number }>;
+    getFirstAsync<T>(source: string, params?: unknown[]): Promise<T | null>;
+    getAllAsync<T>(source: string, params?: unknown[]): Promise<T[]>;
+    withTransactionAsync(task: () => Promise<void>): Promise<void>;
+    closeAsync(): Promise<void>;
+}
+
+// expo-sqlite binds booleans as 0/1 and undefined as NULL; better-sqlite3 rejects both
+const bind = (params: unknown[] = []) =>
+    params.map(value => (typeof value === 'boolean' ? Number(value) : value === undefined ? null : value));
+
+/** An empty database — no migrations applied */
+export function openTestDatabase(): TestDatabase {
+    const db = new Database(':memory:');
+    // SQLite's default, as on the device — better-sqlite3 turns enforcement on
+    db.pragma('foreign_keys = OFF');
+
+    return {
+        async execAsync(source) {
+            db.exec(source);
+        },
+        async runAsync(source, params) {
+            const result = db.prepare(source).run(...bind(params));
+            return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+        },
+        async getFirstAsync<T>(source: string, params?: unknown[]) {
+            return (db.prepare(source).get(...bind(params)) as T | undefined) ?? null;
+        },
+        async getAllAsync<T>(source: string, params?: unknown[]) {
+            const statement = db.prepare(source);
+            if (!statement.reader) {
+                statement.run(...bind(params));
+                return [];
+            }
+            return statement.all(...bind(params)) as T[];
+        },
+        async withTransactionAsync(task) {
+            db.exec('BEGIN');
+            try {
+                await task();
+                db.exec('COMMIT');
+            } catch (error) {
+                db.exec('ROLLBACK');
+                throw error;
+            }
+        },
+        async closeAsync() {
+            db.close();
+        },
+    };
+}
+
+// ── lib/shared-db ────────────────────────────────────────────
+
+let _db: TestDatabase | null = null;
+
+export type SharedDatabase = TestDatabase;
+
+export const getSharedDB = async (): Promise<TestDatabase> => {
+    if (!_db) {
+        const db = openTestDatabase();
+        await migrateLocalDatabase(db);
+        _db = db;
+    }
+    return _db;
+};
+
+export const wipeSharedDB = async (): Promise<void> => {
+    const db = _db;
+    _db = null;
+    await db?.closeAsync();
+};
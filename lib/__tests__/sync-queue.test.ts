@@ -0,0 +1,437 @@
+/**
+ * Sync queue against the in-memory server: push ordering, parent deferral,
+ * shared preparedness checks, server-numbered threshold sets, retries with
+ * backoff and the dead-letter state, discarding queued changes and
+ * incremental pulls.
+ */
+
+import { discardSyncItem, getLatestShockThresholdSet, getUnsyncedSyncItems, saveShockThresholdSets, SyncQueueItem } from '@/lib/clinical-db';
+import { clinicalStore } from '@/lib/clinical-store';
+import type { LocalMaternalProfile, LocalVitalSign } from '@/lib/local-records';
+import { createMemorySyncBackend, MemorySyncBackend } from '@/lib/memory-sync-backend';
+import { preparednessCheckLocalId } from '@/lib/preparedness';
+import { DEFAULT_THRESHOLD_SET } from '@/lib/shock-index';
+import { wipeSharedDB } from '@/lib/shared-db';
+import { PullQuery } from '@/lib/sync-backend';
+import { generateUUID, processQueue, pullFromRemote, queueOperation, setSyncBackend } from '@/lib/sync-queue';
+
+const USER_ID = 'user-1';
+const START = new Date('2026-03-01T08:00:00.000Z');
+
+let server: MemorySyncBackend;
+
+function advance(ms: number) {
+    jest.setSystemTime(Date.now() + ms);
+}
+
+function profile(overrides: Partial<LocalMaternalProfile> = {}): LocalMaternalProfile {
+    const now = new Date().toISOString();
+    return {
+        local_id: generateUUID(),
+        created_by: USER_ID,
+        patient_id: 'MRN-001',
+        age: 28,
+        gravida: 2,
+        parity: 1,
+        is_multiple_gestation: false,
+        has_prior_cesarean: false,
+        has_placenta_previa: false,
+        has_large_fibroids: false,
+        has_anemia: false,
+        has_pph_history: false,
+        has_intraamniotic_infection: false,
+        has_severe_anemia: false,
+        has_coagulopathy: false,
+        has_severe_pph_history: false,
+        has_placenta_accreta: false,
+        has_active_bleeding: false,
+        has_morbid_obesity: false,
+        has_preeclampsia: false,
+        is_induced_labor: false,
+        has_prolonged_labor: false,
+        has_macrosomia: false,
+        has_prolonged_second_stage: false,
+        has_operative_delivery: false,
+        risk_level: 'low',
+        risk_score: 0,
+        status: 'pre_delivery',
+        is_synced: false,
+        created_at: now,
+        updated_at: now,
+        ...overrides,
+    };
+}
+
+function vital(profileLocalId: string, overrides: Partial<LocalVitalSign> = {}): LocalVitalSign {
+    return {
+        local_id: generateUUID(),
+        maternal_profile_local_id: profileLocalId,
+        heart_rate: 88,
+        systolic_bp: 118,
+        diastolic_bp: 76,
+        estimated_blood_loss: 0,
+        is_synced: false,
+        recorded_at: new Date().toISOString(),
+        ...overrides,
+    };
+}
+
+/** Save a case locally and queue it, the way the clinical context does while offline */
+async function createCase(overrides: Partial<LocalMaternalProfile> = {}) {
+    const p = profile(overrides);
+    await clinicalStore.saveProfile(p);
+    await queueOperation('maternal_profiles', p.local_id, 'insert', p);
+    return p;
+}
+
+async function recordVital(profileLocalId: string) {
+    const v = vital(profileLocalId);
+    await clinicalStore.saveVitalSign(v);
+    await queueOperation('vital_signs', v.local_id, 'insert', v);
+    return v;
+}
+
+async function queued(recordId: string): Promise<SyncQueueItem> {
+    const item = (await getUnsyncedSyncItems()).find(i => i.record_id === recordId);
+    if (!item) throw new Error(`nothing queued for ${recordId}`);
+    return item;
+}
+
+const callsTo = (operation: string) => server.calls.filter(c => c.operation === operation);
+
+beforeEach(async () => {
+    jest.useFakeTimers({ now: START, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await wipeSharedDB();
+    server = createMemorySyncBackend();
+    setSyncBackend(server);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+// ── Pushing ──────────────────────────────────────────────────
+
+describe('processQueue', () => {
+    it('sends a new case and its records in one bundle', async () => {
+        const p = await createCase();
+        const v = await recordVital(p.local_id);
+
+        expect(await processQueue()).toEqual({ synced: 2, failed: 0 });
+
+        expect(server.calls.map(c => c.operation)).toEqual(['insertCaseBundle']);
+        const [remoteProfile] = server.rows('maternal_profiles');
+        expect(server.rows('vital_signs')).toEqual([
+            expect.objectContaining({ local_id: v.local_id, maternal_profile_id: remoteProfile.id }),
+        ]);
+        expect(await clinicalStore.getProfile(p.local_id)).toMatchObject({ is_synced: true, remote_id: remoteProfile.id });
+        expect(await getUnsyncedSyncItems()).toEqual([]);
+    });
+
+    it('sends parent tables before the tables that depend on them', async () => {
+        const contactId = generateUUID();
+        await queueOperation('emergency_contacts', contactId, 'insert', { id: contactId, name: 'Theatre', role: 'anesthetist', phone: '100', tier: 1 });
+        await queueOperation('patients', 'patient-1', 'insert', { local_id: 'patient-1', full_name: 'Amina Yusuf' });
+
+        await processQueue();
+
+        expect(server.calls.map(c => c.table)).toEqual(['patients', 'emergency_contacts']);
+    });
+
+    it('batches records for cases already on the server', async () => {
+        const p = await createCase();
+        await processQueue();
+        server.calls.length = 0;
+
+        await recordVital(p.local_id);
+        await recordVital(p.local_id);
+        expect(await processQueue()).toEqual({ synced: 2, failed: 0 });
+
+        expect(callsTo('insertOnce')).toEqual([{ operation: 'insertOnce', table: 'vital_signs' }]);
+        expect(server.rows('vital_signs')).toHaveLength(2);
+    });
+
+    it('holds a record back while its case is waiting to retry, then sends it after the case', async () => {
+        server.failNext('insertOnce', { message: 'Network request failed' });
+        const p = await createCase();
+        await processQueue();
+        expect(await queued(p.local_id)).toMatchObject({ status: 'pending', retry_count: 1 });
+
+        // The case is backing off, so the vital can't be sent without it
+        const v = await recordVital(p.local_id);
+        expect(await processQueue()).toEqual({ synced: 0, failed: 1 });
+        expect(server.rows('vital_signs')).toEqual([]);
+        expect(await queued(v.local_id)).toMatchObject({ status: 'pending', retry_count: 1 });
+
+        // Both are due again: the case goes up first and the vital follows it
+        advance(60_000);
+        expect(await processQueue()).toEqual({ synced: 2, failed: 0 });
+        const [remoteProfile] = server.rows('maternal_profiles');
+        expect(server.rows('vital_signs')).toEqual([
+            expect.objectContaining({ local_id: v.local_id, maternal_profile_id: remoteProfile.id }),
+        ]);
+        expect(await getUnsyncedSyncItems()).toEqual([]);
+    });
+
+    it('applies a preparedness tick over the check another device inserted first', async () => {
+        const [remoteProfile] = server.seed('maternal_profiles', [profile({ is_synced: true })]);
+        const localId = preparednessCheckLocalId(remoteProfile.local_id, 'large_bore_iv');
+        server.seed('preparedness_checks', [{
+            local_id: localId,
+            maternal_profile_id: remoteProfile.id,
+            item_id: 'large_bore_iv',
+            completed_at: '2026-03-01T07:50:00.000Z',
+            completed_by: 'user-2',
+        }]);
+
+        // This device unticked it before it saw the other device's tick
+        await queueOperation('preparedness_checks', localId, 'insert', {
+            local_id: localId,
+            maternal_profile_local_id: remoteProfile.local_id,
+            item_id: 'large_bore_iv',
+            completed_at: null,
+            completed_by: null,
+            updated_at: new Date().toISOString(),
+        });
+
+        expect(await processQueue()).toEqual({ synced: 1, failed: 0 });
+        expect(server.rows('preparedness_checks')).toEqual([
+            expect.objectContaining({ local_id: localId, completed_at: null, completed_by: null }),
+        ]);
+    });
+
+    it('keeps the version the server gives a threshold set', async () => {
+        // Another supervisor's set already took version 1
+        server.seed('shock_threshold_sets', [{ facility_id: 'facility-1', version: 1, local_id: 'other-set' }]);
+
+        const set = {
+            id: generateUUID(),
+            facility_id: 'facility-1',
+            version: 1,
+            thresholds: DEFAULT_THRESHOLD_SET.thresholds,
+            policy: DEFAULT_THRESHOLD_SET.policy,
+            created_at: new Date().toISOString(),
+        };
+        await saveShockThresholdSets([{ ...set, thresholds: JSON.stringify(set.thresholds), policy: JSON.stringify(set.policy), is_synced: false }]);
+        await queueOperation('shock_threshold_sets', set.id, 'insert', set);
+
+        expect(await processQueue()).toEqual({ synced: 1, failed: 0 });
+        expect(server.rows('shock_threshold_sets').map(r => r.version)).toEqual([1, 2]);
+        expect(await getLatestShockThresholdSet('facility-1')).toMatchObject({ id: set.id, version: 2, is_synced: true });
+    });
+});
+
+// ── Retries ──────────────────────────────────────────────────
+
+describe('retries', () => {
+    it('backs off after a transient failure and tries again once the delay has passed', async () => {
+        server.failNext('insertOnce', { message: 'Network request failed' });
+        const p = await createCase();
+
+        expect(await processQueue()).toEqual({ synced: 0, failed: 1 });
+        const item = await queued(p.local_id);
+        expect(item).toMatchObject({ status: 'pending', retry_count: 1, error_message: 'Network request failed' });
+        expect(Date.parse(item.next_attempt_at!)).toBeGreaterThan(Date.now());
+
+        // Not due yet: nothing is sent
+        await processQueue();
+        expect(callsTo('insertOnce')).toHaveLength(1);
+
+        advance(15_000);
+        expect(await processQueue()).toEqual({ synced: 1, failed: 0 });
+        expect(server.rows('maternal_profiles')).toHaveLength(1);
+    });
+
+    it('waits longer after each failure', async () => {
+        const p = await createCase();
+        const delays: number[] = [];
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            server.failNext('insertOnce', { status: 503, message: 'Service Unavailable' });
+            await processQueue();
+            delays.push(Date.parse((await queued(p.local_id)).next_attempt_at!) - Date.now());
+            advance(delays[attempt]);
+        }
+
+        // Half of each delay is fixed, so the ranges of consecutive attempts don't overlap
+        expect(delays[0]).toBeGreaterThanOrEqual(7_500);
+        expect(delays[0]).toBeLessThanOrEqual(15_000);
+        expect(delays[1]).toBeGreaterThanOrEqual(15_000);
+        expect(delays[2]).toBeGreaterThanOrEqual(30_000);
+    });
+
+    it('dead-letters a permanent failure without retrying', async () => {
+        server.failNext('insertOnce', { code: '23502', message: 'null value in column "age"' });
+        const p = await createCase();
+
+        await processQueue();
+
+        expect(await queued(p.local_id)).toMatchObject({ status: 'dead', retry_count: 0, next_attempt_at: null });
+        advance(60 * 60_000);
+        await processQueue();
+        expect(callsTo('insertOnce')).toHaveLength(1);
+    });
+
+    it('dead-letters an item once its retry budget is spent', async () => {
+        const p = await createCase();
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            server.failNext('insertOnce', { message: 'Network request failed' });
+            await processQueue();
+            advance(30 * 60_000);
+        }
+
+        expect(await queued(p.local_id)).toMatchObject({ status: 'dead', retry_count: 4 });
+        await processQueue();
+        expect(callsTo('insertOnce')).toHaveLength(5);
+    });
+
+    it('dead-letters an update the server did not apply', async () => {
+        const [remoteProfile] = server.seed('maternal_profiles', [profile({ is_synced: true })]);
+        const v = vital(remoteProfile.local_id, { remote_id: '00000000-0000-4000-8000-00000000dead', is_synced: true });
+        await clinicalStore.saveVitalSign(v);
+        await queueOperation('vital_signs', v.local_id, 'update', { ...v, amendment_status: 'voided', amendment_reason: 'Wrong patient' });
+
+        expect(await processQueue()).toEqual({ synced: 0, failed: 1 });
+        expect(await queued(v.local_id)).toMatchObject({ status: 'dead' });
+    });
+});
+
+// ── Discarding ───────────────────────────────────────────────
+
+describe('discardSyncItem', () => {
+    it('discards the changes queued against a new case with its insert', async () => {
+        const p = await createCase();
+        await recordVital(p.local_id);
+        await queueOperation('maternal_profiles', p.local_id, 'update', { ...p, age: 29 });
+        const other = await createCase({ patient_id: 'MRN-002' });
+
+        await discardSyncItem((await queued(p.local_id)).id);
+
+        expect((await getUnsyncedSyncItems()).map(i => i.record_id)).toEqual([other.local_id]);
+        expect(await clinicalStore.getProfile(p.local_id)).not.toBeNull();
+        expect(await processQueue()).toEqual({ synced: 1, failed: 0 });
+    });
+
+    it('discards only the change itself for anything else', async () => {
+        const p = await createCase();
+        const v = await recordVital(p.local_id);
+
+        await discardSyncItem((await queued(v.local_id)).id);
+
+        expect((await getUnsyncedSyncItems()).map(i => i.record_id)).toEqual([p.local_id]);
+    });
+});
+
+// ── Pulling ──────────────────────────────────────────────────
+
+describe('pullFromRemote', () => {
+    const scope = { userId: USER_ID };
+
+    /** Rows each fetchPage call returned, by table */
+    function recordFetches() {
+        const fetched: Record<string, string[]> = {};
+        const fetchPage = server.fetchPage;
+        server.fetchPage = async (query: PullQuery, from: number, limit: number) => {
+            const rows = await fetchPage(query, from, limit);
+            fetched[query.table] = [...(fetched[query.table] ?? []), ...rows.map(r => r.local_id)];
+            return rows;
+        };
+        return fetched;
+    }
+
+    it('pulls everything first, then only what changed since the last pull', async () => {
+        const [first] = server.seed('maternal_profiles', [profile({ local_id: 'case-a', is_synced: true })]);
+        server.seed('vital_signs', [{ ...vital('case-a', { local_id: 'vital-a' }), maternal_profile_id: first.id }]);
+
+        expect(await pullFromRemote(scope)).toMatchObject({ pulled: 2, errors: 0 });
+        expect(await clinicalStore.getProfile('case-a')).toMatchObject({ remote_id: first.id, is_synced: true });
+        expect(await clinicalStore.getVitalSigns('case-a')).toEqual([expect.objectContaining({ local_id: 'vital-a' })]);
+
+        advance(10 * 60_000);
+        server.seed('maternal_profiles', [profile({ local_id: 'case-b', is_synced: true })]);
+        await pullFromRemote(scope);
+
+        // The mark is now case-b: case-a is past the re-read overlap and isn't fetched again
+        advance(10 * 60_000);
+        server.seed('maternal_profiles', [profile({ local_id: 'case-c', is_synced: true })]);
+        const fetched = recordFetches();
+
+        await pullFromRemote(scope);
+
+        expect(fetched.maternal_profiles).toEqual(['case-b', 'case-c']);
+        expect((await clinicalStore.getProfiles()).map(p => p.local_id).sort()).toEqual(['case-a', 'case-b', 'case-c']);
+    });
+
+    it('re-reads rows changed within the overlap before the mark', async () => {
+        server.seed('maternal_profiles', [profile({ local_id: 'case-a', is_synced: true })]);
+        await pullFromRemote(scope);
+
+        advance(30_000);
+        server.seed('maternal_profiles', [profile({ local_id: 'case-b', is_synced: true })]);
+        const fetched = recordFetches();
+        await pullFromRemote(scope);
+
+        expect(fetched.maternal_profiles).toEqual(['case-a', 'case-b']);
+    });
+
+    it('only fetches cases in scope', async () => {
+        server.seed('maternal_profiles', [
+            profile({ local_id: 'mine', is_synced: true }),
+            profile({ local_id: 'theirs', created_by: 'user-2', is_synced: true }),
+        ]);
+
+        await pullFromRemote(scope);
+
+        expect((await clinicalStore.getProfiles()).map(p => p.local_id)).toEqual(['mine']);
+    });
+
+    it('removes cases deleted on the server', async () => {
+        const [remote] = server.seed('maternal_profiles', [profile({ local_id: 'case-a', is_synced: true })]);
+        server.seed('vital_signs', [{ ...vital('case-a'), maternal_profile_id: remote.id }]);
+        await pullFromRemote(scope);
+
+        advance(10 * 60_000);
+        await server.remove('maternal_profiles', remote.id);
+        expect(await pullFromRemote(scope)).toMatchObject({ deleted: 1, errors: 0 });
+
+        expect(await clinicalStore.getProfile('case-a')).toBeNull();
+        expect(await clinicalStore.getVitalSigns('case-a')).toEqual([]);
+    });
+
+    it('keeps unsynced local edits to a case', async () => {
+        const [remote] = server.seed('maternal_profiles', [profile({ local_id: 'case-a', is_synced: true })]);
+        await pullFromRemote(scope);
+        await clinicalStore.updateProfile('case-a', { notes: 'Bleeding controlled' });
+
+        advance(10 * 60_000);
+        await server.update('maternal_profiles', remote.id, { status: 'delivered' });
+        await pullFromRemote(scope);
+
+        expect(await clinicalStore.getProfile('case-a')).toMatchObject({
+            notes: 'Bleeding controlled',
+            status: 'delivered',
+            is_synced: false,
+        });
+    });
+
+    it('keeps unsynced changes to a case record', async () => {
+        const [remote] = server.seed('maternal_profiles', [profile({ local_id: 'case-a', is_synced: true })]);
+        const [remoteVital] = server.seed('vital_signs', [{ ...vital('case-a', { local_id: 'vital-a' }), maternal_profile_id: remote.id }]);
+        await pullFromRemote(scope);
+
+        // Amended here and not pushed yet, while the server copy changes too
+        const [local] = await clinicalStore.getVitalSigns('case-a');
+        await clinicalStore.saveVitalSign({ ...local, heart_rate: 124, amendment_status: 'amended', is_synced: false });
+        advance(10 * 60_000);
+        await server.update('vital_signs', remoteVital.id, { spo2: 97 });
+        await pullFromRemote(scope);
+
+        expect(await clinicalStore.getVitalSigns('case-a')).toEqual([
+            expect.objectContaining({ heart_rate: 124, amendment_status: 'amended', is_synced: false }),
+        ]);
+    });
+});
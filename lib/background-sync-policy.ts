@@ -0,0 +1,86 @@
+/**
+ * Background Sync Policy
+ *
+ * Decides whether a background sync run may go ahead given the user's
+ * preferences and the device's network and battery state, and describes the
+ * outcome of the last run for the Settings screen.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export interface BackgroundSyncPrefs {
+    enabled: boolean;
+    /** Skip runs on cellular or other metered connections */
+    wifiOnly: boolean;
+    /** Skip runs in low-power mode or on a low battery that isn't charging */
+    pauseOnLowBattery: boolean;
+}
+
+export interface BackgroundSyncConditions {
+    isConnected: boolean;
+    isMetered: boolean;
+    /** 0–1, or null when the level is unknown */
+    batteryLevel: number | null;
+    isCharging: boolean;
+    lowPowerMode: boolean;
+}
+
+export interface BackgroundSyncRun {
+    at: string;
+    outcome: 'synced' | 'skipped' | 'failed';
+    pushed: number;
+    pulled: number;
+    errors: number;
+    /** Why the run was skipped or failed */
+    reason?: string;
+}
+
+export const DEFAULT_BACKGROUND_SYNC_PREFS: BackgroundSyncPrefs = {
+    enabled: true,
+    wifiOnly: false,
+    pauseOnLowBattery: true,
+};
+
+/** The OS treats this as a floor — runs are batched and may come much later */
+export const BACKGROUND_SYNC_INTERVAL_MINUTES = 15;
+
+/** Pages per table a background pull may fetch — the rest waits for the next run */
+export const BACKGROUND_PULL_MAX_PAGES = 1;
+
+export const LOW_BATTERY_LEVEL = 0.2;
+
+// ── Policy ───────────────────────────────────────────────────
+
+/** null when the run may go ahead, otherwise why it is skipped */
+export function getBackgroundSyncSkipReason(
+    prefs: BackgroundSyncPrefs,
+    conditions: BackgroundSyncConditions
+): string | null {
+    if (!prefs.enabled) return 'Background sync is off';
+    if (!conditions.isConnected) return 'Offline';
+    if (prefs.wifiOnly && conditions.isMetered) return 'Metered connection';
+    if (prefs.pauseOnLowBattery && !conditions.isCharging) {
+        if (conditions.lowPowerMode) return 'Low power mode';
+        if (conditions.batteryLevel !== null && conditions.batteryLevel < LOW_BATTERY_LEVEL) return 'Low battery';
+    }
+    return null;
+}
+
+export function parseBackgroundSyncPrefs(stored: string | null): BackgroundSyncPrefs {
+    if (!stored) return DEFAULT_BACKGROUND_SYNC_PREFS;
+    try {
+        return { ...DEFAULT_BACKGROUND_SYNC_PREFS, ...JSON.parse(stored) };
+    } catch {
+        return DEFAULT_BACKGROUND_SYNC_PREFS;
+    }
+}
+
+// ── Display ──────────────────────────────────────────────────
+
+/** "Synced 3 pushed, 12 pulled", "Skipped: Low battery", "Failed: Network request failed" */
+export function describeBackgroundSyncRun(run: BackgroundSyncRun): string {
+    if (run.outcome === 'skipped') return `Skipped: ${run.reason ?? 'conditions not met'}`;
+    if (run.outcome === 'failed') return `Failed: ${run.reason ?? `${run.errors} error(s)`}`;
+    const errors = run.errors > 0 ? `, ${run.errors} error(s)` : '';
+    return `Synced ${run.pushed} pushed, ${run.pulled} pulled${errors}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Background Sync — Native implementation (expo-background-task)
+ *
+ * Registers an OS-scheduled task that drains the sync queue and runs a
+ * short incremental pull while the app is closed, so a case recorded
+ * offline reaches the server without the app being reopened. The OS picks
+ * the actual run times (at most every BACKGROUND_SYNC_INTERVAL_MINUTES).
+ *
+ * The task is defined at module scope: this file is imported by the root
+ * layout, because the OS may start the JS runtime just to run the task with
+ * no React tree mounted. Preferences, the pull scope and the last run are
+ * persisted to AsyncStorage for the same reason.
+ */
+
+import {
+    BACKGROUND_PULL_MAX_PAGES,
+    BACKGROUND_SYNC_INTERVAL_MINUTES,
+    BackgroundSyncConditions,
+    BackgroundSyncPrefs,
+    BackgroundSyncRun,
+    getBackgroundSyncSkipReason,
+    parseBackgroundSyncPrefs,
+} from '@/lib/background-sync-policy';
+import { supabase } from '@/lib/supabase';
+import { PullScope } from '@/lib/sync-cursor';
+import { processQueue, pullFromRemote } from '@/lib/sync-queue';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as Battery from 'expo-battery';
+import * as TaskManager from 'expo-task-manager';
+
+const BACKGROUND_SYNC_TASK = 'motivaid-background-sync';
+const PREFS_KEY = 'motivaid_background_sync_prefs';
+const SCOPE_KEY = 'motivaid_background_sync_scope';
+const LAST_RUN_KEY = 'motivaid_background_sync_last_run';
+
+// ── Task ─────────────────────────────────────────────────────
+
+async function readConditions(): Promise<BackgroundSyncConditions> {
+    const net = await NetInfo.fetch();
+    const power = await Battery.getPowerStateAsync().catch(() => null);
+    return {
+        isConnected: !!net.isConnected && net.isInternetReachable !== false,
+        isMetered: net.type === 'cellular' || !!net.details?.isConnectionExpensive,
+        batteryLevel: power && power.batteryLevel >= 0 ? power.batteryLevel : null,
+        isCharging: power?.batteryState === Battery.BatteryState.CHARGING
+            || power?.batteryState === Battery.BatteryState.FULL,
+        lowPowerMode: !!power?.lowPowerMode,
+    };
+}
+
+async function readScope(): Promise<PullScope | null> {
+    const stored = await AsyncStorage.getItem(SCOPE_KEY);
+    return stored ? JSON.parse(stored) : null;
+}
+
+/** One background run: push the queue, then pull a page per table. Also callable from the foreground. */
+export async function runBackgroundSync(): Promise<BackgroundSyncRun> {
+    const at = new Date().toISOString();
+    const skipped = (reason: string): BackgroundSyncRun => ({ at, outcome: 'skipped', pushed: 0, pulled: 0, errors: 0, reason });
+    let run: BackgroundSyncRun;
+
+    try {
+        const skipReason = getBackgroundSyncSkipReason(await getBackgroundSyncPrefs(), await readConditions());
+        const scope = await readScope();
+        const { data } = await supabase.auth.getSession();
+
+        if (skipReason) {
+            run = skipped(skipReason);
+        } else if (!scope?.userId) {
+            run = skipped('Not signed in');
+        } else if (!data.session) {
+            // The session lives in the keychain, which can be unreadable while the device is locked
+            run = { at, outcome: 'failed', pushed: 0, pulled: 0, errors: 1, reason: 'Session unavailable' };
+        } else {
+            const push = await processQueue();
+            const pull = await pullFromRemote(scope, { maxPages: BACKGROUND_PULL_MAX_PAGES });
+            run = {
+                at,
+                outcome: 'synced',
+                pushed: push.synced,
+                pulled: pull.pulled,
+                errors: push.failed + pull.errors,
+            };
+        }
+    } catch (error: any) {
+        console.warn('[BackgroundSync] Run failed:', error);
+        run = { at, outcome: 'failed', pushed: 0, pulled: 0, errors: 1, reason: error?.message ?? 'Unknown error' };
+    }
+
+    await AsyncStorage.setItem(LAST_RUN_KEY, JSON.stringify(run));
+    return run;
+}
+
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+    const run = await runBackgroundSync();
+    return run.outcome === 'failed'
+        ? BackgroundTask.BackgroundTaskResult.Failed
+        : BackgroundTask.BackgroundTaskResult.Success;
+});
+
+// ── Registration ─────────────────────────────────────────────
+
+export async function isBackgroundSyncAvailable(): Promise<boolean> {
+    try {
+        return (await BackgroundTask.getStatusAsync()) === BackgroundTask.BackgroundTaskStatus.Available;
+    } catch {
+        return false;
+    }
+}
+
+async function applyRegistration(shouldRun: boolean): Promise<void> {
+    try {
+        const registered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK);
+        if (shouldRun && !registered && await isBackgroundSyncAvailable()) {
+            await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+                minimumInterval: BACKGROUND_SYNC_INTERVAL_MINUTES,
+            });
+        } else if (!shouldRun && registered) {
+            await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+        }
+    } catch (error) {
+        console.warn('[BackgroundSync] Failed to update task registration:', error);
+    }
+}
+
+/**
+ * Point background runs at the signed-in user's pull scope, or stop them
+ * on sign-out (null).
+ */
+export async function configureBackgroundSync(scope: PullScope | null): Promise<void> {
+    if (scope) {
+        await AsyncStorage.setItem(SCOPE_KEY, JSON.stringify(scope));
+    } else {
+        await AsyncStorage.removeItem(SCOPE_KEY);
+    }
+    const prefs = await getBackgroundSyncPrefs();
+    await applyRegistration(!!scope && prefs.enabled);
+}
+
+// ── Preferences & Status ─────────────────────────────────────
+
+export async function getBackgroundSyncPrefs(): Promise<BackgroundSyncPrefs> {
+    return parseBackgroundSyncPrefs(await AsyncStorage.getItem(PREFS_KEY));
+}
+
+export async function setBackgroundSyncPrefs(prefs: BackgroundSyncPrefs): Promise<void> {
+    await AsyncStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+    await applyRegistration(prefs.enabled && !!(await readScope()));
+}
+
+export async function getLastBackgroundSyncRun(): Promise<BackgroundSyncRun | null> {
+    const stored = await AsyncStorage.getItem(LAST_RUN_KEY);
+    return stored ? JSON.parse(stored) : null;
+}
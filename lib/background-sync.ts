@@ -0,0 +1,18 @@
+/**
+ * Background Sync — Web stub (no-op)
+ *
+ * Browsers give no way to run the sync while the app is closed. Sync runs
+ * in the foreground only; the preferences keep their defaults.
+ */
+
+import { BackgroundSyncPrefs, BackgroundSyncRun, DEFAULT_BACKGROUND_SYNC_PREFS } from '@/lib/background-sync-policy';
+import { PullScope } from '@/lib/sync-cursor';
+
+export async function runBackgroundSync(): Promise<BackgroundSyncRun> {
+    return { at: new Date().toISOString(), outcome: 'skipped', pushed: 0, pulled: 0, errors: 0, reason: 'Not supported on web' };
+}
+export async function isBackgroundSyncAvailable(): Promise<boolean> { return false; }
+export async function configureBackgroundSync(_scope: PullScope | null): Promise<void> {}
+export async function getBackgroundSyncPrefs(): Promise<BackgroundSyncPrefs> { return DEFAULT_BACKGROUND_SYNC_PREFS; }
+export async function setBackgroundSyncPrefs(_prefs: BackgroundSyncPrefs): Promise<void> {}
+export async function getLastBackgroundSyncRun(): Promise<BackgroundSyncRun | null> { return null; }
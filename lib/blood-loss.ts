@@ -0,0 +1,65 @@
+/**
+ * Blood Loss Ledger
+ *
+ * Each measurement is logged as an increment (what was lost since the
+ * previous entry) with the method used. The cumulative total is the sum
+ * of increments and is what drives assessBloodLoss() and the
+ * estimated_blood_loss value stored on each vital sign. An entry logged
+ * with a reading that was later voided no longer counts towards it.
+ *
+ * Quantitative (weighed) measurement:
+ *   blood (mL) ≈ (wet weight − dry weight) (g) ÷ 1.0 g/mL
+ * Blood density is ~1.05 g/mL, but the 1 g ≈ 1 mL convention is what
+ * WHO/ACOG quantitative blood loss guidance uses at the bedside.
+ */
+
+export type BloodLossMethod = 'visual' | 'drape' | 'weighed';
+
+export interface BloodLossIncrement {
+    volume_ml: number;
+    recorded_at: string;
+    vital_sign_local_id?: string | null;  // reading the entry was logged with
+}
+
+/** Grams of blood per mL — kept as a constant so it can be refined without touching callers */
+export const BLOOD_GRAMS_PER_ML = 1.0;
+
+export function gramsToMl(grams: number): number {
+    return Math.round(grams / BLOOD_GRAMS_PER_ML);
+}
+
+/**
+ * Volume of blood absorbed by pads/drapes from dry vs wet weights.
+ * Returns null if the weights are missing or the wet weight is lighter.
+ */
+export function weighedVolumeMl(dryWeightG?: number, wetWeightG?: number): number | null {
+    if (dryWeightG === undefined || wetWeightG === undefined) return null;
+    if (isNaN(dryWeightG) || isNaN(wetWeightG) || wetWeightG < dryWeightG) return null;
+    return gramsToMl(wetWeightG - dryWeightG);
+}
+
+/** Whether an entry counts towards the total — not if its reading was voided */
+export function isCounted(entry: BloodLossIncrement, voidedVitalIds: ReadonlySet<string>): boolean {
+    return !entry.vital_sign_local_id || !voidedVitalIds.has(entry.vital_sign_local_id);
+}
+
+export function cumulativeBloodLoss(entries: BloodLossIncrement[], voidedVitalIds: ReadonlySet<string> = new Set()): number {
+    return entries
+        .filter(e => isCounted(e, voidedVitalIds))
+        .reduce((total, e) => total + (e.volume_ml || 0), 0);
+}
+
+/** Running totals in chronological order, e.g. for the ledger list; voided entries leave the total as it was */
+export function withRunningTotals<T extends BloodLossIncrement>(
+    entries: T[],
+    voidedVitalIds: ReadonlySet<string> = new Set()
+): (T & { running_total_ml: number; counted: boolean })[] {
+    let total = 0;
+    return [...entries]
+        .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
+        .map(e => {
+            const counted = isCounted(e, voidedVitalIds);
+            if (counted) total += e.volume_ml || 0;
+            return { ...e, running_total_ml: total, counted };
+        });
+}
@@ -0,0 +1,115 @@
+/**
+ * Case Search
+ *
+ * What the Clinical tab can search cases by. Free text is matched against
+ * the patient id and notes: every word typed must start a word there, so
+ * "mrn 44" finds patient MRN-4471. On native the words go to the SQLite
+ * full-text index (see the case_search migration); on web the same rule is
+ * applied to the rows directly. Everything else — status, risk, risk
+ * factors, outcome, admission dates, creator — is a structured filter
+ * applied to the matching cases.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import type { LocalMaternalProfile } from './local-records';
+import { RiskLevel } from './risk-calculator';
+
+export interface CaseSearchQuery {
+    text?: string;
+    /** Any of these statuses */
+    statuses?: string[];
+    /** Any of these risk levels */
+    riskLevels?: RiskLevel[];
+    /** Every one of these risk factors (RiskRule ids) */
+    factorIds?: string[];
+    /** Any of these outcomes */
+    outcomes?: string[];
+    createdBy?: string;
+    /** Admitted (created_at) on or after — ISO timestamp, or a date (YYYY-MM-DD) for the start of that day */
+    from?: string;
+    /** Admitted on or before — ISO timestamp, or a date (YYYY-MM-DD) for the end of that day */
+    to?: string;
+}
+
+/** Profile columns the free text is matched against */
+export const CASE_SEARCH_COLUMNS = ['patient_id', 'notes'] as const;
+
+export function isEmptyCaseQuery(query: CaseSearchQuery): boolean {
+    return searchWords(query.text ?? '').length === 0
+        && !query.statuses?.length
+        && !query.riskLevels?.length
+        && !query.factorIds?.length
+        && !query.outcomes?.length
+        && !query.createdBy
+        && !query.from
+        && !query.to;
+}
+
+// ── Free Text ────────────────────────────────────────────────
+
+/**
+ * Lower-cased words with accents removed, split on anything that is not a
+ * letter or digit — the way SQLite's unicode61 tokenizer splits them.
+ */
+export function searchWords(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+}
+
+/** FTS5 MATCH expression requiring every word as a prefix, or null when there are none */
+export function toFtsQuery(text: string): string | null {
+    const words = searchWords(text);
+    if (words.length === 0) return null;
+    return words.map(word => `"${word}"*`).join(' ');
+}
+
+/** The same rule as the full-text index, for a backend without one */
+export function matchesSearchText(values: (string | null | undefined)[], text: string): boolean {
+    const words = searchWords(text);
+    const indexed = values.flatMap(value => searchWords(value ?? ''));
+    return words.every(word => indexed.some(candidate => candidate.startsWith(word)));
+}
+
+// ── Structured Filters ───────────────────────────────────────
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * A `from`/`to` bound in epoch ms. A bare date covers the whole local day —
+ * Date.parse would read it as UTC midnight, so `to: '2026-03-01'` would
+ * leave out every case admitted that day.
+ */
+function parseBound(value: string, end: boolean): number {
+    const day = DATE_ONLY.exec(value);
+    if (!day) return Date.parse(value);
+    const [, year, month, date] = day.map(Number);
+    return end
+        ? new Date(year, month - 1, date, 23, 59, 59, 999).getTime()
+        : new Date(year, month - 1, date).getTime();
+}
+
+/**
+ * Whether a case passes the structured filters. `factorIds` are the risk
+ * factors present on the case, as the risk calculator finds them.
+ */
+export function matchesCaseQuery(
+    profile: LocalMaternalProfile,
+    query: CaseSearchQuery,
+    factorIds: string[]
+): boolean {
+    if (query.statuses?.length && !query.statuses.includes(profile.status)) return false;
+    if (query.riskLevels?.length && !query.riskLevels.includes(profile.risk_level as RiskLevel)) return false;
+    if (query.factorIds?.length && !query.factorIds.every(id => factorIds.includes(id))) return false;
+    if (query.outcomes?.length && !query.outcomes.includes(profile.outcome ?? '')) return false;
+    if (query.createdBy && profile.created_by !== query.createdBy) return false;
+
+    const admitted = Date.parse(profile.created_at);
+    if (query.from && !(admitted >= parseBound(query.from, false))) return false;
+    if (query.to && !(admitted <= parseBound(query.to, true))) return false;
+    return true;
+}
@@ -1,151 +1,24 @@
+import { clinicalStore } from './clinical-store';
+import type { LocalEmergencyContact, LocalPatient, LocalShockThresholdSet, LocalSyncConflict, SyncQueueItem } from './local-records';
 import { getSharedDB } from './shared-db';
 
 // ── Types ────────────────────────────────────────────────────
-
-export interface LocalMaternalProfile {
-    local_id: string;
-    remote_id?: string;
-    facility_id?: string;
-    unit_id?: string;
-    created_by?: string;
-    patient_id?: string;
-    age: number;
-    gravida: number;
-    parity: number;
-    gestational_age_weeks?: number;
-    is_multiple_gestation: boolean;
-    has_prior_cesarean: boolean;
-    has_placenta_previa: boolean;
-    has_large_fibroids: boolean;
-    has_anemia: boolean;
-    has_pph_history: boolean;
-    has_intraamniotic_infection: boolean;
-    has_severe_anemia: boolean;
-    has_coagulopathy: boolean;
-    has_severe_pph_history: boolean;
-    has_placenta_accreta: boolean;
-    has_active_bleeding: boolean;
-    has_morbid_obesity: boolean;
-    hemoglobin_level?: number;
-    risk_level: string;
-    risk_score: number;
-    delivery_time?: string;
-    status: string;
-    outcome?: string;
-    notes?: string;
-    is_synced: boolean;
-    created_at: string;
-    updated_at: string;
-}
-
-export interface LocalVitalSign {
-    local_id: string;
-    remote_id?: string;
-    maternal_profile_local_id: string;
-    recorded_by?: string;
-    heart_rate?: number;
-    systolic_bp?: number;
-    diastolic_bp?: number;
-    temperature?: number;
-    respiratory_rate?: number;
-    spo2?: number;
-    shock_index?: number;
-    estimated_blood_loss: number;
-    blood_loss_method?: string;
-    blood_loss_ai_estimate?: number;
-    blood_loss_confidence?: number;
-    blood_loss_ai_method?: string;
-    is_synced: boolean;
-    recorded_at: string;
-}
-
-export interface LocalEmotiveChecklist {
-    local_id: string;
-    remote_id?: string;
-    maternal_profile_local_id: string;
-    performed_by?: string;
-
-    // E — Early detection
-    early_detection_done: boolean;
-    early_detection_time?: string;
-    early_detection_notes?: string;
-
-    // M — Uterine Massage
-    massage_done: boolean;
-    massage_time?: string;
-    massage_notes?: string;
-
-    // O — Oxytocin
-    oxytocin_done: boolean;
-    oxytocin_time?: string;
-    oxytocin_dose?: string;
-    oxytocin_notes?: string;
-
-    // T — Tranexamic Acid
-    txa_done: boolean;
-    txa_time?: string;
-    txa_dose?: string;
-    txa_notes?: string;
-
-    // I — IV Fluids
-    iv_fluids_done: boolean;
-    iv_fluids_time?: string;
-    iv_fluids_volume?: string;
-    iv_fluids_notes?: string;
-
-    // V/E — Escalation
-    escalation_done: boolean;
-    escalation_time?: string;
-    escalation_notes?: string;
-
-    diagnostics_causes?: string[];
-    diagnostics_notes?: string;
-
-    is_synced: boolean;
-    created_at: string;
-    updated_at: string;
-}
-
-export interface SyncQueueItem {
-    id: string;
-    table_name: string;
-    record_id: string;
-    operation: 'insert' | 'update' | 'delete';
-    payload: string;
-    retry_count: number;
-    max_retries: number;
-    status: 'pending' | 'syncing' | 'synced' | 'failed';
-    error_message?: string;
-    created_at: string;
-    synced_at?: string;
-}
-
-export interface LocalEmergencyContact {
-    id: string;
-    facility_id?: string;
-    unit_id?: string;
-    name: string;
-    role: string;
-    phone: string;
-    tier: number;
-    is_active: boolean;
-    is_synced?: boolean;
-    is_deleted?: boolean;
-    created_at: string;
-    updated_at: string;
-}
-
-export interface LocalCaseEvent {
-    local_id: string;
-    remote_id?: string;
-    maternal_profile_id: string;
-    event_type: string;
-    event_label: string;
-    event_data?: string;
-    performed_by?: string;
-    occurred_at: string;
-    is_synced: boolean;
-}
+// Case records themselves are read and written through lib/clinical-store
+
+export type {
+    LocalBloodLossEntry,
+    LocalCaseEvent,
+    LocalEmergencyContact,
+    LocalEmotiveChecklist,
+    LocalMaternalProfile,
+    LocalPatient,
+    LocalPreparednessCheck,
+    LocalRiskAssessment,
+    LocalShockThresholdSet,
+    LocalSyncConflict,
+    LocalVitalSign,
+    SyncQueueItem,
+} from './local-records';
 
 // ── Use the shared singleton DB connection ───────────────────
 const getDB = getSharedDB;
@@ -163,481 +36,478 @@ export const initClinicalDatabase = async () => {
     }
 };
 
-// ── Maternal Profile CRUD ────────────────────────────────────
+// ── Sync Queue ───────────────────────────────────────────────
 
-export const saveMaternalProfile = async (profile: LocalMaternalProfile): Promise<void> => {
+export const addToSyncQueue = async (item: Omit<SyncQueueItem, 'retry_count' | 'max_retries' | 'status' | 'next_attempt_at' | 'created_at'>): Promise<void> => {
     try {
         const db = await getDB();
         await db.runAsync(
-            `INSERT OR REPLACE INTO maternal_profiles_local (
-        local_id, remote_id, facility_id, unit_id, created_by,
-        patient_id, age, gravida, parity, gestational_age_weeks,
-        is_multiple_gestation, has_prior_cesarean, has_placenta_previa,
-        has_large_fibroids, has_anemia, has_pph_history,
-        has_intraamniotic_infection, has_severe_anemia, has_coagulopathy,
-        has_severe_pph_history, has_placenta_accreta, has_active_bleeding,
-        has_morbid_obesity, hemoglobin_level, risk_level, risk_score,
-        delivery_time, status, outcome, notes, is_synced, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-                profile.local_id,
-                profile.remote_id ?? null,
-                profile.facility_id ?? null,
-                profile.unit_id ?? null,
-                profile.created_by ?? null,
-                profile.patient_id ?? null,
-                profile.age,
-                profile.gravida,
-                profile.parity,
-                profile.gestational_age_weeks ?? null,
-                profile.is_multiple_gestation ? 1 : 0,
-                profile.has_prior_cesarean ? 1 : 0,
-                profile.has_placenta_previa ? 1 : 0,
-                profile.has_large_fibroids ? 1 : 0,
-                profile.has_anemia ? 1 : 0,
-                profile.has_pph_history ? 1 : 0,
-                profile.has_intraamniotic_infection ? 1 : 0,
-                profile.has_severe_anemia ? 1 : 0,
-                profile.has_coagulopathy ? 1 : 0,
-                profile.has_severe_pph_history ? 1 : 0,
-                profile.has_placenta_accreta ? 1 : 0,
-                profile.has_active_bleeding ? 1 : 0,
-                profile.has_morbid_obesity ? 1 : 0,
-                profile.hemoglobin_level ?? null,
-                profile.risk_level,
-                profile.risk_score,
-                profile.delivery_time ?? null,
-                profile.status,
-                profile.outcome ?? null,
-                profile.notes ?? null,
-                profile.is_synced ? 1 : 0,
-                profile.created_at,
-                profile.updated_at,
-            ]
+            `INSERT INTO sync_queue_local (id, table_name, record_id, operation, payload)
+       VALUES (?, ?, ?, ?, ?)`,
+            [item.id, item.table_name, item.record_id, item.operation, item.payload]
         );
     } catch (error) {
-        console.error('Error saving maternal profile:', error);
-        throw error;
+        console.error('Error adding to sync queue:', error);
     }
 };
 
-export const getMaternalProfiles = async (
-    unitId?: string,
-    status?: string
-): Promise<LocalMaternalProfile[]> => {
+export const getPendingSyncItems = async (): Promise<SyncQueueItem[]> => {
     try {
         const db = await getDB();
-        let query = 'SELECT * FROM maternal_profiles_local';
-        const params: any[] = [];
-        const conditions: string[] = [];
-
-        if (unitId) {
-            conditions.push('unit_id = ?');
-            params.push(unitId);
-        }
-        if (status) {
-            conditions.push('status = ?');
-            params.push(status);
-        }
+        const rows = await db.getAllAsync<SyncQueueItem>(
+            `SELECT * FROM sync_queue_local 
+       WHERE status = 'pending' AND retry_count < max_retries
+         AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+       ORDER BY created_at ASC`,
+            [new Date().toISOString()]
+        );
+        return rows;
+    } catch (error) {
+        console.error('Error getting pending sync items:', error);
+        return [];
+    }
+};
 
-        if (conditions.length > 0) {
-            query += ' WHERE ' + conditions.join(' AND ');
+export const updateSyncItemStatus = async (
+    id: string,
+    status: 'pending' | 'syncing' | 'synced' | 'dead',
+    errorMessage?: string
+): Promise<void> => {
+    try {
+        const db = await getDB();
+        if (status === 'dead') {
+            await db.runAsync(
+                `UPDATE sync_queue_local SET status = ?, error_message = ?, next_attempt_at = NULL WHERE id = ?`,
+                [status, errorMessage ?? null, id]
+            );
+        } else if (status === 'synced') {
+            await db.runAsync(
+                `UPDATE sync_queue_local SET status = ?, synced_at = datetime('now') WHERE id = ?`,
+                [status, id]
+            );
+        } else {
+            await db.runAsync(
+                `UPDATE sync_queue_local SET status = ? WHERE id = ?`,
+                [status, id]
+            );
         }
-
-        query += ' ORDER BY updated_at DESC';
-
-        const rows = await db.getAllAsync<any>(query, params);
-        return rows.map(rowToProfile);
     } catch (error) {
-        console.error('Error getting maternal profiles:', error);
-        return [];
+        console.error('Error updating sync item status:', error);
     }
 };
 
-export const getMaternalProfile = async (
-    localId: string
-): Promise<LocalMaternalProfile | null> => {
+/** Put a failed item back in the queue, not to be attempted before nextAttemptAt */
+export const scheduleSyncRetry = async (
+    id: string,
+    errorMessage: string,
+    nextAttemptAt: string
+): Promise<void> => {
     try {
         const db = await getDB();
-        const row = await db.getFirstAsync<any>(
-            'SELECT * FROM maternal_profiles_local WHERE local_id = ?',
-            [localId]
+        await db.runAsync(
+            `UPDATE sync_queue_local
+       SET status = 'pending', error_message = ?, retry_count = retry_count + 1, next_attempt_at = ?
+       WHERE id = ?`,
+            [errorMessage, nextAttemptAt, id]
         );
-        return row ? rowToProfile(row) : null;
     } catch (error) {
-        console.error('Error getting maternal profile:', error);
-        return null;
+        console.error('Error scheduling sync retry:', error);
     }
 };
 
-export const updateMaternalProfileStatus = async (
+/** Local SQLite table for each Supabase table */
+const LOCAL_TABLES: Record<string, string> = {
+    maternal_profiles: 'maternal_profiles_local',
+    vital_signs: 'vital_signs_local',
+    emotive_checklists: 'emotive_checklists_local',
+    case_events: 'case_events_local',
+    emergency_contacts: 'emergency_contacts_local',
+    shock_threshold_sets: 'shock_threshold_sets_local',
+    blood_loss_entries: 'blood_loss_entries_local',
+    risk_assessments: 'risk_assessments_local',
+    preparedness_checks: 'preparedness_checks_local',
+    patients: 'patients_local',
+};
+
+export const markRecordSynced = async (
+    tableName: string,
     localId: string,
-    status: string,
-    outcome?: string
+    remoteId: string
 ): Promise<void> => {
     try {
         const db = await getDB();
-        if (outcome) {
-            await db.runAsync(
-                `UPDATE maternal_profiles_local SET status = ?, outcome = ?, updated_at = datetime('now'), is_synced = 0 WHERE local_id = ?`,
-                [status, outcome, localId]
+        const localTable = LOCAL_TABLES[tableName] ?? 'maternal_profiles_local';
+
+        if (tableName === 'emergency_contacts') {
+            // Check if it was marked as deleted
+            const contact = await db.getFirstAsync<any>(
+                'SELECT is_deleted FROM emergency_contacts_local WHERE id = ?',
+                [localId]
             );
+            if (contact && contact.is_deleted === 1) {
+                // Physically delete now that it's synced
+                await db.runAsync('DELETE FROM emergency_contacts_local WHERE id = ?', [localId]);
+            } else {
+                await db.runAsync(
+                    `UPDATE ${localTable} SET is_synced = 1 WHERE id = ?`,
+                    [localId]
+                );
+            }
+        } else if (tableName === 'shock_threshold_sets') {
+            // Threshold sets share their UUID with Supabase — no remote_id column
+            await db.runAsync(`UPDATE ${localTable} SET is_synced = 1 WHERE id = ?`, [localId]);
         } else {
             await db.runAsync(
-                `UPDATE maternal_profiles_local SET status = ?, updated_at = datetime('now'), is_synced = 0 WHERE local_id = ?`,
-                [status, localId]
+                `UPDATE ${localTable} SET is_synced = 1, remote_id = ? WHERE local_id = ?`,
+                [remoteId, localId]
             );
         }
     } catch (error) {
-        console.error('Error updating maternal profile status:', error);
-        throw error;
+        console.error('Error marking record as synced:', error);
     }
 };
 
-export const updateDeliveryTime = async (localId: string, deliveryTime: string): Promise<void> => {
+/**
+ * Remote UUID of a synced local row — the local→remote mapping cached in
+ * SQLite, so a dependent record doesn't have to look its parent up on the
+ * server. Null when the row hasn't synced (or shares its id with Supabase).
+ */
+export const getRemoteId = async (tableName: string, localId: string): Promise<string | null> => {
+    const localTable = LOCAL_TABLES[tableName];
+    if (!localTable || tableName === 'emergency_contacts' || tableName === 'shock_threshold_sets') return null;
     try {
         const db = await getDB();
-        await db.runAsync(
-            `UPDATE maternal_profiles_local SET delivery_time = ?, updated_at = datetime('now'), is_synced = 0 WHERE local_id = ?`,
-            [deliveryTime, localId]
+        const row = await db.getFirstAsync<{ remote_id: string | null }>(
+            `SELECT remote_id FROM ${localTable} WHERE local_id = ?`,
+            [localId]
         );
+        return row?.remote_id ?? null;
     } catch (error) {
-        console.error('Error updating delivery time:', error);
-        throw error;
+        console.error('Error getting remote id:', error);
+        return null;
+    }
+};
+
+/** Whether a local row holds changes not yet on the server — a pull must not overwrite them */
+export const hasUnsyncedChanges = async (tableName: string, localId: string): Promise<boolean> => {
+    const localTable = LOCAL_TABLES[tableName];
+    if (!localTable) return false;
+    try {
+        const db = await getDB();
+        const keyColumn = tableName === 'emergency_contacts' || tableName === 'shock_threshold_sets' ? 'id' : 'local_id';
+        const row = await db.getFirstAsync<{ is_synced: number }>(
+            `SELECT is_synced FROM ${localTable} WHERE ${keyColumn} = ?`,
+            [localId]
+        );
+        return !!row && !row.is_synced;
+    } catch (error) {
+        console.error('Error checking local sync state:', error);
+        return false;
     }
 };
 
-// ── Vital Signs CRUD ─────────────────────────────────────────
+/** Cache a remote UUID found on the server without changing the row's sync state */
+export const setRemoteId = async (tableName: string, localId: string, remoteId: string): Promise<void> => {
+    const localTable = LOCAL_TABLES[tableName];
+    if (!localTable || tableName === 'emergency_contacts' || tableName === 'shock_threshold_sets') return;
+    try {
+        const db = await getDB();
+        await db.runAsync(`UPDATE ${localTable} SET remote_id = ? WHERE local_id = ?`, [remoteId, localId]);
+    } catch (error) {
+        console.error('Error setting remote id:', error);
+    }
+};
 
-export const saveVitalSign = async (vital: LocalVitalSign): Promise<void> => {
+/** Record which server version a tracked row is now based on */
+export const setSyncBase = async (
+    tableName: string,
+    localId: string,
+    remoteUpdatedAt: string,
+    syncBase: string
+): Promise<void> => {
     try {
         const db = await getDB();
+        const localTable = tableName === 'emotive_checklists' ? 'emotive_checklists_local' : 'maternal_profiles_local';
         await db.runAsync(
-            `INSERT OR REPLACE INTO vital_signs_local (
-        local_id, remote_id, maternal_profile_local_id, recorded_by,
-        heart_rate, systolic_bp, diastolic_bp, temperature,
-        respiratory_rate, spo2, shock_index,
-        estimated_blood_loss, blood_loss_method, is_synced, recorded_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-                vital.local_id,
-                vital.remote_id ?? null,
-                vital.maternal_profile_local_id,
-                vital.recorded_by ?? null,
-                vital.heart_rate ?? null,
-                vital.systolic_bp ?? null,
-                vital.diastolic_bp ?? null,
-                vital.temperature ?? null,
-                vital.respiratory_rate ?? null,
-                vital.spo2 ?? null,
-                vital.shock_index ?? null,
-                vital.estimated_blood_loss,
-                vital.blood_loss_method ?? null,
-                vital.is_synced ? 1 : 0,
-                vital.recorded_at,
-            ]
+            `UPDATE ${localTable} SET remote_updated_at = ?, sync_base = ? WHERE local_id = ?`,
+            [remoteUpdatedAt, syncBase, localId]
         );
     } catch (error) {
-        console.error('Error saving vital sign:', error);
+        console.error('Error setting sync base:', error);
+    }
+};
+
+/** Fold later queued changes to a record into the oldest queue item and drop the others */
+export const collapseSyncItems = async (
+    keepId: string,
+    operation: 'insert' | 'update',
+    payload: string,
+    dropIds: string[]
+): Promise<void> => {
+    try {
+        const db = await getDB();
+        await db.withTransactionAsync(async () => {
+            await db.runAsync(
+                `UPDATE sync_queue_local SET operation = ?, payload = ? WHERE id = ?`,
+                [operation, payload, keepId]
+            );
+            for (const id of dropIds) {
+                await db.runAsync(`DELETE FROM sync_queue_local WHERE id = ?`, [id]);
+            }
+        });
+    } catch (error) {
+        console.error('Error collapsing sync items:', error);
         throw error;
     }
 };
 
-export const getVitalSigns = async (
-    profileId: string
-): Promise<LocalVitalSign[]> => {
+export const clearSyncedItems = async (): Promise<void> => {
+    try {
+        const db = await getDB();
+        await db.runAsync(`DELETE FROM sync_queue_local WHERE status = 'synced'`);
+    } catch (error) {
+        console.error('Error clearing synced items:', error);
+    }
+};
+
+/** Everything not yet on the server — pending, backing off or dead-lettered */
+export const getUnsyncedSyncItems = async (): Promise<SyncQueueItem[]> => {
     try {
         const db = await getDB();
-        const rows = await db.getAllAsync<any>(
-            `SELECT * FROM vital_signs_local 
-             WHERE maternal_profile_local_id = ? 
-             OR maternal_profile_local_id = (SELECT remote_id FROM maternal_profiles_local WHERE local_id = ?) 
-             ORDER BY recorded_at DESC`,
-            [profileId, profileId]
+        return await db.getAllAsync<SyncQueueItem>(
+            `SELECT * FROM sync_queue_local WHERE status != 'synced' ORDER BY created_at ASC`
         );
-        return rows.map(rowToVital);
     } catch (error) {
-        console.error('Error getting vital signs:', error);
+        console.error('Error getting unsynced sync items:', error);
         return [];
     }
 };
 
-export const getLatestVitalSign = async (
-    maternalProfileLocalId: string
-): Promise<LocalVitalSign | null> => {
+/** Send an item with the next sync, with a fresh retry budget */
+export const retrySyncItem = async (id: string): Promise<void> => {
     try {
         const db = await getDB();
-        const row = await db.getFirstAsync<any>(
-            'SELECT * FROM vital_signs_local WHERE maternal_profile_local_id = ? ORDER BY recorded_at DESC LIMIT 1',
-            [maternalProfileLocalId]
+        await db.runAsync(
+            `UPDATE sync_queue_local
+       SET status = 'pending', retry_count = 0, next_attempt_at = NULL, error_message = NULL
+       WHERE id = ?`,
+            [id]
         );
-        return row ? rowToVital(row) : null;
     } catch (error) {
-        console.error('Error getting latest vital sign:', error);
-        return null;
+        console.error('Error retrying sync item:', error);
+        throw error;
     }
 };
 
-// ── E-MOTIVE Checklist CRUD ──────────────────────────────────
+/**
+ * Drop a queued change — the local record is kept, it is just never sent.
+ * Dropping a new case's insert drops every change queued against the case
+ * with it: without the case on the server they could never be sent.
+ */
+export const discardSyncItem = async (id: string): Promise<void> => {
+    try {
+        const db = await getDB();
+        const item = await db.getFirstAsync<SyncQueueItem>('SELECT * FROM sync_queue_local WHERE id = ?', [id]);
+        if (item?.table_name === 'maternal_profiles' && item.operation === 'insert') {
+            await db.runAsync(
+                `DELETE FROM sync_queue_local WHERE status != 'synced' AND (
+         (table_name = 'maternal_profiles' AND record_id = ?)
+         OR json_extract(payload, '$.maternal_profile_local_id') = ? OR json_extract(payload, '$.maternal_profile_id') = ?
+       )`,
+                [item.record_id, item.record_id, item.record_id]
+            );
+        }
+        await db.runAsync(`DELETE FROM sync_queue_local WHERE id = ?`, [id]);
+    } catch (error) {
+        console.error('Error discarding sync item:', error);
+        throw error;
+    }
+};
 
-export const saveEmotiveChecklist = async (checklist: LocalEmotiveChecklist): Promise<void> => {
+// ── Sync Conflicts ───────────────────────────────────────────
+
+export const saveSyncConflict = async (conflict: LocalSyncConflict): Promise<void> => {
     try {
         const db = await getDB();
         await db.runAsync(
-            `INSERT OR REPLACE INTO emotive_checklists_local (
-        local_id, remote_id, maternal_profile_local_id, performed_by,
-        early_detection_done, early_detection_time, early_detection_notes,
-        massage_done, massage_time, massage_notes,
-        oxytocin_done, oxytocin_time, oxytocin_dose, oxytocin_notes,
-        txa_done, txa_time, txa_dose, txa_notes,
-        iv_fluids_done, iv_fluids_time, iv_fluids_volume, iv_fluids_notes,
-        escalation_done, escalation_time, escalation_notes,
-        diagnostics_causes, diagnostics_notes,
-        is_synced, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            `INSERT OR REPLACE INTO sync_conflicts_local (
+        id, table_name, record_local_id, maternal_profile_local_id, fields,
+        remote_version, remote_updated_at, status,
+        resolution, resolved_by, detected_at, resolved_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             [
-                checklist.local_id,
-                checklist.remote_id ?? null,
-                checklist.maternal_profile_local_id,
-                checklist.performed_by ?? null,
-                checklist.early_detection_done ? 1 : 0,
-                checklist.early_detection_time ?? null,
-                checklist.early_detection_notes ?? null,
-                checklist.massage_done ? 1 : 0,
-                checklist.massage_time ?? null,
-                checklist.massage_notes ?? null,
-                checklist.oxytocin_done ? 1 : 0,
-                checklist.oxytocin_time ?? null,
-                checklist.oxytocin_dose ?? null,
-                checklist.oxytocin_notes ?? null,
-                checklist.txa_done ? 1 : 0,
-                checklist.txa_time ?? null,
-                checklist.txa_dose ?? null,
-                checklist.txa_notes ?? null,
-                checklist.iv_fluids_done ? 1 : 0,
-                checklist.iv_fluids_time ?? null,
-                checklist.iv_fluids_volume ?? null,
-                checklist.iv_fluids_notes ?? null,
-                checklist.escalation_done ? 1 : 0,
-                checklist.escalation_time ?? null,
-                checklist.escalation_notes ?? null,
-                checklist.diagnostics_causes ? JSON.stringify(checklist.diagnostics_causes) : null,
-                checklist.diagnostics_notes ?? null,
-                checklist.is_synced ? 1 : 0,
-                checklist.created_at,
-                checklist.updated_at,
+                conflict.id,
+                conflict.table_name,
+                conflict.record_local_id,
+                conflict.maternal_profile_local_id,
+                conflict.fields,
+                conflict.remote_version,
+                conflict.remote_updated_at,
+                conflict.status,
+                conflict.resolution ?? null,
+                conflict.resolved_by ?? null,
+                conflict.detected_at,
+                conflict.resolved_at ?? null,
             ]
         );
     } catch (error) {
-        console.error('Error saving emotive checklist:', error);
+        console.error('Error saving sync conflict:', error);
         throw error;
     }
 };
 
-export const getEmotiveChecklist = async (
-    profileId: string
-): Promise<LocalEmotiveChecklist | null> => {
+export const getOpenSyncConflicts = async (): Promise<LocalSyncConflict[]> => {
     try {
         const db = await getDB();
-        const row = await db.getFirstAsync<any>(
-            `SELECT * FROM emotive_checklists_local 
-             WHERE maternal_profile_local_id = ? 
-             OR maternal_profile_local_id = (SELECT remote_id FROM maternal_profiles_local WHERE local_id = ?)`,
-            [profileId, profileId]
+        return await db.getAllAsync<LocalSyncConflict>(
+            `SELECT * FROM sync_conflicts_local WHERE status = 'open' ORDER BY detected_at DESC`
         );
-        return row ? rowToChecklist(row) : null;
     } catch (error) {
-        console.error('Error getting emotive checklist:', error);
-        return null;
+        console.error('Error getting sync conflicts:', error);
+        return [];
     }
 };
 
-export const updateEmotiveStep = async (
-    localId: string,
-    stepFields: Partial<LocalEmotiveChecklist>
-): Promise<void> => {
+export const getOpenSyncConflict = async (
+    tableName: string,
+    recordLocalId: string
+): Promise<LocalSyncConflict | null> => {
     try {
         const db = await getDB();
-        const sets: string[] = [];
-        const values: any[] = [];
-
-        for (const [key, value] of Object.entries(stepFields)) {
-            if (key === 'local_id' || key === 'remote_id' || key === 'maternal_profile_local_id') continue;
-            if (typeof value === 'boolean') {
-                sets.push(`${key} = ?`);
-                values.push(value ? 1 : 0);
-            } else {
-                sets.push(`${key} = ?`);
-                values.push(value ?? null);
-            }
-        }
-
-        sets.push("updated_at = datetime('now')");
-        sets.push('is_synced = 0');
-        values.push(localId);
-
-        await db.runAsync(
-            `UPDATE emotive_checklists_local SET ${sets.join(', ')} WHERE local_id = ?`,
-            values
+        return await db.getFirstAsync<LocalSyncConflict>(
+            `SELECT * FROM sync_conflicts_local WHERE id = ? AND status = 'open'`,
+            [`${tableName}:${recordLocalId}`]
         );
     } catch (error) {
-        console.error('Error updating emotive step:', error);
-        throw error;
+        console.error('Error getting sync conflict:', error);
+        return null;
     }
 };
 
-// ── Sync Queue ───────────────────────────────────────────────
+// ── Pull Cursors & Remote Deletions ──────────────────────────
 
-export const addToSyncQueue = async (item: Omit<SyncQueueItem, 'retry_count' | 'max_retries' | 'status' | 'created_at'>): Promise<void> => {
+/** High-water mark of the last incremental pull for a table and scope */
+export const getSyncCursor = async (key: string): Promise<string | null> => {
     try {
         const db = await getDB();
-        await db.runAsync(
-            `INSERT INTO sync_queue_local (id, table_name, record_id, operation, payload)
-       VALUES (?, ?, ?, ?, ?)`,
-            [item.id, item.table_name, item.record_id, item.operation, item.payload]
+        const row = await db.getFirstAsync<{ high_water_mark: string }>(
+            'SELECT high_water_mark FROM sync_cursors_local WHERE key = ?',
+            [key]
         );
+        return row?.high_water_mark ?? null;
     } catch (error) {
-        console.error('Error adding to sync queue:', error);
+        console.error('Error getting sync cursor:', error);
+        return null;
     }
 };
 
-export const getPendingSyncItems = async (): Promise<SyncQueueItem[]> => {
+export const setSyncCursor = async (key: string, highWaterMark: string): Promise<void> => {
     try {
         const db = await getDB();
-        const rows = await db.getAllAsync<SyncQueueItem>(
-            `SELECT * FROM sync_queue_local 
-       WHERE status = 'pending' AND retry_count < max_retries
-       ORDER BY created_at ASC`
+        await db.runAsync(
+            `INSERT OR REPLACE INTO sync_cursors_local (key, high_water_mark, updated_at) VALUES (?, ?, ?)`,
+            [key, highWaterMark, new Date().toISOString()]
         );
-        return rows;
     } catch (error) {
-        console.error('Error getting pending sync items:', error);
-        return [];
+        console.error('Error setting sync cursor:', error);
+        throw error;
     }
 };
 
-export const updateSyncItemStatus = async (
-    id: string,
-    status: 'syncing' | 'synced' | 'failed',
-    errorMessage?: string
-): Promise<void> => {
+/**
+ * Apply a deletion made on the server. Deleting a case also removes
+ * everything recorded against it. Open conflicts and queued changes for
+ * the removed rows are dropped — there is nothing left to push them to.
+ */
+export const deleteLocalRecord = async (tableName: string, localId: string): Promise<void> => {
+    if (!LOCAL_TABLES[tableName]) return;
     try {
         const db = await getDB();
-        if (status === 'failed') {
-            await db.runAsync(
-                `UPDATE sync_queue_local SET status = ?, error_message = ?, retry_count = retry_count + 1 WHERE id = ?`,
-                [status, errorMessage ?? null, id]
-            );
-        } else if (status === 'synced') {
+        if (tableName === 'maternal_profiles') {
+            // Records pulled from the server are keyed by the case's remote id — deleteCase takes both
+            await clinicalStore.deleteCase(localId);
+            await db.runAsync('DELETE FROM sync_conflicts_local WHERE maternal_profile_local_id = ?', [localId]);
             await db.runAsync(
-                `UPDATE sync_queue_local SET status = ?, synced_at = datetime('now') WHERE id = ?`,
-                [status, id]
+                `DELETE FROM sync_queue_local WHERE status != 'synced' AND (
+         json_extract(payload, '$.maternal_profile_local_id') = ? OR json_extract(payload, '$.maternal_profile_id') = ?
+       )`,
+                [localId, localId]
             );
         } else {
-            await db.runAsync(
-                `UPDATE sync_queue_local SET status = ? WHERE id = ?`,
-                [status, id]
-            );
+            await db.runAsync('DELETE FROM sync_conflicts_local WHERE id = ?', [`${tableName}:${localId}`]);
         }
+
+        const keyColumn = tableName === 'emergency_contacts' ? 'id' : 'local_id';
+        await db.runAsync(`DELETE FROM ${LOCAL_TABLES[tableName]} WHERE ${keyColumn} = ?`, [localId]);
+        await db.runAsync(
+            `DELETE FROM sync_queue_local WHERE status != 'synced' AND table_name = ? AND record_id = ?`,
+            [tableName, localId]
+        );
     } catch (error) {
-        console.error('Error updating sync item status:', error);
+        console.error('Error deleting local record:', error);
+        throw error;
     }
 };
 
-export const markRecordSynced = async (
-    tableName: string,
-    localId: string,
-    remoteId: string
-): Promise<void> => {
+/**
+ * Retention: remove closed cases last updated before `closedBefore`, with
+ * everything recorded against them. Only cases the server fully has are
+ * touched — the case and all its records synced, nothing queued and no open
+ * conflict. A removed case's patient goes too, once the server has the
+ * patient and none of the patient's episodes are left on the device.
+ * Returns the local ids of the removed cases.
+ */
+export const purgeClosedCases = async (closedBefore: string): Promise<string[]> => {
     try {
         const db = await getDB();
-        const tableMap: Record<string, string> = {
-            maternal_profiles: 'maternal_profiles_local',
-            vital_signs: 'vital_signs_local',
-            emotive_checklists: 'emotive_checklists_local',
-            case_events: 'case_events_local',
-            emergency_contacts: 'emergency_contacts_local',
-        };
-        const localTable = tableMap[tableName] ?? 'maternal_profiles_local';
+        const unsyncedRecords = ['vital_signs_local', 'emotive_checklists_local', 'blood_loss_entries_local', 'risk_assessments_local', 'preparedness_checks_local']
+            .map(table => `EXISTS (SELECT 1 FROM ${table} r WHERE r.maternal_profile_local_id = p.local_id AND r.is_synced = 0)`);
+        const rows = await db.getAllAsync<{ local_id: string; patient_local_id: string | null }>(
+            `SELECT local_id, patient_local_id FROM maternal_profiles_local p
+       WHERE p.status = 'closed' AND p.is_synced = 1
+         AND julianday(p.updated_at) < julianday(?)
+         AND NOT EXISTS (SELECT 1 FROM case_events_local e WHERE e.maternal_profile_id = p.local_id AND e.is_synced = 0)
+         AND NOT (${unsyncedRecords.join(' OR ')})
+         AND NOT EXISTS (SELECT 1 FROM sync_conflicts_local c WHERE c.maternal_profile_local_id = p.local_id AND c.status = 'open')
+         AND NOT EXISTS (
+           SELECT 1 FROM sync_queue_local q WHERE q.status != 'synced' AND (
+             q.record_id = p.local_id
+             OR json_extract(q.payload, '$.maternal_profile_local_id') = p.local_id
+             OR json_extract(q.payload, '$.maternal_profile_id') = p.local_id
+           )
+         )`,
+            [closedBefore]
+        );
 
-        if (tableName === 'emergency_contacts') {
-            // Check if it was marked as deleted
-            const contact = await db.getFirstAsync<any>(
-                'SELECT is_deleted FROM emergency_contacts_local WHERE id = ?',
-                [localId]
-            );
-            if (contact && contact.is_deleted === 1) {
-                // Physically delete now that it's synced
-                await db.runAsync('DELETE FROM emergency_contacts_local WHERE id = ?', [localId]);
-            } else {
-                await db.runAsync(
-                    `UPDATE ${localTable} SET is_synced = 1 WHERE id = ?`,
-                    [localId]
-                );
-            }
-        } else {
-            await db.runAsync(
-                `UPDATE ${localTable} SET is_synced = 1, remote_id = ? WHERE local_id = ?`,
-                [remoteId, localId]
-            );
+        for (const { local_id } of rows) {
+            await deleteLocalRecord('maternal_profiles', local_id);
         }
-    } catch (error) {
-        console.error('Error marking record as synced:', error);
-    }
-};
 
-export const clearSyncedItems = async (): Promise<void> => {
-    try {
-        const db = await getDB();
-        await db.runAsync(`DELETE FROM sync_queue_local WHERE status = 'synced'`);
+        // Names and hospital numbers don't outlive the last episode kept here
+        const patientIds = new Set<string>();
+        for (const { patient_local_id } of rows) {
+            if (patient_local_id) patientIds.add(patient_local_id);
+        }
+        for (const patientId of patientIds) {
+            const orphaned = await db.getFirstAsync<{ local_id: string }>(
+                `SELECT local_id FROM patients_local pt
+         WHERE pt.local_id = ? AND pt.is_synced = 1
+           AND NOT EXISTS (SELECT 1 FROM maternal_profiles_local p WHERE p.patient_local_id = pt.local_id)
+           AND NOT EXISTS (
+             SELECT 1 FROM sync_queue_local q
+             WHERE q.status != 'synced' AND q.table_name = 'patients' AND q.record_id = pt.local_id
+           )`,
+                [patientId]
+            );
+            if (orphaned) await deleteLocalRecord('patients', patientId);
+        }
+        return rows.map(r => r.local_id);
     } catch (error) {
-        console.error('Error clearing synced items:', error);
+        console.error('Error purging closed cases:', error);
+        throw error;
     }
 };
 
-// ── Row Converters ───────────────────────────────────────────
-
-function rowToProfile(row: any): LocalMaternalProfile {
-    return {
-        ...row,
-        is_multiple_gestation: !!row.is_multiple_gestation,
-        has_prior_cesarean: !!row.has_prior_cesarean,
-        has_placenta_previa: !!row.has_placenta_previa,
-        has_large_fibroids: !!row.has_large_fibroids,
-        has_anemia: !!row.has_anemia,
-        has_pph_history: !!row.has_pph_history,
-        has_intraamniotic_infection: !!row.has_intraamniotic_infection,
-        has_severe_anemia: !!row.has_severe_anemia,
-        has_coagulopathy: !!row.has_coagulopathy,
-        has_severe_pph_history: !!row.has_severe_pph_history,
-        has_placenta_accreta: !!row.has_placenta_accreta,
-        has_active_bleeding: !!row.has_active_bleeding,
-        has_morbid_obesity: !!row.has_morbid_obesity,
-        is_synced: !!row.is_synced,
-    };
-}
-
-function rowToVital(row: any): LocalVitalSign {
-    return {
-        ...row,
-        is_synced: !!row.is_synced,
-    };
-}
-
-function rowToChecklist(row: any): LocalEmotiveChecklist {
-    return {
-        ...row,
-        early_detection_done: !!row.early_detection_done,
-        massage_done: !!row.massage_done,
-        oxytocin_done: !!row.oxytocin_done,
-        txa_done: !!row.txa_done,
-        iv_fluids_done: !!row.iv_fluids_done,
-        escalation_done: !!row.escalation_done,
-        diagnostics_causes: row.diagnostics_causes ? JSON.parse(row.diagnostics_causes) : undefined,
-        is_synced: !!row.is_synced,
-    };
-}
-
 // ── Emergency Contacts CRUD ──────────────────────────────────
 
 export const saveEmergencyContacts = async (contacts: LocalEmergencyContact[]): Promise<void> => {
@@ -714,49 +584,105 @@ export const getEmergencyContacts = async (facilityId?: string): Promise<LocalEm
     }
 };
 
-// ── Case Events CRUD ─────────────────────────────────────────
+// ── Patients ─────────────────────────────────────────────────
 
-export const saveCaseEvent = async (event: LocalCaseEvent): Promise<void> => {
+const rowToPatient = (row: any): LocalPatient => ({
+    ...row,
+    patient_number: row.patient_number ?? undefined,
+    full_name: row.full_name ?? undefined,
+    birth_year: row.birth_year ?? undefined,
+    is_synced: !!row.is_synced,
+});
+
+export const savePatient = async (patient: LocalPatient): Promise<void> => {
     try {
         const db = await getDB();
         await db.runAsync(
-            `INSERT OR IGNORE INTO case_events_local (
-        local_id, remote_id, maternal_profile_id, event_type, event_label, event_data, performed_by, occurred_at, is_synced
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            `INSERT OR REPLACE INTO patients_local (
+        local_id, remote_id, facility_id, patient_number, full_name, birth_year, created_by, is_synced, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             [
-                event.local_id,
-                event.remote_id ?? null,
-                event.maternal_profile_id,
-                event.event_type,
-                event.event_label,
-                event.event_data ?? null,
-                event.performed_by ?? null,
-                event.occurred_at,
-                event.is_synced ? 1 : 0,
+                patient.local_id,
+                patient.remote_id ?? null,
+                patient.facility_id ?? null,
+                patient.patient_number ?? null,
+                patient.full_name ?? null,
+                patient.birth_year ?? null,
+                patient.created_by ?? null,
+                patient.is_synced ? 1 : 0,
+                patient.created_at,
+                patient.updated_at,
             ]
         );
     } catch (error) {
-        console.error('Error saving case event:', error);
+        console.error('Error saving patient:', error);
+        throw error;
     }
 };
 
-export const getCaseEvents = async (profileId: string): Promise<LocalCaseEvent[]> => {
+export const getPatient = async (localId: string): Promise<LocalPatient | null> => {
     try {
         const db = await getDB();
-        const rows = await db.getAllAsync<any>(
-            'SELECT * FROM case_events_local WHERE maternal_profile_id = ? OR maternal_profile_id = (SELECT remote_id FROM maternal_profiles_local WHERE local_id = ?) ORDER BY occurred_at DESC',
-            [profileId, profileId]
-        );
-        return rows.map(rowToEvent);
+        const row = await db.getFirstAsync<any>('SELECT * FROM patients_local WHERE local_id = ?', [localId]);
+        return row ? rowToPatient(row) : null;
+    } catch (error) {
+        console.error('Error getting patient:', error);
+        return null;
+    }
+};
+
+export const getPatients = async (facilityId?: string): Promise<LocalPatient[]> => {
+    try {
+        const db = await getDB();
+        const rows = facilityId
+            ? await db.getAllAsync<any>('SELECT * FROM patients_local WHERE facility_id = ?', [facilityId])
+            : await db.getAllAsync<any>('SELECT * FROM patients_local');
+        return rows.map(rowToPatient);
     } catch (error) {
-        console.error('Error getting case events:', error);
+        console.error('Error getting patients:', error);
         return [];
     }
 };
 
-function rowToEvent(row: any): LocalCaseEvent {
-    return {
-        ...row,
-        is_synced: !!row.is_synced,
-    };
-}
+// ── Shock Threshold Sets ─────────────────────────────────────
+
+export const saveShockThresholdSets = async (sets: LocalShockThresholdSet[]): Promise<void> => {
+    try {
+        const db = await getDB();
+        for (const set of sets) {
+            await db.runAsync(
+                `INSERT OR REPLACE INTO shock_threshold_sets_local (
+          id, facility_id, version, thresholds, policy, created_by, created_at, is_synced
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    set.id,
+                    set.facility_id ?? null,
+                    set.version,
+                    set.thresholds,
+                    set.policy,
+                    set.created_by ?? null,
+                    set.created_at,
+                    set.is_synced ? 1 : 0,
+                ]
+            );
+        }
+    } catch (error) {
+        console.error('Error saving shock threshold sets:', error);
+        throw error;
+    }
+};
+
+/** Highest version published for a facility, or null if it uses the built-in defaults */
+export const getLatestShockThresholdSet = async (facilityId: string): Promise<LocalShockThresholdSet | null> => {
+    try {
+        const db = await getDB();
+        const row = await db.getFirstAsync<any>(
+            'SELECT * FROM shock_threshold_sets_local WHERE facility_id = ? ORDER BY version DESC LIMIT 1',
+            [facilityId]
+        );
+        return row ? { ...row, is_synced: !!row.is_synced } : null;
+    } catch (error) {
+        console.error('Error getting shock threshold set:', error);
+        return null;
+    }
+};
@@ -1,158 +1,43 @@
 /**
  * Web implementation — Clinical data layer
  *
- * Uses localStorage so that profiles/vitals persist across page
- * refreshes. Falls back to in-memory if localStorage is unavailable.
- * The sync queue writes directly to Supabase.
+ * Uses localStorage so that the sync queue, conflicts and contacts
+ * persist across page refreshes. Falls back to in-memory if localStorage
+ * is unavailable. Case records live in the clinical store
+ * (lib/clinical-store), whose web backend keeps them in IndexedDB.
  */
 
-export interface LocalMaternalProfile {
-    local_id: string;
-    remote_id?: string;
-    facility_id?: string;
-    unit_id?: string;
-    created_by?: string;
-    patient_id?: string;
-    age: number;
-    gravida: number;
-    parity: number;
-    gestational_age_weeks?: number;
-    is_multiple_gestation: boolean;
-    has_prior_cesarean: boolean;
-    has_placenta_previa: boolean;
-    has_large_fibroids: boolean;
-    has_anemia: boolean;
-    has_pph_history: boolean;
-    has_intraamniotic_infection: boolean;
-    has_severe_anemia: boolean;
-    has_coagulopathy: boolean;
-    has_severe_pph_history: boolean;
-    has_placenta_accreta: boolean;
-    has_active_bleeding: boolean;
-    has_morbid_obesity: boolean;
-    hemoglobin_level?: number;
-    risk_level: string;
-    risk_score: number;
-    status: string;
-    outcome?: string;
-    notes?: string;
-    is_synced: boolean;
-    created_at: string;
-    updated_at: string;
-    [key: string]: any;
-}
-
-export interface LocalVitalSign {
-    local_id: string;
-    maternal_profile_local_id: string;
-    recorded_by?: string;
-    heart_rate?: number;
-    systolic_bp?: number;
-    diastolic_bp?: number;
-    temperature?: number;
-    respiratory_rate?: number;
-    spo2?: number;
-    shock_index?: number;
-    estimated_blood_loss: number;
-    blood_loss_method?: string;
-    blood_loss_ai_estimate?: number;
-    blood_loss_confidence?: number;
-    blood_loss_ai_method?: string;
-    is_synced: boolean;
-    recorded_at: string;
-    [key: string]: any;
-}
-
-export interface LocalEmotiveChecklist {
-    local_id: string;
-    remote_id?: string;
-    maternal_profile_local_id: string;
-    performed_by?: string;
-
-    early_detection_done: boolean;
-    early_detection_time?: string;
-    early_detection_notes?: string;
-
-    massage_done: boolean;
-    massage_time?: string;
-    massage_notes?: string;
-
-    oxytocin_done: boolean;
-    oxytocin_time?: string;
-    oxytocin_dose?: string;
-    oxytocin_notes?: string;
-
-    txa_done: boolean;
-    txa_time?: string;
-    txa_dose?: string;
-    txa_notes?: string;
-
-    iv_fluids_done: boolean;
-    iv_fluids_time?: string;
-    iv_fluids_volume?: string;
-    iv_fluids_notes?: string;
-
-    escalation_done: boolean;
-    escalation_time?: string;
-    escalation_notes?: string;
-
-    diagnostics_causes?: string[];
-    diagnostics_notes?: string;
-
-    is_synced: boolean;
-    created_at: string;
-    updated_at: string;
-    [key: string]: any;
-}
-
-export interface SyncQueueItem {
-    id: string;
-    table_name: string;
-    record_id: string;
-    operation: string;
-    payload: string;
-    status: string;
-    error_message?: string;
-    created_at: string;
-    [key: string]: any;
-}
-
-export interface LocalEmergencyContact {
-    id: string;
-    facility_id?: string;
-    unit_id?: string;
-    name: string;
-    role: string;
-    phone: string;
-    tier: number;
-    is_active: boolean;
-    is_synced?: boolean;
-    is_deleted?: boolean;
-    created_at: string;
-    updated_at: string;
-}
-
-export interface LocalCaseEvent {
-    local_id: string;
-    remote_id?: string;
-    maternal_profile_id: string;
-    event_type: string;
-    event_label: string;
-    event_data?: string;
-    performed_by?: string;
-    occurred_at: string;
-    is_synced: boolean;
-}
+import { CaseTable, clinicalStore, getStoreTable, StoreRow } from '@/lib/clinical-store';
+import type { LocalEmergencyContact, LocalPatient, LocalShockThresholdSet, LocalSyncConflict, SyncQueueItem } from '@/lib/local-records';
+import { storeBackend } from '@/lib/store-backend';
+
+// ── Types ────────────────────────────────────────────────────
+// Case records themselves are read and written through lib/clinical-store
+
+export type {
+    LocalBloodLossEntry,
+    LocalCaseEvent,
+    LocalEmergencyContact,
+    LocalEmotiveChecklist,
+    LocalMaternalProfile,
+    LocalPatient,
+    LocalPreparednessCheck,
+    LocalRiskAssessment,
+    LocalShockThresholdSet,
+    LocalSyncConflict,
+    LocalVitalSign,
+    SyncQueueItem,
+} from '@/lib/local-records';
 
 // ── localStorage-backed helpers ──────────────────────────────
 
 const STORAGE_KEYS = {
-    profiles: 'motivaid_profiles',
-    vitals: 'motivaid_vitals',
-    emotiveChecklists: 'motivaid_emotive_checklists',
     syncQueue: 'motivaid_sync_queue',
     emergencyContacts: 'motivaid_emergency_contacts',
-    caseEvents: 'motivaid_case_events',
+    shockThresholdSets: 'motivaid_shock_threshold_sets',
+    syncConflicts: 'motivaid_sync_conflicts',
+    syncCursors: 'motivaid_sync_cursors',
+    patients: 'motivaid_patients',
 } as const;
 
 function loadMap<T>(key: string): Map<string, T> {
@@ -177,25 +62,13 @@ function saveMap<T>(key: string, map: Map<string, T>): void {
 }
 
 // Lazy-loaded stores (hydrate once on first access)
-let _profiles: Map<string, LocalMaternalProfile> | null = null;
-let _vitals: Map<string, LocalVitalSign> | null = null;
-let _emotiveChecklists: Map<string, LocalEmotiveChecklist> | null = null;
 let _syncQueue: Map<string, SyncQueueItem> | null = null;
 let _emergencyContacts: Map<string, LocalEmergencyContact> | null = null;
-let _caseEvents: Map<string, LocalCaseEvent> | null = null;
+let _shockThresholdSets: Map<string, LocalShockThresholdSet> | null = null;
+let _syncConflicts: Map<string, LocalSyncConflict> | null = null;
+let _syncCursors: Map<string, string> | null = null;
+let _patients: Map<string, LocalPatient> | null = null;
 
-function getProfileStore(): Map<string, LocalMaternalProfile> {
-    if (!_profiles) _profiles = loadMap<LocalMaternalProfile>(STORAGE_KEYS.profiles);
-    return _profiles;
-}
-function getVitalStore(): Map<string, LocalVitalSign> {
-    if (!_vitals) _vitals = loadMap<LocalVitalSign>(STORAGE_KEYS.vitals);
-    return _vitals;
-}
-function getEmotiveStore(): Map<string, LocalEmotiveChecklist> {
-    if (!_emotiveChecklists) _emotiveChecklists = loadMap<LocalEmotiveChecklist>(STORAGE_KEYS.emotiveChecklists);
-    return _emotiveChecklists;
-}
 function getSyncQueueStore(): Map<string, SyncQueueItem> {
     if (!_syncQueue) _syncQueue = loadMap<SyncQueueItem>(STORAGE_KEYS.syncQueue);
     return _syncQueue;
@@ -204,155 +77,91 @@ function getEmergencyContactStore(): Map<string, LocalEmergencyContact> {
     if (!_emergencyContacts) _emergencyContacts = loadMap<LocalEmergencyContact>(STORAGE_KEYS.emergencyContacts);
     return _emergencyContacts;
 }
-function getCaseEventStore(): Map<string, LocalCaseEvent> {
-    if (!_caseEvents) _caseEvents = loadMap<LocalCaseEvent>(STORAGE_KEYS.caseEvents);
-    return _caseEvents;
+function getShockThresholdSetStore(): Map<string, LocalShockThresholdSet> {
+    if (!_shockThresholdSets) _shockThresholdSets = loadMap<LocalShockThresholdSet>(STORAGE_KEYS.shockThresholdSets);
+    return _shockThresholdSets;
+}
+function getSyncConflictStore(): Map<string, LocalSyncConflict> {
+    if (!_syncConflicts) _syncConflicts = loadMap<LocalSyncConflict>(STORAGE_KEYS.syncConflicts);
+    return _syncConflicts;
+}
+function getSyncCursorStore(): Map<string, string> {
+    if (!_syncCursors) _syncCursors = loadMap<string>(STORAGE_KEYS.syncCursors);
+    return _syncCursors;
+}
+
+function getPatientStore(): Map<string, LocalPatient> {
+    if (!_patients) _patients = loadMap<LocalPatient>(STORAGE_KEYS.patients);
+    return _patients;
 }
 
-function flushProfiles() { saveMap(STORAGE_KEYS.profiles, getProfileStore()); }
-function flushVitals() { saveMap(STORAGE_KEYS.vitals, getVitalStore()); }
-function flushEmotive() { saveMap(STORAGE_KEYS.emotiveChecklists, getEmotiveStore()); }
 function flushSyncQueue() { saveMap(STORAGE_KEYS.syncQueue, getSyncQueueStore()); }
 function flushEmergencyContacts() { saveMap(STORAGE_KEYS.emergencyContacts, getEmergencyContactStore()); }
-function flushCaseEvents() { saveMap(STORAGE_KEYS.caseEvents, getCaseEventStore()); }
-
-// ── Init ─────────────────────────────────────────────────────
+function flushShockThresholdSets() { saveMap(STORAGE_KEYS.shockThresholdSets, getShockThresholdSetStore()); }
+function flushSyncConflicts() { saveMap(STORAGE_KEYS.syncConflicts, getSyncConflictStore()); }
+function flushSyncCursors() { saveMap(STORAGE_KEYS.syncCursors, getSyncCursorStore()); }
+function flushPatients() { saveMap(STORAGE_KEYS.patients, getPatientStore()); }
 
-export const initClinicalDatabase = async () => {
-    // Hydrate stores eagerly on init
-    getProfileStore();
-    getVitalStore();
-    getEmotiveStore();
-    getSyncQueueStore();
-    getEmergencyContactStore();
-    getCaseEventStore();
-    return null;
-};
-
-// ── Maternal Profile CRUD ────────────────────────────────────
-
-export const saveMaternalProfile = async (profile: LocalMaternalProfile) => {
-    getProfileStore().set(profile.local_id, { ...profile });
-    flushProfiles();
-};
-
-export const getMaternalProfiles = async (
-    unitId?: string,
-    status?: string
-): Promise<LocalMaternalProfile[]> => {
-    let results = Array.from(getProfileStore().values());
-
-    if (unitId) {
-        results = results.filter(p => p.unit_id === unitId);
-    }
-    if (status) {
-        results = results.filter(p => p.status === status);
-    }
-
-    // Sort by updated_at descending
-    results.sort((a, b) =>
-        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
-    );
-
-    return results;
-};
-
-export const getMaternalProfile = async (
-    localId: string
-): Promise<LocalMaternalProfile | null> => {
-    return getProfileStore().get(localId) ?? null;
-};
-
-export const updateMaternalProfileStatus = async (
-    localId: string,
-    status: string,
-    outcome?: string
-) => {
-    const store = getProfileStore();
-    const profile = store.get(localId);
-    if (profile) {
-        profile.status = status;
-        profile.updated_at = new Date().toISOString();
-        if (outcome) profile.outcome = outcome;
-        store.set(localId, profile);
-        flushProfiles();
-    }
-};
-
-export const updateDeliveryTime = async (localId: string, deliveryTime: string) => {
-    const store = getProfileStore();
-    const profile = store.get(localId);
-    if (profile) {
-        profile.delivery_time = deliveryTime;
-        profile.updated_at = new Date().toISOString();
-        store.set(localId, profile);
-        flushProfiles();
+/**
+ * Sign-out wipe: forget the sync queue, conflicts, cursors, contacts,
+ * thresholds and patients kept in localStorage. Case records are in
+ * IndexedDB and go with deleteStoreDatabase().
+ */
+export const wipeLocalStorageStores = () => {
+    for (const key of Object.values(STORAGE_KEYS)) {
+        try {
+            localStorage.removeItem(key);
+        } catch {
+            // localStorage unavailable — nothing was kept there
+        }
     }
+    _syncQueue = null;
+    _emergencyContacts = null;
+    _shockThresholdSets = null;
+    _syncConflicts = null;
+    _syncCursors = null;
+    _patients = null;
 };
 
-// ── Vital Sign CRUD ──────────────────────────────────────────
+/** Case tables, whose rows live in the clinical store */
+const CASE_TABLES: CaseTable[] = [
+    'maternal_profiles', 'vital_signs', 'emotive_checklists', 'case_events',
+    'blood_loss_entries', 'risk_assessments', 'preparedness_checks',
+];
 
-export const saveVitalSign = async (vital: LocalVitalSign) => {
-    getVitalStore().set(vital.local_id, { ...vital });
-    flushVitals();
-};
-
-export const getVitalSigns = async (
-    maternalProfileLocalId: string
-): Promise<LocalVitalSign[]> => {
-    return Array.from(getVitalStore().values())
-        .filter(v => v.maternal_profile_local_id === maternalProfileLocalId || v.maternal_profile_id === maternalProfileLocalId)
-        .sort((a, b) =>
-            new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime()
-        );
-};
-
-export const getLatestVitalSign = async (
-    maternalProfileLocalId: string
-): Promise<LocalVitalSign | null> => {
-    const vitals = await getVitalSigns(maternalProfileLocalId);
-    return vitals.length > 0 ? vitals[0] : null;
-};
+function isCaseTable(tableName: string): tableName is CaseTable {
+    return (CASE_TABLES as string[]).includes(tableName);
+}
 
-// ── E-MOTIVE Checklist CRUD ──────────────────────────────────
+/** Change some fields of a case-table row, if it exists */
+async function patchCaseRow(tableName: CaseTable, localId: string, fields: StoreRow) {
+    const table = getStoreTable('clinical', tableName);
+    const row = await storeBackend.get(table, localId);
+    if (row) await storeBackend.put(table, { ...row, ...fields });
+}
 
-export const saveEmotiveChecklist = async (checklist: LocalEmotiveChecklist) => {
-    getEmotiveStore().set(checklist.local_id, { ...checklist });
-    flushEmotive();
-};
+// ── Init ─────────────────────────────────────────────────────
 
-export const getEmotiveChecklist = async (
-    maternalProfileLocalId: string
-): Promise<LocalEmotiveChecklist | null> => {
-    for (const checklist of getEmotiveStore().values()) {
-        if (checklist.maternal_profile_local_id === maternalProfileLocalId || checklist.maternal_profile_id === maternalProfileLocalId) {
-            return checklist;
-        }
-    }
+export const initClinicalDatabase = async () => {
+    // Hydrate stores eagerly on init
+    getSyncQueueStore();
+    getEmergencyContactStore();
+    getShockThresholdSetStore();
+    getSyncConflictStore();
+    getSyncCursorStore();
+    getPatientStore();
     return null;
 };
 
-export const updateEmotiveStep = async (
-    localId: string,
-    stepFields: Partial<LocalEmotiveChecklist>
-) => {
-    const store = getEmotiveStore();
-    const checklist = store.get(localId);
-    if (checklist) {
-        Object.assign(checklist, stepFields);
-        checklist.updated_at = new Date().toISOString();
-        checklist.is_synced = false;
-        store.set(localId, checklist);
-        flushEmotive();
-    }
-};
-
 // ── Sync Queue ───────────────────────────────────────────────
 
-export const addToSyncQueue = async (item: any) => {
+export const addToSyncQueue = async (item: Omit<SyncQueueItem, 'retry_count' | 'max_retries' | 'status' | 'next_attempt_at' | 'created_at'>) => {
     const queueItem: SyncQueueItem = {
         ...item,
+        retry_count: 0,
+        max_retries: 5,
         status: 'pending',
+        next_attempt_at: null,
         created_at: new Date().toISOString(),
     };
     getSyncQueueStore().set(item.id, queueItem);
@@ -360,8 +169,13 @@ export const addToSyncQueue = async (item: any) => {
 };
 
 export const getPendingSyncItems = async (): Promise<SyncQueueItem[]> => {
+    const now = new Date().toISOString();
     return Array.from(getSyncQueueStore().values())
-        .filter(item => item.status === 'pending')
+        .filter(item =>
+            item.status === 'pending' &&
+            (item.retry_count ?? 0) < (item.max_retries ?? 5) &&
+            (!item.next_attempt_at || item.next_attempt_at <= now)
+        )
         .sort((a, b) =>
             new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
         );
@@ -369,7 +183,7 @@ export const getPendingSyncItems = async (): Promise<SyncQueueItem[]> => {
 
 export const updateSyncItemStatus = async (
     id: string,
-    status: string,
+    status: SyncQueueItem['status'],
     errorMessage?: string
 ) => {
     const store = getSyncQueueStore();
@@ -377,6 +191,24 @@ export const updateSyncItemStatus = async (
     if (item) {
         item.status = status;
         if (errorMessage) item.error_message = errorMessage;
+        if (status === 'dead') item.next_attempt_at = null;
+        store.set(id, item);
+        flushSyncQueue();
+    }
+};
+
+export const scheduleSyncRetry = async (
+    id: string,
+    errorMessage: string,
+    nextAttemptAt: string
+) => {
+    const store = getSyncQueueStore();
+    const item = store.get(id);
+    if (item) {
+        item.status = 'pending';
+        item.error_message = errorMessage;
+        item.retry_count = (item.retry_count ?? 0) + 1;
+        item.next_attempt_at = nextAttemptAt;
         store.set(id, item);
         flushSyncQueue();
     }
@@ -387,42 +219,8 @@ export const markRecordSynced = async (
     localId: string,
     remoteId: string
 ) => {
-    if (tableName === 'maternal_profiles') {
-        const store = getProfileStore();
-        const profile = store.get(localId);
-        if (profile) {
-            profile.is_synced = true;
-            profile.remote_id = remoteId;
-            store.set(localId, profile);
-            flushProfiles();
-        }
-    } else if (tableName === 'vital_signs') {
-        const store = getVitalStore();
-        const vital = store.get(localId);
-        if (vital) {
-            vital.is_synced = true;
-            (vital as any).remote_id = remoteId;
-            store.set(localId, vital);
-            flushVitals();
-        }
-    } else if (tableName === 'emotive_checklists') {
-        const store = getEmotiveStore();
-        const checklist = store.get(localId);
-        if (checklist) {
-            checklist.is_synced = true;
-            checklist.remote_id = remoteId;
-            store.set(localId, checklist);
-            flushEmotive();
-        }
-    } else if (tableName === 'case_events') {
-        const store = getCaseEventStore();
-        const event = store.get(localId);
-        if (event) {
-            event.is_synced = true;
-            event.remote_id = remoteId;
-            store.set(localId, event);
-            flushCaseEvents();
-        }
+    if (isCaseTable(tableName)) {
+        await patchCaseRow(tableName, localId, { is_synced: true, remote_id: remoteId });
     } else if (tableName === 'emergency_contacts') {
         const store = getEmergencyContactStore();
         const contact = store.get(localId);
@@ -437,9 +235,79 @@ export const markRecordSynced = async (
             }
             flushEmergencyContacts();
         }
+    } else if (tableName === 'shock_threshold_sets') {
+        const store = getShockThresholdSetStore();
+        const set = store.get(localId);
+        if (set) {
+            set.is_synced = true;
+            store.set(localId, set);
+            flushShockThresholdSets();
+        }
+    } else if (tableName === 'patients') {
+        const patient = getPatientStore().get(localId);
+        if (patient) {
+            getPatientStore().set(localId, { ...patient, is_synced: true, remote_id: remoteId });
+            flushPatients();
+        }
+    }
+};
+
+export const getRemoteId = async (tableName: string, localId: string): Promise<string | null> => {
+    if (tableName === 'patients') return getPatientStore().get(localId)?.remote_id ?? null;
+    if (!isCaseTable(tableName)) return null;
+    const row = await storeBackend.get(getStoreTable('clinical', tableName), localId);
+    return row?.remote_id ?? null;
+};
+
+export const hasUnsyncedChanges = async (tableName: string, localId: string): Promise<boolean> => {
+    const row = tableName === 'patients'
+        ? getPatientStore().get(localId)
+        : tableName === 'emergency_contacts'
+            ? getEmergencyContactStore().get(localId)
+            : isCaseTable(tableName) ? await storeBackend.get(getStoreTable('clinical', tableName), localId) : null;
+    return !!row && !row.is_synced;
+};
+
+export const setRemoteId = async (tableName: string, localId: string, remoteId: string) => {
+    if (isCaseTable(tableName)) {
+        await patchCaseRow(tableName, localId, { remote_id: remoteId });
+    } else if (tableName === 'patients') {
+        const patient = getPatientStore().get(localId);
+        if (patient) {
+            getPatientStore().set(localId, { ...patient, remote_id: remoteId });
+            flushPatients();
+        }
     }
 };
 
+export const setSyncBase = async (
+    tableName: string,
+    localId: string,
+    remoteUpdatedAt: string,
+    syncBase: string
+) => {
+    await patchCaseRow(
+        tableName === 'emotive_checklists' ? 'emotive_checklists' : 'maternal_profiles',
+        localId,
+        { remote_updated_at: remoteUpdatedAt, sync_base: syncBase }
+    );
+};
+
+export const collapseSyncItems = async (
+    keepId: string,
+    operation: 'insert' | 'update',
+    payload: string,
+    dropIds: string[]
+) => {
+    const store = getSyncQueueStore();
+    const item = store.get(keepId);
+    if (item) {
+        store.set(keepId, { ...item, operation, payload });
+    }
+    for (const id of dropIds) store.delete(id);
+    flushSyncQueue();
+};
+
 export const clearSyncedItems = async () => {
     const store = getSyncQueueStore();
     for (const [id, item] of store.entries()) {
@@ -450,6 +318,46 @@ export const clearSyncedItems = async () => {
     flushSyncQueue();
 };
 
+export const getUnsyncedSyncItems = async (): Promise<SyncQueueItem[]> => {
+    return Array.from(getSyncQueueStore().values())
+        .filter(item => item.status !== 'synced')
+        .sort((a, b) =>
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        );
+};
+
+export const retrySyncItem = async (id: string) => {
+    const store = getSyncQueueStore();
+    const item = store.get(id);
+    if (item) {
+        item.status = 'pending';
+        item.retry_count = 0;
+        item.next_attempt_at = null;
+        delete item.error_message;
+        store.set(id, item);
+        flushSyncQueue();
+    }
+};
+
+/** Drop a queued change; a new case's insert takes the changes queued against the case with it */
+export const discardSyncItem = async (id: string) => {
+    const store = getSyncQueueStore();
+    const discarded = store.get(id);
+    if (discarded?.table_name === 'maternal_profiles' && discarded.operation === 'insert') {
+        const caseId = discarded.record_id;
+        for (const [itemId, item] of store.entries()) {
+            if (item.status === 'synced') continue;
+            const payload = JSON.parse(item.payload);
+            if (
+                (item.table_name === 'maternal_profiles' && item.record_id === caseId)
+                || payload.maternal_profile_local_id === caseId || payload.maternal_profile_id === caseId
+            ) store.delete(itemId);
+        }
+    }
+    store.delete(id);
+    flushSyncQueue();
+};
+
 // ── Emergency Contacts CRUD ──────────────────────────────────
 
 export const saveEmergencyContacts = async (contacts: LocalEmergencyContact[]) => {
@@ -488,22 +396,147 @@ export const getEmergencyContacts = async (facilityId?: string): Promise<LocalEm
     return results;
 };
 
-// ── Case Events CRUD ─────────────────────────────────────────
+// ── Sync Conflicts ───────────────────────────────────────────
 
-export const saveCaseEvent = async (event: LocalCaseEvent) => {
-    getCaseEventStore().set(event.local_id, { ...event });
-    flushCaseEvents();
+export const saveSyncConflict = async (conflict: LocalSyncConflict) => {
+    getSyncConflictStore().set(conflict.id, { ...conflict });
+    flushSyncConflicts();
 };
 
-export const getCaseEvents = async (maternalProfileId: string): Promise<LocalCaseEvent[]> => {
-    return Array.from(getCaseEventStore().values())
-        .filter(e => e.maternal_profile_id === maternalProfileId)
-        .sort((a, b) =>
-            new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime()
-        );
+export const getOpenSyncConflicts = async (): Promise<LocalSyncConflict[]> => {
+    return Array.from(getSyncConflictStore().values())
+        .filter(c => c.status === 'open')
+        .sort((a, b) => b.detected_at.localeCompare(a.detected_at));
+};
+
+export const getOpenSyncConflict = async (
+    tableName: string,
+    recordLocalId: string
+): Promise<LocalSyncConflict | null> => {
+    const conflict = getSyncConflictStore().get(`${tableName}:${recordLocalId}`);
+    return conflict?.status === 'open' ? conflict : null;
+};
+
+// ── Pull Cursors & Remote Deletions ──────────────────────────
+
+export const getSyncCursor = async (key: string): Promise<string | null> => {
+    return getSyncCursorStore().get(key) ?? null;
+};
+
+export const setSyncCursor = async (key: string, highWaterMark: string) => {
+    getSyncCursorStore().set(key, highWaterMark);
+    flushSyncCursors();
+};
+
+/** Remove the row, and for a case everything recorded against it, plus its conflicts and queued changes */
+export const deleteLocalRecord = async (tableName: string, localId: string) => {
+    const queue = getSyncQueueStore();
+    const conflicts = getSyncConflictStore();
+
+    if (tableName === 'maternal_profiles') {
+        const ofCase = (r: { maternal_profile_local_id?: string; maternal_profile_id?: string }) =>
+            r.maternal_profile_local_id === localId || r.maternal_profile_id === localId;
+        await clinicalStore.deleteCase(localId);
+        for (const [id, conflict] of conflicts.entries()) {
+            if (conflict.maternal_profile_local_id === localId) conflicts.delete(id);
+        }
+        for (const [id, item] of queue.entries()) {
+            if (item.status !== 'synced' && ofCase(JSON.parse(item.payload))) queue.delete(id);
+        }
+    } else if (isCaseTable(tableName)) {
+        await storeBackend.delete(getStoreTable('clinical', tableName), { local_id: [localId] });
+    } else if (tableName === 'emergency_contacts') {
+        getEmergencyContactStore().delete(localId);
+        flushEmergencyContacts();
+    } else if (tableName === 'patients') {
+        getPatientStore().delete(localId);
+        flushPatients();
+    } else {
+        return;
+    }
+
+    conflicts.delete(`${tableName}:${localId}`);
+    for (const [id, item] of queue.entries()) {
+        if (item.status !== 'synced' && item.table_name === tableName && item.record_id === localId) queue.delete(id);
+    }
+    flushSyncConflicts();
+    flushSyncQueue();
+};
+
+/**
+ * Retention: remove closed cases last updated before `closedBefore`, with
+ * everything recorded against them. Only cases the server fully has are
+ * touched — the case and all its records synced, nothing queued and no open
+ * conflict. A removed case's patient goes too, once the server has the
+ * patient and none of the patient's episodes are left on the device.
+ * Returns the local ids of the removed cases.
+ */
+export const purgeClosedCases = async (closedBefore: string): Promise<string[]> => {
+    const cutoff = Date.parse(closedBefore);
+    const records: StoreRow[] = [];
+    for (const tableName of CASE_TABLES) {
+        if (tableName === 'maternal_profiles') continue;
+        records.push(...await storeBackend.select(getStoreTable('clinical', tableName), {}));
+    }
+    const queued = Array.from(getSyncQueueStore().values()).filter(item => item.status !== 'synced');
+    const conflicts = Array.from(getSyncConflictStore().values()).filter(c => c.status === 'open');
+
+    const purged = (await clinicalStore.getProfiles({ status: 'closed' })).filter(profile => {
+        if (!profile.is_synced || !(Date.parse(profile.updated_at) < cutoff)) return false;
+        const ofCase = (r: { maternal_profile_local_id?: string; maternal_profile_id?: string }) =>
+            r.maternal_profile_local_id === profile.local_id || r.maternal_profile_id === profile.local_id;
+        return !records.some(r => ofCase(r) && !r.is_synced)
+            && !queued.some(item => item.record_id === profile.local_id || ofCase(JSON.parse(item.payload)))
+            && !conflicts.some(c => c.maternal_profile_local_id === profile.local_id);
+    });
+
+    for (const profile of purged) {
+        await deleteLocalRecord('maternal_profiles', profile.local_id);
+    }
+
+    // Names and hospital numbers don't outlive the last episode kept here
+    const remaining = await clinicalStore.getProfiles();
+    const patientIds = new Set(purged.map(profile => profile.patient_local_id).filter((id): id is string => !!id));
+    for (const patientId of patientIds) {
+        const patient = getPatientStore().get(patientId);
+        if (
+            patient?.is_synced
+            && !remaining.some(profile => profile.patient_local_id === patientId)
+            && !queued.some(item => item.table_name === 'patients' && item.record_id === patientId)
+        ) await deleteLocalRecord('patients', patientId);
+    }
+    return purged.map(profile => profile.local_id);
+};
+
+// ── Patients ─────────────────────────────────────────────────
+
+export const savePatient = async (patient: LocalPatient) => {
+    getPatientStore().set(patient.local_id, patient);
+    flushPatients();
+};
+
+export const getPatient = async (localId: string): Promise<LocalPatient | null> => {
+    return getPatientStore().get(localId) ?? null;
+};
+
+export const getPatients = async (facilityId?: string): Promise<LocalPatient[]> => {
+    const patients = Array.from(getPatientStore().values());
+    return facilityId ? patients.filter(p => p.facility_id === facilityId) : patients;
+};
+
+// ── Shock Threshold Sets ─────────────────────────────────────
+
+export const saveShockThresholdSets = async (sets: LocalShockThresholdSet[]) => {
+    const store = getShockThresholdSetStore();
+    for (const set of sets) {
+        store.set(set.id, { ...set });
+    }
+    flushShockThresholdSets();
 };
 
-export const fetchFacilityStaff = async (): Promise<any[]> => {
-    // Web monitoring/management usually uses direct Supabase access
-    return [];
+export const getLatestShockThresholdSet = async (facilityId: string): Promise<LocalShockThresholdSet | null> => {
+    const sets = Array.from(getShockThresholdSetStore().values())
+        .filter(s => s.facility_id === facilityId)
+        .sort((a, b) => b.version - a.version);
+    return sets[0] ?? null;
 };
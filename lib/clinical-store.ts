@@ -0,0 +1,325 @@
+/**
+ * Clinical Store
+ *
+ * Case records — maternal profiles and everything recorded against them —
+ * behind one interface with one implementation. Live clinical data and
+ * simulation-mode training data are two instances of it over separate
+ * tables (`*_local` and `*_training`); only the clinical instance keeps
+ * sync state. Where the rows physically live is up to the platform's
+ * StoreBackend (lib/store-backend): SQLite on native, IndexedDB on web.
+ *
+ * The sync queue, conflicts, cursors and the sync bookkeeping on these
+ * tables stay in lib/clinical-db.
+ */
+
+import { CASE_SEARCH_COLUMNS, searchWords } from '@/lib/case-search';
+import type {
+    LocalBloodLossEntry,
+    LocalCaseEvent,
+    LocalEmotiveChecklist,
+    LocalMaternalProfile,
+    LocalPreparednessCheck,
+    LocalRiskAssessment,
+    LocalVitalSign,
+} from '@/lib/local-records';
+import { storeBackend } from '@/lib/store-backend';
+
+export type ClinicalStoreKind = 'clinical' | 'training';
+
+export type CaseTable =
+    | 'maternal_profiles'
+    | 'vital_signs'
+    | 'emotive_checklists'
+    | 'case_events'
+    | 'blood_loss_entries'
+    | 'risk_assessments'
+    | 'preparedness_checks';
+
+/** A record as handed to a store — training rows carry no sync state */
+export type StoreInput<T extends { is_synced: boolean }> = Omit<T, 'is_synced'> & { is_synced?: boolean };
+
+export interface ProfileFilter {
+    unitId?: string;
+    status?: string;
+    /** Delivery episodes of one patient (LocalPatient.local_id) */
+    patientLocalId?: string;
+}
+
+/**
+ * Case lookups (`profileId`) take the case's local id; on the clinical
+ * store, records pulled before their case was known locally are found by
+ * its remote id as well.
+ */
+export interface ClinicalStore {
+    readonly kind: ClinicalStoreKind;
+
+    /** Most recently updated first */
+    getProfiles(filter?: ProfileFilter): Promise<LocalMaternalProfile[]>;
+    getProfile(localId: string): Promise<LocalMaternalProfile | null>;
+    /** Profiles whose patient id or notes match the text (lib/case-search), most recently updated first */
+    searchProfiles(text: string, filter?: ProfileFilter): Promise<LocalMaternalProfile[]>;
+    saveProfile(profile: StoreInput<LocalMaternalProfile>): Promise<void>;
+    /** Change some fields; the profile counts as edited now and (clinical) not synced */
+    updateProfile(localId: string, fields: Partial<LocalMaternalProfile>): Promise<void>;
+    /** Remove a case and everything recorded against it */
+    deleteCase(localId: string): Promise<void>;
+
+    /** Newest first */
+    getVitalSigns(profileId: string): Promise<LocalVitalSign[]>;
+    saveVitalSign(vital: StoreInput<LocalVitalSign>): Promise<void>;
+
+    getChecklist(profileId: string): Promise<LocalEmotiveChecklist | null>;
+    saveChecklist(checklist: StoreInput<LocalEmotiveChecklist>): Promise<void>;
+    /** Change some fields; the checklist counts as edited now and (clinical) not synced */
+    updateChecklist(localId: string, fields: Partial<LocalEmotiveChecklist>): Promise<void>;
+
+    /** Newest first */
+    getCaseEvents(profileId: string): Promise<LocalCaseEvent[]>;
+    saveCaseEvent(event: StoreInput<LocalCaseEvent>): Promise<void>;
+
+    /** Newest first */
+    getBloodLossEntries(profileId: string): Promise<LocalBloodLossEntry[]>;
+    saveBloodLossEntry(entry: StoreInput<LocalBloodLossEntry>): Promise<void>;
+
+    /** Newest first */
+    getRiskAssessments(profileId: string): Promise<LocalRiskAssessment[]>;
+    saveRiskAssessment(assessment: StoreInput<LocalRiskAssessment>): Promise<void>;
+
+    getPreparednessChecks(profileId: string): Promise<LocalPreparednessCheck[]>;
+    savePreparednessCheck(check: StoreInput<LocalPreparednessCheck>): Promise<void>;
+
+    /** Remove every case in this store */
+    clear(): Promise<void>;
+}
+
+// ── Backend ──────────────────────────────────────────────────
+
+export type StoreRow = Record<string, any>;
+
+/** Rows whose column holds one of the values, for every column listed */
+export type StoreWhere = Record<string, string[]>;
+
+export interface StoreTable {
+    /** Physical table, e.g. vital_signs_local */
+    name: string;
+    /** Stored as 0/1 where the backend has no boolean type */
+    booleans: string[];
+    /** Stored as JSON text where the backend has no structured type */
+    json: string[];
+    /** Matched by full-text search — on native through the `<name>_fts` index */
+    text: string[];
+}
+
+/** Row storage for one platform. Every case table is keyed by local_id. */
+export interface StoreBackend {
+    get(table: StoreTable, localId: string): Promise<StoreRow | null>;
+    select(table: StoreTable, where: StoreWhere): Promise<StoreRow[]>;
+    /** Rows matching the filter whose text columns contain every word of `text` as a word prefix */
+    search(table: StoreTable, text: string, where: StoreWhere): Promise<StoreRow[]>;
+    /**
+     * Insert, or update the row with the same local_id. Only the fields the
+     * row carries are written — one it leaves out keeps its stored value,
+     * one set to undefined is cleared.
+     */
+    put(table: StoreTable, row: StoreRow): Promise<void>;
+    delete(table: StoreTable, where: StoreWhere): Promise<void>;
+}
+
+// ── Tables ───────────────────────────────────────────────────
+
+interface CaseTableSpec {
+    booleans: string[];
+    json: string[];
+    text?: readonly string[];
+    /** Column holding the case id — unset for the profiles themselves */
+    caseColumn?: string;
+    /** Newest-first order */
+    orderBy?: string;
+}
+
+const CASE_TABLES: Record<CaseTable, CaseTableSpec> = {
+    maternal_profiles: {
+        booleans: [
+            'is_multiple_gestation', 'has_prior_cesarean', 'has_placenta_previa', 'has_large_fibroids',
+            'has_anemia', 'has_pph_history', 'has_intraamniotic_infection', 'has_severe_anemia',
+            'has_coagulopathy', 'has_severe_pph_history', 'has_placenta_accreta', 'has_active_bleeding',
+            'has_morbid_obesity', 'has_preeclampsia', 'is_induced_labor', 'has_prolonged_labor',
+            'has_macrosomia', 'has_prolonged_second_stage', 'has_operative_delivery', 'is_synced',
+        ],
+        json: [],
+        text: CASE_SEARCH_COLUMNS,
+        orderBy: 'updated_at',
+    },
+    vital_signs: { booleans: ['is_synced'], json: [], caseColumn: 'maternal_profile_local_id', orderBy: 'recorded_at' },
+    emotive_checklists: {
+        booleans: [
+            'early_detection_done', 'massage_done', 'oxytocin_done', 'txa_done',
+            'iv_fluids_done', 'escalation_done', 'is_synced',
+        ],
+        json: ['diagnostics_causes'],
+        caseColumn: 'maternal_profile_local_id',
+        orderBy: 'updated_at',
+    },
+    case_events: { booleans: ['is_synced'], json: [], caseColumn: 'maternal_profile_id', orderBy: 'occurred_at' },
+    blood_loss_entries: { booleans: ['is_synced'], json: [], caseColumn: 'maternal_profile_local_id', orderBy: 'recorded_at' },
+    risk_assessments: { booleans: ['is_synced'], json: [], caseColumn: 'maternal_profile_local_id', orderBy: 'assessed_at' },
+    preparedness_checks: { booleans: ['is_synced'], json: [], caseColumn: 'maternal_profile_local_id' },
+};
+
+/** Records of a case, deleted before the case itself */
+const RECORD_TABLES = (Object.keys(CASE_TABLES) as CaseTable[]).filter(table => table !== 'maternal_profiles');
+
+/** Fields the training tables do not have */
+const SYNC_FIELDS = ['remote_id', 'is_synced', 'remote_updated_at', 'sync_base'];
+
+export function getStoreTable(kind: ClinicalStoreKind, table: CaseTable): StoreTable {
+    const { booleans, json, text = [] } = CASE_TABLES[table];
+    return { name: `${table}_${kind === 'clinical' ? 'local' : 'training'}`, booleans, json, text: [...text] };
+}
+
+function profileWhere({ unitId, status, patientLocalId }: ProfileFilter): StoreWhere {
+    const where: StoreWhere = {};
+    if (unitId) where.unit_id = [unitId];
+    if (status) where.status = [status];
+    if (patientLocalId) where.patient_local_id = [patientLocalId];
+    return where;
+}
+
+function newestFirst(column: string) {
+    return (a: StoreRow, b: StoreRow) => {
+        const x = a[column] ?? '';
+        const y = b[column] ?? '';
+        return x < y ? 1 : x > y ? -1 : 0;
+    };
+}
+
+// ── Implementation ───────────────────────────────────────────
+
+export function createClinicalStore(kind: ClinicalStoreKind, backend: StoreBackend): ClinicalStore {
+    const table = (name: CaseTable) => getStoreTable(kind, name);
+
+    const toRow = (record: StoreRow): StoreRow => {
+        const row = { ...record };
+        if (kind === 'training') {
+            for (const field of SYNC_FIELDS) delete row[field];
+        }
+        return row;
+    };
+
+    const fromRow = <T>(row: StoreRow): T => ({ ...row, is_synced: !!row.is_synced }) as T;
+
+    /** The ids a case's records may point at — its local id and, once synced, its remote id */
+    const caseIds = async (profileId: string): Promise<string[]> => {
+        const profile = await backend.get(table('maternal_profiles'), profileId);
+        return profile?.remote_id ? [profileId, profile.remote_id] : [profileId];
+    };
+
+    const recordsOf = async <T>(name: CaseTable, profileId: string): Promise<T[]> => {
+        const { caseColumn, orderBy } = CASE_TABLES[name];
+        try {
+            const rows = await backend.select(table(name), { [caseColumn!]: await caseIds(profileId) });
+            if (orderBy) rows.sort(newestFirst(orderBy));
+            return rows.map(row => fromRow<T>(row));
+        } catch (error) {
+            console.error(`[ClinicalStore] Error reading ${table(name).name}:`, error);
+            return [];
+        }
+    };
+
+    const save = (name: CaseTable) => (record: StoreRow) => backend.put(table(name), toRow(record));
+
+    const update = async (name: CaseTable, localId: string, fields: StoreRow): Promise<void> => {
+        const existing = await backend.get(table(name), localId);
+        if (!existing) return;
+        await backend.put(table(name), toRow({
+            ...existing,
+            ...fields,
+            local_id: localId,
+            updated_at: new Date().toISOString(),
+            is_synced: false,
+        }));
+    };
+
+    return {
+        kind,
+
+        getProfiles: async (filter = {}) => {
+            try {
+                const rows = await backend.select(table('maternal_profiles'), profileWhere(filter));
+                return rows.sort(newestFirst('updated_at')).map(row => fromRow<LocalMaternalProfile>(row));
+            } catch (error) {
+                console.error(`[ClinicalStore] Error reading ${table('maternal_profiles').name}:`, error);
+                return [];
+            }
+        },
+
+        getProfile: async (localId) => {
+            try {
+                const row = await backend.get(table('maternal_profiles'), localId);
+                return row ? fromRow<LocalMaternalProfile>(row) : null;
+            } catch (error) {
+                console.error(`[ClinicalStore] Error reading ${table('maternal_profiles').name}:`, error);
+                return null;
+            }
+        },
+
+        searchProfiles: async (text, filter = {}) => {
+            try {
+                const where = profileWhere(filter);
+                const rows = searchWords(text).length > 0
+                    ? await backend.search(table('maternal_profiles'), text, where)
+                    : await backend.select(table('maternal_profiles'), where);
+                return rows.sort(newestFirst('updated_at')).map(row => fromRow<LocalMaternalProfile>(row));
+            } catch (error) {
+                console.error(`[ClinicalStore] Error searching ${table('maternal_profiles').name}:`, error);
+                return [];
+            }
+        },
+
+        saveProfile: save('maternal_profiles'),
+        updateProfile: (localId, fields) => update('maternal_profiles', localId, fields),
+
+        deleteCase: async (localId) => {
+            const ids = await caseIds(localId);
+            for (const name of RECORD_TABLES) {
+                await backend.delete(table(name), { [CASE_TABLES[name].caseColumn!]: ids });
+            }
+            await backend.delete(table('maternal_profiles'), { local_id: [localId] });
+        },
+
+        getVitalSigns: (profileId) => recordsOf<LocalVitalSign>('vital_signs', profileId),
+        saveVitalSign: save('vital_signs'),
+
+        getChecklist: async (profileId) => {
+            const checklists = await recordsOf<LocalEmotiveChecklist>('emotive_checklists', profileId);
+            return checklists[0] ?? null;
+        },
+        saveChecklist: save('emotive_checklists'),
+        updateChecklist: (localId, fields) => update('emotive_checklists', localId, fields),
+
+        getCaseEvents: (profileId) => recordsOf<LocalCaseEvent>('case_events', profileId),
+        saveCaseEvent: save('case_events'),
+
+        getBloodLossEntries: (profileId) => recordsOf<LocalBloodLossEntry>('blood_loss_entries', profileId),
+        saveBloodLossEntry: save('blood_loss_entries'),
+
+        getRiskAssessments: (profileId) => recordsOf<LocalRiskAssessment>('risk_assessments', profileId),
+        saveRiskAssessment: save('risk_assessments'),
+
+        getPreparednessChecks: (profileId) => recordsOf<LocalPreparednessCheck>('preparedness_checks', profileId),
+        savePreparednessCheck: save('preparedness_checks'),
+
+        clear: async () => {
+            for (const name of [...RECORD_TABLES, 'maternal_profiles' as const]) {
+                await backend.delete(table(name), {});
+            }
+        },
+    };
+}
+
+// ── Instances ────────────────────────────────────────────────
+
+export const clinicalStore = createClinicalStore('clinical', storeBackend);
+
+/** Simulation mode — isolated from clinical data and never synced */
+export const trainingStore = createClinicalStore('training', storeBackend);
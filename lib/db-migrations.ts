@@ -0,0 +1,613 @@
+/**
+ * Local Database Migrations
+ *
+ * The on-device schema as an ordered list of versioned steps. The database
+ * records the last step it has applied in `PRAGMA user_version`; on open,
+ * every newer step runs in its own transaction together with the version
+ * bump, so a step either lands completely or not at all and is retried on
+ * the next launch.
+ *
+ * Installs from before the runner existed report version 0 while already
+ * holding some of the tables and columns, so every step is idempotent:
+ * tables are created IF NOT EXISTS and columns are added only when
+ * `PRAGMA table_info` does not list them. A step never changes once it has
+ * shipped — schema changes go in a new step at the end of the list.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+/** The subset of the expo-sqlite connection the migrations use */
+export interface MigrationDatabase {
+    execAsync(source: string): Promise<void>;
+    getFirstAsync<T>(source: string): Promise<T | null>;
+    getAllAsync<T>(source: string): Promise<T[]>;
+    withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+export interface LocalMigration {
+    version: number;
+    name: string;
+    up: (db: MigrationDatabase) => Promise<void>;
+}
+
+export interface MigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    /** Names of the steps applied, in order */
+    applied: string[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/** Add each column definition ('name TYPE ...') the table does not have yet */
+export async function addColumns(db: MigrationDatabase, table: string, columns: string[]): Promise<void> {
+    const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table});`);
+    const names = new Set(existing.map(column => column.name));
+    for (const column of columns) {
+        const name = column.trim().split(/\s+/)[0];
+        if (names.has(name)) continue;
+        await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column};`);
+        names.add(name);
+    }
+}
+
+// ── Steps ────────────────────────────────────────────────────
+
+export const LOCAL_DB_MIGRATIONS: LocalMigration[] = [
+    {
+        version: 1,
+        name: 'baseline',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS profile_cache (
+        id TEXT PRIMARY KEY NOT NULL,
+        profile_data TEXT NOT NULL,
+        user_data TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS maternal_profiles_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        facility_id TEXT,
+        unit_id TEXT,
+        created_by TEXT,
+        patient_id TEXT,
+        age INTEGER NOT NULL,
+        gravida INTEGER DEFAULT 1,
+        parity INTEGER DEFAULT 0,
+        gestational_age_weeks INTEGER,
+        is_multiple_gestation INTEGER DEFAULT 0,
+        has_prior_cesarean INTEGER DEFAULT 0,
+        has_placenta_previa INTEGER DEFAULT 0,
+        has_large_fibroids INTEGER DEFAULT 0,
+        has_anemia INTEGER DEFAULT 0,
+        has_pph_history INTEGER DEFAULT 0,
+        has_intraamniotic_infection INTEGER DEFAULT 0,
+        has_severe_anemia INTEGER DEFAULT 0,
+        has_coagulopathy INTEGER DEFAULT 0,
+        has_severe_pph_history INTEGER DEFAULT 0,
+        has_placenta_accreta INTEGER DEFAULT 0,
+        has_active_bleeding INTEGER DEFAULT 0,
+        has_morbid_obesity INTEGER DEFAULT 0,
+        hemoglobin_level REAL,
+        risk_level TEXT DEFAULT 'low',
+        risk_score INTEGER DEFAULT 0,
+        delivery_time TEXT,
+        status TEXT DEFAULT 'pre_delivery',
+        outcome TEXT,
+        notes TEXT,
+        is_synced INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS vital_signs_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        maternal_profile_local_id TEXT NOT NULL,
+        recorded_by TEXT,
+        heart_rate INTEGER,
+        systolic_bp INTEGER,
+        diastolic_bp INTEGER,
+        temperature REAL,
+        respiratory_rate INTEGER,
+        spo2 INTEGER,
+        shock_index REAL,
+        estimated_blood_loss INTEGER DEFAULT 0,
+        blood_loss_method TEXT,
+        is_synced INTEGER DEFAULT 0,
+        recorded_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (maternal_profile_local_id) REFERENCES maternal_profiles_local(local_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS emotive_checklists_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        maternal_profile_local_id TEXT NOT NULL,
+        performed_by TEXT,
+        early_detection_done INTEGER DEFAULT 0,
+        early_detection_time TEXT,
+        early_detection_notes TEXT,
+        massage_done INTEGER DEFAULT 0,
+        massage_time TEXT,
+        massage_notes TEXT,
+        oxytocin_done INTEGER DEFAULT 0,
+        oxytocin_time TEXT,
+        oxytocin_dose TEXT,
+        oxytocin_notes TEXT,
+        txa_done INTEGER DEFAULT 0,
+        txa_time TEXT,
+        txa_dose TEXT,
+        txa_notes TEXT,
+        iv_fluids_done INTEGER DEFAULT 0,
+        iv_fluids_time TEXT,
+        iv_fluids_volume TEXT,
+        iv_fluids_notes TEXT,
+        escalation_done INTEGER DEFAULT 0,
+        escalation_time TEXT,
+        escalation_notes TEXT,
+        diagnostics_causes TEXT,
+        diagnostics_notes TEXT,
+        is_synced INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (maternal_profile_local_id) REFERENCES maternal_profiles_local(local_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_queue_local (
+        id TEXT PRIMARY KEY NOT NULL,
+        table_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        retry_count INTEGER DEFAULT 0,
+        max_retries INTEGER DEFAULT 5,
+        status TEXT DEFAULT 'pending',
+        error_message TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        synced_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS emergency_contacts_local (
+        id TEXT PRIMARY KEY NOT NULL,
+        facility_id TEXT,
+        unit_id TEXT,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        phone TEXT NOT NULL,
+        tier INTEGER NOT NULL,
+        is_active INTEGER DEFAULT 1,
+        is_synced INTEGER DEFAULT 0,
+        is_deleted INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS case_events_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        maternal_profile_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        event_label TEXT NOT NULL,
+        event_data TEXT,
+        performed_by TEXT,
+        occurred_at TEXT DEFAULT (datetime('now')),
+        is_synced INTEGER DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS maternal_profiles_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        facility_id TEXT,
+        unit_id TEXT,
+        created_by TEXT,
+        patient_id TEXT,
+        age INTEGER NOT NULL,
+        gravida INTEGER DEFAULT 1,
+        parity INTEGER DEFAULT 0,
+        gestational_age_weeks INTEGER,
+        is_multiple_gestation INTEGER DEFAULT 0,
+        has_prior_cesarean INTEGER DEFAULT 0,
+        has_placenta_previa INTEGER DEFAULT 0,
+        has_large_fibroids INTEGER DEFAULT 0,
+        has_anemia INTEGER DEFAULT 0,
+        has_pph_history INTEGER DEFAULT 0,
+        has_intraamniotic_infection INTEGER DEFAULT 0,
+        has_severe_anemia INTEGER DEFAULT 0,
+        has_coagulopathy INTEGER DEFAULT 0,
+        has_severe_pph_history INTEGER DEFAULT 0,
+        has_placenta_accreta INTEGER DEFAULT 0,
+        has_active_bleeding INTEGER DEFAULT 0,
+        has_morbid_obesity INTEGER DEFAULT 0,
+        hemoglobin_level REAL,
+        risk_level TEXT DEFAULT 'low',
+        risk_score INTEGER DEFAULT 0,
+        delivery_time TEXT,
+        status TEXT DEFAULT 'pre_delivery',
+        outcome TEXT,
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS vital_signs_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        maternal_profile_local_id TEXT NOT NULL,
+        recorded_by TEXT,
+        heart_rate INTEGER,
+        systolic_bp INTEGER,
+        diastolic_bp INTEGER,
+        temperature REAL,
+        respiratory_rate INTEGER,
+        spo2 INTEGER,
+        shock_index REAL,
+        estimated_blood_loss INTEGER DEFAULT 0,
+        blood_loss_method TEXT,
+        blood_loss_ai_estimate INTEGER,
+        blood_loss_confidence REAL,
+        blood_loss_ai_method TEXT,
+        recorded_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (maternal_profile_local_id) REFERENCES maternal_profiles_training(local_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS emotive_checklists_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        maternal_profile_local_id TEXT NOT NULL,
+        performed_by TEXT,
+        early_detection_done INTEGER DEFAULT 0,
+        early_detection_time TEXT,
+        early_detection_notes TEXT,
+        massage_done INTEGER DEFAULT 0,
+        massage_time TEXT,
+        massage_notes TEXT,
+        oxytocin_done INTEGER DEFAULT 0,
+        oxytocin_time TEXT,
+        oxytocin_dose TEXT,
+        oxytocin_notes TEXT,
+        txa_done INTEGER DEFAULT 0,
+        txa_time TEXT,
+        txa_dose TEXT,
+        txa_notes TEXT,
+        iv_fluids_done INTEGER DEFAULT 0,
+        iv_fluids_time TEXT,
+        iv_fluids_volume TEXT,
+        iv_fluids_notes TEXT,
+        escalation_done INTEGER DEFAULT 0,
+        escalation_time TEXT,
+        escalation_notes TEXT,
+        diagnostics_causes TEXT,
+        diagnostics_notes TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (maternal_profile_local_id) REFERENCES maternal_profiles_training(local_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS case_events_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        maternal_profile_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        event_label TEXT NOT NULL,
+        event_data TEXT,
+        performed_by TEXT,
+        occurred_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+            // Installs older than these columns kept their original tables
+            await addColumns(db, 'vital_signs_local', [
+                'blood_loss_ai_estimate INTEGER', 'blood_loss_confidence REAL', 'blood_loss_ai_method TEXT',
+            ]);
+            for (const table of ['emotive_checklists_local', 'emotive_checklists_training']) {
+                await addColumns(db, table, ['diagnostics_causes TEXT', 'diagnostics_notes TEXT']);
+            }
+        },
+    },
+    {
+        version: 2,
+        name: 'meows_scores',
+        up: async (db) => {
+            for (const table of ['vital_signs_local', 'vital_signs_training']) {
+                await addColumns(db, table, ['meows_red INTEGER', 'meows_yellow INTEGER', 'meows_level TEXT']);
+            }
+        },
+    },
+    {
+        version: 3,
+        name: 'shock_threshold_sets',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS shock_threshold_sets_local (
+        id TEXT PRIMARY KEY NOT NULL,
+        facility_id TEXT,
+        version INTEGER NOT NULL,
+        thresholds TEXT NOT NULL,
+        policy TEXT NOT NULL,
+        created_by TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        is_synced INTEGER DEFAULT 0
+      );
+    `);
+            for (const table of ['vital_signs_local', 'vital_signs_training']) {
+                await addColumns(db, table, ['threshold_version INTEGER']);
+            }
+        },
+    },
+    {
+        version: 4,
+        name: 'blood_loss_entries',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS blood_loss_entries_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        maternal_profile_local_id TEXT NOT NULL,
+        recorded_by TEXT,
+        method TEXT NOT NULL,
+        volume_ml INTEGER NOT NULL,
+        dry_weight_g INTEGER,
+        wet_weight_g INTEGER,
+        vital_sign_local_id TEXT,
+        notes TEXT,
+        is_synced INTEGER DEFAULT 0,
+        recorded_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS blood_loss_entries_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        maternal_profile_local_id TEXT NOT NULL,
+        recorded_by TEXT,
+        method TEXT NOT NULL,
+        volume_ml INTEGER NOT NULL,
+        dry_weight_g INTEGER,
+        wet_weight_g INTEGER,
+        vital_sign_local_id TEXT,
+        notes TEXT,
+        recorded_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+        },
+    },
+    {
+        version: 5,
+        name: 'vital_amendments',
+        up: async (db) => {
+            for (const table of ['vital_signs_local', 'vital_signs_training']) {
+                await addColumns(db, table, [
+                    'amendment_status TEXT', 'amendment_reason TEXT', 'original_values TEXT', 'amended_by TEXT', 'amended_at TEXT',
+                ]);
+            }
+        },
+    },
+    {
+        version: 6,
+        name: 'risk_rule_set',
+        up: async (db) => {
+            for (const table of ['maternal_profiles_local', 'maternal_profiles_training']) {
+                await addColumns(db, table, [
+                    'has_preeclampsia INTEGER DEFAULT 0', 'is_induced_labor INTEGER DEFAULT 0',
+                    'has_prolonged_labor INTEGER DEFAULT 0', 'has_macrosomia INTEGER DEFAULT 0',
+                    'has_prolonged_second_stage INTEGER DEFAULT 0', 'has_operative_delivery INTEGER DEFAULT 0',
+                    'risk_rule_version INTEGER',
+                ]);
+            }
+        },
+    },
+    {
+        version: 7,
+        name: 'risk_assessments',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS risk_assessments_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        maternal_profile_local_id TEXT NOT NULL,
+        assessed_by TEXT,
+        previous_risk_level TEXT,
+        previous_risk_score INTEGER,
+        risk_level TEXT NOT NULL,
+        risk_score INTEGER NOT NULL,
+        risk_rule_version INTEGER NOT NULL,
+        factors TEXT NOT NULL,
+        notes TEXT,
+        is_synced INTEGER DEFAULT 0,
+        assessed_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS risk_assessments_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        maternal_profile_local_id TEXT NOT NULL,
+        assessed_by TEXT,
+        previous_risk_level TEXT,
+        previous_risk_score INTEGER,
+        risk_level TEXT NOT NULL,
+        risk_score INTEGER NOT NULL,
+        risk_rule_version INTEGER NOT NULL,
+        factors TEXT NOT NULL,
+        notes TEXT,
+        assessed_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+        },
+    },
+    {
+        version: 8,
+        name: 'preparedness_checks',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS preparedness_checks_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        maternal_profile_local_id TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        completed_at TEXT,
+        completed_by TEXT,
+        is_synced INTEGER DEFAULT 0,
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS preparedness_checks_training (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        maternal_profile_local_id TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        completed_at TEXT,
+        completed_by TEXT,
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+        },
+    },
+    {
+        version: 9,
+        name: 'sync_retry_backoff',
+        up: async (db) => {
+            await addColumns(db, 'sync_queue_local', ['next_attempt_at TEXT']);
+            // Items were once marked failed after a single attempt and never retried — give them their budget
+            await db.execAsync(`UPDATE sync_queue_local SET status = 'pending' WHERE status = 'failed';`);
+        },
+    },
+    {
+        version: 10,
+        name: 'sync_conflicts',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sync_conflicts_local (
+        id TEXT PRIMARY KEY NOT NULL,
+        table_name TEXT NOT NULL,
+        record_local_id TEXT NOT NULL,
+        maternal_profile_local_id TEXT NOT NULL,
+        fields TEXT NOT NULL,
+        remote_version TEXT NOT NULL,
+        remote_updated_at TEXT NOT NULL,
+        status TEXT DEFAULT 'open',
+        resolution TEXT,
+        resolved_by TEXT,
+        detected_at TEXT NOT NULL,
+        resolved_at TEXT
+      );
+    `);
+            for (const table of ['maternal_profiles_local', 'emotive_checklists_local']) {
+                await addColumns(db, table, ['remote_updated_at TEXT', 'sync_base TEXT']);
+            }
+        },
+    },
+    {
+        version: 11,
+        name: 'sync_cursors',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sync_cursors_local (
+        key TEXT PRIMARY KEY NOT NULL,
+        high_water_mark TEXT NOT NULL,
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+        },
+    },
+    {
+        version: 12,
+        name: 'case_search',
+        up: async (db) => {
+            // Full-text index over the searchable profile text (lib/case-search).
+            // Kept in step by triggers; an INSERT OR REPLACE fires only the insert
+            // trigger, so it clears the case's old entry before adding the new one.
+            for (const table of ['maternal_profiles_local', 'maternal_profiles_training']) {
+                await db.execAsync(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${table}_fts USING fts5(
+        local_id UNINDEXED,
+        patient_id,
+        notes,
+        tokenize = 'unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS ${table}_fts_insert AFTER INSERT ON ${table} BEGIN
+        DELETE FROM ${table}_fts WHERE local_id = new.local_id;
+        INSERT INTO ${table}_fts (local_id, patient_id, notes) VALUES (new.local_id, new.patient_id, new.notes);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${table}_fts_update AFTER UPDATE OF local_id, patient_id, notes ON ${table} BEGIN
+        DELETE FROM ${table}_fts WHERE local_id = old.local_id;
+        INSERT INTO ${table}_fts (local_id, patient_id, notes) VALUES (new.local_id, new.patient_id, new.notes);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${table}_fts_delete AFTER DELETE ON ${table} BEGIN
+        DELETE FROM ${table}_fts WHERE local_id = old.local_id;
+      END;
+
+      DELETE FROM ${table}_fts;
+      INSERT INTO ${table}_fts (local_id, patient_id, notes) SELECT local_id, patient_id, notes FROM ${table};
+    `);
+            }
+        },
+    },
+    {
+        version: 13,
+        name: 'patients',
+        up: async (db) => {
+            await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS patients_local (
+        local_id TEXT PRIMARY KEY NOT NULL,
+        remote_id TEXT,
+        facility_id TEXT,
+        patient_number TEXT,
+        full_name TEXT,
+        birth_year INTEGER,
+        created_by TEXT,
+        is_synced INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_patients_local_facility ON patients_local(facility_id);
+    `);
+            for (const table of ['maternal_profiles_local', 'maternal_profiles_training']) {
+                await addColumns(db, table, ['patient_local_id TEXT']);
+            }
+        },
+    },
+    {
+        version: 14,
+        name: 'vital_threshold_set_id',
+        up: async (db) => {
+            for (const table of ['vital_signs_local', 'vital_signs_training']) {
+                await addColumns(db, table, ['threshold_set_id TEXT']);
+            }
+        },
+    },
+];
+
+/** Schema version this build of the app expects */
+export const LOCAL_DB_VERSION = LOCAL_DB_MIGRATIONS[LOCAL_DB_MIGRATIONS.length - 1].version;
+
+// ── Runner ───────────────────────────────────────────────────
+
+/**
+ * Bring the database up to the last step. A database written by a newer
+ * build (the app was downgraded) is left as it is — its extra tables and
+ * columns are ignored, since every query names its columns.
+ */
+export async function migrateLocalDatabase(
+    db: MigrationDatabase,
+    migrations: LocalMigration[] = LOCAL_DB_MIGRATIONS,
+): Promise<MigrationResult> {
+    migrations.forEach((migration, i) => {
+        if (!Number.isInteger(migration.version) || migration.version <= (i > 0 ? migrations[i - 1].version : 0)) {
+            throw new Error(`Migration "${migration.name}" has version ${migration.version}; versions must be positive integers in increasing order`);
+        }
+    });
+
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version;');
+    const fromVersion = row?.user_version ?? 0;
+    const applied: string[] = [];
+    let toVersion = fromVersion;
+
+    for (const migration of migrations) {
+        if (migration.version <= fromVersion) continue;
+        await db.withTransactionAsync(async () => {
+            await migration.up(db);
+            await db.execAsync(`PRAGMA user_version = ${migration.version};`);
+        });
+        applied.push(migration.name);
+        toVersion = migration.version;
+    }
+
+    return { fromVersion, toVersion, applied };
+}
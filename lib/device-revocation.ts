@@ -0,0 +1,69 @@
+/**
+ * Device Revocation
+ *
+ * Each install has a random device id. While online the app checks in with
+ * it; if a supervisor, an admin or the user has revoked the device for this
+ * user (revoke_device RPC), the check-in says so and the app wipes its
+ * encrypted database and signs out. Only an admin can restore a revoked
+ * device (restore_device RPC).
+ */
+
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Platform } from 'react-native';
+
+const DEVICE_ID_KEY = 'motivaid_device_id';
+
+/** A user_devices row, with its user's name */
+export interface UserDevice {
+    device_id: string;
+    user_id: string;
+    platform: string | null;
+    first_seen_at: string;
+    last_seen_at: string;
+    revoked_at: string | null;
+    revoked_by: string | null;
+    owner: { full_name: string | null; username: string | null } | null;
+}
+
+export async function getDeviceId(): Promise<string> {
+    const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (stored) return stored;
+
+    const deviceId = Crypto.randomUUID();
+    await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+}
+
+/** Record that the signed-in user is using this device; true when it has been revoked for them */
+export async function checkInDevice(): Promise<boolean> {
+    const { data, error } = await supabase.rpc('check_in_device', {
+        p_device_id: await getDeviceId(),
+        p_platform: Platform.OS,
+    });
+    if (error) throw error;
+    return data === true;
+}
+
+/** Devices the signed-in user may see: their own, their facility's for a supervisor, all for an admin */
+export async function listDevices(): Promise<UserDevice[]> {
+    const { data, error } = await supabase
+        .from('user_devices')
+        .select('*, owner:profiles!user_devices_user_id_fkey(full_name, username)')
+        .order('last_seen_at', { ascending: false });
+    if (error) throw error;
+    return (data ?? []) as UserDevice[];
+}
+
+/** Revoke a device for a user — it wipes itself and signs out at its next check-in */
+export async function revokeDevice(deviceId: string, userId: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_device', { p_device_id: deviceId, p_user_id: userId });
+    if (error) throw error;
+}
+
+/** Admins only: lift a revocation, so the device's next check-in is accepted again */
+export async function restoreDevice(deviceId: string, userId: string): Promise<void> {
+    const { error } = await supabase.rpc('restore_device', { p_device_id: deviceId, p_user_id: userId });
+    if (error) throw error;
+}
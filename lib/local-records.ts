@@ -0,0 +1,262 @@
+/**
+ * Local Records
+ *
+ * Row shapes of the on-device tables, shared by the native (SQLite) and
+ * web (localStorage, IndexedDB) implementations of lib/clinical-db and
+ * lib/clinical-store. Training rows have the same shape with no sync state.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export interface LocalMaternalProfile {
+    local_id: string;
+    remote_id?: string;
+    facility_id?: string;
+    unit_id?: string;
+    created_by?: string;
+    patient_id?: string;
+    patient_local_id?: string;      // the patient (LocalPatient) this delivery episode belongs to
+    age: number;
+    gravida: number;
+    parity: number;
+    gestational_age_weeks?: number;
+    is_multiple_gestation: boolean;
+    has_prior_cesarean: boolean;
+    has_placenta_previa: boolean;
+    has_large_fibroids: boolean;
+    has_anemia: boolean;
+    has_pph_history: boolean;
+    has_intraamniotic_infection: boolean;
+    has_severe_anemia: boolean;
+    has_coagulopathy: boolean;
+    has_severe_pph_history: boolean;
+    has_placenta_accreta: boolean;
+    has_active_bleeding: boolean;
+    has_morbid_obesity: boolean;
+    has_preeclampsia?: boolean;
+    is_induced_labor?: boolean;
+    has_prolonged_labor?: boolean;
+    has_macrosomia?: boolean;
+    has_prolonged_second_stage?: boolean;
+    has_operative_delivery?: boolean;
+    hemoglobin_level?: number;
+    risk_level: string;
+    risk_score: number;
+    risk_rule_version?: number;     // risk-calculator rule set used; unset = v1
+    delivery_time?: string;
+    status: string;
+    outcome?: string;
+    notes?: string;
+    is_synced: boolean;
+    remote_updated_at?: string;     // server updated_at this row was last based on
+    sync_base?: string;             // JSON snapshot of that server version — base for conflict merges
+    created_at: string;
+    updated_at: string;
+}
+
+export interface LocalVitalSign {
+    local_id: string;
+    remote_id?: string;
+    maternal_profile_local_id: string;
+    recorded_by?: string;
+    heart_rate?: number;
+    systolic_bp?: number;
+    diastolic_bp?: number;
+    temperature?: number;
+    respiratory_rate?: number;
+    spo2?: number;
+    shock_index?: number;
+    meows_red?: number;
+    meows_yellow?: number;
+    meows_level?: string;
+    threshold_set_id?: string;      // shock_threshold_sets.id in force when recorded; unset = app defaults
+    threshold_version?: number;     // that set's version — the server's number once the set has synced
+    amendment_status?: string;      // 'amended' | 'voided' — unset while the reading stands as recorded
+    amendment_reason?: string;
+    original_values?: string;       // JSON snapshot of the values as first recorded
+    amended_by?: string;
+    amended_at?: string;
+    estimated_blood_loss: number;
+    blood_loss_method?: string;
+    blood_loss_ai_estimate?: number;
+    blood_loss_confidence?: number;
+    blood_loss_ai_method?: string;
+    is_synced: boolean;
+    recorded_at: string;
+}
+
+export interface LocalEmotiveChecklist {
+    local_id: string;
+    remote_id?: string;
+    maternal_profile_local_id: string;
+    performed_by?: string;
+
+    // E — Early detection
+    early_detection_done: boolean;
+    early_detection_time?: string;
+    early_detection_notes?: string;
+
+    // M — Uterine Massage
+    massage_done: boolean;
+    massage_time?: string;
+    massage_notes?: string;
+
+    // O — Oxytocin
+    oxytocin_done: boolean;
+    oxytocin_time?: string;
+    oxytocin_dose?: string;
+    oxytocin_notes?: string;
+
+    // T — Tranexamic Acid
+    txa_done: boolean;
+    txa_time?: string;
+    txa_dose?: string;
+    txa_notes?: string;
+
+    // I — IV Fluids
+    iv_fluids_done: boolean;
+    iv_fluids_time?: string;
+    iv_fluids_volume?: string;
+    iv_fluids_notes?: string;
+
+    // V/E — Escalation
+    escalation_done: boolean;
+    escalation_time?: string;
+    escalation_notes?: string;
+
+    diagnostics_causes?: string[];
+    diagnostics_notes?: string;
+
+    is_synced: boolean;
+    remote_updated_at?: string;     // server updated_at this row was last based on
+    sync_base?: string;             // JSON snapshot of that server version — base for conflict merges
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SyncQueueItem {
+    id: string;
+    table_name: string;
+    record_id: string;
+    operation: 'insert' | 'update' | 'delete';
+    payload: string;
+    retry_count: number;
+    max_retries: number;
+    /** dead = dead-letter: failed permanently or out of retries, no longer attempted */
+    status: 'pending' | 'syncing' | 'synced' | 'dead';
+    error_message?: string;
+    /** ISO time before which a retried item is not attempted again */
+    next_attempt_at?: string | null;
+    created_at: string;
+    synced_at?: string;
+}
+
+/** Server and local edits to the same record that need a clinician's decision — local only, never synced */
+export interface LocalSyncConflict {
+    id: string;                     // `${table_name}:${record_local_id}` — one open conflict per record
+    table_name: string;             // 'maternal_profiles' | 'emotive_checklists'
+    record_local_id: string;
+    maternal_profile_local_id: string;
+    fields: string;                 // JSON FieldConflict[] — the groups to decide
+    remote_version: string;         // JSON syncable fields as on the server
+    remote_updated_at: string;
+    status: 'open' | 'resolved';
+    resolution?: string;            // JSON { [group key]: 'local' | 'remote' }
+    resolved_by?: string;
+    detected_at: string;
+    resolved_at?: string;
+}
+
+/** A patient across delivery episodes — each maternal profile is one episode */
+export interface LocalPatient {
+    local_id: string;
+    remote_id?: string;
+    facility_id?: string;
+    patient_number?: string;        // hospital number (MRN), as entered on the first episode
+    full_name?: string;
+    birth_year?: number;            // estimated from the age given at registration
+    created_by?: string;
+    is_synced: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface LocalEmergencyContact {
+    id: string;
+    facility_id?: string;
+    unit_id?: string;
+    name: string;
+    role: string;
+    phone: string;
+    tier: number;
+    is_active: boolean;
+    is_synced?: boolean;
+    is_deleted?: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface LocalCaseEvent {
+    local_id: string;
+    remote_id?: string;
+    maternal_profile_id: string;
+    event_type: string;
+    event_label: string;
+    event_data?: string;
+    performed_by?: string;
+    occurred_at: string;
+    is_synced: boolean;
+}
+
+export interface LocalBloodLossEntry {
+    local_id: string;
+    remote_id?: string;
+    maternal_profile_local_id: string;
+    recorded_by?: string;
+    method: string; // 'visual' | 'drape' | 'weighed'
+    volume_ml: number; // increment since the previous entry
+    dry_weight_g?: number;
+    wet_weight_g?: number;
+    vital_sign_local_id?: string;
+    notes?: string;
+    is_synced: boolean;
+    recorded_at: string;
+}
+
+export interface LocalRiskAssessment {
+    local_id: string;
+    remote_id?: string;
+    maternal_profile_local_id: string;
+    assessed_by?: string;
+    previous_risk_level?: string;
+    previous_risk_score?: number;
+    risk_level: string;
+    risk_score: number;
+    risk_rule_version: number;
+    factors: string; // JSON [{ id, label, category }] — JSONB remotely
+    notes?: string;
+    is_synced: boolean;
+    assessed_at: string;
+}
+
+export interface LocalPreparednessCheck {
+    local_id: string;
+    remote_id?: string;
+    maternal_profile_local_id: string;
+    item_id: string; // PREPAREDNESS_ITEMS id
+    completed_at?: string; // unset when unticked
+    completed_by?: string;
+    is_synced: boolean;
+    updated_at: string;
+}
+
+export interface LocalShockThresholdSet {
+    id: string;
+    facility_id?: string;
+    version: number;
+    thresholds: string; // JSON ShockThreshold[]
+    policy: string;     // JSON ShockAlarmPolicy
+    created_by?: string;
+    created_at: string;
+    is_synced?: boolean;
+}
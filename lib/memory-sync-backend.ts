@@ -0,0 +1,240 @@
+/**
+ * In-Memory Sync Backend
+ *
+ * A stand-in for the server that keeps its tables in memory, so the sync
+ * engine can be exercised without Supabase: point the queue at it with
+ * setSyncBackend(createMemorySyncBackend()).
+ *
+ * It mirrors what the engine relies on from the server: generated UUIDs and
+ * updated_at stamps, unique local_id, server-numbered threshold sets, guarded
+ * updates, all-or-nothing case bundles, tombstones for deletions, and pull
+ * scoping. Failures can be
+ * scripted per operation, and `offline` fails every call like a dropped
+ * connection.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import { PROFILE_CHILD_TABLES } from '@/lib/sync-batch';
+import { CaseBundleResult, PullQuery, RemoteRow, SyncBackend } from '@/lib/sync-backend';
+import { getPullScopeMode, getPullWindowStart, PullScope } from '@/lib/sync-cursor';
+import { SyncErrorLike } from '@/lib/sync-retry';
+
+export interface MemorySyncBackend extends SyncBackend {
+    /** When true every call fails the way a dropped connection does */
+    offline: boolean;
+    /** Make the next call of `operation` throw `error` (queued: call again to fail several in a row) */
+    failNext(operation: keyof SyncBackend, error: SyncErrorLike): void;
+    /** Put rows on the "server" as if another device had synced them — ids and timestamps are filled in */
+    seed(table: string, rows: RemoteRow[]): RemoteRow[];
+    /** Current rows of a table, oldest first */
+    rows(table: string): RemoteRow[];
+    /** Every call made, in order — for asserting on request counts and ordering */
+    calls: { operation: keyof SyncBackend; table: string }[];
+}
+
+const NETWORK_ERROR: SyncErrorLike = { message: 'Network request failed' };
+
+export function createMemorySyncBackend(): MemorySyncBackend {
+    const tables = new Map<string, Map<string, RemoteRow>>();
+    const failures = new Map<keyof SyncBackend, SyncErrorLike[]>();
+    const calls: MemorySyncBackend['calls'] = [];
+    let nextId = 1;
+    let lastStamp = 0;
+
+    const table = (name: string) => {
+        if (!tables.has(name)) tables.set(name, new Map());
+        return tables.get(name)!;
+    };
+
+    // Strictly increasing, so every write gets its own updated_at like a real clock would, mostly
+    const stamp = () => {
+        lastStamp = Math.max(Date.now(), lastStamp + 1);
+        return new Date(lastStamp).toISOString();
+    };
+
+    const newId = () => `00000000-0000-4000-8000-${String(nextId++).padStart(12, '0')}`;
+
+    const begin = (operation: keyof SyncBackend, tableName: string) => {
+        calls.push({ operation, table: tableName });
+        if (backend.offline) throw Object.assign(new Error(NETWORK_ERROR.message), NETWORK_ERROR);
+        const scripted = failures.get(operation)?.shift();
+        if (scripted) throw Object.assign(new Error(scripted.message ?? `${operation} failed`), scripted);
+    };
+
+    const writeRow = (tableName: string, row: RemoteRow): RemoteRow => {
+        const now = stamp();
+        const stored = { ...row, id: row.id ?? newId(), created_at: row.created_at ?? now, updated_at: now };
+        table(tableName).set(stored.id, stored);
+        return { ...stored };
+    };
+
+    const findByLocalId = (tableName: string, localId: string) =>
+        Array.from(table(tableName).values()).find(r => r.local_id === localId) ?? null;
+
+    /** Mirrors the assign_shock_threshold_version trigger */
+    const nextThresholdVersion = (facilityId: string) =>
+        Math.max(0, ...Array.from(table('shock_threshold_sets').values())
+            .filter(r => r.facility_id === facilityId)
+            .map(r => r.version)) + 1;
+
+    const insertRows = (tableName: string, rows: RemoteRow[]): RemoteRow[] =>
+        rows.map(row => {
+            const existing = row.local_id ? findByLocalId(tableName, row.local_id) : null;
+            if (existing) return { ...existing };
+            return writeRow(tableName, tableName === 'shock_threshold_sets'
+                ? { ...row, version: nextThresholdVersion(row.facility_id) }
+                : row);
+        });
+
+    /** Mirrors the record_deletion trigger */
+    const tombstone = (tableName: string, row: RemoteRow) => {
+        const profile = tableName === 'maternal_profiles'
+            ? row
+            : table('maternal_profiles').get(row.maternal_profile_id);
+        if (tableName !== 'maternal_profiles' && tableName !== 'emergency_contacts' && !profile) return;
+
+        table('deleted_records').set(String(nextId), {
+            id: String(nextId++),
+            table_name: tableName,
+            record_id: row.id,
+            local_id: row.local_id ?? null,
+            maternal_profile_id: profile?.id ?? null,
+            facility_id: profile?.facility_id ?? row.facility_id ?? null,
+            created_by: profile?.created_by ?? null,
+            deleted_at: stamp(),
+        });
+    };
+
+    const inScope = (profile: RemoteRow, scope: PullScope) => {
+        const windowStart = getPullWindowStart(scope);
+        if (windowStart && profile.updated_at < windowStart) return false;
+
+        const mode = getPullScopeMode(scope);
+        if (mode === 'facility') return profile.facility_id === scope.facilityId;
+        if (mode === 'unit') return profile.unit_id === scope.unitId || profile.created_by === scope.userId;
+        if (scope.userId) return profile.created_by === scope.userId;
+        return true;
+    };
+
+    const backend: MemorySyncBackend = {
+        offline: false,
+        calls,
+
+        failNext(operation, error) {
+            failures.set(operation, [...(failures.get(operation) ?? []), error]);
+        },
+
+        seed(tableName, rows) {
+            return rows.map(row => writeRow(tableName, row));
+        },
+
+        rows(tableName) {
+            return Array.from(table(tableName).values())
+                .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+                .map(r => ({ ...r }));
+        },
+
+        async findById(tableName, id) {
+            begin('findById', tableName);
+            const row = table(tableName).get(id);
+            return row ? { ...row } : null;
+        },
+
+        async findByLocalId(tableName, localId) {
+            begin('findByLocalId', tableName);
+            const row = findByLocalId(tableName, localId);
+            return row ? { ...row } : null;
+        },
+
+        async insertOnce(tableName, rows) {
+            begin('insertOnce', tableName);
+            return insertRows(tableName, rows);
+        },
+
+        async update(tableName, id, changes, ifUpdatedAt) {
+            begin('update', tableName);
+            const row = table(tableName).get(id);
+            if (!row || (ifUpdatedAt && row.updated_at !== ifUpdatedAt)) return [];
+            return [writeRow(tableName, { ...row, ...changes, id })];
+        },
+
+        async remove(tableName, id) {
+            begin('remove', tableName);
+            const row = table(tableName).get(id);
+            if (!row) return;
+            table(tableName).delete(id);
+            tombstone(tableName, row);
+
+            // ON DELETE CASCADE — the case's tombstone covers its records
+            if (tableName === 'maternal_profiles') {
+                for (const child of PROFILE_CHILD_TABLES) {
+                    for (const [childId, childRow] of table(child)) {
+                        if (childRow.maternal_profile_id === id) table(child).delete(childId);
+                    }
+                }
+            }
+        },
+
+        async insertCaseBundle(profile, children) {
+            begin('insertCaseBundle', 'maternal_profiles');
+            const snapshot = new Map(Array.from(tables, ([name, rows]) => [name, new Map(rows)]));
+            try {
+                const [inserted] = insertRows('maternal_profiles', [profile]);
+                const results: CaseBundleResult[] = [
+                    { table_name: 'maternal_profiles', local_id: profile.local_id, id: inserted.id, updated_at: inserted.updated_at },
+                ];
+                for (const child of children) {
+                    if (!PROFILE_CHILD_TABLES.includes(child.table_name)) {
+                        throw Object.assign(new Error(`${child.table_name} is not a case table`), { code: '22023' });
+                    }
+                    const [row] = insertRows(child.table_name, [{ ...child.row, maternal_profile_id: inserted.id }]);
+                    results.push({ table_name: child.table_name, local_id: child.row.local_id, id: row.id, updated_at: row.updated_at });
+                }
+                return results;
+            } catch (error) {
+                // Roll the whole bundle back
+                tables.clear();
+                for (const [name, rows] of snapshot) tables.set(name, rows);
+                throw error;
+            }
+        },
+
+        async fetchPage(pull: PullQuery, from, limit) {
+            begin('fetchPage', pull.table);
+            const isCaseRecord = PROFILE_CHILD_TABLES.includes(pull.table);
+            const profiles = table('maternal_profiles');
+
+            return Array.from(table(pull.table).values())
+                .map(row => {
+                    if (!isCaseRecord) return { ...row };
+                    // Inner join: records whose case is gone are not returned
+                    const profile = profiles.get(row.maternal_profile_id);
+                    return profile && {
+                        ...row,
+                        maternal_profiles: {
+                            local_id: profile.local_id,
+                            facility_id: profile.facility_id,
+                            unit_id: profile.unit_id,
+                            created_by: profile.created_by,
+                            updated_at: profile.updated_at,
+                        },
+                    };
+                })
+                .filter((row): row is RemoteRow => !!row)
+                .filter(row => !pull.scope || inScope(isCaseRecord ? row.maternal_profiles : row, pull.scope))
+                .filter(row => !pull.profileIds || pull.profileIds.includes(row.maternal_profile_id))
+                .filter(row => !pull.contactsFacilityId || row.facility_id === pull.contactsFacilityId || row.tier === 3)
+                .filter(row => !pull.facilityId || row.facility_id === pull.facilityId)
+                .filter(row => !pull.since || row[pull.cursorColumn] >= pull.since)
+                .filter(row => !pull.before || row[pull.cursorColumn] < pull.before)
+                .sort((a, b) =>
+                    String(a[pull.cursorColumn]).localeCompare(String(b[pull.cursorColumn]))
+                    || String(a.id).localeCompare(String(b.id))
+                )
+                .slice(from, from + limit);
+        },
+    };
+
+    return backend;
+}
@@ -0,0 +1,155 @@
+/**
+ * Modified Early Obstetric Warning Score (MEOWS)
+ *
+ * Each charted parameter is graded against yellow (abnormal) and
+ * red (severely abnormal) trigger bands, following the UK MEOWS chart
+ * (Singh et al. 2012) used for postpartum observations.
+ *
+ * Escalation rule:
+ *   1 red trigger   OR   2+ yellow triggers  → urgent medical review
+ *   1 yellow trigger                          → increase observation frequency
+ */
+
+export type MeowsLevel = 'normal' | 'yellow' | 'red';
+
+export type MeowsParameter =
+    | 'temperature'
+    | 'systolic_bp'
+    | 'diastolic_bp'
+    | 'heart_rate'
+    | 'respiratory_rate'
+    | 'spo2';
+
+export interface MeowsInput {
+    heartRate?: number;
+    systolicBp?: number;
+    diastolicBp?: number;
+    temperature?: number;
+    respiratoryRate?: number;
+    spo2?: number;
+}
+
+export interface MeowsTrigger {
+    parameter: MeowsParameter;
+    label: string;
+    value: number;
+    level: 'yellow' | 'red';
+}
+
+export interface MeowsResult {
+    red: number;
+    yellow: number;
+    level: MeowsLevel;
+    triggers: MeowsTrigger[];
+    shouldEscalate: boolean;
+    label: string;
+    color: string;
+    bgColor: string;
+    description: string;
+}
+
+// ── Trigger Bands ────────────────────────────────────────────
+
+interface Band {
+    parameter: MeowsParameter;
+    label: string;
+    red: (v: number) => boolean;
+    yellow: (v: number) => boolean;
+}
+
+const BANDS: Band[] = [
+    {
+        parameter: 'temperature',
+        label: 'Temperature',
+        red: (v) => v < 35 || v >= 38,
+        yellow: (v) => v < 36,
+    },
+    {
+        parameter: 'systolic_bp',
+        label: 'Systolic BP',
+        red: (v) => v < 90 || v >= 160,
+        yellow: (v) => v < 100 || v >= 150,
+    },
+    {
+        parameter: 'diastolic_bp',
+        label: 'Diastolic BP',
+        red: (v) => v >= 100,
+        yellow: (v) => v >= 90,
+    },
+    {
+        parameter: 'heart_rate',
+        label: 'Heart Rate',
+        red: (v) => v < 40 || v >= 120,
+        yellow: (v) => v < 50 || v >= 100,
+    },
+    {
+        parameter: 'respiratory_rate',
+        label: 'Respiratory Rate',
+        red: (v) => v < 10 || v > 30,
+        yellow: (v) => v > 20,
+    },
+    {
+        parameter: 'spo2',
+        label: 'SpO₂',
+        red: (v) => v < 95,
+        yellow: () => false,
+    },
+];
+
+const INPUT_KEYS: Record<MeowsParameter, keyof MeowsInput> = {
+    temperature: 'temperature',
+    systolic_bp: 'systolicBp',
+    diastolic_bp: 'diastolicBp',
+    heart_rate: 'heartRate',
+    respiratory_rate: 'respiratoryRate',
+    spo2: 'spo2',
+};
+
+const LEVEL_STYLES: Record<MeowsLevel, { label: string; color: string; bgColor: string; description: string }> = {
+    red: {
+        label: 'MEOWS RED',
+        color: '#FFFFFF',
+        bgColor: '#D32F2F',
+        description: 'Trigger met — urgent medical review required',
+    },
+    yellow: {
+        label: 'MEOWS YELLOW',
+        color: '#FFFFFF',
+        bgColor: '#FFA000',
+        description: 'Abnormal observation — increase monitoring frequency',
+    },
+    normal: {
+        label: 'MEOWS NORMAL',
+        color: '#2E7D32',
+        bgColor: '#E8F5E9',
+        description: 'All charted observations within normal range',
+    },
+};
+
+// ── Calculation ──────────────────────────────────────────────
+
+export function calculateMeows(input: MeowsInput): MeowsResult {
+    const triggers: MeowsTrigger[] = [];
+
+    for (const band of BANDS) {
+        const value = input[INPUT_KEYS[band.parameter]];
+        if (value === undefined || value === null || isNaN(value)) continue;
+
+        if (band.red(value)) {
+            triggers.push({ parameter: band.parameter, label: band.label, value, level: 'red' });
+        } else if (band.yellow(value)) {
+            triggers.push({ parameter: band.parameter, label: band.label, value, level: 'yellow' });
+        }
+    }
+
+    const red = triggers.filter(t => t.level === 'red').length;
+    const yellow = triggers.filter(t => t.level === 'yellow').length;
+    const shouldEscalate = red >= 1 || yellow >= 2;
+    const level: MeowsLevel = shouldEscalate ? 'red' : yellow === 1 ? 'yellow' : 'normal';
+
+    return { red, yellow, level, triggers, shouldEscalate, ...LEVEL_STYLES[level] };
+}
+
+export function formatMeows(red: number, yellow: number): string {
+    return `${red}R/${yellow}Y`;
+}
@@ -0,0 +1,138 @@
+/**
+ * Patient Identity
+ *
+ * A maternal profile is one delivery episode; a patient is the woman across
+ * episodes. When a new case is registered, the facility's known patients
+ * are checked for the same hospital number, or the same name with a
+ * matching age, so a returning patient is linked instead of registered
+ * twice — and what her earlier deliveries showed (PPH, prior cesarean)
+ * carries into the new risk assessment.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import type { LocalMaternalProfile, LocalPatient } from './local-records';
+
+export type PatientMatchReason = 'patient_number' | 'name_age';
+
+export interface PatientMatch {
+    patient: LocalPatient;
+    reason: PatientMatchReason;
+}
+
+export interface PatientLookup {
+    patientNumber?: string;
+    name?: string;
+    age?: number;
+}
+
+/** What an episode recorded about bleeding, for the episodes kept on the device */
+export interface EpisodeBleeding {
+    /** Cumulative blood loss from the ledger, voided readings left out */
+    bloodLossMl: number;
+    /** An E-MOTIVE bundle was started — it is only started for PPH */
+    emotiveStarted: boolean;
+}
+
+/** What earlier delivery episodes carry into a new one */
+export interface PriorEpisodeHistory {
+    hasPphHistory: boolean;
+    hasPriorCesarean: boolean;
+    /** Earlier episodes, most recent first */
+    episodes: LocalMaternalProfile[];
+}
+
+/** Ages a year apart still match — the birthday may fall between episodes */
+const AGE_TOLERANCE_YEARS = 1;
+
+/** Blood loss that makes a delivery a PPH (WHO), as in assessBloodLoss */
+const PPH_THRESHOLD_ML = 500;
+
+// ── Normalizing ──────────────────────────────────────────────
+
+/** Hospital numbers compare without case, spaces or punctuation: "mrn-0042" is "MRN0042" */
+export function normalizePatientNumber(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** Names compare without accents, case or extra whitespace */
+export function normalizePatientName(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\s]/gu, '')
+        .split(/\s+/)
+        .filter(Boolean)
+        .join(' ');
+}
+
+/** Birth year from the age given at a date */
+export function estimateBirthYear(age: number, at: Date = new Date()): number {
+    return at.getFullYear() - age;
+}
+
+// ── Matching ─────────────────────────────────────────────────
+
+/**
+ * Known patients who may be the one being registered. A hospital number
+ * match is listed before a name-and-age match; a patient is listed once.
+ */
+export function findPatientMatches(
+    patients: LocalPatient[],
+    lookup: PatientLookup,
+    now: Date = new Date()
+): PatientMatch[] {
+    const number = lookup.patientNumber ? normalizePatientNumber(lookup.patientNumber) : '';
+    const name = lookup.name ? normalizePatientName(lookup.name) : '';
+    const birthYear = lookup.age ? estimateBirthYear(lookup.age, now) : null;
+
+    const byNumber: PatientMatch[] = [];
+    const byNameAge: PatientMatch[] = [];
+
+    for (const patient of patients) {
+        if (number && patient.patient_number && normalizePatientNumber(patient.patient_number) === number) {
+            byNumber.push({ patient, reason: 'patient_number' });
+        } else if (
+            name && birthYear !== null
+            && patient.full_name && normalizePatientName(patient.full_name) === name
+            && patient.birth_year != null && Math.abs(patient.birth_year - birthYear) <= AGE_TOLERANCE_YEARS
+        ) {
+            byNameAge.push({ patient, reason: 'name_age' });
+        }
+    }
+
+    return [...byNumber, ...byNameAge];
+}
+
+// ── History ──────────────────────────────────────────────────
+
+/**
+ * Whether an earlier delivery was a PPH: it closed as one, its blood loss
+ * reached the PPH threshold, or it was referred out of an E-MOTIVE bundle.
+ */
+export function hadPph(episode: LocalMaternalProfile, bleeding?: EpisodeBleeding): boolean {
+    if (episode.outcome === 'pph_resolved') return true;
+    if (!bleeding) return false;
+    return bleeding.bloodLossMl >= PPH_THRESHOLD_ML
+        || (episode.outcome === 'referred' && bleeding.emotiveStarted);
+}
+
+/**
+ * History from a patient's earlier episodes. PPH counts when an earlier
+ * delivery was one (see hadPph) or already recorded a PPH history; blood
+ * loss is only known for episodes in `bleeding`, keyed by local_id.
+ * Delivery mode is not recorded on an episode, so a prior cesarean only
+ * carries forward once it has been recorded as one.
+ */
+export function priorEpisodeHistory(
+    episodes: LocalMaternalProfile[],
+    bleeding: Record<string, EpisodeBleeding> = {}
+): PriorEpisodeHistory {
+    const sorted = [...episodes].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return {
+        hasPphHistory: sorted.some(e => hadPph(e, bleeding[e.local_id]) || e.has_pph_history || e.has_severe_pph_history),
+        hasPriorCesarean: sorted.some(e => e.has_prior_cesarean),
+        episodes: sorted,
+    };
+}
@@ -2,19 +2,32 @@
  * PDF Case Report Generator
  *
  * Builds an HTML template from clinical data and generates/shares a PDF
- * using expo-print and expo-sharing.
+ * using expo-print and expo-sharing. The vitals trend chart is inlined as
+ * SVG so the report renders without network access.
  */
 
 import { LocalCaseEvent, LocalEmotiveChecklist, LocalMaternalProfile, LocalVitalSign } from '@/lib/clinical-db';
+import { formatMeows } from '@/lib/meows';
+import { PreparednessStatus } from '@/lib/preparedness';
 import { RISK_LABELS, RiskLevel } from '@/lib/risk-calculator';
+import { DEFAULT_THRESHOLD_SET, ShockThreshold } from '@/lib/shock-index';
+import { getVitalChanges, isVoided } from '@/lib/vital-amendments';
+import { buildVitalsChartData, buildVitalsChartSVG } from '@/lib/vitals-chart';
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 
 export interface CaseReportData {
     profile: LocalMaternalProfile & { riskResult?: { level: string; score: number; factors: { label: string; category: string }[] } };
-    vitalSigns: (LocalVitalSign & { shockResult?: { value: number; level: string; label: string } })[];
+    vitalSigns: (LocalVitalSign & {
+        shockResult?: { value: number; level: string; label: string };
+        meowsResult?: { red: number; yellow: number };
+    })[];
     emotiveChecklist: LocalEmotiveChecklist | null;
     caseEvents: LocalCaseEvent[];
+    /** Facility shock index thresholds for the chart bands — defaults if omitted */
+    thresholds?: ShockThreshold[];
+    /** Risk-driven preparedness items with completion times */
+    preparedness?: PreparednessStatus[];
 }
 
 const EMOTIVE_STEPS = [
@@ -51,6 +64,10 @@ function formatTime(iso: string): string {
     } catch { return '—'; }
 }
 
+function escapeHtml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 function formatDateTime(iso: string): string {
     try {
         return new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
@@ -81,11 +98,30 @@ export function buildCaseReportHTML(data: CaseReportData): string {
             </tr>`;
     }).join('');
 
-    // Vitals rows
+    // Preparedness rows
+    const preparedness = data.preparedness ?? [];
+    const preparednessRows = preparedness.map(p => `
+            <tr>
+                <td>${escapeHtml(p.label)}</td>
+                <td>${escapeHtml(p.reasons.join(', '))}</td>
+                <td style="text-align:center;color:${p.completedAt ? '#2E7D32' : '#9CA3AF'}">${p.completedAt ? 'Yes' : 'No'}</td>
+                <td>${p.completedAt ? formatDateTime(p.completedAt) : '—'}</td>
+            </tr>`
+    ).join('');
+
+    // Vitals rows — voided readings struck through, amended ones followed by the originals
     const vitalsRows = vitalSigns.map(v => {
-        const siColor = v.shockResult ? getSIColor(v.shockResult.level) : '#6B7280';
+        const voided = isVoided(v);
+        const siColor = v.shockResult && !voided ? getSIColor(v.shockResult.level) : '#6B7280';
+        const changes = getVitalChanges(v);
+        const amendmentRow = v.amendment_status
+            ? `
+            <tr class="amendment">
+                <td colspan="9">${voided ? 'Voided' : 'Amended'}${v.amended_at ? ` ${formatTime(v.amended_at)}` : ''}: ${escapeHtml(v.amendment_reason ?? '')}${changes.map(c => ` &middot; ${c.label} <s>${c.original ?? '—'}</s> &rarr; ${c.current ?? '—'}`).join('')}</td>
+            </tr>`
+            : '';
         return `
-            <tr>
+            <tr${voided ? ' class="voided"' : ''}>
                 <td>${formatTime(v.recorded_at)}</td>
                 <td>${v.heart_rate ?? '—'}</td>
                 <td>${v.systolic_bp && v.diastolic_bp ? `${v.systolic_bp}/${v.diastolic_bp}` : '—'}</td>
@@ -94,9 +130,19 @@ export function buildCaseReportHTML(data: CaseReportData): string {
                 <td>${v.spo2 != null ? `${v.spo2}%` : '—'}</td>
                 <td>${v.estimated_blood_loss != null ? `${v.estimated_blood_loss}` : '—'}</td>
                 <td style="color:${siColor};font-weight:600">${v.shock_index?.toFixed(1) ?? '—'}</td>
-            </tr>`;
+                <td>${v.meowsResult ? formatMeows(v.meowsResult.red, v.meowsResult.yellow) : '—'}</td>
+            </tr>${amendmentRow}`;
     }).join('');
 
+    // Vitals trend chart
+    const chartSvg = vitalSigns.length > 0
+        ? buildVitalsChartSVG(buildVitalsChartData(vitalSigns, {
+            deliveryTime: profile.delivery_time,
+            emotive: emotiveChecklist,
+            thresholds: data.thresholds ?? DEFAULT_THRESHOLD_SET.thresholds,
+        }))
+        : '';
+
     // Events rows
     const eventRows = caseEvents.slice().reverse().map(e => `
         <tr>
@@ -131,6 +177,8 @@ export function buildCaseReportHTML(data: CaseReportData): string {
     .demo-grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; margin-bottom: 12px; }
     .demo-item label { font-size: 11px; color: #9CA3AF; text-transform: uppercase; }
     .demo-item span { display: block; font-weight: 600; font-size: 14px; }
+    tr.voided td { text-decoration: line-through; color: #9CA3AF; }
+    tr.amendment td { font-size: 11px; color: #6B7280; padding-top: 0; }
     .footer { margin-top: 24px; padding-top: 12px; border-top: 1px solid #E5E7EB; font-size: 11px; color: #9CA3AF; text-align: center; }
 </style>
 </head>
@@ -156,15 +204,26 @@ export function buildCaseReportHTML(data: CaseReportData): string {
     </div>
     ${factorsHtml}
 
+    ${preparedness.length > 0 ? `
+    <h2>Preparedness (${preparedness.filter(p => p.completedAt).length}/${preparedness.length} done)</h2>
+    <table>
+        <thead><tr><th>Item</th><th>Reason</th><th>Done</th><th>Completed</th></tr></thead>
+        <tbody>${preparednessRows}</tbody>
+    </table>` : ''}
+
     <h2>E-MOTIVE Bundle</h2>
     <table>
         <thead><tr><th></th><th>Step</th><th>Done</th><th>Time</th><th>Details</th></tr></thead>
         <tbody>${emotiveRows}</tbody>
     </table>
 
+    ${chartSvg ? `
+    <h2>Vitals Trend (${profile.delivery_time ? 'minutes since delivery' : 'minutes since first reading'})</h2>
+    ${chartSvg}` : ''}
+
     <h2>Vital Signs (${vitalSigns.length} recordings)</h2>
     <table>
-        <thead><tr><th>Time</th><th>HR</th><th>BP</th><th>Temp</th><th>RR</th><th>SpO2</th><th>EBL</th><th>SI</th></tr></thead>
+        <thead><tr><th>Time</th><th>HR</th><th>BP</th><th>Temp</th><th>RR</th><th>SpO2</th><th>EBL</th><th>SI</th><th>MEOWS</th></tr></thead>
         <tbody>${vitalsRows}</tbody>
     </table>
     ${peakBloodLoss > 0 ? `<p style="text-align:right;font-weight:600;color:${peakBloodLoss >= 500 ? '#DC2626' : '#1F2937'}">Peak Blood Loss: ${peakBloodLoss} mL</p>` : ''}
@@ -0,0 +1,149 @@
+/**
+ * Risk-driven Preparedness Checklist
+ *
+ * Turns a risk assessment into actions to complete before delivery.
+ * Each item is required at certain risk levels, or when particular risk
+ * factors (RiskRule ids from the risk calculator) are present. Only
+ * completions are stored, per maternal profile; the list itself is
+ * rebuilt from the current risk so a reassessment adds or drops items.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import { RiskFactor, RiskLevel } from './risk-calculator';
+
+export interface PreparednessItem {
+    id: string;
+    label: string;
+    description: string;
+    /** Required at these risk levels… */
+    levels?: RiskLevel[];
+    /** …or when any of these risk factors is present */
+    factors?: string[];
+}
+
+export interface RequiredPreparednessItem extends PreparednessItem {
+    /** Why the item is on the list — the risk level and/or factor labels */
+    reasons: string[];
+}
+
+/** Stored completion — LocalPreparednessCheck satisfies it */
+export interface PreparednessCompletion {
+    item_id: string;
+    completed_at?: string | null;
+    completed_by?: string | null;
+}
+
+export interface PreparednessStatus extends RequiredPreparednessItem {
+    completedAt: string | null;
+    completedBy: string | null;
+}
+
+// ── Items ────────────────────────────────────────────────────
+
+export const PREPAREDNESS_ITEMS: PreparednessItem[] = [
+    {
+        id: 'group_crossmatch',
+        label: 'Group & crossmatch',
+        description: 'Crossmatch 2 units of red cells',
+        levels: ['high'],
+    },
+    {
+        id: 'group_screen',
+        label: 'Group & screen',
+        description: 'Blood group and antibody screen on file',
+        levels: ['medium'],
+    },
+    {
+        id: 'large_bore_iv',
+        label: 'Large-bore IV access',
+        description: 'Two 16–18G cannulas sited',
+        levels: ['high'],
+    },
+    {
+        id: 'iv_access',
+        label: 'IV access',
+        description: 'One 16–18G cannula sited',
+        levels: ['medium'],
+    },
+    {
+        id: 'oxytocin_ready',
+        label: 'Oxytocin drawn up',
+        description: '10 IU ready for the third stage',
+        levels: ['medium', 'high'],
+    },
+    {
+        id: 'txa_available',
+        label: 'TXA available',
+        description: 'Tranexamic acid 1 g on hand',
+        levels: ['high'],
+    },
+    {
+        id: 'senior_informed',
+        label: 'Senior clinician informed',
+        description: 'Senior midwife or obstetrician aware of the plan',
+        levels: ['high'],
+    },
+    {
+        id: 'blood_bank_notified',
+        label: 'Blood bank notified',
+        description: 'Massive transfusion may be needed',
+        factors: ['placenta_accreta', 'placenta_previa', 'coagulopathy', 'active_bleeding'],
+    },
+    {
+        id: 'anesthesia_informed',
+        label: 'Anesthesia informed',
+        description: 'Anesthetist aware before delivery',
+        factors: ['placenta_accreta', 'morbid_obesity'],
+    },
+    {
+        id: 'hb_reviewed',
+        label: 'Hemoglobin reviewed',
+        description: 'Recent Hb result checked and anemia treated',
+        factors: ['anemia', 'severe_anemia'],
+    },
+];
+
+// ── Checklist ────────────────────────────────────────────────
+
+export function buildPreparednessChecklist(risk: {
+    level: RiskLevel;
+    factors: Pick<RiskFactor, 'id' | 'label'>[];
+}): RequiredPreparednessItem[] {
+    const result: RequiredPreparednessItem[] = [];
+
+    for (const item of PREPAREDNESS_ITEMS) {
+        const reasons: string[] = [];
+        if (item.levels?.includes(risk.level)) {
+            reasons.push(`${risk.level.toUpperCase()} risk`);
+        }
+        for (const factor of risk.factors) {
+            if (item.factors?.includes(factor.id)) reasons.push(factor.label);
+        }
+        if (reasons.length > 0) result.push({ ...item, reasons });
+    }
+
+    return result;
+}
+
+/**
+ * Local id of a case's check for an item. Derived rather than random, so
+ * devices ticking the same item offline address one row — the server
+ * allows a single check per case and item.
+ */
+export function preparednessCheckLocalId(profileLocalId: string, itemId: string): string {
+    return `${profileLocalId}:${itemId}`;
+}
+
+/** Required items with their completion state — unticked items have completedAt null */
+export function getPreparednessStatus(
+    items: RequiredPreparednessItem[],
+    completions: PreparednessCompletion[]
+): PreparednessStatus[] {
+    const byItem = new Map(completions.map(c => [c.item_id, c]));
+    return items.map(item => ({
+        ...item,
+        completedAt: byItem.get(item.id)?.completed_at ?? null,
+        completedBy: byItem.get(item.id)?.completed_by ?? null,
+    }));
+}
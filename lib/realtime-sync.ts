@@ -0,0 +1,103 @@
+/**
+ * Facility Realtime Feed
+ *
+ * Lets supervisors follow their facility's cases live. A Supabase Realtime
+ * channel listens for inserts and updates on the case tables; each burst of
+ * changes triggers one `onChange` run (an incremental pull), so live changes
+ * go through the same merge and conflict handling as any other pull. RLS
+ * limits what the channel delivers to rows the supervisor may read.
+ *
+ * While the socket can't be opened, or after it drops, the feed polls
+ * instead, and stops polling once the channel has reconnected.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export type RealtimeFeedStatus = 'live' | 'polling' | 'off';
+
+export const REALTIME_TABLES = ['maternal_profiles', 'vital_signs', 'case_events', 'emotive_checklists'];
+
+/** Changes arriving within this window are pulled together */
+export const REALTIME_DEBOUNCE_MS = 1_500;
+
+export const REALTIME_POLL_INTERVAL_MS = 60_000;
+
+/** Subscribe to a facility's case changes. Returns the unsubscribe function. */
+export function subscribeToFacilityChanges(
+    facilityId: string,
+    onChange: () => Promise<void>,
+    onStatus: (status: RealtimeFeedStatus) => void
+): () => void {
+    let closed = false;
+    let running = false;
+    let runAgain = false;
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    // One run at a time; changes that arrive mid-run get one more run after it
+    const run = async () => {
+        if (closed) return;
+        if (running) {
+            runAgain = true;
+            return;
+        }
+        running = true;
+        try {
+            await onChange();
+        } catch (error) {
+            console.warn('[Realtime] Applying facility changes failed:', error);
+        } finally {
+            running = false;
+        }
+        if (runAgain) {
+            runAgain = false;
+            run();
+        }
+    };
+
+    const schedule = () => {
+        if (debounceTimer) clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(run, REALTIME_DEBOUNCE_MS);
+    };
+
+    const startPolling = () => {
+        if (closed || pollTimer) return;
+        pollTimer = setInterval(run, REALTIME_POLL_INTERVAL_MS);
+        onStatus('polling');
+    };
+
+    const stopPolling = () => {
+        if (pollTimer) clearInterval(pollTimer);
+        pollTimer = null;
+    };
+
+    const channel = supabase.channel(`facility-cases:${facilityId}`);
+    for (const table of REALTIME_TABLES) {
+        // Only profiles carry facility_id; child rows are limited by RLS
+        const filter = table === 'maternal_profiles' ? { filter: `facility_id=eq.${facilityId}` } : {};
+        channel
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table, ...filter }, schedule)
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, ...filter }, schedule);
+    }
+
+    channel.subscribe((status, error) => {
+        if (closed) return;
+        if (status === 'SUBSCRIBED') {
+            stopPolling();
+            onStatus('live');
+            // Catch up on anything missed while the socket was down
+            run();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+            if (error) console.warn('[Realtime] Channel unavailable, polling instead:', error);
+            startPolling();
+        }
+    });
+
+    return () => {
+        closed = true;
+        if (debounceTimer) clearTimeout(debounceTimer);
+        stopPolling();
+        supabase.removeChannel(channel);
+        onStatus('off');
+    };
+}
@@ -5,17 +5,25 @@
  * based on the Association of Women's Health, Obstetric and
  * Neonatal Nurses (AWHONN) risk assessment model and WHO 2023 guidelines.
  *
+ * Risk factors and escalation rules are declared as data in versioned
+ * rule sets. Adding a factor means adding a rule (and its input field),
+ * not touching the calculation. Each profile stores the version it was
+ * assessed with, so a saved assessment always recalculates the same way.
+ *
  * Key rule: 2+ medium-risk factors auto-escalate to HIGH.
  */
 
 export type RiskLevel = 'low' | 'medium' | 'high';
 
+export type RiskCategory = 'medium' | 'high';
+
 export interface RiskFactor {
     id: string;
     label: string;
-    category: 'medium' | 'high';
+    category: RiskCategory;
     weight: number;
     description: string;
+    source: string;
 }
 
 export interface RiskResult {
@@ -23,6 +31,7 @@ export interface RiskResult {
     score: number;
     factors: RiskFactor[];
     summary: string;
+    ruleSetVersion: number;
 }
 
 export interface MaternalRiskInput {
@@ -36,6 +45,12 @@ export interface MaternalRiskInput {
     hasAnemia: boolean;           // Hct <30% / Hb <10
     hasPphHistory: boolean;       // 1 previous PPH
     hasIntraamnioticInfection: boolean;
+    hasPreeclampsia: boolean;
+    isInducedLabor: boolean;
+    hasProlongedLabor: boolean;   // >24 h
+    hasMacrosomia: boolean;       // EFW >4000 g
+    hasProlongedSecondStage: boolean;
+    hasOperativeDelivery: boolean; // vacuum, forceps or intrapartum cesarean
     hasSevereAnemia: boolean;     // Hb <8
     hasCoagulopathy: boolean;
     hasSeverePphHistory: boolean;  // >1 PPH or >1500mL or required transfusion
@@ -45,218 +60,442 @@ export interface MaternalRiskInput {
     hemoglobinLevel?: number;      // g/dL
 }
 
+export type RiskFlagField = {
+    [K in keyof MaternalRiskInput]-?: MaternalRiskInput[K] extends boolean ? K : never;
+}[keyof MaternalRiskInput];
+
+/** A single risk factor, declared as data */
+export interface RiskRule {
+    id: string;
+    /** Input field the factor is recorded in */
+    field: keyof MaternalRiskInput;
+    predicate: (input: MaternalRiskInput) => boolean;
+    category: RiskCategory;
+    weight: number;
+    label: string;
+    description: string;
+    source: string;
+    /** Switch on the new-patient form — omitted for factors derived from numeric fields */
+    toggle?: { label: string; description: string };
+    /** Can emerge during labor — offered first on intrapartum reassessment */
+    intrapartum?: boolean;
+}
+
+/** First matching rule (in order) sets the level; no match is LOW */
+export interface EscalationRule {
+    id: string;
+    level: RiskLevel;
+    minHigh?: number;
+    minMedium?: number;
+    description: string;
+    source: string;
+    summary: (counts: { high: number; medium: number }) => string;
+}
+
+export interface RiskRuleSet {
+    version: number;
+    rules: RiskRule[];
+    escalation: EscalationRule[];
+}
+
+// ── Sources ──────────────────────────────────────────────────
+
+const AWHONN = 'AWHONN PPH Risk Assessment Tool (2015)';
+const WHO = 'WHO Recommendations on PPH (2023)';
+
+const flag = (field: RiskFlagField) => (input: MaternalRiskInput) => !!input[field];
+
 // ── Risk Factor Definitions ──────────────────────────────────
 
-const MEDIUM_RISK_FACTORS: Omit<RiskFactor, 'id'>[] = [
+const V1_RULES: RiskRule[] = [
+    // Medium
     {
-        label: 'Advanced or Young Maternal Age',
+        id: 'maternal_age',
+        field: 'age',
+        predicate: i => i.age < 18 || i.age > 35,
         category: 'medium',
         weight: 1,
+        label: 'Advanced or Young Maternal Age',
         description: 'Age <18 or >35 years',
+        source: WHO,
     },
     {
-        label: 'Grand Multiparity',
+        id: 'grand_multiparity',
+        field: 'parity',
+        predicate: i => i.parity > 4,
         category: 'medium',
         weight: 1,
+        label: 'Grand Multiparity',
         description: 'More than 4 previous births',
+        source: AWHONN,
     },
     {
-        label: 'Preterm or Post-term',
+        id: 'preterm_post_term',
+        field: 'gestationalAgeWeeks',
+        predicate: i => i.gestationalAgeWeeks !== undefined
+            && (i.gestationalAgeWeeks < 37 || i.gestationalAgeWeeks > 41),
         category: 'medium',
         weight: 1,
+        label: 'Preterm or Post-term',
         description: 'Gestational age <37 or >41 weeks',
+        source: WHO,
     },
     {
-        label: 'Multiple Gestation',
+        id: 'multiple_gestation',
+        field: 'isMultipleGestation',
+        predicate: flag('isMultipleGestation'),
         category: 'medium',
         weight: 1,
+        label: 'Multiple Gestation',
         description: 'Twin, triplet, or higher-order pregnancy',
+        source: AWHONN,
+        toggle: { label: 'Multiple Gestation', description: 'Twin, triplet, or higher' },
     },
     {
-        label: 'Prior Cesarean Section',
+        id: 'prior_cesarean',
+        field: 'hasPriorCesarean',
+        predicate: flag('hasPriorCesarean'),
         category: 'medium',
         weight: 1,
+        label: 'Prior Cesarean Section',
         description: 'Previous uterine incision or cesarean birth',
+        source: AWHONN,
+        toggle: { label: 'Prior Cesarean Section', description: 'Previous uterine incision' },
     },
     {
-        label: 'Placenta Previa',
+        id: 'placenta_previa',
+        field: 'hasPlacentaPrevia',
+        predicate: flag('hasPlacentaPrevia'),
         category: 'medium',
         weight: 1,
+        label: 'Placenta Previa',
         description: 'Low-lying placenta or placenta previa',
+        source: AWHONN,
+        toggle: { label: 'Placenta Previa', description: 'Low-lying placenta' },
     },
     {
-        label: 'Large Uterine Fibroids',
+        id: 'large_fibroids',
+        field: 'hasLargeFibroids',
+        predicate: flag('hasLargeFibroids'),
         category: 'medium',
         weight: 1,
+        label: 'Large Uterine Fibroids',
         description: 'Fibroids that may impair uterine contraction',
+        source: AWHONN,
+        toggle: { label: 'Large Fibroids', description: 'May impair uterine contraction' },
     },
     {
-        label: 'Anemia',
+        id: 'anemia',
+        field: 'hasAnemia',
+        // Also detected from the hemoglobin level when not ticked
+        predicate: i => i.hasAnemia || (
+            !i.hasSevereAnemia
+            && i.hemoglobinLevel !== undefined
+            && i.hemoglobinLevel < 10
+            && i.hemoglobinLevel >= 8
+        ),
         category: 'medium',
         weight: 1,
+        label: 'Anemia',
         description: 'Hemoglobin <10 g/dL or Hematocrit <30%',
+        source: AWHONN,
+        toggle: { label: 'Anemia (Hb <10)', description: 'Hematocrit <30%' },
     },
     {
-        label: 'Previous PPH',
+        id: 'pph_history',
+        field: 'hasPphHistory',
+        predicate: flag('hasPphHistory'),
         category: 'medium',
         weight: 1,
+        label: 'Previous PPH',
         description: 'One prior episode of postpartum hemorrhage',
+        source: AWHONN,
+        toggle: { label: 'Previous PPH', description: 'One prior episode' },
     },
     {
-        label: 'Intraamniotic Infection',
+        id: 'intraamniotic_infection',
+        field: 'hasIntraamnioticInfection',
+        predicate: flag('hasIntraamnioticInfection'),
         category: 'medium',
         weight: 1,
+        label: 'Intraamniotic Infection',
         description: 'Chorioamnionitis or intraamniotic infection',
+        source: AWHONN,
+        toggle: { label: 'Intraamniotic Infection', description: 'Chorioamnionitis' },
+        intrapartum: true,
     },
-];
 
-const HIGH_RISK_FACTORS: Omit<RiskFactor, 'id'>[] = [
+    // High
     {
-        label: 'Active Bleeding',
+        id: 'active_bleeding',
+        field: 'hasActiveBleeding',
+        predicate: flag('hasActiveBleeding'),
         category: 'high',
         weight: 3,
+        label: 'Active Bleeding',
         description: 'Suspected abruption or active bleeding beyond bloody show',
+        source: AWHONN,
+        toggle: { label: 'Active Bleeding', description: 'Beyond bloody show' },
+        intrapartum: true,
     },
     {
-        label: 'Placenta Accreta Spectrum',
+        id: 'placenta_accreta',
+        field: 'hasPlacentaAccreta',
+        predicate: flag('hasPlacentaAccreta'),
         category: 'high',
         weight: 3,
+        label: 'Placenta Accreta Spectrum',
         description: 'Suspected placenta accreta, increta, or percreta',
+        source: AWHONN,
+        toggle: { label: 'Placenta Accreta', description: 'Accreta, increta, or percreta' },
     },
     {
-        label: 'Known Coagulopathy',
+        id: 'coagulopathy',
+        field: 'hasCoagulopathy',
+        predicate: flag('hasCoagulopathy'),
         category: 'high',
         weight: 3,
+        label: 'Known Coagulopathy',
         description: 'Diagnosed bleeding disorder or coagulation abnormality',
+        source: AWHONN,
+        toggle: { label: 'Known Coagulopathy', description: 'Bleeding disorder' },
     },
     {
-        label: 'Recurrent / Severe PPH History',
+        id: 'severe_pph_history',
+        field: 'hasSeverePphHistory',
+        predicate: flag('hasSeverePphHistory'),
         category: 'high',
         weight: 3,
+        label: 'Recurrent / Severe PPH History',
         description: 'More than 1 previous PPH, or prior PPH >1500mL, or required transfusion',
+        source: AWHONN,
+        toggle: { label: 'Severe PPH History', description: '>1 PPH or >1500mL or transfusion' },
     },
     {
-        label: 'Severe Anemia',
+        id: 'severe_anemia',
+        field: 'hasSevereAnemia',
+        // Also detected from the hemoglobin level when not ticked
+        predicate: i => i.hasSevereAnemia || (i.hemoglobinLevel !== undefined && i.hemoglobinLevel < 8),
         category: 'high',
         weight: 3,
+        label: 'Severe Anemia',
         description: 'Hemoglobin <8 g/dL',
+        source: WHO,
+        toggle: { label: 'Severe Anemia (Hb <8)', description: 'Critical hemoglobin level' },
     },
     {
-        label: 'Morbid Obesity',
+        id: 'morbid_obesity',
+        field: 'hasMorbidObesity',
+        predicate: flag('hasMorbidObesity'),
         category: 'high',
         weight: 2,
+        label: 'Morbid Obesity',
         description: 'BMI ≥40 kg/m², which increases surgical and hemorrhage risk',
+        source: AWHONN,
+        toggle: { label: 'Morbid Obesity', description: 'BMI ≥40' },
     },
 ];
 
-// ── Risk Calculation ─────────────────────────────────────────
+const V2_ADDED_RULES: RiskRule[] = [
+    {
+        id: 'preeclampsia',
+        field: 'hasPreeclampsia',
+        predicate: flag('hasPreeclampsia'),
+        category: 'medium',
+        weight: 1,
+        label: 'Pre-eclampsia',
+        description: 'Pre-eclampsia or gestational hypertension',
+        source: WHO,
+        toggle: { label: 'Pre-eclampsia', description: 'Or gestational hypertension' },
+    },
+    {
+        id: 'induced_labor',
+        field: 'isInducedLabor',
+        predicate: flag('isInducedLabor'),
+        category: 'medium',
+        weight: 1,
+        label: 'Induced Labor',
+        description: 'Labor induced or augmented with oxytocin',
+        source: AWHONN,
+        toggle: { label: 'Induced Labor', description: 'Induction or oxytocin augmentation' },
+        intrapartum: true,
+    },
+    {
+        id: 'prolonged_labor',
+        field: 'hasProlongedLabor',
+        predicate: flag('hasProlongedLabor'),
+        category: 'medium',
+        weight: 1,
+        label: 'Prolonged Labor',
+        description: 'Labor lasting more than 24 hours',
+        source: AWHONN,
+        toggle: { label: 'Prolonged Labor', description: 'More than 24 hours' },
+        intrapartum: true,
+    },
+    {
+        id: 'macrosomia',
+        field: 'hasMacrosomia',
+        predicate: flag('hasMacrosomia'),
+        category: 'medium',
+        weight: 1,
+        label: 'Fetal Macrosomia',
+        description: 'Estimated fetal weight >4000 g',
+        source: AWHONN,
+        toggle: { label: 'Macrosomia', description: 'Estimated fetal weight >4000 g' },
+    },
+];
 
-export function calculateRisk(input: MaternalRiskInput): RiskResult {
-    const detectedFactors: RiskFactor[] = [];
-    let factorIndex = 0;
-
-    // Check medium-risk factors
-    const mediumChecks: [boolean, number][] = [
-        [input.age < 18 || input.age > 35, 0],
-        [input.parity > 4, 1],
-        [
-            input.gestationalAgeWeeks !== undefined &&
-            (input.gestationalAgeWeeks < 37 || input.gestationalAgeWeeks > 41),
-            2,
-        ],
-        [input.isMultipleGestation, 3],
-        [input.hasPriorCesarean, 4],
-        [input.hasPlacentaPrevia, 5],
-        [input.hasLargeFibroids, 6],
-        [input.hasAnemia, 7],
-        [input.hasPphHistory, 8],
-        [input.hasIntraamnioticInfection, 9],
-    ];
-
-    for (const [isPresent, idx] of mediumChecks) {
-        if (isPresent) {
-            detectedFactors.push({
-                ...MEDIUM_RISK_FACTORS[idx],
-                id: `medium_${factorIndex++}`,
-            });
-        }
-    }
+const V3_ADDED_RULES: RiskRule[] = [
+    {
+        id: 'prolonged_second_stage',
+        field: 'hasProlongedSecondStage',
+        predicate: flag('hasProlongedSecondStage'),
+        category: 'medium',
+        weight: 1,
+        label: 'Prolonged Second Stage',
+        description: 'Second stage >3 h (nulliparous) or >2 h (multiparous)',
+        source: WHO,
+        toggle: { label: 'Prolonged Second Stage', description: '>3 h nulliparous, >2 h multiparous' },
+        intrapartum: true,
+    },
+    {
+        id: 'operative_delivery',
+        field: 'hasOperativeDelivery',
+        predicate: flag('hasOperativeDelivery'),
+        category: 'medium',
+        weight: 1,
+        label: 'Operative Delivery',
+        description: 'Vacuum or forceps delivery, or cesarean during labor',
+        source: AWHONN,
+        toggle: { label: 'Operative Delivery', description: 'Vacuum, forceps or intrapartum cesarean' },
+        intrapartum: true,
+    },
+];
 
-    // Auto-detect anemia from hemoglobin level
-    if (
-        !input.hasAnemia &&
-        !input.hasSevereAnemia &&
-        input.hemoglobinLevel !== undefined &&
-        input.hemoglobinLevel < 10 &&
-        input.hemoglobinLevel >= 8
-    ) {
-        detectedFactors.push({
-            ...MEDIUM_RISK_FACTORS[7], // Anemia
-            id: `medium_${factorIndex++}`,
-        });
-    }
+// ── Escalation Rules ─────────────────────────────────────────
 
-    // Check high-risk factors
-    const highChecks: [boolean, number][] = [
-        [input.hasActiveBleeding, 0],
-        [input.hasPlacentaAccreta, 1],
-        [input.hasCoagulopathy, 2],
-        [input.hasSeverePphHistory, 3],
-        [input.hasSevereAnemia, 4],
-        [input.hasMorbidObesity, 5],
-    ];
-
-    for (const [isPresent, idx] of highChecks) {
-        if (isPresent) {
-            detectedFactors.push({
-                ...HIGH_RISK_FACTORS[idx],
-                id: `high_${factorIndex++}`,
-            });
-        }
-    }
+const AWHONN_ESCALATION: EscalationRule[] = [
+    {
+        id: 'any_high_factor',
+        level: 'high',
+        minHigh: 1,
+        description: 'Any high-risk factor',
+        source: AWHONN,
+        summary: c => `HIGH risk — ${c.high} high-risk factor${c.high > 1 ? 's' : ''} detected`,
+    },
+    {
+        id: 'multiple_medium_factors',
+        level: 'high',
+        minMedium: 2,
+        description: '2 or more medium-risk factors auto-escalate to HIGH',
+        source: AWHONN,
+        summary: c => `HIGH risk — ${c.medium} medium-risk factors (AWHONN auto-escalation)`,
+    },
+    {
+        id: 'single_medium_factor',
+        level: 'medium',
+        minMedium: 1,
+        description: 'One medium-risk factor',
+        source: AWHONN,
+        summary: () => 'MEDIUM risk — 1 risk factor identified',
+    },
+];
 
-    // Auto-detect severe anemia from hemoglobin level
-    if (
-        !input.hasSevereAnemia &&
-        input.hemoglobinLevel !== undefined &&
-        input.hemoglobinLevel < 8
-    ) {
-        detectedFactors.push({
-            ...HIGH_RISK_FACTORS[4], // Severe anemia
-            id: `high_${factorIndex++}`,
-        });
-    }
+// ── Rule Sets ────────────────────────────────────────────────
+
+export const RISK_RULESETS: RiskRuleSet[] = [
+    { version: 1, rules: V1_RULES, escalation: AWHONN_ESCALATION },
+    { version: 2, rules: [...V1_RULES, ...V2_ADDED_RULES], escalation: AWHONN_ESCALATION },
+    { version: 3, rules: [...V1_RULES, ...V2_ADDED_RULES, ...V3_ADDED_RULES], escalation: AWHONN_ESCALATION },
+];
+
+export const CURRENT_RISK_RULESET = RISK_RULESETS[RISK_RULESETS.length - 1];
+
+export const RISK_RULESET_VERSION = CURRENT_RISK_RULESET.version;
+
+/**
+ * Rule set a profile was assessed with. Profiles saved before versioning
+ * were assessed with v1; an unknown (newer) version falls back to current.
+ */
+export function getRiskRuleSet(version?: number | null): RiskRuleSet {
+    if (version === undefined || version === null) return RISK_RULESETS[0];
+    return RISK_RULESETS.find(s => s.version === version) ?? CURRENT_RISK_RULESET;
+}
+
+// ── Risk Calculation ─────────────────────────────────────────
+
+export function calculateRisk(
+    input: MaternalRiskInput,
+    ruleSet: RiskRuleSet = CURRENT_RISK_RULESET
+): RiskResult {
+    const detectedFactors: RiskFactor[] = ruleSet.rules
+        .filter(rule => rule.predicate(input))
+        .map(toFactor);
 
     // Calculate score
     const score = detectedFactors.reduce((sum, f) => sum + f.weight, 0);
 
     // Determine risk level
-    const highRiskCount = detectedFactors.filter(
-        (f) => f.category === 'high'
-    ).length;
-    const mediumRiskCount = detectedFactors.filter(
-        (f) => f.category === 'medium'
-    ).length;
-
-    let level: RiskLevel;
-    let summary: string;
-
-    if (highRiskCount > 0) {
-        level = 'high';
-        summary = `HIGH risk — ${highRiskCount} high-risk factor${highRiskCount > 1 ? 's' : ''} detected`;
-    } else if (mediumRiskCount >= 2) {
-        // AWHONN rule: 2+ medium-risk factors → auto-escalate to HIGH
-        level = 'high';
-        summary = `HIGH risk — ${mediumRiskCount} medium-risk factors (AWHONN auto-escalation)`;
-    } else if (mediumRiskCount === 1) {
-        level = 'medium';
-        summary = `MEDIUM risk — 1 risk factor identified`;
-    } else {
-        level = 'low';
-        summary = 'LOW risk — No significant risk factors identified';
+    const counts = {
+        high: detectedFactors.filter(f => f.category === 'high').length,
+        medium: detectedFactors.filter(f => f.category === 'medium').length,
+    };
+
+    const escalation = ruleSet.escalation.find(
+        rule => counts.high >= (rule.minHigh ?? 0) && counts.medium >= (rule.minMedium ?? 0)
+    );
+
+    return {
+        level: escalation?.level ?? 'low',
+        score,
+        factors: detectedFactors,
+        summary: escalation?.summary(counts) ?? 'LOW risk — No significant risk factors identified',
+        ruleSetVersion: ruleSet.version,
+    };
+}
+
+// ── Factor Snapshots ─────────────────────────────────────────
+
+/** Stored with each risk assessment so history reads the same if rules change */
+export type RiskFactorSnapshot = Pick<RiskFactor, 'id' | 'label' | 'category'>;
+
+export function snapshotFactors(factors: RiskFactor[]): RiskFactorSnapshot[] {
+    return factors.map(({ id, label, category }) => ({ id, label, category }));
+}
+
+/** Accepts the local JSON string or the JSONB array merged straight from Supabase */
+export function parseFactorSnapshot(raw: string | RiskFactorSnapshot[] | null | undefined): RiskFactorSnapshot[] {
+    if (!raw) return [];
+    if (typeof raw !== 'string') return raw;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return [];
     }
+}
 
-    return { level, score, factors: detectedFactors, summary };
+/** Factors present after a reassessment that were not before, and vice versa */
+export function diffRiskFactors(
+    before: Pick<RiskFactor, 'id' | 'label'>[],
+    after: Pick<RiskFactor, 'id' | 'label'>[]
+): { added: string[]; removed: string[] } {
+    const beforeIds = new Set(before.map(f => f.id));
+    const afterIds = new Set(after.map(f => f.id));
+    return {
+        added: after.filter(f => !beforeIds.has(f.id)).map(f => f.label),
+        removed: before.filter(f => !afterIds.has(f.id)).map(f => f.label),
+    };
+}
+
+function toFactor(rule: RiskRule): RiskFactor {
+    return {
+        id: rule.id,
+        label: rule.label,
+        category: rule.category,
+        weight: rule.weight,
+        description: rule.description,
+        source: rule.source,
+    };
 }
 
 // ── Risk Level Colors ────────────────────────────────────────
@@ -275,42 +514,25 @@ export const RISK_LABELS: Record<RiskLevel, string> = {
 
 // ── All Available Risk Factors (for UI toggles) ──────────────
 
-export function getAllRiskFactors(): {
-    medium: (RiskFactor & { fieldName: keyof MaternalRiskInput })[];
-    high: (RiskFactor & { fieldName: keyof MaternalRiskInput })[];
+export type RiskFactorOption = RiskFactor & {
+    fieldName: keyof MaternalRiskInput;
+    toggle?: RiskRule['toggle'];
+    intrapartum?: boolean;
+};
+
+export function getAllRiskFactors(ruleSet: RiskRuleSet = CURRENT_RISK_RULESET): {
+    medium: RiskFactorOption[];
+    high: RiskFactorOption[];
 } {
-    const mediumFields: (keyof MaternalRiskInput)[] = [
-        'age', // special handling — not a boolean
-        'parity', // special handling
-        'gestationalAgeWeeks', // special handling
-        'isMultipleGestation',
-        'hasPriorCesarean',
-        'hasPlacentaPrevia',
-        'hasLargeFibroids',
-        'hasAnemia',
-        'hasPphHistory',
-        'hasIntraamnioticInfection',
-    ];
-
-    const highFields: (keyof MaternalRiskInput)[] = [
-        'hasActiveBleeding',
-        'hasPlacentaAccreta',
-        'hasCoagulopathy',
-        'hasSeverePphHistory',
-        'hasSevereAnemia',
-        'hasMorbidObesity',
-    ];
+    const options = ruleSet.rules.map(rule => ({
+        ...toFactor(rule),
+        fieldName: rule.field,
+        toggle: rule.toggle,
+        intrapartum: rule.intrapartum,
+    }));
 
     return {
-        medium: MEDIUM_RISK_FACTORS.map((f, i) => ({
-            ...f,
-            id: `medium_${i}`,
-            fieldName: mediumFields[i],
-        })),
-        high: HIGH_RISK_FACTORS.map((f, i) => ({
-            ...f,
-            id: `high_${i}`,
-            fieldName: highFields[i],
-        })),
+        medium: options.filter(o => o.category === 'medium'),
+        high: options.filter(o => o.category === 'high'),
     };
 }
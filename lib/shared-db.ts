@@ -1,9 +1,21 @@
 /**
  * Web stub for shared-db — no SQLite on web.
- * Each consuming module has its own web fallback (localStorage-based).
+ * Each consuming module has its own web fallback; case records live in
+ * IndexedDB (lib/store-backend).
  */
+import { wipeLocalStorageStores } from '@/lib/clinical-db';
+import { deleteStoreDatabase } from '@/lib/store-backend';
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export type SharedDatabase = any;
 
 export const getSharedDB = async (): Promise<SharedDatabase> => null;
+
+/**
+ * No SQLite file or key on web — the case records in IndexedDB are deleted,
+ * and the queue, patients and other records kept in localStorage with them.
+ */
+export const wipeSharedDB = async (): Promise<void> => {
+    wipeLocalStorageStores();
+    await deleteStoreDatabase();
+};
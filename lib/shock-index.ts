@@ -10,6 +10,11 @@
  *   ≥ 1.1  → Alert (prepare for intervention)
  *   ≥ 1.4  → Critical (urgent intervention)
  *   ≥ 1.7  → Emergency (immediate action)
+ *
+ * These are the built-in defaults. Facilities can publish their own
+ * versioned threshold set (cut-offs, labels, and which levels sound the
+ * alarm / vibrate / prompt escalation); the active set is swapped in via
+ * setActiveThresholdSet() and every calculation below follows it.
  */
 
 import * as Haptics from 'expo-haptics';
@@ -26,9 +31,7 @@ export interface ShockResult {
     shouldPulse: boolean;
 }
 
-// ── Thresholds ───────────────────────────────────────────────
-
-const THRESHOLDS: {
+export interface ShockThreshold {
     min: number;
     level: ShockLevel;
     label: string;
@@ -36,7 +39,30 @@ const THRESHOLDS: {
     bgColor: string;
     description: string;
     shouldPulse: boolean;
-}[] = [
+}
+
+/** Which levels trigger each kind of response */
+export interface ShockAlarmPolicy {
+    audio: ShockLevel[];
+    haptic: ShockLevel[];
+    escalate: ShockLevel[];
+}
+
+export interface ShockThresholdSet {
+    id: string;
+    facility_id?: string;
+    version: number;
+    thresholds: ShockThreshold[];
+    policy: ShockAlarmPolicy;
+    created_by?: string;
+    created_at: string;
+}
+
+export const SHOCK_LEVELS: ShockLevel[] = ['normal', 'warning', 'alert', 'critical', 'emergency'];
+
+// ── Thresholds ───────────────────────────────────────────────
+
+const DEFAULT_THRESHOLDS: ShockThreshold[] = [
         {
             min: 1.7,
             level: 'emergency',
@@ -84,11 +110,56 @@ const THRESHOLDS: {
         },
     ];
 
+export const DEFAULT_THRESHOLD_SET: ShockThresholdSet = {
+    id: 'default',
+    version: 0,
+    thresholds: DEFAULT_THRESHOLDS,
+    policy: {
+        audio: ['critical', 'emergency'],
+        haptic: ['warning', 'alert', 'critical', 'emergency'],
+        escalate: ['critical', 'emergency'],
+    },
+    created_at: '1970-01-01T00:00:00.000Z',
+};
+
+let activeSet: ShockThresholdSet = DEFAULT_THRESHOLD_SET;
+
+/** Swap in a facility's threshold set (null restores the built-in defaults) */
+export function setActiveThresholdSet(set: ShockThresholdSet | null): void {
+    activeSet = set ?? DEFAULT_THRESHOLD_SET;
+}
+
+export function getActiveThresholdSet(): ShockThresholdSet {
+    return activeSet;
+}
+
+/**
+ * Check a threshold table before it is published.
+ * Returns an error message, or null when the table is usable.
+ */
+export function validateThresholds(thresholds: ShockThreshold[]): string | null {
+    const byLevel = new Map(thresholds.map(t => [t.level, t]));
+    for (const level of SHOCK_LEVELS) {
+        const t = byLevel.get(level);
+        if (!t) return `Missing threshold for ${level}`;
+        if (isNaN(t.min) || t.min < 0) return `Invalid cut-off for ${level}`;
+        if (!t.label.trim()) return `Missing label for ${level}`;
+    }
+    if (byLevel.get('normal')!.min !== 0) return 'Normal must start at 0';
+    for (let i = 1; i < SHOCK_LEVELS.length; i++) {
+        if (byLevel.get(SHOCK_LEVELS[i])!.min <= byLevel.get(SHOCK_LEVELS[i - 1])!.min) {
+            return `${byLevel.get(SHOCK_LEVELS[i])!.label} cut-off must be above ${byLevel.get(SHOCK_LEVELS[i - 1])!.label}`;
+        }
+    }
+    return null;
+}
+
 // ── Calculation ──────────────────────────────────────────────
 
 export function calculateShockIndex(
     heartRate: number,
-    systolicBp: number
+    systolicBp: number,
+    set: ShockThresholdSet = activeSet
 ): ShockResult {
     if (systolicBp <= 0) {
         return {
@@ -104,7 +175,8 @@ export function calculateShockIndex(
 
     const value = Math.round((heartRate / systolicBp) * 10) / 10; // 1 decimal
 
-    for (const threshold of THRESHOLDS) {
+    const thresholds = [...set.thresholds].sort((a, b) => b.min - a.min);
+    for (const threshold of thresholds) {
         if (value >= threshold.min) {
             return { value, ...threshold };
         }
@@ -122,22 +194,34 @@ export function calculateShockIndex(
     };
 }
 
+// ── Alarm Policy ─────────────────────────────────────────────
+
+export function shouldSoundAlarm(level: ShockLevel): boolean {
+    return activeSet.policy.audio.includes(level);
+}
+
+export function shouldEscalateShock(level: ShockLevel): boolean {
+    return activeSet.policy.escalate.includes(level);
+}
+
 // ── Audio Alarm ─────────────────────────────────────────────
 
 export async function triggerShockAlarm(level: ShockLevel): Promise<void> {
     const { playAlarm, stopAlarm } = await import('@/lib/audio/shock-alarm');
-    if (level === 'emergency') {
+    if (!shouldSoundAlarm(level)) {
+        await stopAlarm();
+    } else if (level === 'emergency') {
         await playAlarm('emergency');
-    } else if (level === 'critical') {
-        await playAlarm('critical');
     } else {
-        await stopAlarm();
+        // Only two alarm tones exist — any other alarming level uses the critical tone
+        await playAlarm('critical');
     }
 }
 
 // ── Haptic Feedback ──────────────────────────────────────────
 
 export function triggerShockHaptic(level: ShockLevel): void {
+    if (!activeSet.policy.haptic.includes(level)) return;
     switch (level) {
         case 'emergency':
         case 'critical':
@@ -162,7 +246,7 @@ export function formatShockIndex(value: number): string {
 }
 
 export function getShockDescription(level: ShockLevel): string {
-    const desc = THRESHOLDS.find((t) => t.level === level);
+    const desc = activeSet.thresholds.find((t) => t.level === level);
     return desc?.description ?? '';
 }
 
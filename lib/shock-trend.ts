@@ -0,0 +1,233 @@
+/**
+ * Vital Signs Trend Engine
+ *
+ * Detects haemodynamic deterioration across successive vital sign
+ * recordings, independent of the single-reading shock index thresholds.
+ * A patient drifting from SI 0.7 → 0.85 → 0.95 over 30 minutes is still
+ * "normal" on the latest reading but clearly trending towards shock.
+ *
+ * For each metric (SI, HR, SBP, cumulative EBL) a least-squares slope
+ * is fitted over the readings inside the trend window and compared with
+ * a per-hour rate-of-change limit.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export type TrendMetric = 'shock_index' | 'heart_rate' | 'systolic_bp' | 'estimated_blood_loss';
+
+/** Minimal reading shape — LocalVitalSign and VitalSign both satisfy it */
+export interface TrendReading {
+    recorded_at: string;
+    heart_rate?: number | null;
+    systolic_bp?: number | null;
+    shock_index?: number | null;
+    estimated_blood_loss?: number | null;
+}
+
+export interface TrendConfig {
+    /** Only readings within this many minutes of the latest reading are analysed */
+    windowMinutes: number;
+    /** Minimum number of readings (per metric) before a slope is trusted */
+    minReadings: number;
+    /** Rising SI per hour considered worsening */
+    siRisePerHour: number;
+    /** Minimum net SI rise across the window (filters rounding noise) */
+    siMinChange: number;
+    /** Rising heart rate (bpm per hour) considered worsening */
+    hrRisePerHour: number;
+    /** Falling systolic BP (mmHg per hour) considered worsening */
+    sbpDropPerHour: number;
+    /** Rising cumulative blood loss (mL per hour) considered worsening */
+    eblRisePerHour: number;
+    /** Number of worsening metrics that together flag deterioration */
+    minWorseningMetrics: number;
+}
+
+/** Trend windows a user can choose in Settings */
+export const TREND_WINDOW_OPTIONS_MINUTES = [30, 60, 120];
+
+export const DEFAULT_TREND_CONFIG: TrendConfig = {
+    windowMinutes: 60,
+    minReadings: 3,
+    siRisePerHour: 0.2,
+    siMinChange: 0.15,
+    hrRisePerHour: 15,
+    sbpDropPerHour: 15,
+    eblRisePerHour: 300,
+    minWorseningMetrics: 2,
+};
+
+export interface MetricTrend {
+    metric: TrendMetric;
+    label: string;
+    unit: string;
+    samples: number;
+    first: number;
+    last: number;
+    change: number;
+    slopePerHour: number;
+    isWorsening: boolean;
+}
+
+export interface TrendResult {
+    isDeteriorating: boolean;
+    metrics: MetricTrend[];
+    worsening: MetricTrend[];
+    readingCount: number;
+    windowStart: string | null;
+    windowEnd: string | null;
+    summary: string;
+}
+
+const METRIC_META: Record<TrendMetric, { label: string; unit: string }> = {
+    shock_index: { label: 'Shock Index', unit: '' },
+    heart_rate: { label: 'Heart Rate', unit: 'bpm' },
+    systolic_bp: { label: 'Systolic BP', unit: 'mmHg' },
+    estimated_blood_loss: { label: 'Blood Loss', unit: 'mL' },
+};
+
+// ── Analysis ─────────────────────────────────────────────────
+
+export function analyzeVitalsTrend(
+    readings: TrendReading[],
+    config: Partial<TrendConfig> = {}
+): TrendResult {
+    const cfg = { ...DEFAULT_TREND_CONFIG, ...config };
+
+    // Oldest first; drop anything without a parseable timestamp
+    const sorted = readings
+        .filter(r => !isNaN(new Date(r.recorded_at).getTime()))
+        .slice()
+        .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime());
+
+    if (sorted.length === 0) {
+        return emptyResult();
+    }
+
+    const windowEndMs = new Date(sorted[sorted.length - 1].recorded_at).getTime();
+    const windowStartMs = windowEndMs - cfg.windowMinutes * 60 * 1000;
+    const inWindow = sorted.filter(r => new Date(r.recorded_at).getTime() >= windowStartMs);
+
+    const metrics: MetricTrend[] = [];
+    const push = (metric: TrendMetric, points: [number, number][]) => {
+        const trend = buildMetricTrend(metric, points, cfg);
+        if (trend) metrics.push(trend);
+    };
+
+    push('shock_index', collect(inWindow, readShockIndex));
+    push('heart_rate', collect(inWindow, r => r.heart_rate));
+    push('systolic_bp', collect(inWindow, r => r.systolic_bp));
+    push('estimated_blood_loss', collect(inWindow, r => r.estimated_blood_loss));
+
+    const worsening = metrics.filter(m => m.isWorsening);
+    const siWorsening = worsening.some(m => m.metric === 'shock_index');
+    const isDeteriorating = siWorsening || worsening.length >= cfg.minWorseningMetrics;
+
+    return {
+        isDeteriorating,
+        metrics,
+        worsening,
+        readingCount: inWindow.length,
+        windowStart: inWindow[0].recorded_at,
+        windowEnd: inWindow[inWindow.length - 1].recorded_at,
+        summary: isDeteriorating
+            ? `Deteriorating — ${worsening.map(describeTrend).join(', ')}`
+            : 'Stable — no deteriorating trend detected',
+    };
+}
+
+export function describeTrend(trend: MetricTrend): string {
+    const fmt = (v: number) => trend.metric === 'shock_index' ? v.toFixed(2) : String(Math.round(v));
+    const unit = trend.unit ? ` ${trend.unit}` : '';
+    return `${trend.label} ${fmt(trend.first)} → ${fmt(trend.last)}${unit}`;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function emptyResult(): TrendResult {
+    return {
+        isDeteriorating: false,
+        metrics: [],
+        worsening: [],
+        readingCount: 0,
+        windowStart: null,
+        windowEnd: null,
+        summary: 'Not enough readings to assess trend',
+    };
+}
+
+/** Unrounded SI from HR/SBP when available — stored SI is rounded to 1 decimal */
+function readShockIndex(r: TrendReading): number | null | undefined {
+    if (r.heart_rate && r.systolic_bp && r.systolic_bp > 0) {
+        return r.heart_rate / r.systolic_bp;
+    }
+    return r.shock_index;
+}
+
+function collect(
+    readings: TrendReading[],
+    pick: (r: TrendReading) => number | null | undefined
+): [number, number][] {
+    const points: [number, number][] = [];
+    for (const r of readings) {
+        const value = pick(r);
+        if (value === null || value === undefined || isNaN(value)) continue;
+        const hours = new Date(r.recorded_at).getTime() / 3_600_000;
+        points.push([hours, value]);
+    }
+    return points;
+}
+
+/** Least-squares slope in units per hour */
+function slope(points: [number, number][]): number {
+    const n = points.length;
+    const meanX = points.reduce((s, [x]) => s + x, 0) / n;
+    const meanY = points.reduce((s, [, y]) => s + y, 0) / n;
+    let num = 0;
+    let den = 0;
+    for (const [x, y] of points) {
+        num += (x - meanX) * (y - meanY);
+        den += (x - meanX) ** 2;
+    }
+    return den === 0 ? 0 : num / den;
+}
+
+function buildMetricTrend(
+    metric: TrendMetric,
+    points: [number, number][],
+    cfg: TrendConfig
+): MetricTrend | null {
+    if (points.length < cfg.minReadings) return null;
+
+    const first = points[0][1];
+    const last = points[points.length - 1][1];
+    const change = last - first;
+    const slopePerHour = slope(points);
+
+    let isWorsening = false;
+    switch (metric) {
+        case 'shock_index':
+            isWorsening = slopePerHour >= cfg.siRisePerHour && change >= cfg.siMinChange;
+            break;
+        case 'heart_rate':
+            isWorsening = slopePerHour >= cfg.hrRisePerHour && change > 0;
+            break;
+        case 'systolic_bp':
+            isWorsening = slopePerHour <= -cfg.sbpDropPerHour && change < 0;
+            break;
+        case 'estimated_blood_loss':
+            isWorsening = slopePerHour >= cfg.eblRisePerHour && change > 0;
+            break;
+    }
+
+    return {
+        metric,
+        ...METRIC_META[metric],
+        samples: points.length,
+        first,
+        last,
+        change,
+        slopePerHour,
+        isWorsening,
+    };
+}
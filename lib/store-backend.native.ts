@@ -0,0 +1,111 @@
+/**
+ * Store backend for native (SQLite).
+ *
+ * Rows live in the shared database. Booleans are stored as 0/1 and
+ * structured values as JSON text. A put writes only the fields the row
+ * carries, and only those the table has a column for: fields it lacks (sync
+ * state on the training tables) are dropped rather than failing the
+ * statement, and columns the row leaves out keep their stored value — or
+ * their default on a new row. Full-text search goes through the table's
+ * FTS5 index (`<name>_fts`), kept current by triggers.
+ */
+import { toFtsQuery } from '@/lib/case-search';
+import type { StoreBackend, StoreRow, StoreTable, StoreWhere } from '@/lib/clinical-store';
+import { getSharedDB } from './shared-db';
+
+const _columns = new Map<string, string[]>();
+
+async function getColumns(table: string): Promise<string[]> {
+    const cached = _columns.get(table);
+    if (cached) return cached;
+
+    const db = await getSharedDB();
+    const info = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+    const columns = info.map(column => column.name);
+    _columns.set(table, columns);
+    return columns;
+}
+
+/** WHERE clause for the filter, or null when it can match nothing */
+function whereClause(where: StoreWhere): { sql: string; params: string[] } | null {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    for (const [column, values] of Object.entries(where)) {
+        if (values.length === 0) return null;
+        conditions.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+        params.push(...values);
+    }
+    return { sql: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function decodeRow(table: StoreTable, row: StoreRow): StoreRow {
+    const decoded = { ...row };
+    for (const column of table.booleans) decoded[column] = !!row[column];
+    for (const column of table.json) {
+        decoded[column] = row[column] ? JSON.parse(row[column]) : undefined;
+    }
+    return decoded;
+}
+
+function encodeValue(table: StoreTable, column: string, value: any) {
+    if (table.booleans.includes(column)) return value ? 1 : 0;
+    if (table.json.includes(column)) return value != null ? JSON.stringify(value) : null;
+    return value ?? null;
+}
+
+export const storeBackend: StoreBackend = {
+    get: async (table, localId) => {
+        const db = await getSharedDB();
+        const row = await db.getFirstAsync<StoreRow>(`SELECT * FROM ${table.name} WHERE local_id = ?`, [localId]);
+        return row ? decodeRow(table, row) : null;
+    },
+
+    select: async (table, where) => {
+        const clause = whereClause(where);
+        if (!clause) return [];
+        const db = await getSharedDB();
+        const rows = await db.getAllAsync<StoreRow>(`SELECT * FROM ${table.name}${clause.sql}`, clause.params);
+        return rows.map(row => decodeRow(table, row));
+    },
+
+    search: async (table, text, where) => {
+        const match = toFtsQuery(text);
+        const clause = whereClause(where);
+        if (!match || !clause) return [];
+        const db = await getSharedDB();
+        const fts = `${table.name}_fts`;
+        const conditions = clause.sql ? `${clause.sql} AND` : ' WHERE';
+        const rows = await db.getAllAsync<StoreRow>(
+            `SELECT * FROM ${table.name}${conditions} local_id IN (SELECT local_id FROM ${fts} WHERE ${fts} MATCH ?)`,
+            [...clause.params, match]
+        );
+        return rows.map(row => decodeRow(table, row));
+    },
+
+    put: async (table, row) => {
+        const columns = (await getColumns(table.name)).filter(column => column in row);
+        const changes = columns.filter(column => column !== 'local_id');
+        const db = await getSharedDB();
+
+        // Update first: an upsert would check NOT NULL columns a partial row leaves out
+        if (changes.length > 0) {
+            const result = await db.runAsync(
+                `UPDATE ${table.name} SET ${changes.map(column => `${column} = ?`).join(', ')} WHERE local_id = ?`,
+                [...changes.map(column => encodeValue(table, column, row[column])), row.local_id]
+            );
+            if (result.changes > 0) return;
+        }
+        await db.runAsync(
+            `INSERT INTO ${table.name} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+       ON CONFLICT(local_id) DO NOTHING`,
+            columns.map(column => encodeValue(table, column, row[column]))
+        );
+    },
+
+    delete: async (table, where) => {
+        const clause = whereClause(where);
+        if (!clause) return;
+        const db = await getSharedDB();
+        await db.runAsync(`DELETE FROM ${table.name}${clause.sql}`, clause.params);
+    },
+};
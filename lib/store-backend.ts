@@ -0,0 +1,194 @@
+/**
+ * Store backend for web (IndexedDB).
+ *
+ * Each table is an object store keyed by local_id in the `motivaid_store`
+ * database. Rows keep their JS types, so booleans and structured values need
+ * no encoding; a put merges the fields it carries into the stored row, as
+ * the native backend does. Full-text search scans the rows.
+ *
+ * Case records written by earlier builds to localStorage are moved into
+ * IndexedDB the first time the database is opened. Falls back to in-memory
+ * tables if IndexedDB is unavailable (e.g. some private browsing modes).
+ */
+import { matchesSearchText } from '@/lib/case-search';
+import type { StoreBackend, StoreRow, StoreWhere } from '@/lib/clinical-store';
+
+const DB_NAME = 'motivaid_store';
+const DB_VERSION = 1;
+
+/** Every store table, with the localStorage key earlier builds kept it under */
+const LEGACY_STORAGE_KEYS: Record<string, string> = {
+    maternal_profiles_local: 'motivaid_profiles',
+    vital_signs_local: 'motivaid_vitals',
+    emotive_checklists_local: 'motivaid_emotive_checklists',
+    case_events_local: 'motivaid_case_events',
+    blood_loss_entries_local: 'motivaid_blood_loss_entries',
+    risk_assessments_local: 'motivaid_risk_assessments',
+    preparedness_checks_local: 'motivaid_preparedness_checks',
+    maternal_profiles_training: 'motivaid_training_profiles',
+    vital_signs_training: 'motivaid_training_vitals',
+    emotive_checklists_training: 'motivaid_training_checklists',
+    case_events_training: 'motivaid_training_case_events',
+    blood_loss_entries_training: 'motivaid_training_blood_loss',
+    risk_assessments_training: 'motivaid_training_risk_assessments',
+    preparedness_checks_training: 'motivaid_training_preparedness',
+};
+
+const TABLE_NAMES = Object.keys(LEGACY_STORAGE_KEYS);
+
+// ── IndexedDB ────────────────────────────────────────────────
+
+let _dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/** In-memory tables, used only when IndexedDB is unavailable */
+const _memory = new Map<string, Map<string, StoreRow>>();
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    });
+}
+
+function readLegacyRows(key: string): StoreRow[] {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? (JSON.parse(raw) as [string, StoreRow][]).map(([, row]) => row) : [];
+    } catch {
+        return []; // ignore parse errors — nothing to move
+    }
+}
+
+/** Move rows an earlier build kept in localStorage; rows already in IndexedDB win */
+async function moveLegacyRows(db: IDBDatabase): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    const keys = TABLE_NAMES.filter(name => localStorage.getItem(LEGACY_STORAGE_KEYS[name]) !== null);
+    if (keys.length === 0) return;
+
+    const tx = db.transaction(keys, 'readwrite');
+    for (const name of keys) {
+        const store = tx.objectStore(name);
+        for (const row of readLegacyRows(LEGACY_STORAGE_KEYS[name])) {
+            if (!row?.local_id) continue;
+            store.add(row).onerror = (event) => {
+                event.preventDefault(); // already there — keep it and carry on
+                event.stopPropagation();
+            };
+        }
+    }
+    await done(tx);
+    for (const name of keys) localStorage.removeItem(LEGACY_STORAGE_KEYS[name]);
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (_dbPromise) return _dbPromise;
+    _dbPromise = (async () => {
+        if (typeof indexedDB === 'undefined') return null;
+        try {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                for (const name of TABLE_NAMES) {
+                    if (!req.result.objectStoreNames.contains(name)) {
+                        req.result.createObjectStore(name, { keyPath: 'local_id' });
+                    }
+                }
+            };
+            const db = await request(req);
+            await moveLegacyRows(db);
+            return db;
+        } catch (error) {
+            console.warn('[StoreBackend] IndexedDB unavailable, keeping records in memory:', error);
+            return null;
+        }
+    })();
+    return _dbPromise;
+}
+
+function memoryTable(name: string): Map<string, StoreRow> {
+    if (!_memory.has(name)) _memory.set(name, new Map());
+    return _memory.get(name)!;
+}
+
+async function allRows(name: string): Promise<StoreRow[]> {
+    const db = await openDatabase();
+    if (!db) return Array.from(memoryTable(name).values(), row => ({ ...row }));
+    return request(db.transaction(name).objectStore(name).getAll());
+}
+
+/**
+ * Delete every stored case record — on sign-out, with the rest of the
+ * on-device data. The next use opens a fresh, empty database.
+ */
+export async function deleteStoreDatabase(): Promise<void> {
+    const pending = _dbPromise;
+    _dbPromise = null;
+    _memory.clear();
+    (await pending)?.close();
+    if (typeof indexedDB !== 'undefined') await request(indexedDB.deleteDatabase(DB_NAME));
+}
+
+// ── Backend ──────────────────────────────────────────────────
+
+function matches(row: StoreRow, where: StoreWhere): boolean {
+    return Object.entries(where).every(([column, values]) => values.includes(row[column]));
+}
+
+export const storeBackend: StoreBackend = {
+    get: async (table, localId) => {
+        const db = await openDatabase();
+        if (!db) {
+            const row = memoryTable(table.name).get(localId);
+            return row ? { ...row } : null;
+        }
+        return (await request(db.transaction(table.name).objectStore(table.name).get(localId))) ?? null;
+    },
+
+    select: async (table, where) => {
+        return (await allRows(table.name)).filter(row => matches(row, where));
+    },
+
+    search: async (table, text, where) => {
+        return (await allRows(table.name))
+            .filter(row => matches(row, where) && matchesSearchText(table.text.map(column => row[column]), text));
+    },
+
+    put: async (table, row) => {
+        const db = await openDatabase();
+        if (!db) {
+            const rows = memoryTable(table.name);
+            rows.set(row.local_id, { ...rows.get(row.local_id), ...row });
+            return;
+        }
+        // Read and write in one transaction, so a concurrent put can't be lost in between
+        const tx = db.transaction(table.name, 'readwrite');
+        const store = tx.objectStore(table.name);
+        const existing: StoreRow | undefined = await request(store.get(row.local_id));
+        store.put({ ...existing, ...row });
+        await done(tx);
+    },
+
+    delete: async (table, where) => {
+        const db = await openDatabase();
+        if (!db) {
+            const rows = memoryTable(table.name);
+            for (const [localId, row] of rows.entries()) {
+                if (matches(row, where)) rows.delete(localId);
+            }
+            return;
+        }
+        const tx = db.transaction(table.name, 'readwrite');
+        const store = tx.objectStore(table.name);
+        for (const row of await request(store.getAll())) {
+            if (matches(row, where)) store.delete(row.local_id);
+        }
+        await done(tx);
+    },
+};
@@ -0,0 +1,119 @@
+/**
+ * Supabase Sync Backend
+ *
+ * The SyncBackend the app runs against: PostgREST queries under the
+ * signed-in user's RLS, plus the sync_case_bundle RPC for new cases.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { PROFILE_CHILD_TABLES } from '@/lib/sync-batch';
+import { CaseBundleResult, PullQuery, RemoteRow, SyncBackend } from '@/lib/sync-backend';
+import { getPullScopeMode, getPullWindowStart, PullScope } from '@/lib/sync-cursor';
+
+/** Profile columns case-record pulls embed — the join scopes them and supplies the profile's local_id */
+const PROFILE_EMBED = 'maternal_profiles!inner(local_id, facility_id, unit_id, created_by, updated_at)';
+
+/** PostgrestError plus the HTTP status, for lib/sync-retry */
+function withStatus(error: any, status: number) {
+    return Object.assign(error, { status });
+}
+
+/** Narrow a maternal_profiles query to the pull scope */
+function scopeProfiles(query: any, scope: PullScope, embedded = false): any {
+    const { userId, facilityId, unitId } = scope;
+    const column = (name: string) => (embedded ? `maternal_profiles.${name}` : name);
+
+    const windowStart = getPullWindowStart(scope);
+    if (windowStart) query = query.gte(column('updated_at'), windowStart);
+
+    const mode = getPullScopeMode(scope);
+    if (mode === 'facility') {
+        return query.eq(column('facility_id'), facilityId);
+    }
+    if (mode === 'unit') {
+        const filter = `unit_id.eq.${unitId},created_by.eq.${userId || ''}`;
+        return embedded ? query.or(filter, { referencedTable: 'maternal_profiles' }) : query.or(filter);
+    }
+    if (userId) {
+        return query.eq(column('created_by'), userId);
+    }
+    return query;
+}
+
+export const supabaseSyncBackend: SyncBackend = {
+    async findById(table, id) {
+        const { data, error, status } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+        if (error) throw withStatus(error, status);
+        return data;
+    },
+
+    async findByLocalId(table, localId) {
+        const { data, error, status } = await supabase.from(table).select('*').eq('local_id', localId).maybeSingle();
+        if (error) throw withStatus(error, status);
+        return data;
+    },
+
+    async insertOnce(table, rows) {
+        const { data, error, status } = await supabase
+            .from(table)
+            .upsert(rows, { onConflict: 'local_id', ignoreDuplicates: true })
+            .select('*');
+        if (error) throw withStatus(error, status);
+
+        // Rows skipped as duplicates aren't returned — fetch them
+        const inserted: RemoteRow[] = data ?? [];
+        const existingIds = rows
+            .map(row => row.local_id)
+            .filter(localId => !inserted.some(r => r.local_id === localId));
+        if (existingIds.length === 0) return inserted;
+
+        const { data: existing, error: lookupError, status: lookupStatus } = await supabase
+            .from(table)
+            .select('*')
+            .in('local_id', existingIds);
+        if (lookupError) throw withStatus(lookupError, lookupStatus);
+        return [...inserted, ...(existing ?? [])];
+    },
+
+    async update(table, id, changes, ifUpdatedAt) {
+        let query = supabase.from(table).update(changes).eq('id', id);
+        if (ifUpdatedAt) query = query.eq('updated_at', ifUpdatedAt);
+
+        const { data, error, status } = await query.select('*');
+        if (error) throw withStatus(error, status);
+        return data ?? [];
+    },
+
+    async remove(table, id) {
+        const { error, status } = await supabase.from(table).delete().eq('id', id);
+        if (error) throw withStatus(error, status);
+    },
+
+    async insertCaseBundle(profile, children) {
+        const { data, error, status } = await supabase.rpc('sync_case_bundle', {
+            p_profile: profile,
+            p_children: children,
+        });
+        if (error) throw withStatus(error, status);
+        return (data ?? []) as CaseBundleResult[];
+    },
+
+    async fetchPage(pull: PullQuery, from, limit) {
+        const isCaseRecord = PROFILE_CHILD_TABLES.includes(pull.table);
+        let query: any = supabase.from(pull.table).select(isCaseRecord ? `*, ${PROFILE_EMBED}` : '*');
+
+        if (pull.scope) query = scopeProfiles(query, pull.scope, isCaseRecord);
+        if (pull.profileIds) query = query.in('maternal_profile_id', pull.profileIds);
+        if (pull.contactsFacilityId) query = query.or(`facility_id.eq.${pull.contactsFacilityId},tier.eq.3`);
+        if (pull.facilityId) query = query.eq('facility_id', pull.facilityId);
+        if (pull.since) query = query.gte(pull.cursorColumn, pull.since);
+        if (pull.before) query = query.lt(pull.cursorColumn, pull.before);
+
+        const { data, error, status } = await query
+            .order(pull.cursorColumn, { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, from + limit - 1);
+        if (error) throw withStatus(error, status);
+        return data ?? [];
+    },
+};
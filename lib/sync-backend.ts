@@ -0,0 +1,68 @@
+/**
+ * Sync Backend
+ *
+ * The server operations the sync engine (lib/sync-queue) needs, behind one
+ * interface. The app talks to Supabase (lib/supabase-sync-backend); the
+ * in-memory stand-in (lib/memory-sync-backend) lets the queue, deferral,
+ * retry and pull logic run without a live server.
+ *
+ * Failures throw an error carrying `code` and/or `status` (SyncErrorLike),
+ * so lib/sync-retry can tell transient failures from permanent ones.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import { PullScope } from '@/lib/sync-cursor';
+
+export type RemoteRow = Record<string, any>;
+
+/** One pulled table, read page by page in (cursorColumn, id) order */
+export interface PullQuery {
+    table: string;
+    cursorColumn: string;
+    /** Only rows with cursorColumn >= since */
+    since?: string | null;
+    /** Only rows with cursorColumn < before */
+    before?: string | null;
+    /** Only cases visible in this scope — profiles by their own columns, case records through their case */
+    scope?: PullScope;
+    /** Only records of these cases (remote profile ids) */
+    profileIds?: string[];
+    /** Emergency contacts: this facility's plus the global tier-3 list */
+    contactsFacilityId?: string;
+    /** Only rows of this facility */
+    facilityId?: string;
+}
+
+/** A row written by insertCaseBundle */
+export interface CaseBundleResult {
+    table_name: string;
+    local_id: string;
+    id: string;
+    updated_at: string;
+}
+
+export interface SyncBackend {
+    findById(table: string, id: string): Promise<RemoteRow | null>;
+    findByLocalId(table: string, localId: string): Promise<RemoteRow | null>;
+    /**
+     * Insert rows unless their local_id is already there, returning the
+     * inserted rows and the ones that already existed (left untouched).
+     */
+    insertOnce(table: string, rows: RemoteRow[]): Promise<RemoteRow[]>;
+    /**
+     * Update the row with this id — with `ifUpdatedAt`, only while its
+     * updated_at still matches. Returns the updated rows: empty when nothing
+     * matched or access was refused.
+     */
+    update(table: string, id: string, changes: RemoteRow, ifUpdatedAt?: string): Promise<RemoteRow[]>;
+    remove(table: string, id: string): Promise<void>;
+    /** Insert a new case and the records taken with it in one transaction */
+    insertCaseBundle(profile: RemoteRow, children: { table_name: string; row: RemoteRow }[]): Promise<CaseBundleResult[]>;
+    /**
+     * Rows `from`..`from + limit - 1` of a pull. Case records come with
+     * their case embedded as `maternal_profiles` (local_id, facility_id,
+     * unit_id, created_by, updated_at).
+     */
+    fetchPage(query: PullQuery, from: number, limit: number): Promise<RemoteRow[]>;
+}
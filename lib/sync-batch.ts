@@ -0,0 +1,145 @@
+/**
+ * Sync Push Planning
+ *
+ * Turns the queue items that are due into as few requests as possible:
+ * - repeated changes to one record collapse into a single operation: an
+ *   insert absorbs the updates queued after it, consecutive updates merge
+ * - a new case travels with the records queued against it as one bundle,
+ *   inserted in a single transaction by the sync_case_bundle RPC
+ * - other new child records are inserted one request per table
+ * - everything else (updates, deletes, tracked records) goes one at a time
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+/** The queue item fields planning needs — SyncQueueItem satisfies it */
+export interface QueuedOperation {
+    id: string;
+    table_name: string;
+    record_id: string;
+    operation: string;   // 'insert' | 'update' | 'delete'
+    payload: string;
+}
+
+/** Tables whose rows reference a maternal profile by local ID until it syncs */
+export const PROFILE_CHILD_TABLES = ['vital_signs', 'emotive_checklists', 'case_events', 'blood_loss_entries', 'risk_assessments', 'preparedness_checks'];
+
+/** Child tables whose new rows can share one insert — E-MOTIVE checklists need a sync base per row */
+export const BATCH_INSERT_TABLES = ['vital_signs', 'case_events', 'blood_loss_entries', 'risk_assessments', 'preparedness_checks'];
+
+/** Rows per batched insert */
+export const SYNC_BATCH_SIZE = 100;
+
+export interface CollapsedOperation<T extends QueuedOperation> {
+    /** The oldest item — it keeps its id and retry state and carries the merged change */
+    keep: T;
+    operation: 'insert' | 'update';
+    payload: string;
+    /** Later items folded into `keep` */
+    dropped: T[];
+}
+
+export interface SyncPlan<T extends QueuedOperation> {
+    bundles: { profile: T; children: T[] }[];
+    batches: { tableName: string; items: T[] }[];
+    singles: T[];
+}
+
+// ── Coalescing ───────────────────────────────────────────────
+
+/**
+ * Collapse the changes queued for each record, oldest first. A delete ends
+ * the run: it is sent as queued and later changes start a new one.
+ */
+export function coalesceSyncItems<T extends QueuedOperation>(items: T[]): {
+    items: T[];
+    collapsed: CollapsedOperation<T>[];
+} {
+    type Run = { keep: T; operation: 'insert' | 'update'; payload: Record<string, any>; dropped: T[] };
+    const open = new Map<string, Run>();
+    const runs: Run[] = [];
+    const ordered: T[] = [];
+
+    for (const item of items) {
+        const key = `${item.table_name}:${item.record_id}`;
+        const run = open.get(key);
+
+        if (item.operation === 'delete') {
+            open.delete(key);
+            ordered.push(item);
+        } else if (item.operation === 'update' && run) {
+            Object.assign(run.payload, JSON.parse(item.payload));
+            run.dropped.push(item);
+        } else {
+            const operation = item.operation === 'insert' ? 'insert' : 'update';
+            const started: Run = { keep: item, operation, payload: JSON.parse(item.payload), dropped: [] };
+            open.set(key, started);
+            runs.push(started);
+            ordered.push(item);
+        }
+    }
+
+    const collapsed: CollapsedOperation<T>[] = runs
+        .filter(run => run.dropped.length > 0)
+        .map(run => ({ keep: run.keep, operation: run.operation, payload: JSON.stringify(run.payload), dropped: run.dropped }));
+
+    const merged = new Map(collapsed.map(c => [c.keep.id, c]));
+    return {
+        items: ordered.map(item => {
+            const c = merged.get(item.id);
+            return c ? { ...item, operation: c.operation, payload: c.payload } : item;
+        }),
+        collapsed,
+    };
+}
+
+// ── Planning ─────────────────────────────────────────────────
+
+function parentOf(item: QueuedOperation): string | undefined {
+    const payload = JSON.parse(item.payload);
+    return payload.maternal_profile_local_id || payload.maternal_profile_id;
+}
+
+export function planSyncBatches<T extends QueuedOperation>(items: T[]): SyncPlan<T> {
+    const bundles = new Map<string, { profile: T; children: T[] }>();
+    for (const item of items) {
+        if (item.table_name === 'maternal_profiles' && item.operation === 'insert') {
+            bundles.set(item.record_id, { profile: item, children: [] });
+        }
+    }
+
+    const byTable = new Map<string, T[]>();
+    const singles: T[] = [];
+
+    for (const item of items) {
+        if (item.table_name === 'maternal_profiles' && item.operation === 'insert') continue;
+
+        if (item.operation === 'insert' && PROFILE_CHILD_TABLES.includes(item.table_name)) {
+            const bundle = bundles.get(parentOf(item) ?? '');
+            if (bundle) {
+                bundle.children.push(item);
+                continue;
+            }
+            if (BATCH_INSERT_TABLES.includes(item.table_name)) {
+                byTable.set(item.table_name, [...(byTable.get(item.table_name) ?? []), item]);
+                continue;
+            }
+        }
+        singles.push(item);
+    }
+
+    const batches: SyncPlan<T>['batches'] = [];
+    for (const [tableName, tableItems] of byTable) {
+        for (let i = 0; i < tableItems.length; i += SYNC_BATCH_SIZE) {
+            batches.push({ tableName, items: tableItems.slice(i, i + SYNC_BATCH_SIZE) });
+        }
+    }
+
+    // A new case with nothing queued against it is an ordinary insert
+    const caseBundles = Array.from(bundles.values());
+    return {
+        bundles: caseBundles.filter(b => b.children.length > 0),
+        batches,
+        singles: [...caseBundles.filter(b => b.children.length === 0).map(b => b.profile), ...singles],
+    };
+}
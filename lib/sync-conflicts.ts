@@ -0,0 +1,234 @@
+/**
+ * Sync Conflict Detection & Merge
+ *
+ * Maternal profiles and E-MOTIVE checklists can be edited on more than one
+ * device. Each local row remembers the server version it was last based on
+ * (`remote_updated_at`, set by the server's updated_at trigger) and a
+ * snapshot of that version (`sync_base`). When the server has moved on while
+ * the row still has unsynced edits, the two versions are merged three-way
+ * against the base, one field group at a time:
+ *
+ * - changed on one side only → that side wins
+ * - changed on both sides → the group's policy decides:
+ *     server    — the server version wins (case status and outcome)
+ *     completed — a step done on either side stays done
+ *     manual    — held for a clinician to choose on the Sync conflicts screen
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import { RISK_LABELS, RiskLevel } from './risk-calculator';
+
+export type ConflictTable = 'maternal_profiles' | 'emotive_checklists';
+
+export type MergePolicy = 'server' | 'completed' | 'manual';
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface ConflictFieldGroup {
+    key: string;
+    label: string;
+    fields: string[];
+    policy: MergePolicy;
+}
+
+/** A field group both sides changed that the policy could not settle */
+export interface FieldConflict {
+    key: string;
+    label: string;
+    local: string;
+    remote: string;
+}
+
+export interface MergeResult {
+    /** Syncable fields after the merge — unresolved groups keep the local values */
+    merged: Record<string, any>;
+    conflicts: FieldConflict[];
+}
+
+// ── Field Groups ─────────────────────────────────────────────
+
+/** Risk flags and the score derived from them merge as one unit so they stay consistent */
+const RISK_FIELDS = [
+    'is_multiple_gestation', 'has_prior_cesarean', 'has_placenta_previa', 'has_large_fibroids',
+    'has_anemia', 'has_pph_history', 'has_intraamniotic_infection', 'has_severe_anemia',
+    'has_coagulopathy', 'has_severe_pph_history', 'has_placenta_accreta', 'has_active_bleeding',
+    'has_morbid_obesity', 'has_preeclampsia', 'is_induced_labor', 'has_prolonged_labor',
+    'has_macrosomia', 'has_prolonged_second_stage', 'has_operative_delivery',
+    'risk_level', 'risk_score', 'risk_rule_version',
+];
+
+const EMOTIVE_STEPS: { key: string; label: string; extra?: string }[] = [
+    { key: 'early_detection', label: 'Early Detection' },
+    { key: 'massage', label: 'Uterine Massage' },
+    { key: 'oxytocin', label: 'Oxytocin', extra: 'oxytocin_dose' },
+    { key: 'txa', label: 'Tranexamic Acid', extra: 'txa_dose' },
+    { key: 'iv_fluids', label: 'IV Fluids', extra: 'iv_fluids_volume' },
+    { key: 'escalation', label: 'Escalation' },
+];
+
+export const CONFLICT_FIELD_GROUPS: Record<ConflictTable, ConflictFieldGroup[]> = {
+    maternal_profiles: [
+        { key: 'patient_id', label: 'Patient ID', fields: ['patient_id'], policy: 'manual' },
+        { key: 'age', label: 'Age', fields: ['age'], policy: 'manual' },
+        { key: 'gravida', label: 'Gravida', fields: ['gravida'], policy: 'manual' },
+        { key: 'parity', label: 'Parity', fields: ['parity'], policy: 'manual' },
+        { key: 'gestational_age_weeks', label: 'Gestational age', fields: ['gestational_age_weeks'], policy: 'manual' },
+        { key: 'hemoglobin_level', label: 'Hemoglobin', fields: ['hemoglobin_level'], policy: 'manual' },
+        { key: 'risk', label: 'Risk factors', fields: RISK_FIELDS, policy: 'manual' },
+        { key: 'delivery_time', label: 'Delivery time', fields: ['delivery_time'], policy: 'manual' },
+        { key: 'status', label: 'Status & outcome', fields: ['status', 'outcome'], policy: 'server' },
+        { key: 'notes', label: 'Notes', fields: ['notes'], policy: 'manual' },
+    ],
+    emotive_checklists: [
+        ...EMOTIVE_STEPS.map(step => ({
+            key: step.key,
+            label: step.label,
+            fields: [`${step.key}_done`, `${step.key}_time`, ...(step.extra ? [step.extra] : []), `${step.key}_notes`],
+            policy: 'completed' as const,
+        })),
+        { key: 'diagnostics', label: 'Diagnostics', fields: ['diagnostics_causes', 'diagnostics_notes'], policy: 'manual' },
+    ],
+};
+
+export const CONFLICT_TABLES = Object.keys(CONFLICT_FIELD_GROUPS) as ConflictTable[];
+
+export const CONFLICT_TABLE_LABELS: Record<ConflictTable, string> = {
+    maternal_profiles: 'Patient record',
+    emotive_checklists: 'E-MOTIVE checklist',
+};
+
+export function isConflictTable(tableName: string): tableName is ConflictTable {
+    return tableName in CONFLICT_FIELD_GROUPS;
+}
+
+// ── Snapshots ────────────────────────────────────────────────
+
+/**
+ * Comparable form of a field value. Booleans arrive as 0/1 from SQLite and
+ * true/false from Supabase, timestamps as `…Z` locally and `…+00:00` from
+ * Postgres, and empty values as null, undefined, '' or [].
+ */
+function normalize(field: string, value: any): any {
+    if (field.endsWith('_done') || field.startsWith('has_') || field.startsWith('is_')) return !!value;
+    if (value === undefined || value === null || value === '') return null;
+    if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : null;
+    if (field.endsWith('_time') && typeof value === 'string') {
+        const ms = Date.parse(value);
+        return Number.isNaN(ms) ? value : ms;
+    }
+    return value;
+}
+
+function groupValue(group: ConflictFieldGroup, record: Record<string, any>): string {
+    return JSON.stringify(group.fields.map(f => normalize(f, record[f])));
+}
+
+/** The syncable fields of a record — stored as the base for the next merge */
+export function snapshotSyncBase(table: ConflictTable, record: Record<string, any>): Record<string, any> {
+    const snapshot: Record<string, any> = {};
+    for (const group of CONFLICT_FIELD_GROUPS[table]) {
+        for (const field of group.fields) snapshot[field] = record[field] ?? null;
+    }
+    return snapshot;
+}
+
+export function parseSyncBase(raw: string | Record<string, any> | null | undefined): Record<string, any> | null {
+    if (!raw) return null;
+    if (typeof raw !== 'string') return raw;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return null;
+    }
+}
+
+// ── Merge ────────────────────────────────────────────────────
+
+function pick(group: ConflictFieldGroup, source: Record<string, any>, target: Record<string, any>) {
+    for (const field of group.fields) target[field] = source[field] ?? null;
+}
+
+/**
+ * Merge the local and server versions of a record. Without a base (rows
+ * saved before conflict tracking) every differing group counts as changed
+ * on both sides.
+ */
+export function mergeRecords(
+    table: ConflictTable,
+    base: Record<string, any> | null,
+    local: Record<string, any>,
+    remote: Record<string, any>
+): MergeResult {
+    const merged: Record<string, any> = {};
+    const conflicts: FieldConflict[] = [];
+
+    for (const group of CONFLICT_FIELD_GROUPS[table]) {
+        const l = groupValue(group, local);
+        const r = groupValue(group, remote);
+        const b = base ? groupValue(group, base) : null;
+
+        if (l === r || r === b) {
+            pick(group, local, merged);
+        } else if (l === b) {
+            pick(group, remote, merged);
+        } else if (group.policy === 'server') {
+            pick(group, remote, merged);
+        } else if (group.policy === 'completed' && !!local[group.fields[0]] !== !!remote[group.fields[0]]) {
+            pick(group, local[group.fields[0]] ? local : remote, merged);
+        } else {
+            pick(group, local, merged);
+            conflicts.push({
+                key: group.key,
+                label: group.label,
+                local: describeGroup(group, local),
+                remote: describeGroup(group, remote),
+            });
+        }
+    }
+
+    return { merged, conflicts };
+}
+
+/** Apply the clinician's choices — groups not set to 'remote' keep the local values */
+export function resolveMerge(
+    table: ConflictTable,
+    local: Record<string, any>,
+    remote: Record<string, any>,
+    choices: Record<string, ConflictChoice>
+): Record<string, any> {
+    const resolved = snapshotSyncBase(table, local);
+    for (const group of CONFLICT_FIELD_GROUPS[table]) {
+        if (choices[group.key] === 'remote') pick(group, remote, resolved);
+    }
+    return resolved;
+}
+
+// ── Display ──────────────────────────────────────────────────
+
+function formatTime(iso: string): string {
+    return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/** One-line summary of a field group's value for the conflict screen */
+export function describeGroup(group: ConflictFieldGroup, record: Record<string, any>): string {
+    if (group.key === 'risk') {
+        const flags = RISK_FIELDS.filter(f => (f.startsWith('has_') || f.startsWith('is_')) && record[f]).length;
+        const level = RISK_LABELS[record.risk_level as RiskLevel] ?? record.risk_level ?? '—';
+        return `${level} risk, score ${record.risk_score ?? 0} (${flags} factor${flags === 1 ? '' : 's'})`;
+    }
+    if (group.policy === 'completed') {
+        const [doneField, timeField, ...rest] = group.fields;
+        if (!record[doneField]) return 'Not done';
+        const details = rest.map(f => record[f]).filter(Boolean);
+        return [`Done${record[timeField] ? ` ${formatTime(record[timeField])}` : ''}`, ...details].join(' · ');
+    }
+    if (group.key === 'delivery_time') {
+        return record.delivery_time ? new Date(record.delivery_time).toLocaleString() : '—';
+    }
+    const values = group.fields
+        .filter(f => normalize(f, record[f]) !== null)
+        .map(f => Array.isArray(record[f]) ? record[f].join(', ') : String(record[f]))
+        .map(v => (group.key === 'status' ? v.replace(/_/g, ' ') : v));
+    return values.length > 0 ? values.join(' · ') : '—';
+}
@@ -0,0 +1,85 @@
+/**
+ * Incremental Pull Cursors
+ *
+ * Each pulled table keeps a high-water mark: the server updated_at of the
+ * newest row this device has applied. The next pull only asks for rows
+ * changed since then, page by page. Marks are kept per scope (facility,
+ * unit or user), so switching unit or facility starts a fresh full pull
+ * instead of missing everything older than the previous scope's mark.
+ *
+ * A scope can be narrowed below what the user may see — their own cases
+ * instead of the unit's or facility's, and only cases touched in the last
+ * N days (lib/sync-scope).
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export type SyncScopeMode = 'mine' | 'unit' | 'facility';
+
+export interface PullScope {
+    userId?: string;
+    facilityId?: string;
+    unitId?: string;
+    role?: string;
+    /** Narrower than the widest scope the user may pull; ignored when not available to them */
+    mode?: SyncScopeMode;
+    /** Only cases updated in the last N days */
+    windowDays?: number;
+}
+
+/** Rows fetched per request — small enough for a 2G link to finish a page */
+export const PULL_PAGE_SIZE = 200;
+
+/**
+ * Delta queries re-read this much before the mark. updated_at is stamped
+ * when a transaction starts, so a slow write can commit with a time earlier
+ * than rows already pulled; re-applying a few rows is harmless.
+ */
+export const PULL_OVERLAP_MS = 2 * 60_000;
+
+export function isSupervisorScope(scope: PullScope): boolean {
+    return scope.role === 'supervisor' || scope.role === 'admin';
+}
+
+/** Scope modes open to this user, narrowest first */
+export function getAvailableScopeModes(scope: PullScope): SyncScopeMode[] {
+    const modes: SyncScopeMode[] = ['mine'];
+    if (scope.unitId) modes.push('unit');
+    if (isSupervisorScope(scope) && scope.facilityId) modes.push('facility');
+    return modes;
+}
+
+/** The chosen mode if the user may pull it, otherwise the widest they may */
+export function getPullScopeMode(scope: PullScope): SyncScopeMode {
+    const modes = getAvailableScopeModes(scope);
+    return scope.mode && modes.includes(scope.mode) ? scope.mode : modes[modes.length - 1];
+}
+
+/** Lower bound on a case's updated_at for the scope's time window, or null for no window */
+export function getPullWindowStart(scope: PullScope, now: Date = new Date()): string | null {
+    if (!scope.windowDays) return null;
+    return new Date(now.getTime() - scope.windowDays * 86_400_000).toISOString();
+}
+
+/** Which slice of the server this device pulls — mirrors the profile query filters */
+export function getPullScopeKey(scope: PullScope): string {
+    const mode = getPullScopeMode(scope);
+    const key = mode === 'facility'
+        ? `facility:${scope.facilityId}`
+        : mode === 'unit'
+            ? `unit:${scope.unitId}:${scope.userId ?? ''}`
+            : `user:${scope.userId ?? ''}`;
+    return scope.windowDays ? `${key}:${scope.windowDays}d` : key;
+}
+
+export function getCursorKey(tableName: string, scopeKey: string): string {
+    return `${tableName}|${scopeKey}`;
+}
+
+/** Lower bound for the next delta query, or null for a full pull */
+export function getDeltaSince(highWaterMark: string | null | undefined): string | null {
+    if (!highWaterMark) return null;
+    const ms = Date.parse(highWaterMark);
+    if (Number.isNaN(ms)) return null;
+    return new Date(ms - PULL_OVERLAP_MS).toISOString();
+}
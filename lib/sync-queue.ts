@@ -5,18 +5,73 @@
  * 1. All clinical data is written to SQLite first
  * 2. Operations are queued in sync_queue_local
  * 3. When online, queue is replayed against Supabase
- * 4. Conflict resolution: last-write-wins for simple fields, server-priority for status
+ * 4. Conflict resolution: patient records and E-MOTIVE checklists are updated
+ *    only if the server still holds the version this device last saw; otherwise
+ *    the two versions are merged field by field (lib/sync-conflicts) and
+ *    anything the merge can't settle is held for a clinician to decide
+ * 5. Transient failures retry with exponential backoff until the item's retry
+ *    budget runs out; permanent failures go to the dead-letter state (status 'dead')
+ * 6. Pushes are batched: repeated changes to a record collapse into one, a new
+ *    case and its records go up in one transaction (sync_case_bundle RPC),
+ *    and other new records are inserted one request per table (lib/sync-batch)
+ * 7. Pulls are incremental: per-table high-water marks, paged delta queries,
+ *    and tombstones so server-side deletions reach the device
+ * 8. Inserts are idempotent: local_id is unique on the server, so replaying
+ *    an insert whose response was lost returns the row it already created
+ *
+ * Every server call goes through a SyncBackend (lib/sync-backend): Supabase
+ * in the app, or an in-memory server swapped in with setSyncBackend().
  */
 
 import {
     addToSyncQueue,
     clearSyncedItems,
+    collapseSyncItems,
+    deleteLocalRecord,
+    getOpenSyncConflict,
     getPendingSyncItems,
+    getRemoteId,
+    getSyncCursor,
+    hasUnsyncedChanges,
     markRecordSynced,
+    saveEmergencyContacts,
+    savePatient,
+    saveShockThresholdSets,
+    saveSyncConflict,
+    scheduleSyncRetry,
+    setRemoteId,
+    setSyncBase,
+    setSyncCursor,
+    SyncQueueItem,
     updateSyncItemStatus,
 } from '@/lib/clinical-db';
-import { supabase } from '@/lib/supabase';
+import { clinicalStore } from '@/lib/clinical-store';
+import { supabaseSyncBackend } from '@/lib/supabase-sync-backend';
+import { PullQuery, RemoteRow, SyncBackend } from '@/lib/sync-backend';
+import { coalesceSyncItems, planSyncBatches, PROFILE_CHILD_TABLES } from '@/lib/sync-batch';
+import { ConflictTable, isConflictTable, mergeRecords, parseSyncBase, snapshotSyncBase } from '@/lib/sync-conflicts';
+import { getCursorKey, getDeltaSince, getPullScopeKey, PULL_PAGE_SIZE, PullScope } from '@/lib/sync-cursor';
+import { classifySyncError, getNextAttemptAt } from '@/lib/sync-retry';
 import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+
+// ── Backend ──────────────────────────────────────────────────
+
+let backend: SyncBackend = supabaseSyncBackend;
+
+/** Point the sync engine at another server — e.g. createMemorySyncBackend() */
+export function setSyncBackend(next: SyncBackend): void {
+    backend = next;
+}
+
+/** A lookup whose failure just means "not known yet" — the caller defers instead */
+async function findOrNull(lookup: Promise<Record<string, any> | null>): Promise<Record<string, any> | null> {
+    try {
+        return await lookup;
+    } catch {
+        return null;
+    }
+}
 
 // ── Queue an Operation ───────────────────────────────────────
 
@@ -46,14 +101,20 @@ export async function queueOperation(
 
 /** Tables that must sync before their dependents */
 const TABLE_PRIORITY: Record<string, number> = {
+    patients: 0,
     maternal_profiles: 0,
     vital_signs: 1,
     emotive_checklists: 1,
     case_events: 1,
     emergency_contacts: 1,
+    blood_loss_entries: 1,
+    risk_assessments: 1,
+    preparedness_checks: 1,
 };
 
-async function syncOneItem(item: any): Promise<string | null> {
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function syncOneItem(item: SyncQueueItem): Promise<string | null> {
     const payload = JSON.parse(item.payload);
     let remoteId: string | null = null;
 
@@ -74,22 +135,108 @@ async function syncOneItem(item: any): Promise<string | null> {
     return remoteId;
 }
 
+/** The run in progress — runs never overlap, so no item is pushed twice */
+let activeRun: Promise<{ synced: number; failed: number }> | null = null;
+
 export async function processQueue(): Promise<{
     synced: number;
     failed: number;
 }> {
-    const pendingItems = await getPendingSyncItems();
+    // Let the current run finish, then start a fresh one so items queued meanwhile are picked up
+    while (activeRun) {
+        await activeRun.catch(() => undefined);
+    }
+    activeRun = runQueue();
+    try {
+        return await activeRun;
+    } finally {
+        activeRun = null;
+    }
+}
+
+async function runQueue(): Promise<{ synced: number; failed: number }> {
+    const dueItems: SyncQueueItem[] = [];
+    for (const item of await getPendingSyncItems()) {
+        // Held until a clinician resolves the conflict on this record
+        if (isConflictTable(item.table_name) && await getOpenSyncConflict(item.table_name, item.record_id)) {
+            continue;
+        }
+        dueItems.push(item);
+    }
+
+    // Repeated changes to a record go up as one operation
+    const { items, collapsed } = coalesceSyncItems(dueItems);
+    for (const c of collapsed) {
+        await collapseSyncItems(c.keep.id, c.operation, c.payload, c.dropped.map(d => d.id));
+    }
+
+    const plan = planSyncBatches(items);
+    const singles = [...plan.singles];
     let synced = 0;
     let failed = 0;
 
-    // Sort by table priority — parent records (profiles) sync before dependents (vitals, events)
-    pendingItems.sort((a: any, b: any) =>
+    // 1. New cases: the profile and everything queued against it in one transaction
+    for (const bundle of plan.bundles) {
+        const bundleItems = [bundle.profile, ...bundle.children];
+        try {
+            for (const item of bundleItems) await updateSyncItemStatus(item.id, 'syncing');
+            await syncCaseBundle(bundle.profile, bundle.children);
+            synced += bundleItems.length;
+        } catch (error: any) {
+            // Nothing was written — the whole case retries (or dead-letters) together
+            for (const item of bundleItems) await handleSyncFailure(item, error);
+            failed += bundleItems.length;
+        }
+    }
+
+    // 2. New records for cases already on the server: one insert per table
+    for (const batch of plan.batches) {
+        const rows: Record<string, any>[] = [];
+        const batchItems: SyncQueueItem[] = [];
+        for (const item of batch.items) {
+            const row = await toRemoteChildRow(item);
+            if (row) {
+                rows.push(row);
+                batchItems.push(item);
+            } else {
+                singles.push(item); // parent not synced — the single path defers or backs it off
+            }
+        }
+        if (batchItems.length === 0) continue;
+
+        try {
+            for (const item of batchItems) await updateSyncItemStatus(item.id, 'syncing');
+            const data = await backend.insertOnce(batch.tableName, rows);
+            if (batch.tableName === 'preparedness_checks') {
+                for (const row of rows) {
+                    const stored = data.find(r => r.local_id === row.local_id);
+                    if (stored) await applyPreparednessTick(row, stored);
+                }
+            }
+
+            const remoteIds = new Map<string, string>(data.map(r => [r.local_id, r.id]));
+            for (const item of batchItems) {
+                await updateSyncItemStatus(item.id, 'synced');
+                await markRecordSynced(item.table_name, item.record_id, remoteIds.get(item.record_id) ?? item.record_id);
+            }
+            synced += batchItems.length;
+        } catch (error: any) {
+            // One bad row fails the whole statement — send the rows one by one to isolate it
+            console.warn(`[Sync] Batched ${batch.tableName} insert failed, retrying rows individually:`, error?.message);
+            for (const item of batchItems) await updateSyncItemStatus(item.id, 'pending');
+            singles.push(...batchItems);
+        }
+    }
+
+    // 3. Everything else, one request per item.
+    //    Sort by table priority — parent records (profiles) sync before dependents (vitals, events)
+    singles.sort((a, b) =>
         (TABLE_PRIORITY[a.table_name] ?? 99) - (TABLE_PRIORITY[b.table_name] ?? 99)
     );
 
-    const deferred: typeof pendingItems = [];
+    const deferred: typeof singles = [];
 
-    for (const item of pendingItems) {
+    for (const item of singles) {
         try {
             await updateSyncItemStatus(item.id, 'syncing');
             const remoteId = await syncOneItem(item);
@@ -103,12 +250,11 @@ export async function processQueue(): Promise<{
                 // Parent hasn't synced yet — defer for second pass instead of failing
                 await updateSyncItemStatus(item.id, 'pending');
                 deferred.push(item);
+            } else if (error?.message?.includes('held for review')) {
+                // Conflict recorded — waits for resolution without using up retries
+                await updateSyncItemStatus(item.id, 'pending');
             } else {
-                await updateSyncItemStatus(
-                    item.id,
-                    'failed',
-                    error?.message ?? 'Unknown sync error'
-                );
+                await handleSyncFailure(item, error);
                 failed++;
             }
         }
@@ -125,12 +271,12 @@ export async function processQueue(): Promise<{
             }
             synced++;
         } catch (error: any) {
-            await updateSyncItemStatus(
-                item.id,
-                'failed',
-                error?.message ?? 'Unknown sync error'
-            );
-            failed++;
+            if (error?.message?.includes('held for review')) {
+                await updateSyncItemStatus(item.id, 'pending');
+            } else {
+                await handleSyncFailure(item, error);
+                failed++;
+            }
         }
     }
 
@@ -142,70 +288,154 @@ export async function processQueue(): Promise<{
     return { synced, failed };
 }
 
+/** Schedule a backed-off retry, or dead-letter the item if the error is permanent or the budget is spent */
+async function handleSyncFailure(item: SyncQueueItem, error: any): Promise<void> {
+    const message = error?.message ?? 'Unknown sync error';
+    const kind = classifySyncError(error);
+    const retryCount = item.retry_count ?? 0;
+
+    if (kind === 'permanent' || retryCount + 1 >= (item.max_retries ?? 5)) {
+        console.warn(`[Sync] ${item.table_name} ${item.operation} dead-lettered (${kind}): ${message}`);
+        await updateSyncItemStatus(item.id, 'dead', message);
+    } else {
+        await scheduleSyncRetry(item.id, message, getNextAttemptAt(retryCount));
+    }
+}
+
 // ── Sync Operations ──────────────────────────────────────────
 
+/** The row as Supabase stores it: local-only fields removed, local_id kept for reference */
+function toRemoteRow(localId: string, payload: Record<string, any>): Record<string, any> {
+    const { local_id, remote_id, is_synced, remote_updated_at, sync_base, ...data } = payload;
+    data.local_id = localId;
+    return data;
+}
+
+/**
+ * Remote UUID of a maternal profile. The local→remote mapping cached in
+ * SQLite is tried first; the server is only asked when it's missing, and
+ * the answer is cached for the next dependent record.
+ */
+async function resolveProfileRemoteId(profileLocalId: string): Promise<string | null> {
+    const cached = await getRemoteId('maternal_profiles', profileLocalId);
+    if (cached) return cached;
+
+    const profileData = await findOrNull(backend.findByLocalId('maternal_profiles', profileLocalId));
+    if (profileData?.id) {
+        await setRemoteId('maternal_profiles', profileLocalId, profileData.id);
+        return profileData.id;
+    }
+
+    // Already a remote UUID (records pulled from another device are keyed by it) —
+    // unless it is the local id of a case on this device that hasn't synced yet
+    if (!UUID_PATTERN.test(profileLocalId)) return null;
+    return await clinicalStore.getProfile(profileLocalId) ? null : profileLocalId;
+}
+
+/** Remote row for a batched child insert, or null while its case hasn't synced */
+async function toRemoteChildRow(item: SyncQueueItem): Promise<Record<string, any> | null> {
+    const data = toRemoteRow(item.record_id, JSON.parse(item.payload));
+    const profileRemoteId = await resolveProfileRemoteId(data.maternal_profile_id || data.maternal_profile_local_id);
+    if (!profileRemoteId) return null;
+
+    data.maternal_profile_id = profileRemoteId;
+    delete data.maternal_profile_local_id;
+    return data;
+}
+
+/** Insert a new case and the records queued against it in one transaction */
+async function syncCaseBundle(profileItem: SyncQueueItem, childItems: SyncQueueItem[]): Promise<void> {
+    const profileRow = toRemoteRow(profileItem.record_id, JSON.parse(profileItem.payload));
+    const children = childItems.map(item => {
+        const { maternal_profile_id, maternal_profile_local_id, ...row } = toRemoteRow(item.record_id, JSON.parse(item.payload));
+        return { table_name: item.table_name, row };
+    });
+
+    const data = await backend.insertCaseBundle(profileRow, children);
+    const inserted = new Map(data.map(r => [`${r.table_name}:${r.local_id}`, r]));
+    const rows = [{ item: profileItem, row: profileRow }, ...childItems.map((item, i) => ({ item, row: children[i].row }))];
+    for (const { item, row } of rows) {
+        const result = inserted.get(`${item.table_name}:${item.record_id}`);
+        await updateSyncItemStatus(item.id, 'synced');
+        await markRecordSynced(item.table_name, item.record_id, result?.id ?? item.record_id);
+        if (result && isConflictTable(item.table_name)) {
+            await setSyncBase(item.table_name, item.record_id, result.updated_at, JSON.stringify(snapshotSyncBase(item.table_name, row)));
+        }
+    }
+}
+
 async function syncInsert(
     tableName: string,
     localId: string,
     payload: Record<string, any>
 ): Promise<string> {
-    // Remove local-only fields
-    const { local_id, remote_id, is_synced, ...data } = payload;
-
-    // Set local_id on the remote record for reference
-    data.local_id = localId;
+    const data = toRemoteRow(localId, payload);
 
     // For tables that link to maternal_profiles: resolve local profile reference to remote profile UUID
     // They might use 'maternal_profile_id' or 'maternal_profile_local_id' in the payload
     const profileLocalId = data.maternal_profile_id || data.maternal_profile_local_id;
 
-    if ((tableName === 'vital_signs' || tableName === 'emotive_checklists' || tableName === 'case_events') && profileLocalId) {
-        // Look up the remote ID for this maternal profile
-        const { data: profileData } = await supabase
-            .from('maternal_profiles')
-            .select('id')
-            .eq('local_id', profileLocalId)
-            .maybeSingle();
-
-        if (profileData?.id) {
-            data.maternal_profile_id = profileData.id;
-            // Remove local-only reference fields
-            delete data.maternal_profile_local_id;
-        } else {
-            // Check if profileLocalId is actually already a remote UUID (sometimes happens if data was merged)
-            const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(profileLocalId);
-            if (isUuid) {
-                data.maternal_profile_id = profileLocalId;
-            } else {
-                throw new Error(`Cannot sync ${tableName}: maternal profile "${profileLocalId}" not yet synced`);
-            }
+    if (PROFILE_CHILD_TABLES.includes(tableName) && profileLocalId) {
+        const profileRemoteId = await resolveProfileRemoteId(profileLocalId);
+        if (!profileRemoteId) {
+            throw new Error(`Cannot sync ${tableName}: maternal profile "${profileLocalId}" not yet synced`);
         }
+        data.maternal_profile_id = profileRemoteId;
+        // Remove local-only reference fields
+        delete data.maternal_profile_local_id;
     }
 
-    const { data: result, error } = await supabase
-        .from(tableName)
-        .insert(data)
-        .select('id')
-        .single();
+    const [result] = await backend.insertOnce(tableName, [data]);
+    if (!result) throw new Error(`Cannot sync ${tableName}: insert of "${localId}" returned no row`);
+
+    // The server numbers threshold sets; keep its version so the cache never holds two sets under one number
+    if (tableName === 'shock_threshold_sets' && result.version !== payload.version) {
+        await saveShockThresholdSets([{
+            id: localId,
+            facility_id: payload.facility_id,
+            version: result.version,
+            thresholds: JSON.stringify(payload.thresholds),
+            policy: JSON.stringify(payload.policy),
+            created_by: payload.created_by,
+            created_at: payload.created_at,
+            is_synced: true,
+        }]);
+    }
+
+    if (tableName === 'preparedness_checks') await applyPreparednessTick(data, result);
 
-    if (error) throw error;
+    if (isConflictTable(tableName)) {
+        await setSyncBase(tableName, localId, result.updated_at, JSON.stringify(snapshotSyncBase(tableName, data)));
+    }
     return result.id;
 }
 
+/**
+ * A case has one check per preparedness item, under a local_id derived from
+ * both. When another device inserted it first, its row comes back from the
+ * insert instead — apply this device's tick (or untick) on top of it.
+ */
+async function applyPreparednessTick(sent: Record<string, any>, stored: RemoteRow): Promise<void> {
+    if (!!stored.completed_at === !!sent.completed_at) return;
+    const rows = await backend.update('preparedness_checks', stored.id, {
+        completed_at: sent.completed_at ?? null,
+        completed_by: sent.completed_by ?? null,
+    });
+    if (rows.length === 0) {
+        throw Object.assign(new Error(`Cannot sync update: preparedness_checks "${sent.local_id}" was not updated on the server`), { status: 403 });
+    }
+}
+
 async function syncUpdate(
     tableName: string,
     payload: Record<string, any>
 ): Promise<void> {
-    const { local_id, remote_id, is_synced, id, ...data } = payload;
+    const { local_id, remote_id, is_synced, remote_updated_at, sync_base, id, ...data } = payload;
 
-    // Resolve the remote UUID — try remote_id, then id, then look up by local_id
-    let updateId = remote_id || id;
+    // Resolve the remote UUID — try remote_id, then id, then the cached mapping, then look up by local_id
+    let updateId = remote_id || id || (local_id ? await getRemoteId(tableName, local_id) : null);
     if (!updateId && local_id) {
-        const { data: lookupData } = await supabase
-            .from(tableName)
-            .select('id')
-            .eq('local_id', local_id)
-            .maybeSingle();
+        const lookupData = await findOrNull(backend.findByLocalId(tableName, local_id));
         updateId = lookupData?.id;
     }
 
@@ -215,270 +445,521 @@ async function syncUpdate(
 
     // Handle maternal_profile_id resolution for updates too
     const profileLocalId = data.maternal_profile_id || data.maternal_profile_local_id;
-    if ((tableName === 'vital_signs' || tableName === 'emotive_checklists' || tableName === 'case_events') && profileLocalId) {
-        const { data: profileData } = await supabase
-            .from('maternal_profiles')
-            .select('id')
-            .eq('local_id', profileLocalId)
-            .maybeSingle();
-        if (profileData?.id) {
-            data.maternal_profile_id = profileData.id;
+    if (PROFILE_CHILD_TABLES.includes(tableName) && profileLocalId) {
+        const profileRemoteId = await resolveProfileRemoteId(profileLocalId);
+        if (profileRemoteId) {
+            data.maternal_profile_id = profileRemoteId;
             delete data.maternal_profile_local_id;
-        } else {
-            // Check if it's already a UUID
-            if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(profileLocalId)) {
-                data.maternal_profile_id = profileLocalId;
-            }
         }
     }
 
-    const { error } = await supabase
-        .from(tableName)
-        .update(data)
-        .eq('id', updateId);
+    if (isConflictTable(tableName)) {
+        await syncTrackedUpdate(tableName, updateId, payload, data);
+        return;
+    }
 
-    if (error) throw error;
+    // No row back means RLS refused the update (or the row is gone) — the change did not land
+    const rows = await backend.update(tableName, updateId, data);
+    if (rows.length === 0) {
+        throw Object.assign(new Error(`Cannot sync update: ${tableName} "${local_id ?? updateId}" was not updated on the server`), { status: 403 });
+    }
+}
+
+/**
+ * Update a conflict-tracked row only if the server still holds the version
+ * this device last saw. If it has moved on, merge the server version in and
+ * try once more — or hold the item when a clinician has to decide.
+ */
+async function syncTrackedUpdate(
+    tableName: ConflictTable,
+    updateId: string,
+    payload: Record<string, any>,
+    data: Record<string, any>,
+    attempt = 0
+): Promise<void> {
+    const local = await getTrackedRecord(tableName, payload);
+
+    // Push the row as it is now, not as it was when queued — a merge may have changed it since
+    const rows = await backend.update(
+        tableName,
+        updateId,
+        local ? { ...data, ...snapshotSyncBase(tableName, local) } : data,
+        local?.remote_updated_at || undefined
+    );
+
+    if (rows.length > 0) {
+        if (local) {
+            await setSyncBase(tableName, local.local_id, rows[0].updated_at, JSON.stringify(snapshotSyncBase(tableName, rows[0])));
+        }
+        return;
+    }
+
+    // Nothing matched: the server version changed since this device's base — or RLS refused the update
+    const remote = await findOrNull(backend.findById(tableName, updateId));
+    if (!local || !remote || remote.updated_at === local.remote_updated_at) {
+        throw Object.assign(new Error(`Cannot sync update: ${tableName} "${payload.local_id}" was not updated on the server`), { status: 403 });
+    }
+
+    const settled = await reconcileTrackedRecord(tableName, local, remote);
+    if (!settled) {
+        throw new Error(`Sync conflict on ${tableName} "${local.local_id}" held for review`);
+    }
+    if (attempt > 0) {
+        throw new Error(`Cannot sync update: ${tableName} "${local.local_id}" keeps changing on the server`);
+    }
+    await syncTrackedUpdate(tableName, updateId, payload, data, attempt + 1);
+}
+
+async function getTrackedRecord(tableName: ConflictTable, record: Record<string, any>) {
+    return tableName === 'maternal_profiles'
+        ? clinicalStore.getProfile(record.local_id)
+        : clinicalStore.getChecklist(record.maternal_profile_local_id);
+}
+
+/**
+ * Rebase a row with unsynced local edits onto the server version. Groups
+ * the merge settles are saved straight away; the rest keep the local values
+ * and are recorded as an open conflict. Returns true when nothing is held.
+ */
+async function reconcileTrackedRecord(
+    tableName: ConflictTable,
+    local: Record<string, any>,
+    remote: Record<string, any>
+): Promise<boolean> {
+    const remoteVersion = snapshotSyncBase(tableName, remote);
+    const { merged, conflicts } = mergeRecords(tableName, parseSyncBase(local.sync_base), local, remote);
+    const rebased: any = {
+        ...local,
+        ...merged,
+        remote_id: remote.id,
+        remote_updated_at: remote.updated_at,
+        sync_base: JSON.stringify(remoteVersion),
+        is_synced: false,
+    };
+
+    if (tableName === 'maternal_profiles') {
+        await clinicalStore.saveProfile(rebased);
+    } else {
+        await clinicalStore.saveChecklist(rebased);
+    }
+
+    if (conflicts.length > 0) {
+        console.warn(`[Sync] ${conflicts.length} conflicting field group(s) on ${tableName} "${local.local_id}"`);
+        await saveSyncConflict({
+            id: `${tableName}:${local.local_id}`,
+            table_name: tableName,
+            record_local_id: local.local_id,
+            maternal_profile_local_id: tableName === 'maternal_profiles' ? local.local_id : local.maternal_profile_local_id,
+            fields: JSON.stringify(conflicts),
+            remote_version: JSON.stringify(remoteVersion),
+            remote_updated_at: remote.updated_at,
+            status: 'open',
+            detected_at: new Date().toISOString(),
+        });
+    }
+
+    return conflicts.length === 0;
 }
 
 async function syncDelete(
     tableName: string,
     id: string
 ): Promise<void> {
-    const { error } = await supabase.from(tableName).delete().eq('id', id);
-    if (error) throw error;
+    await backend.remove(tableName, id);
 }
 
 // ── Pull from Remote (Download) ──────────────────────────────
 
+/**
+ * Read a pull page by page in (cursorColumn, id) order, handing each row to
+ * `apply`. Returns the cursor value of the last row applied before the first
+ * failure, so a row that failed to save is fetched again next time.
+ */
+async function fetchPages(
+    query: PullQuery,
+    apply: (row: any) => Promise<void>,
+    onPage?: (highWaterMark: string) => Promise<void>,
+    maxPages = Infinity
+): Promise<{ pulled: number; errors: number; highWaterMark: string | null }> {
+    let pulled = 0;
+    let errors = 0;
+    let highWaterMark: string | null = null;
+
+    for (let page = 0, from = 0; page < maxPages; page++, from += PULL_PAGE_SIZE) {
+        const rows = await backend.fetchPage(query, from, PULL_PAGE_SIZE);
+        for (const row of rows) {
+            try {
+                await apply(row);
+                pulled++;
+                if (errors === 0) highWaterMark = row[query.cursorColumn];
+            } catch (e) {
+                console.warn('[Pull] Failed to save row:', e);
+                errors++;
+            }
+        }
+
+        if (highWaterMark && onPage) await onPage(highWaterMark);
+        if (rows.length < PULL_PAGE_SIZE) break;
+    }
+
+    return { pulled, errors, highWaterMark };
+}
+
+/**
+ * Pull the rows of one table changed since its high-water mark. The mark
+ * advances after every page, so a pull cut short by a dropped connection
+ * or the page limit resumes where it stopped.
+ */
+async function pullTable(
+    scopeKey: string,
+    query: PullQuery,
+    apply: (row: any) => Promise<void>,
+    maxPages = Infinity
+): Promise<{ pulled: number; errors: number; since: string | null }> {
+    const cursorKey = getCursorKey(query.table, scopeKey);
+    const since = getDeltaSince(await getSyncCursor(cursorKey));
+
+    const result = await fetchPages(
+        { ...query, since },
+        apply,
+        highWaterMark => setSyncCursor(cursorKey, highWaterMark),
+        maxPages
+    );
+
+    return { pulled: result.pulled, errors: result.errors, since };
+}
+
 /**
  * Fetches the user's data from Supabase and upserts it into local SQLite.
  * This enables cross-device sync: login on a new device → pull → see your data.
+ *
+ * After the first full pull only rows changed since the last successful
+ * pull are downloaded (see lib/sync-cursor), and rows deleted on the server
+ * are removed locally from the deleted_records tombstones.
+ *
+ * A local row with changes not yet pushed is never overwritten: cases and
+ * E-MOTIVE checklists are merged with the server version, anything else is
+ * kept as it is until its queued change reaches the server.
+ *
+ * `maxPages` caps the pages fetched per table (background runs use a small
+ * cap); whatever is left is picked up by the next pull.
  */
-export async function pullFromRemote(options: {
-    userId?: string;
-    facilityId?: string;
-    unitId?: string;
-    role?: string;
-}): Promise<{ pulled: number; errors: number }> {
-    const { saveMaternalProfile, saveVitalSign, saveEmotiveChecklist, saveCaseEvent, saveEmergencyContacts } = await import('@/lib/clinical-db');
+export async function pullFromRemote(
+    options: PullScope,
+    { maxPages = Infinity }: { maxPages?: number } = {}
+): Promise<{ pulled: number; deleted: number; errors: number }> {
     let pulled = 0;
+    let deleted = 0;
     let errors = 0;
 
-    const { userId, facilityId, unitId, role } = options;
-    const isSupervisor = role === 'supervisor' || role === 'admin';
+    const { facilityId } = options;
+    const scopeKey = getPullScopeKey(options);
+
+    const tally = (result: { pulled: number; errors: number }) => {
+        pulled += result.pulled;
+        errors += result.errors;
+    };
 
     try {
         // 1. Pull maternal profiles
-        let profileQuery = supabase.from('maternal_profiles').select('*');
-        if (isSupervisor && facilityId) {
-            profileQuery = profileQuery.eq('facility_id', facilityId);
-        } else if (unitId) {
-            profileQuery = profileQuery.or(`unit_id.eq.${unitId},created_by.eq.${userId || ''}`);
-        } else if (userId) {
-            profileQuery = profileQuery.eq('created_by', userId);
-        }
-
-        const { data: remoteProfiles, error: profileError } = await profileQuery.order('updated_at', { ascending: false });
-        if (profileError) throw profileError;
-
-        if (remoteProfiles) {
-            for (const r of remoteProfiles) {
-                try {
-                    await saveMaternalProfile({
-                        local_id: r.local_id || r.id,
-                        remote_id: r.id,
-                        facility_id: r.facility_id,
-                        unit_id: r.unit_id,
-                        created_by: r.created_by,
-                        patient_id: r.patient_id,
-                        age: r.age,
-                        gravida: r.gravida ?? 1,
-                        parity: r.parity ?? 0,
-                        gestational_age_weeks: r.gestational_age_weeks,
-                        is_multiple_gestation: !!r.is_multiple_gestation,
-                        has_prior_cesarean: !!r.has_prior_cesarean,
-                        has_placenta_previa: !!r.has_placenta_previa,
-                        has_large_fibroids: !!r.has_large_fibroids,
-                        has_anemia: !!r.has_anemia,
-                        has_pph_history: !!r.has_pph_history,
-                        has_intraamniotic_infection: !!r.has_intraamniotic_infection,
-                        has_severe_anemia: !!r.has_severe_anemia,
-                        has_coagulopathy: !!r.has_coagulopathy,
-                        has_severe_pph_history: !!r.has_severe_pph_history,
-                        has_placenta_accreta: !!r.has_placenta_accreta,
-                        has_active_bleeding: !!r.has_active_bleeding,
-                        has_morbid_obesity: !!r.has_morbid_obesity,
-                        hemoglobin_level: r.hemoglobin_level,
-                        risk_level: r.risk_level ?? 'low',
-                        risk_score: r.risk_score ?? 0,
-                        delivery_time: r.delivery_time,
-                        status: r.status ?? 'pre_delivery',
-                        outcome: r.outcome,
-                        notes: r.notes,
-                        is_synced: true,
-                        created_at: r.created_at,
-                        updated_at: r.updated_at,
-                    });
-                    pulled++;
-                } catch (e) {
-                    console.warn('[Pull] Failed to save profile:', e);
-                    errors++;
-                }
-            }
-
-            // 2. Pull vitals, checklists, events for each profile
-            const profileIds = remoteProfiles.map((p: any) => p.id).filter(Boolean);
-
-            if (profileIds.length > 0) {
-                // Pull vital signs
-                const { data: remoteVitals } = await supabase
-                    .from('vital_signs')
-                    .select('*')
-                    .in('maternal_profile_id', profileIds)
-                    .order('recorded_at', { ascending: false });
-
-                if (remoteVitals) {
-                    for (const v of remoteVitals) {
-                        try {
-                            // Find the local_id for this profile
-                            const profile = remoteProfiles.find((p: any) => p.id === v.maternal_profile_id);
-                            const profileLocalId = profile?.local_id || v.maternal_profile_id;
-                            await saveVitalSign({
-                                local_id: v.local_id || v.id,
-                                remote_id: v.id,
-                                maternal_profile_local_id: profileLocalId,
-                                recorded_by: v.recorded_by,
-                                heart_rate: v.heart_rate,
-                                systolic_bp: v.systolic_bp,
-                                diastolic_bp: v.diastolic_bp,
-                                temperature: v.temperature,
-                                respiratory_rate: v.respiratory_rate,
-                                spo2: v.spo2,
-                                shock_index: v.shock_index,
-                                estimated_blood_loss: v.estimated_blood_loss ?? 0,
-                                blood_loss_method: v.blood_loss_method,
-                                blood_loss_ai_estimate: v.blood_loss_ai_estimate,
-                                blood_loss_confidence: v.blood_loss_confidence,
-                                blood_loss_ai_method: v.blood_loss_ai_method,
-                                is_synced: true,
-                                recorded_at: v.recorded_at,
-                            });
-                            pulled++;
-                        } catch (e) {
-                            console.warn('[Pull] Failed to save vital:', e);
-                            errors++;
-                        }
+        // Cases new to this device — records older than the child tables' marks are backfilled below
+        const newProfileIds: string[] = [];
+
+        tally(await pullTable(
+            scopeKey,
+            { table: 'maternal_profiles', cursorColumn: 'updated_at', scope: options },
+            async (r) => {
+                // Never overwrite unsynced local edits — rebase them onto the newer server version
+                const local = await clinicalStore.getProfile(r.local_id || r.id);
+                if (local && !local.is_synced) {
+                    if (local.remote_updated_at !== r.updated_at) {
+                        await reconcileTrackedRecord('maternal_profiles', local, r);
                     }
+                    return;
                 }
-
-                // Pull emotive checklists
-                const { data: remoteChecklists } = await supabase
-                    .from('emotive_checklists')
-                    .select('*')
-                    .in('maternal_profile_id', profileIds);
-
-                if (remoteChecklists) {
-                    for (const c of remoteChecklists) {
-                        try {
-                            const profile = remoteProfiles.find((p: any) => p.id === c.maternal_profile_id);
-                            const profileLocalId = profile?.local_id || c.maternal_profile_id;
-                            await saveEmotiveChecklist({
-                                local_id: c.local_id || c.id,
-                                remote_id: c.id,
-                                maternal_profile_local_id: profileLocalId,
-                                performed_by: c.performed_by,
-                                early_detection_done: !!c.early_detection_done,
-                                early_detection_time: c.early_detection_time,
-                                early_detection_notes: c.early_detection_notes,
-                                massage_done: !!c.massage_done,
-                                massage_time: c.massage_time,
-                                massage_notes: c.massage_notes,
-                                oxytocin_done: !!c.oxytocin_done,
-                                oxytocin_time: c.oxytocin_time,
-                                oxytocin_dose: c.oxytocin_dose,
-                                oxytocin_notes: c.oxytocin_notes,
-                                txa_done: !!c.txa_done,
-                                txa_time: c.txa_time,
-                                txa_dose: c.txa_dose,
-                                txa_notes: c.txa_notes,
-                                iv_fluids_done: !!c.iv_fluids_done,
-                                iv_fluids_time: c.iv_fluids_time,
-                                iv_fluids_volume: c.iv_fluids_volume,
-                                iv_fluids_notes: c.iv_fluids_notes,
-                                escalation_done: !!c.escalation_done,
-                                escalation_time: c.escalation_time,
-                                escalation_notes: c.escalation_notes,
-                                diagnostics_causes: c.diagnostics_causes,
-                                diagnostics_notes: c.diagnostics_notes,
-                                is_synced: true,
-                                created_at: c.created_at,
-                                updated_at: c.updated_at,
-                            });
-                            pulled++;
-                        } catch (e) {
-                            console.warn('[Pull] Failed to save checklist:', e);
-                            errors++;
+                if (!local) newProfileIds.push(r.id);
+
+                await clinicalStore.saveProfile({
+                    local_id: r.local_id || r.id,
+                    remote_id: r.id,
+                    facility_id: r.facility_id,
+                    unit_id: r.unit_id,
+                    created_by: r.created_by,
+                    patient_id: r.patient_id,
+                    patient_local_id: r.patient_local_id ?? undefined,
+                    age: r.age,
+                    gravida: r.gravida ?? 1,
+                    parity: r.parity ?? 0,
+                    gestational_age_weeks: r.gestational_age_weeks,
+                    is_multiple_gestation: !!r.is_multiple_gestation,
+                    has_prior_cesarean: !!r.has_prior_cesarean,
+                    has_placenta_previa: !!r.has_placenta_previa,
+                    has_large_fibroids: !!r.has_large_fibroids,
+                    has_anemia: !!r.has_anemia,
+                    has_pph_history: !!r.has_pph_history,
+                    has_intraamniotic_infection: !!r.has_intraamniotic_infection,
+                    has_severe_anemia: !!r.has_severe_anemia,
+                    has_coagulopathy: !!r.has_coagulopathy,
+                    has_severe_pph_history: !!r.has_severe_pph_history,
+                    has_placenta_accreta: !!r.has_placenta_accreta,
+                    has_active_bleeding: !!r.has_active_bleeding,
+                    has_morbid_obesity: !!r.has_morbid_obesity,
+                    has_preeclampsia: !!r.has_preeclampsia,
+                    is_induced_labor: !!r.is_induced_labor,
+                    has_prolonged_labor: !!r.has_prolonged_labor,
+                    has_macrosomia: !!r.has_macrosomia,
+                    has_prolonged_second_stage: !!r.has_prolonged_second_stage,
+                    has_operative_delivery: !!r.has_operative_delivery,
+                    hemoglobin_level: r.hemoglobin_level,
+                    risk_level: r.risk_level ?? 'low',
+                    risk_score: r.risk_score ?? 0,
+                    risk_rule_version: r.risk_rule_version ?? undefined,
+                    delivery_time: r.delivery_time,
+                    status: r.status ?? 'pre_delivery',
+                    outcome: r.outcome,
+                    notes: r.notes,
+                    is_synced: true,
+                    remote_updated_at: r.updated_at,
+                    sync_base: JSON.stringify(snapshotSyncBase('maternal_profiles', r)),
+                    created_at: r.created_at,
+                    updated_at: r.updated_at,
+                });
+            },
+            maxPages
+        ));
+
+        // 2. Pull vitals, checklists and events. The embedded profile scopes the
+        //    query and maps the remote profile id back to the local one.
+        const children: { table: string; apply: (row: any, profileLocalId: string) => Promise<void> }[] = [
+            {
+                table: 'vital_signs',
+                apply: (v, profileLocalId) => clinicalStore.saveVitalSign({
+                    local_id: v.local_id || v.id,
+                    remote_id: v.id,
+                    maternal_profile_local_id: profileLocalId,
+                    recorded_by: v.recorded_by,
+                    heart_rate: v.heart_rate,
+                    systolic_bp: v.systolic_bp,
+                    diastolic_bp: v.diastolic_bp,
+                    temperature: v.temperature,
+                    respiratory_rate: v.respiratory_rate,
+                    spo2: v.spo2,
+                    shock_index: v.shock_index,
+                    meows_red: v.meows_red,
+                    meows_yellow: v.meows_yellow,
+                    meows_level: v.meows_level,
+                    threshold_set_id: v.threshold_set_id ?? undefined,
+                    threshold_version: v.threshold_version,
+                    amendment_status: v.amendment_status,
+                    amendment_reason: v.amendment_reason,
+                    original_values: v.original_values ? JSON.stringify(v.original_values) : undefined,
+                    amended_by: v.amended_by,
+                    amended_at: v.amended_at,
+                    estimated_blood_loss: v.estimated_blood_loss ?? 0,
+                    blood_loss_method: v.blood_loss_method,
+                    blood_loss_ai_estimate: v.blood_loss_ai_estimate,
+                    blood_loss_confidence: v.blood_loss_confidence,
+                    blood_loss_ai_method: v.blood_loss_ai_method,
+                    is_synced: true,
+                    recorded_at: v.recorded_at,
+                }),
+            },
+            {
+                table: 'blood_loss_entries',
+                apply: (b, profileLocalId) => clinicalStore.saveBloodLossEntry({
+                    local_id: b.local_id || b.id,
+                    remote_id: b.id,
+                    maternal_profile_local_id: profileLocalId,
+                    recorded_by: b.recorded_by,
+                    method: b.method,
+                    volume_ml: b.volume_ml,
+                    dry_weight_g: b.dry_weight_g,
+                    wet_weight_g: b.wet_weight_g,
+                    vital_sign_local_id: b.vital_sign_local_id,
+                    notes: b.notes,
+                    is_synced: true,
+                    recorded_at: b.recorded_at,
+                }),
+            },
+            {
+                table: 'risk_assessments',
+                apply: (a, profileLocalId) => clinicalStore.saveRiskAssessment({
+                    local_id: a.local_id || a.id,
+                    remote_id: a.id,
+                    maternal_profile_local_id: profileLocalId,
+                    assessed_by: a.assessed_by,
+                    previous_risk_level: a.previous_risk_level,
+                    previous_risk_score: a.previous_risk_score,
+                    risk_level: a.risk_level,
+                    risk_score: a.risk_score,
+                    risk_rule_version: a.risk_rule_version,
+                    factors: typeof a.factors === 'string' ? a.factors : JSON.stringify(a.factors ?? []),
+                    notes: a.notes,
+                    is_synced: true,
+                    assessed_at: a.assessed_at,
+                }),
+            },
+            {
+                table: 'preparedness_checks',
+                apply: (c, profileLocalId) => clinicalStore.savePreparednessCheck({
+                    local_id: c.local_id || c.id,
+                    remote_id: c.id,
+                    maternal_profile_local_id: profileLocalId,
+                    item_id: c.item_id,
+                    completed_at: c.completed_at ?? undefined,
+                    completed_by: c.completed_by ?? undefined,
+                    is_synced: true,
+                    updated_at: c.updated_at,
+                }),
+            },
+            {
+                table: 'emotive_checklists',
+                apply: async (c, profileLocalId) => {
+                    const local = await clinicalStore.getChecklist(profileLocalId);
+                    if (local && !local.is_synced) {
+                        if (local.remote_updated_at !== c.updated_at) {
+                            await reconcileTrackedRecord('emotive_checklists', local, c);
                         }
+                        return;
                     }
-                }
 
-                // Pull case events
-                const { data: remoteEvents } = await supabase
-                    .from('case_events')
-                    .select('*')
-                    .in('maternal_profile_id', profileIds)
-                    .order('occurred_at', { ascending: false });
-
-                if (remoteEvents) {
-                    for (const e of remoteEvents) {
-                        try {
-                            const profile = remoteProfiles.find((p: any) => p.id === e.maternal_profile_id);
-                            const profileLocalId = profile?.local_id || e.maternal_profile_id;
-                            await saveCaseEvent({
-                                local_id: e.local_id || e.id,
-                                remote_id: e.id,
-                                maternal_profile_id: profileLocalId,
-                                event_type: e.event_type,
-                                event_label: e.event_label,
-                                event_data: e.event_data ? JSON.stringify(e.event_data) : undefined,
-                                performed_by: e.performed_by,
-                                occurred_at: e.occurred_at,
-                                is_synced: true,
-                            });
-                            pulled++;
-                        } catch {
-                            errors++;
-                        }
-                    }
-                }
+                    await clinicalStore.saveChecklist({
+                        local_id: c.local_id || c.id,
+                        remote_id: c.id,
+                        maternal_profile_local_id: profileLocalId,
+                        performed_by: c.performed_by,
+                        early_detection_done: !!c.early_detection_done,
+                        early_detection_time: c.early_detection_time,
+                        early_detection_notes: c.early_detection_notes,
+                        massage_done: !!c.massage_done,
+                        massage_time: c.massage_time,
+                        massage_notes: c.massage_notes,
+                        oxytocin_done: !!c.oxytocin_done,
+                        oxytocin_time: c.oxytocin_time,
+                        oxytocin_dose: c.oxytocin_dose,
+                        oxytocin_notes: c.oxytocin_notes,
+                        txa_done: !!c.txa_done,
+                        txa_time: c.txa_time,
+                        txa_dose: c.txa_dose,
+                        txa_notes: c.txa_notes,
+                        iv_fluids_done: !!c.iv_fluids_done,
+                        iv_fluids_time: c.iv_fluids_time,
+                        iv_fluids_volume: c.iv_fluids_volume,
+                        iv_fluids_notes: c.iv_fluids_notes,
+                        escalation_done: !!c.escalation_done,
+                        escalation_time: c.escalation_time,
+                        escalation_notes: c.escalation_notes,
+                        diagnostics_causes: c.diagnostics_causes,
+                        diagnostics_notes: c.diagnostics_notes,
+                        is_synced: true,
+                        remote_updated_at: c.updated_at,
+                        sync_base: JSON.stringify(snapshotSyncBase('emotive_checklists', c)),
+                        created_at: c.created_at,
+                        updated_at: c.updated_at,
+                    });
+                },
+            },
+            {
+                table: 'case_events',
+                apply: (e, profileLocalId) => clinicalStore.saveCaseEvent({
+                    local_id: e.local_id || e.id,
+                    remote_id: e.id,
+                    maternal_profile_id: profileLocalId,
+                    event_type: e.event_type,
+                    event_label: e.event_label,
+                    event_data: e.event_data ? JSON.stringify(e.event_data) : undefined,
+                    performed_by: e.performed_by,
+                    occurred_at: e.occurred_at,
+                    is_synced: true,
+                }),
+            },
+        ];
+
+        for (const child of children) {
+            const apply = async (row: any) => {
+                // A record with changes still to push (e.g. an amended or voided vital) keeps them;
+                // the push brings the server up to date. Checklists merge instead, above.
+                if (!isConflictTable(child.table) && await hasUnsyncedChanges(child.table, row.local_id || row.id)) return;
+                await child.apply(row, row.maternal_profiles?.local_id || row.maternal_profile_id);
+            };
+            const delta = await pullTable(
+                scopeKey,
+                { table: child.table, cursorColumn: 'updated_at', scope: options },
+                apply,
+                maxPages
+            );
+            tally(delta);
+
+            // A case that newly entered scope (e.g. moved to this unit) has records older than the mark
+            if (delta.since && newProfileIds.length > 0) {
+                tally(await fetchPages(
+                    { table: child.table, cursorColumn: 'updated_at', profileIds: newProfileIds, before: delta.since },
+                    apply
+                ));
             }
         }
 
         // 3. Pull emergency contacts
         if (facilityId) {
-            const { data: remoteContacts } = await supabase
-                .from('emergency_contacts')
-                .select('*')
-                .or(`facility_id.eq.${facilityId},tier.eq.3`);
-
-            if (remoteContacts && remoteContacts.length > 0) {
-                await saveEmergencyContacts(remoteContacts.map((c: any) => ({
-                    ...c,
-                    is_active: c.is_active !== false,
-                    is_synced: true,
-                    is_deleted: false,
-                })));
-                pulled += remoteContacts.length;
-            }
+            tally(await pullTable(
+                `facility:${facilityId}`,
+                { table: 'emergency_contacts', cursorColumn: 'updated_at', contactsFacilityId: facilityId },
+                async (c) => {
+                    if (await hasUnsyncedChanges('emergency_contacts', c.id)) return;
+                    await saveEmergencyContacts([{
+                        ...c,
+                        is_active: c.is_active !== false,
+                        is_synced: true,
+                        is_deleted: false,
+                    }]);
+                },
+                maxPages
+            ));
+
+            // 3b. Pull the facility's patients, so a returning patient is recognized on any device
+            tally(await pullTable(
+                `facility:${facilityId}`,
+                { table: 'patients', cursorColumn: 'updated_at', facilityId },
+                async (p) => {
+                    if (await hasUnsyncedChanges('patients', p.local_id || p.id)) return;
+                    await savePatient({
+                        local_id: p.local_id || p.id,
+                        remote_id: p.id,
+                        facility_id: p.facility_id ?? undefined,
+                        patient_number: p.patient_number ?? undefined,
+                        full_name: p.full_name ?? undefined,
+                        birth_year: p.birth_year ?? undefined,
+                        created_by: p.created_by ?? undefined,
+                        is_synced: true,
+                        created_at: p.created_at,
+                        updated_at: p.updated_at,
+                    });
+                },
+                maxPages
+            ));
         }
 
+        // 4. Apply server-side deletions (RLS limits tombstones to what this user could see)
+        const tombstones = await pullTable(
+            scopeKey,
+            { table: 'deleted_records', cursorColumn: 'deleted_at' },
+            async (t) => {
+                // Emergency contacts share their id with Supabase; everything else is keyed by local_id
+                const localId = t.table_name === 'emergency_contacts' ? t.record_id : (t.local_id || t.record_id);
+                await deleteLocalRecord(t.table_name, localId);
+            },
+            maxPages
+        );
+        deleted += tombstones.pulled;
+        errors += tombstones.errors;
+
     } catch (error) {
         console.error('[Pull] Remote pull failed:', error);
         errors++;
     }
 
-    console.log(`[Pull] Done: ${pulled} records pulled, ${errors} errors`);
-    return { pulled, errors };
+    console.log(`[Pull] Done: ${pulled} records pulled, ${deleted} deletions applied, ${errors} errors`);
+    return { pulled, deleted, errors };
 }
 
 // ── Network Listener ─────────────────────────────────────────
@@ -520,10 +1001,21 @@ export function stopSyncListener(): void {
 
 // ── UUID Generator ───────────────────────────────────────────
 
+/**
+ * UUIDv7 (RFC 9562): a 48-bit millisecond timestamp followed by 74 random
+ * bits from the platform's secure random source. IDs sort by creation time
+ * and can't collide between devices the way Math.random-based IDs could.
+ */
 export function generateUUID(): string {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-        const r = (Math.random() * 16) | 0;
-        const v = c === 'x' ? r : (r & 0x3) | 0x8;
-        return v.toString(16);
-    });
+    const bytes = Crypto.getRandomBytes(16);
+    const ms = Date.now();
+
+    for (let i = 0; i < 6; i++) {
+        bytes[i] = Math.floor(ms / 2 ** (8 * (5 - i))) & 0xff;
+    }
+    bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+    bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 9562 variant
+
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
 }
@@ -0,0 +1,77 @@
+/**
+ * Sync Retry Policy
+ *
+ * Decides what happens to a queued operation that failed to reach
+ * Supabase. Transient failures (no network, timeouts, 5xx, rate limits,
+ * a parent record not synced yet) are retried with exponential backoff
+ * and jitter until the item's retry budget is spent. Permanent failures
+ * (RLS denials, constraint violations, bad columns) will fail the same way
+ * every time, so the item goes straight to the dead-letter state where it
+ * stays until someone looks at it.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export type SyncErrorKind = 'transient' | 'permanent';
+
+/** Error shape thrown by the sync operations — PostgrestError plus the HTTP status */
+export interface SyncErrorLike {
+    message?: string;
+    code?: string;
+    status?: number;
+}
+
+/** First retry waits around this long; each further retry doubles it */
+export const SYNC_RETRY_BASE_MS = 15_000;
+
+/** Backoff never grows beyond this */
+export const SYNC_RETRY_MAX_MS = 30 * 60_000;
+
+// ── Classification ───────────────────────────────────────────
+
+/** Postgres SQLSTATE classes worth retrying: connection, rollback/deadlock, resources, operator intervention */
+const TRANSIENT_SQLSTATE_CLASSES = ['08', '40', '53', '57'];
+
+/** Postgres SQLSTATE classes that will fail again: data, integrity constraint, access rule/RLS */
+const PERMANENT_SQLSTATE_CLASSES = ['22', '23', '42'];
+
+export function classifySyncError(error: SyncErrorLike | null | undefined): SyncErrorKind {
+    if (!error) return 'transient';
+    const code = error.code ?? '';
+    const status = error.status;
+
+    if (/^\d{5}$/.test(code)) {
+        const sqlClass = code.slice(0, 2);
+        if (TRANSIENT_SQLSTATE_CLASSES.includes(sqlClass)) return 'transient';
+        if (PERMANENT_SQLSTATE_CLASSES.includes(sqlClass)) return 'permanent';
+    }
+
+    if (status != null && status > 0) {
+        // 401 is usually an expired session that the next refresh fixes
+        if (status >= 500 || status === 401 || status === 408 || status === 429) return 'transient';
+        if (status >= 400) return 'permanent';
+    }
+
+    // PostgREST's own errors (schema cache, JWT, RLS) — PGRST0xx are connection problems
+    if (code.startsWith('PGRST')) return code.startsWith('PGRST0') ? 'transient' : 'permanent';
+
+    // No usable code or status: network failure, timeout, parent not yet
+    // synced, or something unexpected — retry, the budget bounds it
+    return 'transient';
+}
+
+// ── Backoff ──────────────────────────────────────────────────
+
+/**
+ * Delay before the next attempt, given how many attempts have failed so far.
+ * Half the exponential delay is fixed and half is random, so devices that
+ * went offline together don't all retry in the same second.
+ */
+export function getRetryDelay(retryCount: number, random: () => number = Math.random): number {
+    const exponential = Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * 2 ** Math.max(0, retryCount));
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+export function getNextAttemptAt(retryCount: number, now: Date = new Date()): string {
+    return new Date(now.getTime() + getRetryDelay(retryCount)).toISOString();
+}
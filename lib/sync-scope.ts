@@ -0,0 +1,81 @@
+/**
+ * Sync Scope & Retention
+ *
+ * What this device keeps. The sync scope decides which cases are pulled:
+ * the user's own, their unit's or (supervisors) the whole facility's,
+ * optionally only those touched in the last N days. Retention decides how
+ * long closed cases stay once the server has them: a closed case that has
+ * been fully synced and untouched for longer than the threshold is removed
+ * from the device. It can still be pulled again by widening the scope.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import { PullScope, SyncScopeMode } from '@/lib/sync-cursor';
+
+export interface DeviceDataPrefs {
+    /** null — the widest scope the user may pull */
+    scopeMode: SyncScopeMode | null;
+    /** null — cases of any age */
+    windowDays: number | null;
+    /** null — keep closed cases indefinitely */
+    retentionDays: number | null;
+}
+
+export const DEFAULT_DEVICE_DATA_PREFS: DeviceDataPrefs = {
+    scopeMode: null,
+    windowDays: null,
+    retentionDays: 30,
+};
+
+export const SYNC_WINDOW_OPTIONS_DAYS: (number | null)[] = [7, 30, 90, null];
+
+export const RETENTION_OPTIONS_DAYS: (number | null)[] = [7, 30, 90, null];
+
+export const SYNC_SCOPE_LABELS: Record<SyncScopeMode, string> = {
+    mine: 'My cases',
+    unit: 'My unit',
+    facility: 'Facility',
+};
+
+/** "Last 30 days" / "All time" */
+export function formatWindowDays(days: number | null): string {
+    return days ? `Last ${days} days` : 'All time';
+}
+
+/** "30 days" / "Keep" */
+export function formatRetentionDays(days: number | null): string {
+    return days ? `${days} days` : 'Keep';
+}
+
+/** Stored JSON → prefs; anything unreadable falls back to the defaults */
+export function parseDeviceDataPrefs(stored: string | null): DeviceDataPrefs {
+    if (!stored) return DEFAULT_DEVICE_DATA_PREFS;
+    try {
+        const parsed = JSON.parse(stored);
+        const days = (value: unknown, fallback: number | null) =>
+            value === null || (typeof value === 'number' && value > 0) ? value : fallback;
+        return {
+            scopeMode: parsed.scopeMode in SYNC_SCOPE_LABELS ? parsed.scopeMode : null,
+            windowDays: days(parsed.windowDays, DEFAULT_DEVICE_DATA_PREFS.windowDays),
+            retentionDays: days(parsed.retentionDays, DEFAULT_DEVICE_DATA_PREFS.retentionDays),
+        };
+    } catch {
+        return DEFAULT_DEVICE_DATA_PREFS;
+    }
+}
+
+/** The user's pull scope narrowed by their device data prefs */
+export function applyDeviceDataPrefs(scope: PullScope, prefs: DeviceDataPrefs): PullScope {
+    return {
+        ...scope,
+        mode: prefs.scopeMode ?? undefined,
+        windowDays: prefs.windowDays ?? undefined,
+    };
+}
+
+/** Closed cases last updated before this are purged, or null when retention is off */
+export function getRetentionCutoff(prefs: DeviceDataPrefs, now: Date = new Date()): string | null {
+    if (!prefs.retentionDays) return null;
+    return new Date(now.getTime() - prefs.retentionDays * 86_400_000).toISOString();
+}
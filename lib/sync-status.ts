@@ -0,0 +1,144 @@
+/**
+ * Sync Queue Status
+ *
+ * Describes what is still waiting in the sync queue for the Sync Status
+ * screen: each item's state, the case it belongs to and how long it has
+ * been waiting. An item counts as stuck once it has failed for good or has
+ * waited longer than the user's threshold.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+/**
+ * pending  — will go up with the next sync
+ * deferred — waiting: backing off after a failure, or held by a sync conflict
+ * failed   — dead-lettered; only a manual retry sends it again
+ */
+export type SyncItemState = 'pending' | 'deferred' | 'failed';
+
+/** Queue item fields the status screen needs — SyncQueueItem satisfies it */
+export interface SyncStatusItem {
+    id: string;
+    table_name: string;
+    record_id: string;
+    operation: string;
+    payload: string;
+    status: string;
+    retry_count?: number;
+    error_message?: string | null;
+    next_attempt_at?: string | null;
+    created_at: string;
+}
+
+export interface SyncCaseGroup<T extends SyncStatusItem> {
+    /** Local id of the case, or null for items not tied to one (emergency contacts, thresholds) */
+    caseLocalId: string | null;
+    tables: { tableName: string; items: T[] }[];
+}
+
+/** Choices for how long an item may wait before it is flagged */
+export const SYNC_STUCK_OPTIONS_MINUTES = [15, 60, 240, 1440];
+
+export const DEFAULT_SYNC_STUCK_MINUTES = 60;
+
+export const SYNC_TABLE_LABELS: Record<string, string> = {
+    patients: 'Patient',
+    maternal_profiles: 'Patient record',
+    vital_signs: 'Vital signs',
+    emotive_checklists: 'E-MOTIVE checklist',
+    case_events: 'Timeline event',
+    blood_loss_entries: 'Blood loss entry',
+    risk_assessments: 'Risk reassessment',
+    preparedness_checks: 'Preparedness item',
+    emergency_contacts: 'Emergency contact',
+    shock_threshold_sets: 'Shock thresholds',
+};
+
+export const SYNC_STATE_LABELS: Record<SyncItemState, string> = {
+    pending: 'Pending',
+    deferred: 'Deferred',
+    failed: 'Failed',
+};
+
+// ── State ────────────────────────────────────────────────────
+
+export function getSyncItemState(item: SyncStatusItem, held = false, now: Date = new Date()): SyncItemState {
+    if (item.status === 'dead') return 'failed';
+    if (held) return 'deferred';
+    if (item.next_attempt_at && Date.parse(item.next_attempt_at) > now.getTime()) return 'deferred';
+    return 'pending';
+}
+
+/**
+ * SQLite's datetime('now') default has no zone marker; read it as UTC
+ * rather than local time.
+ */
+function parseQueuedAt(createdAt: string): number {
+    return Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(createdAt) ? createdAt : `${createdAt.replace(' ', 'T')}Z`);
+}
+
+export function getSyncItemAgeMs(item: SyncStatusItem, now: Date = new Date()): number {
+    const queuedAt = parseQueuedAt(item.created_at);
+    return Number.isNaN(queuedAt) ? 0 : Math.max(0, now.getTime() - queuedAt);
+}
+
+export function isSyncItemStuck(item: SyncStatusItem, thresholdMinutes: number, now: Date = new Date()): boolean {
+    return item.status === 'dead' || getSyncItemAgeMs(item, now) > thresholdMinutes * 60_000;
+}
+
+/** "just now", "12 min", "3 h", "2 d" */
+export function formatSyncAge(ms: number): string {
+    const minutes = Math.floor(ms / 60_000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} h`;
+    return `${Math.floor(hours / 24)} d`;
+}
+
+export function formatStuckThreshold(minutes: number): string {
+    return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+// ── Grouping ─────────────────────────────────────────────────
+
+/** The case a queued change belongs to */
+export function getSyncItemCase(item: SyncStatusItem): string | null {
+    if (item.table_name === 'maternal_profiles') return item.record_id;
+    try {
+        const payload = JSON.parse(item.payload);
+        return payload.maternal_profile_local_id || payload.maternal_profile_id || null;
+    } catch {
+        return null;
+    }
+}
+
+/** Group items by case, then by table — oldest first within each table */
+export function groupSyncItems<T extends SyncStatusItem>(items: T[]): SyncCaseGroup<T>[] {
+    const byCase = new Map<string | null, Map<string, T[]>>();
+
+    for (const item of items) {
+        const caseLocalId = getSyncItemCase(item);
+        const tables = byCase.get(caseLocalId) ?? new Map<string, T[]>();
+        tables.set(item.table_name, [...(tables.get(item.table_name) ?? []), item]);
+        byCase.set(caseLocalId, tables);
+    }
+
+    return Array.from(byCase.entries()).map(([caseLocalId, tables]) => ({
+        caseLocalId,
+        tables: Array.from(tables.entries()).map(([tableName, tableItems]) => ({
+            tableName,
+            items: tableItems.sort((a, b) => parseQueuedAt(a.created_at) - parseQueuedAt(b.created_at)),
+        })),
+    }));
+}
+
+/**
+ * Other items discarding `item` takes with it. Discarding a new case's
+ * insert drops everything queued against the case, which could never be
+ * sent without it; any other change is discarded on its own.
+ */
+export function getDiscardedWith<T extends SyncStatusItem>(item: T, items: T[]): T[] {
+    if (item.table_name !== 'maternal_profiles' || item.operation !== 'insert') return [];
+    return items.filter(other => other.id !== item.id && getSyncItemCase(other) === item.record_id);
+}
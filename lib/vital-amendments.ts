@@ -0,0 +1,100 @@
+/**
+ * Vital Sign Amendments
+ *
+ * A recorded reading is never overwritten silently. Amending keeps the
+ * values as first recorded in `original_values` (set once, on the first
+ * amendment) alongside the reason, who and when; voiding keeps the values
+ * but excludes the reading from trends, charts and alarms. Reports show
+ * the originals struck through.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export type VitalAmendmentStatus = 'amended' | 'voided';
+
+export type AmendableVitalField =
+    | 'heart_rate'
+    | 'systolic_bp'
+    | 'diastolic_bp'
+    | 'temperature'
+    | 'respiratory_rate'
+    | 'spo2';
+
+export type OriginalVitalValues = Partial<Record<AmendableVitalField | 'shock_index', number | null>>;
+
+/** Reading shape — LocalVitalSign satisfies it */
+export interface AmendableReading {
+    heart_rate?: number | null;
+    systolic_bp?: number | null;
+    diastolic_bp?: number | null;
+    temperature?: number | null;
+    respiratory_rate?: number | null;
+    spo2?: number | null;
+    shock_index?: number | null;
+    amendment_status?: string | null;
+    /** JSON string locally; object when merged straight from Supabase (JSONB) */
+    original_values?: string | OriginalVitalValues | null;
+}
+
+export interface VitalChange {
+    field: AmendableVitalField | 'shock_index';
+    label: string;
+    original: number | null;
+    current: number | null;
+}
+
+export const AMENDABLE_FIELDS: { field: AmendableVitalField; label: string; unit: string }[] = [
+    { field: 'heart_rate', label: 'HR', unit: 'bpm' },
+    { field: 'systolic_bp', label: 'SBP', unit: 'mmHg' },
+    { field: 'diastolic_bp', label: 'DBP', unit: 'mmHg' },
+    { field: 'temperature', label: 'Temp', unit: '°C' },
+    { field: 'respiratory_rate', label: 'RR', unit: '/min' },
+    { field: 'spo2', label: 'SpO2', unit: '%' },
+];
+
+export function isVoided(reading: { amendment_status?: string | null }): boolean {
+    return reading.amendment_status === 'voided';
+}
+
+/** Local ids of the voided readings — their blood loss entries drop out of the total */
+export function voidedReadingIds(readings: { local_id: string; amendment_status?: string | null }[]): Set<string> {
+    return new Set(readings.filter(isVoided).map(r => r.local_id));
+}
+
+export function parseOriginalValues(raw: AmendableReading['original_values']): OriginalVitalValues | null {
+    if (!raw) return null;
+    if (typeof raw !== 'string') return raw;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return null;
+    }
+}
+
+/** Snapshot of the values as they stand now — stored on the first amendment */
+export function snapshotOriginalValues(reading: AmendableReading): OriginalVitalValues {
+    const snapshot: OriginalVitalValues = { shock_index: reading.shock_index ?? null };
+    for (const { field } of AMENDABLE_FIELDS) {
+        snapshot[field] = reading[field] ?? null;
+    }
+    return snapshot;
+}
+
+/** Fields whose current value differs from the originally recorded one */
+export function getVitalChanges(reading: AmendableReading): VitalChange[] {
+    const original = parseOriginalValues(reading.original_values);
+    if (!original) return [];
+
+    const fields: { field: AmendableVitalField | 'shock_index'; label: string }[] = [
+        ...AMENDABLE_FIELDS,
+        { field: 'shock_index', label: 'SI' },
+    ];
+    return fields
+        .filter(f => f.field in original && (original[f.field] ?? null) !== (reading[f.field] ?? null))
+        .map(f => ({
+            field: f.field,
+            label: f.label,
+            original: original[f.field] ?? null,
+            current: reading[f.field] ?? null,
+        }));
+}
@@ -0,0 +1,356 @@
+/**
+ * Vitals Chart Model
+ *
+ * Turns a patient's vital sign recordings into time-series data for
+ * charting: HR, SBP/DBP, SI, SpO2 and cumulative EBL plotted against
+ * minutes since delivery (or since the first reading if delivery time
+ * is not yet recorded), with shock index threshold bands and E-MOTIVE
+ * step timestamps as markers.
+ *
+ * The same model and scales drive both the on-screen chart (plain Views)
+ * and the SVG embedded in the PDF case report, so the two always agree.
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+import type { ShockThreshold } from './shock-index';
+
+export type ChartMetric = 'heart_rate' | 'blood_pressure' | 'shock_index' | 'spo2' | 'estimated_blood_loss';
+
+/** Minimal reading shape — LocalVitalSign and VitalSign both satisfy it */
+export interface ChartReading {
+    recorded_at: string;
+    heart_rate?: number | null;
+    systolic_bp?: number | null;
+    diastolic_bp?: number | null;
+    shock_index?: number | null;
+    spo2?: number | null;
+    estimated_blood_loss?: number | null;
+    amendment_status?: string | null;
+}
+
+/** E-MOTIVE step timestamps — LocalEmotiveChecklist satisfies it */
+export interface EmotiveTimes {
+    early_detection_time?: string;
+    massage_time?: string;
+    oxytocin_time?: string;
+    txa_time?: string;
+    iv_fluids_time?: string;
+    escalation_time?: string;
+}
+
+export interface ChartMetricConfig {
+    label: string;
+    shortLabel: string;
+    unit: string;
+    color: string;
+    /** Diastolic line for blood pressure */
+    secondaryColor?: string;
+    /** Default y-axis range — widened if readings fall outside it */
+    domain: [number, number];
+    decimals: number;
+}
+
+export interface ChartPoint {
+    /** Minutes since the chart origin (negative = before delivery) */
+    minutes: number;
+    value: number;
+    secondary?: number;
+}
+
+export interface ChartMarker {
+    minutes: number;
+    letter: string;
+    label: string;
+    color: string;
+}
+
+export interface ChartBand {
+    from: number;
+    to: number;
+    label: string;
+    color: string;
+}
+
+export interface VitalsChartData {
+    /** Epoch ms that minute 0 corresponds to */
+    originTime: number;
+    originIsDelivery: boolean;
+    xDomain: [number, number];
+    series: Record<ChartMetric, ChartPoint[]>;
+    markers: ChartMarker[];
+    /** Shock index threshold bands, lowest first */
+    siBands: ChartBand[];
+}
+
+export interface ChartLayout {
+    width: number;
+    height: number;
+    padding: { top: number; right: number; bottom: number; left: number };
+}
+
+export interface ChartScale {
+    x: (minutes: number) => number;
+    y: (value: number) => number;
+    yDomain: [number, number];
+    xTicks: number[];
+    yTicks: number[];
+}
+
+// ── Configuration ────────────────────────────────────────────
+
+export const CHART_METRICS: Record<ChartMetric, ChartMetricConfig> = {
+    heart_rate: { label: 'Heart Rate', shortLabel: 'HR', unit: 'bpm', color: '#E53935', domain: [40, 160], decimals: 0 },
+    blood_pressure: { label: 'Blood Pressure', shortLabel: 'BP', unit: 'mmHg', color: '#1E88E5', secondaryColor: '#90CAF9', domain: [40, 180], decimals: 0 },
+    shock_index: { label: 'Shock Index', shortLabel: 'SI', unit: '', color: '#6A1B9A', domain: [0.4, 2.0], decimals: 1 },
+    spo2: { label: 'SpO2', shortLabel: 'SpO2', unit: '%', color: '#00897B', domain: [85, 100], decimals: 0 },
+    estimated_blood_loss: { label: 'Cumulative EBL', shortLabel: 'EBL', unit: 'mL', color: '#B71C1C', domain: [0, 1000], decimals: 0 },
+};
+
+export const CHART_METRIC_ORDER: ChartMetric[] = [
+    'heart_rate',
+    'blood_pressure',
+    'shock_index',
+    'spo2',
+    'estimated_blood_loss',
+];
+
+const EMOTIVE_MARKERS: { key: keyof EmotiveTimes; letter: string; label: string; color: string }[] = [
+    { key: 'early_detection_time', letter: 'E', label: 'Early Detection', color: '#C62828' },
+    { key: 'massage_time', letter: 'M', label: 'Uterine Massage', color: '#E65100' },
+    { key: 'oxytocin_time', letter: 'O', label: 'Oxytocin', color: '#F57F17' },
+    { key: 'txa_time', letter: 'T', label: 'Tranexamic Acid', color: '#1B5E20' },
+    { key: 'iv_fluids_time', letter: 'I', label: 'IV Fluids', color: '#0D47A1' },
+    { key: 'escalation_time', letter: 'V/E', label: 'Escalation', color: '#4A148C' },
+];
+
+/** Tick spacing candidates in minutes — the smallest giving ≤ 6 ticks is used */
+const X_TICK_STEPS = [5, 10, 15, 30, 60, 120, 240, 480];
+
+// ── Model ────────────────────────────────────────────────────
+
+function toMinutes(iso: string, originTime: number): number {
+    return (new Date(iso).getTime() - originTime) / 60000;
+}
+
+function isNum(v: number | null | undefined): v is number {
+    return v !== null && v !== undefined && !isNaN(v);
+}
+
+export function buildVitalsChartData(
+    readings: ChartReading[],
+    options: {
+        deliveryTime?: string | null;
+        emotive?: EmotiveTimes | null;
+        thresholds?: ShockThreshold[];
+    } = {}
+): VitalsChartData {
+    // Voided readings are kept for the audit trail but never plotted
+    const sorted = readings.filter(r => r.amendment_status !== 'voided').sort(
+        (a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
+    );
+
+    const originIsDelivery = !!options.deliveryTime;
+    const originTime = options.deliveryTime
+        ? new Date(options.deliveryTime).getTime()
+        : sorted.length > 0 ? new Date(sorted[0].recorded_at).getTime() : Date.now();
+
+    const series: Record<ChartMetric, ChartPoint[]> = {
+        heart_rate: [],
+        blood_pressure: [],
+        shock_index: [],
+        spo2: [],
+        estimated_blood_loss: [],
+    };
+
+    for (const r of sorted) {
+        const minutes = toMinutes(r.recorded_at, originTime);
+        if (isNum(r.heart_rate)) series.heart_rate.push({ minutes, value: r.heart_rate });
+        if (isNum(r.systolic_bp)) {
+            series.blood_pressure.push({
+                minutes,
+                value: r.systolic_bp,
+                secondary: isNum(r.diastolic_bp) ? r.diastolic_bp : undefined,
+            });
+        }
+        if (isNum(r.shock_index)) series.shock_index.push({ minutes, value: r.shock_index });
+        if (isNum(r.spo2)) series.spo2.push({ minutes, value: r.spo2 });
+        if (isNum(r.estimated_blood_loss)) series.estimated_blood_loss.push({ minutes, value: r.estimated_blood_loss });
+    }
+
+    const markers: ChartMarker[] = [];
+    if (options.emotive) {
+        for (const m of EMOTIVE_MARKERS) {
+            const time = options.emotive[m.key];
+            if (time) markers.push({ minutes: toMinutes(time, originTime), letter: m.letter, label: m.label, color: m.color });
+        }
+    }
+
+    // Bands run from each threshold's cut-off up to the next one
+    const siBands: ChartBand[] = [];
+    if (options.thresholds) {
+        const ascending = [...options.thresholds].sort((a, b) => a.min - b.min);
+        ascending.forEach((t, i) => {
+            siBands.push({
+                from: t.min,
+                to: i < ascending.length - 1 ? ascending[i + 1].min : Infinity,
+                label: t.label,
+                color: t.bgColor,
+            });
+        });
+    }
+
+    const allMinutes = [
+        ...sorted.map(r => toMinutes(r.recorded_at, originTime)),
+        ...markers.map(m => m.minutes),
+        ...(originIsDelivery ? [0] : []),
+    ];
+    const xMin = allMinutes.length > 0 ? Math.min(...allMinutes) : 0;
+    const xMax = allMinutes.length > 0 ? Math.max(...allMinutes) : 0;
+
+    return {
+        originTime,
+        originIsDelivery,
+        // A single reading still needs some width to plot against
+        xDomain: [xMin, Math.max(xMax, xMin + 15)],
+        series,
+        markers,
+        siBands,
+    };
+}
+
+// ── Scales ───────────────────────────────────────────────────
+
+export function getYDomain(metric: ChartMetric, points: ChartPoint[]): [number, number] {
+    let [lo, hi] = CHART_METRICS[metric].domain;
+    for (const p of points) {
+        lo = Math.min(lo, p.value, p.secondary ?? p.value);
+        hi = Math.max(hi, p.value, p.secondary ?? p.value);
+    }
+    return [lo, hi];
+}
+
+export function createChartScale(data: VitalsChartData, metric: ChartMetric, layout: ChartLayout): ChartScale {
+    const { width, height, padding } = layout;
+    const plotW = width - padding.left - padding.right;
+    const plotH = height - padding.top - padding.bottom;
+    const [xMin, xMax] = data.xDomain;
+    const yDomain = getYDomain(metric, data.series[metric]);
+    const [yMin, yMax] = yDomain;
+
+    const step = X_TICK_STEPS.find(s => (xMax - xMin) / s <= 6) ?? X_TICK_STEPS[X_TICK_STEPS.length - 1];
+    const xTicks: number[] = [];
+    for (let t = Math.ceil(xMin / step) * step; t <= xMax; t += step) xTicks.push(t);
+
+    const yTicks = [0, 1, 2, 3, 4].map(i => yMin + ((yMax - yMin) * i) / 4);
+
+    return {
+        x: (minutes) => padding.left + ((minutes - xMin) / (xMax - xMin)) * plotW,
+        y: (value) => padding.top + (1 - (value - yMin) / (yMax - yMin)) * plotH,
+        yDomain,
+        xTicks,
+        yTicks,
+    };
+}
+
+export function formatChartMinutes(minutes: number, originIsDelivery: boolean): string {
+    const rounded = Math.round(minutes);
+    if (!originIsDelivery) return `${rounded}m`;
+    return rounded > 0 ? `+${rounded}m` : `${rounded}m`;
+}
+
+export function formatChartValue(metric: ChartMetric, value: number): string {
+    return value.toFixed(CHART_METRICS[metric].decimals);
+}
+
+// ── SVG (PDF report) ─────────────────────────────────────────
+
+const SVG_LAYOUT: ChartLayout = {
+    width: 680,
+    height: 150,
+    padding: { top: 22, right: 12, bottom: 22, left: 44 },
+};
+
+function escapeXml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** One panel per metric, stacked — rendered entirely offline */
+export function buildVitalsChartSVG(data: VitalsChartData, layout: ChartLayout = SVG_LAYOUT): string {
+    return CHART_METRIC_ORDER
+        .filter(metric => data.series[metric].length > 0)
+        .map(metric => buildMetricSVG(data, metric, layout))
+        .join('');
+}
+
+function buildMetricSVG(data: VitalsChartData, metric: ChartMetric, layout: ChartLayout): string {
+    const config = CHART_METRICS[metric];
+    const scale = createChartScale(data, metric, layout);
+    const { width, height, padding } = layout;
+    const points = data.series[metric];
+    const plotTop = padding.top;
+    const plotBottom = height - padding.bottom;
+    const plotRight = width - padding.right;
+    const parts: string[] = [];
+
+    // Threshold bands (SI only)
+    if (metric === 'shock_index') {
+        const [yMin, yMax] = scale.yDomain;
+        for (const band of data.siBands) {
+            const from = Math.max(band.from, yMin);
+            const to = Math.min(band.to, yMax);
+            if (to <= from) continue;
+            parts.push(
+                `<rect x="${padding.left}" y="${scale.y(to)}" width="${plotRight - padding.left}" height="${scale.y(from) - scale.y(to)}" fill="${band.color}" fill-opacity="0.12" />`
+            );
+        }
+    }
+
+    // Grid + y labels
+    for (const v of scale.yTicks) {
+        const y = scale.y(v);
+        parts.push(`<line x1="${padding.left}" y1="${y}" x2="${plotRight}" y2="${y}" stroke="#E5E7EB" stroke-width="1" />`);
+        parts.push(`<text x="${padding.left - 4}" y="${y + 3}" font-size="9" fill="#9CA3AF" text-anchor="end">${formatChartValue(metric, v)}</text>`);
+    }
+
+    // X ticks
+    for (const t of scale.xTicks) {
+        parts.push(`<text x="${scale.x(t)}" y="${height - 6}" font-size="9" fill="#9CA3AF" text-anchor="middle">${formatChartMinutes(t, data.originIsDelivery)}</text>`);
+    }
+
+    // Delivery line
+    if (data.originIsDelivery) {
+        const x = scale.x(0);
+        parts.push(`<line x1="${x}" y1="${plotTop}" x2="${x}" y2="${plotBottom}" stroke="#9B51E0" stroke-width="1.5" />`);
+    }
+
+    // E-MOTIVE markers
+    for (const m of data.markers) {
+        const x = scale.x(m.minutes);
+        parts.push(`<line x1="${x}" y1="${plotTop}" x2="${x}" y2="${plotBottom}" stroke="${m.color}" stroke-width="1" stroke-dasharray="3,3" />`);
+        parts.push(`<text x="${x}" y="${plotTop - 4}" font-size="9" font-weight="700" fill="${m.color}" text-anchor="middle">${escapeXml(m.letter)}</text>`);
+    }
+
+    // Series
+    const line = (values: { x: number; y: number }[], color: string) => {
+        if (values.length > 1) {
+            parts.push(`<polyline points="${values.map(p => `${p.x},${p.y}`).join(' ')}" fill="none" stroke="${color}" stroke-width="2" />`);
+        }
+        for (const p of values) {
+            parts.push(`<circle cx="${p.x}" cy="${p.y}" r="3" fill="${color}" />`);
+        }
+    };
+    if (config.secondaryColor) {
+        line(
+            points.filter(p => p.secondary !== undefined).map(p => ({ x: scale.x(p.minutes), y: scale.y(p.secondary!) })),
+            config.secondaryColor
+        );
+    }
+    line(points.map(p => ({ x: scale.x(p.minutes), y: scale.y(p.value) })), config.color);
+
+    const title = `${config.label}${config.unit ? ` (${config.unit})` : ''}`;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" style="display:block;margin-bottom:6px">
+        <text x="${padding.left}" y="12" font-size="10" font-weight="600" fill="#4B5563">${escapeXml(title)}</text>
+        ${parts.join('\n        ')}
+    </svg>`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Vital Signs Plausibility Validation
+ *
+ * Shared by the record-vitals form and ClinicalProvider.recordVitals so a
+ * mistyped value (HR 1200, SBP 12) never reaches the shock index or alarm.
+ *
+ * Each field has:
+ *   hard limits  → physiologically impossible; the reading is rejected
+ *   soft limits  → possible but unusual; the clinician must re-enter
+ *                  the value to confirm it
+ *   maxJump      → change from the previous reading (within
+ *                  JUMP_WINDOW_MINUTES) that also needs confirmation
+ *
+ * Pure TypeScript — no React, storage or device APIs.
+ */
+
+export type VitalField =
+    | 'heartRate'
+    | 'systolicBp'
+    | 'diastolicBp'
+    | 'temperature'
+    | 'respiratoryRate'
+    | 'spo2'
+    | 'bloodLossIncrement';
+
+/** Values being entered — RecordVitalsInput satisfies it */
+export interface VitalsValues {
+    heartRate?: number;
+    systolicBp?: number;
+    diastolicBp?: number;
+    temperature?: number;
+    respiratoryRate?: number;
+    spo2?: number;
+    bloodLossIncrement?: number;
+}
+
+/** Previous stored reading — LocalVitalSign satisfies it */
+export interface PreviousReading {
+    recorded_at: string;
+    heart_rate?: number | null;
+    systolic_bp?: number | null;
+    diastolic_bp?: number | null;
+    temperature?: number | null;
+    respiratory_rate?: number | null;
+    spo2?: number | null;
+}
+
+export interface VitalLimit {
+    label: string;
+    unit: string;
+    hard: [number, number];
+    soft: [number, number];
+    maxJump?: number;
+}
+
+export type VitalIssueKind = 'out_of_range' | 'implausible' | 'sudden_change' | 'inconsistent';
+
+export interface VitalIssue {
+    field: VitalField;
+    kind: VitalIssueKind;
+    severity: 'error' | 'warning';
+    message: string;
+    value: number;
+    previous?: number;
+}
+
+export interface VitalsValidation {
+    /** Hard failures — the reading cannot be saved */
+    errors: VitalIssue[];
+    /** Soft failures — the reading can be saved once each value is confirmed */
+    warnings: VitalIssue[];
+}
+
+// ── Limits ───────────────────────────────────────────────────
+
+export const VITAL_LIMITS: Record<VitalField, VitalLimit> = {
+    heartRate: { label: 'Heart rate', unit: 'bpm', hard: [20, 250], soft: [40, 160], maxJump: 40 },
+    systolicBp: { label: 'Systolic BP', unit: 'mmHg', hard: [40, 300], soft: [70, 180], maxJump: 40 },
+    diastolicBp: { label: 'Diastolic BP', unit: 'mmHg', hard: [20, 200], soft: [40, 110], maxJump: 30 },
+    temperature: { label: 'Temperature', unit: '°C', hard: [30, 44], soft: [35, 39.5], maxJump: 1.5 },
+    respiratoryRate: { label: 'Respiratory rate', unit: '/min', hard: [4, 70], soft: [8, 35], maxJump: 12 },
+    spo2: { label: 'SpO2', unit: '%', hard: [50, 100], soft: [85, 100], maxJump: 8 },
+    bloodLossIncrement: { label: 'Blood loss', unit: 'mL', hard: [0, 5000], soft: [0, 1500] },
+};
+
+/** Readings further apart than this are not compared for sudden changes */
+export const JUMP_WINDOW_MINUTES = 60;
+
+const PREVIOUS_COLUMNS: Partial<Record<VitalField, keyof PreviousReading>> = {
+    heartRate: 'heart_rate',
+    systolicBp: 'systolic_bp',
+    diastolicBp: 'diastolic_bp',
+    temperature: 'temperature',
+    respiratoryRate: 'respiratory_rate',
+    spo2: 'spo2',
+};
+
+// ── Validation ───────────────────────────────────────────────
+
+export function validateVitals(
+    values: VitalsValues,
+    previous?: PreviousReading | null,
+    now: Date = new Date()
+): VitalsValidation {
+    const errors: VitalIssue[] = [];
+    const warnings: VitalIssue[] = [];
+
+    const compareWithPrevious = !!previous
+        && (now.getTime() - new Date(previous.recorded_at).getTime()) / 60000 <= JUMP_WINDOW_MINUTES;
+
+    for (const field of Object.keys(VITAL_LIMITS) as VitalField[]) {
+        const value = values[field];
+        if (value === undefined || value === null) continue;
+        const limit = VITAL_LIMITS[field];
+        const fmt = (v: number) => `${v}${limit.unit === '°C' || limit.unit === '%' ? '' : ' '}${limit.unit}`;
+
+        if (isNaN(value) || value < limit.hard[0] || value > limit.hard[1]) {
+            errors.push({
+                field,
+                kind: 'out_of_range',
+                severity: 'error',
+                message: `${limit.label} ${isNaN(value) ? 'is not a number' : `${fmt(value)} is outside ${limit.hard[0]}–${limit.hard[1]}`}`,
+                value,
+            });
+            continue;
+        }
+
+        if (value < limit.soft[0] || value > limit.soft[1]) {
+            warnings.push({
+                field,
+                kind: 'implausible',
+                severity: 'warning',
+                message: `${limit.label} ${fmt(value)} is unusually ${value < limit.soft[0] ? 'low' : 'high'}`,
+                value,
+            });
+            continue;
+        }
+
+        const column = PREVIOUS_COLUMNS[field];
+        const prior = column && compareWithPrevious ? previous![column] as number | null | undefined : undefined;
+        if (limit.maxJump !== undefined && prior !== undefined && prior !== null
+            && Math.abs(value - prior) > limit.maxJump) {
+            warnings.push({
+                field,
+                kind: 'sudden_change',
+                severity: 'warning',
+                message: `${limit.label} changed from ${fmt(prior)} to ${fmt(value)}`,
+                value,
+                previous: prior,
+            });
+        }
+    }
+
+    if (values.systolicBp !== undefined && values.diastolicBp !== undefined
+        && !errors.some(e => e.field === 'systolicBp' || e.field === 'diastolicBp')
+        && values.diastolicBp >= values.systolicBp) {
+        errors.push({
+            field: 'diastolicBp',
+            kind: 'inconsistent',
+            severity: 'error',
+            message: `Diastolic BP (${values.diastolicBp}) must be lower than systolic (${values.systolicBp})`,
+            value: values.diastolicBp,
+        });
+    }
+
+    return { errors, warnings };
+}
+
+/** True if the value is within hard limits — used to gate live SI/alarms while typing */
+export function isWithinHardLimits(field: VitalField, value: number): boolean {
+    const [min, max] = VITAL_LIMITS[field].hard;
+    return !isNaN(value) && value >= min && value <= max;
+}
@@ -0,0 +1,14 @@
+-- ============================================================
+-- Migration: MEOWS (Modified Early Obstetric Warning Score)
+-- Stores yellow/red trigger counts alongside the shock index
+-- ============================================================
+
+ALTER TABLE vital_signs
+  ADD COLUMN IF NOT EXISTS meows_red    INTEGER,
+  ADD COLUMN IF NOT EXISTS meows_yellow INTEGER,
+  ADD COLUMN IF NOT EXISTS meows_level  TEXT
+    CHECK (meows_level IN ('normal', 'yellow', 'red'));
+
+COMMENT ON COLUMN vital_signs.meows_red    IS 'Number of MEOWS parameters in the red trigger band';
+COMMENT ON COLUMN vital_signs.meows_yellow IS 'Number of MEOWS parameters in the yellow trigger band';
+COMMENT ON COLUMN vital_signs.meows_level  IS 'normal | yellow (1 yellow) | red (1 red or 2+ yellow — escalate)';
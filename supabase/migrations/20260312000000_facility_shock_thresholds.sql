@@ -0,0 +1,40 @@
+-- Migration: 20260312000000_facility_shock_thresholds.sql
+-- Purpose: Facility-configurable shock index thresholds and alarm policy.
+-- Each save publishes a new version; the highest version per facility is active.
+
+CREATE TABLE public.shock_threshold_sets (
+    id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    facility_id   UUID NOT NULL REFERENCES public.facilities(id) ON DELETE CASCADE,
+    version       INTEGER NOT NULL CHECK (version > 0),
+    thresholds    JSONB NOT NULL, -- [{ min, level, label, color, bgColor, description, shouldPulse }]
+    policy        JSONB NOT NULL, -- { audio: [...levels], haptic: [...levels], escalate: [...levels] }
+    created_by    UUID REFERENCES public.profiles(id),
+    created_at    TIMESTAMPTZ DEFAULT now(),
+    -- Sync tracking
+    local_id      TEXT,
+    UNIQUE (facility_id, version)
+);
+
+CREATE INDEX idx_shock_threshold_sets_facility ON public.shock_threshold_sets(facility_id, version DESC);
+
+ALTER TABLE public.shock_threshold_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view threshold sets for their facility" ON public.shock_threshold_sets
+    FOR SELECT USING (
+        facility_id IN (SELECT facility_id FROM public.profiles WHERE id = auth.uid())
+    );
+
+-- Versions are append-only: no UPDATE/DELETE policy
+CREATE POLICY "Supervisors/Admins can publish threshold sets" ON public.shock_threshold_sets
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role IN ('supervisor', 'admin')
+        )
+    );
+
+-- Record which threshold version each reading was classified against (0 = built-in defaults)
+ALTER TABLE public.vital_signs
+    ADD COLUMN IF NOT EXISTS threshold_version INTEGER;
+
+COMMENT ON COLUMN public.vital_signs.threshold_version IS 'shock_threshold_sets.version in force for the facility when recorded; 0 = app defaults';
@@ -0,0 +1,44 @@
+-- Migration: 20260314000000_blood_loss_ledger.sql
+-- Purpose: Per-entry blood loss ledger. Each row is an increment with its
+-- measurement method; vital_signs.estimated_blood_loss carries the running
+-- (cumulative) total at the time the vitals were recorded.
+
+CREATE TABLE public.blood_loss_entries (
+    id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    maternal_profile_id   UUID NOT NULL REFERENCES public.maternal_profiles(id) ON DELETE CASCADE,
+    recorded_by           UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    method                TEXT NOT NULL CHECK (method IN ('visual', 'drape', 'weighed')),
+    volume_ml             INTEGER NOT NULL CHECK (volume_ml >= 0), -- increment since previous entry
+    dry_weight_g          INTEGER,                                  -- weighed only
+    wet_weight_g          INTEGER,                                  -- weighed only
+    vital_sign_local_id   TEXT,                                     -- vitals entry this was logged with
+    notes                 TEXT,
+    recorded_at           TIMESTAMPTZ DEFAULT now(),
+    -- Sync tracking
+    local_id              TEXT,
+    is_synced             BOOLEAN DEFAULT false
+);
+
+CREATE INDEX idx_blood_loss_entries_profile ON public.blood_loss_entries(maternal_profile_id);
+CREATE INDEX idx_blood_loss_entries_local_id ON public.blood_loss_entries(local_id);
+
+ALTER TABLE public.blood_loss_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view blood loss entries in their facility" ON public.blood_loss_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            JOIN public.profiles p ON p.id = auth.uid()
+            WHERE mp.id = blood_loss_entries.maternal_profile_id
+            AND (mp.facility_id = p.facility_id OR p.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Staff can record blood loss entries" ON public.blood_loss_entries
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin')
+        )
+    );
@@ -0,0 +1,22 @@
+-- ============================================================
+-- Migration: Vital sign amendments
+-- Readings can be amended or voided with a mandatory reason.
+-- The values as first recorded are kept in original_values so
+-- reports can show them struck through.
+-- ============================================================
+
+ALTER TABLE vital_signs
+  ADD COLUMN IF NOT EXISTS amendment_status TEXT
+    CHECK (amendment_status IN ('amended', 'voided')),
+  ADD COLUMN IF NOT EXISTS amendment_reason TEXT,
+  ADD COLUMN IF NOT EXISTS original_values  JSONB,
+  ADD COLUMN IF NOT EXISTS amended_by       UUID REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS amended_at       TIMESTAMPTZ;
+
+-- A reading cannot be amended or voided without saying why
+ALTER TABLE vital_signs
+  ADD CONSTRAINT vital_signs_amendment_reason_required
+    CHECK (amendment_status IS NULL OR length(trim(amendment_reason)) > 0);
+
+COMMENT ON COLUMN vital_signs.amendment_status IS 'NULL = as recorded | amended (values corrected) | voided (excluded from trends and alarms)';
+COMMENT ON COLUMN vital_signs.original_values  IS 'Values as first recorded, captured on the first amendment: { heart_rate, systolic_bp, diastolic_bp, temperature, respiratory_rate, spo2, shock_index }';
@@ -0,0 +1,16 @@
+-- ============================================================
+-- Migration: Versioned risk rule sets
+-- The risk calculator is now a versioned, data-driven rule set.
+-- Rule set v2 adds pre-eclampsia, induced labor, prolonged
+-- labor and fetal macrosomia. Each profile records the version
+-- it was assessed with so the assessment recalculates the same.
+-- ============================================================
+
+ALTER TABLE maternal_profiles
+  ADD COLUMN IF NOT EXISTS has_preeclampsia    BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_induced_labor    BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS has_prolonged_labor BOOLEAN DEFAULT false,   -- >24 h
+  ADD COLUMN IF NOT EXISTS has_macrosomia      BOOLEAN DEFAULT false,   -- EFW >4000 g
+  ADD COLUMN IF NOT EXISTS risk_rule_version   INTEGER;
+
+COMMENT ON COLUMN maternal_profiles.risk_rule_version IS 'Risk calculator rule set version used for risk_level / risk_score. NULL = v1 (assessed before versioning)';
@@ -0,0 +1,49 @@
+-- Migration: 20260320000000_risk_reassessment.sql
+-- Purpose: Intrapartum risk reassessment. maternal_profiles keeps the current
+-- risk; each reassessment is kept as a snapshot in risk_assessments together
+-- with the level it replaced. Rule set v3 adds two intrapartum factors.
+
+ALTER TABLE public.maternal_profiles
+    ADD COLUMN IF NOT EXISTS has_prolonged_second_stage BOOLEAN DEFAULT false,
+    ADD COLUMN IF NOT EXISTS has_operative_delivery     BOOLEAN DEFAULT false;  -- vacuum, forceps or intrapartum cesarean
+
+CREATE TABLE public.risk_assessments (
+    id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    maternal_profile_id   UUID NOT NULL REFERENCES public.maternal_profiles(id) ON DELETE CASCADE,
+    assessed_by           UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    previous_risk_level   TEXT CHECK (previous_risk_level IN ('low', 'medium', 'high')),
+    previous_risk_score   INTEGER,
+    risk_level            TEXT NOT NULL CHECK (risk_level IN ('low', 'medium', 'high')),
+    risk_score            INTEGER NOT NULL,
+    risk_rule_version     INTEGER NOT NULL,
+    factors               JSONB NOT NULL DEFAULT '[]'::jsonb,  -- [{ id, label, category }]
+    notes                 TEXT,
+    assessed_at           TIMESTAMPTZ DEFAULT now(),
+    -- Sync tracking
+    local_id              TEXT,
+    is_synced             BOOLEAN DEFAULT false
+);
+
+CREATE INDEX idx_risk_assessments_profile ON public.risk_assessments(maternal_profile_id);
+CREATE INDEX idx_risk_assessments_local_id ON public.risk_assessments(local_id);
+
+ALTER TABLE public.risk_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view risk assessments in their facility" ON public.risk_assessments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            JOIN public.profiles p ON p.id = auth.uid()
+            WHERE mp.id = risk_assessments.maternal_profile_id
+            AND (mp.facility_id = p.facility_id OR p.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Staff can record risk assessments" ON public.risk_assessments
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin')
+        )
+    );
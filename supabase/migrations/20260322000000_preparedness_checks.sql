@@ -0,0 +1,50 @@
+-- Migration: 20260322000000_preparedness_checks.sql
+-- Purpose: Risk-driven preparedness checklist. The items required for a
+-- patient are derived in the app from the current risk assessment; this
+-- table records when each one was completed (completed_at NULL = unticked).
+
+CREATE TABLE public.preparedness_checks (
+    id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    maternal_profile_id   UUID NOT NULL REFERENCES public.maternal_profiles(id) ON DELETE CASCADE,
+    item_id               TEXT NOT NULL,   -- e.g. group_crossmatch, large_bore_iv, blood_bank_notified
+    completed_at          TIMESTAMPTZ,
+    completed_by          UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at            TIMESTAMPTZ DEFAULT now(),
+    -- Sync tracking
+    local_id              TEXT,
+    is_synced             BOOLEAN DEFAULT false,
+    UNIQUE (maternal_profile_id, item_id)
+);
+
+CREATE INDEX idx_preparedness_checks_profile ON public.preparedness_checks(maternal_profile_id);
+CREATE INDEX idx_preparedness_checks_local_id ON public.preparedness_checks(local_id);
+
+ALTER TABLE public.preparedness_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view preparedness checks in their facility" ON public.preparedness_checks
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            JOIN public.profiles p ON p.id = auth.uid()
+            WHERE mp.id = preparedness_checks.maternal_profile_id
+            AND (mp.facility_id = p.facility_id OR p.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Staff can record preparedness checks" ON public.preparedness_checks
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin')
+        )
+    );
+
+CREATE POLICY "Staff can update preparedness checks" ON public.preparedness_checks
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin')
+        )
+    );
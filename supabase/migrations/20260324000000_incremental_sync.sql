@@ -0,0 +1,126 @@
+-- Migration: 20260324000000_incremental_sync.sql
+-- Purpose: Incremental (delta) pull. Every table the app pulls gets a
+-- server-assigned updated_at, set on insert as well as update, so a device
+-- can ask for "rows changed since my last pull". Client times such as
+-- recorded_at or occurred_at can't be used for this: a device that was
+-- offline uploads rows stamped hours in the past.
+-- Hard deletes leave a tombstone in deleted_records so they reach devices too.
+
+-- ── Server-side change timestamps ────────────────────────────
+
+ALTER TABLE public.vital_signs        ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE public.blood_loss_entries ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE public.risk_assessments   ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE public.case_events        ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+-- Tables without an updated_at trigger get one for inserts and updates
+CREATE TRIGGER update_vital_signs_updated_at
+    BEFORE INSERT OR UPDATE ON public.vital_signs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_blood_loss_entries_updated_at
+    BEFORE INSERT OR UPDATE ON public.blood_loss_entries
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_risk_assessments_updated_at
+    BEFORE INSERT OR UPDATE ON public.risk_assessments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_case_events_updated_at
+    BEFORE INSERT OR UPDATE ON public.case_events
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_preparedness_checks_updated_at
+    BEFORE INSERT OR UPDATE ON public.preparedness_checks
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tables that already stamp updates: the client sends its own updated_at on insert
+CREATE TRIGGER set_maternal_profiles_updated_at_on_insert
+    BEFORE INSERT ON public.maternal_profiles
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_emotive_updated_at_on_insert
+    BEFORE INSERT ON public.emotive_checklists
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_emergency_contacts_updated_at_on_insert
+    BEFORE INSERT ON public.emergency_contacts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Delta queries filter and page on (updated_at, id)
+CREATE INDEX IF NOT EXISTS idx_maternal_profiles_updated_at   ON public.maternal_profiles(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_vital_signs_updated_at         ON public.vital_signs(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_emotive_checklists_updated_at  ON public.emotive_checklists(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_blood_loss_entries_updated_at  ON public.blood_loss_entries(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_updated_at    ON public.risk_assessments(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_preparedness_checks_updated_at ON public.preparedness_checks(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_case_events_updated_at         ON public.case_events(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_emergency_contacts_updated_at  ON public.emergency_contacts(updated_at, id);
+
+-- ── Tombstones ───────────────────────────────────────────────
+
+CREATE TABLE public.deleted_records (
+    id                    BIGSERIAL PRIMARY KEY,
+    table_name            TEXT NOT NULL,
+    record_id             UUID NOT NULL,
+    local_id              TEXT,
+    maternal_profile_id   UUID,            -- the case the row belonged to (the row itself for maternal_profiles)
+    facility_id           UUID,
+    created_by            UUID,            -- case creator, for staff without a facility
+    deleted_at            TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_deleted_records_deleted_at ON public.deleted_records(deleted_at, id);
+
+CREATE OR REPLACE FUNCTION public.record_deletion()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row    JSONB := to_jsonb(OLD);
+    profile_id UUID;
+    facility   UUID;
+    creator    UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'maternal_profiles' THEN
+        profile_id := OLD.id;
+        facility   := (old_row->>'facility_id')::uuid;
+        creator    := (old_row->>'created_by')::uuid;
+    ELSIF TG_TABLE_NAME = 'emergency_contacts' THEN
+        facility   := (old_row->>'facility_id')::uuid;
+    ELSE
+        profile_id := (old_row->>'maternal_profile_id')::uuid;
+        SELECT mp.facility_id, mp.created_by INTO facility, creator
+        FROM public.maternal_profiles mp WHERE mp.id = profile_id;
+        -- Removed along with its case: the case's own tombstone covers it
+        IF NOT FOUND THEN
+            RETURN OLD;
+        END IF;
+    END IF;
+
+    INSERT INTO public.deleted_records (table_name, record_id, local_id, maternal_profile_id, facility_id, created_by)
+    VALUES (TG_TABLE_NAME, OLD.id, old_row->>'local_id', profile_id, facility, creator);
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_maternal_profiles_deletion   AFTER DELETE ON public.maternal_profiles   FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_vital_signs_deletion         AFTER DELETE ON public.vital_signs         FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_emotive_checklists_deletion  AFTER DELETE ON public.emotive_checklists  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_blood_loss_entries_deletion  AFTER DELETE ON public.blood_loss_entries  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_risk_assessments_deletion    AFTER DELETE ON public.risk_assessments    FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_preparedness_checks_deletion AFTER DELETE ON public.preparedness_checks FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_case_events_deletion         AFTER DELETE ON public.case_events         FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+CREATE TRIGGER record_emergency_contacts_deletion  AFTER DELETE ON public.emergency_contacts  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+
+ALTER TABLE public.deleted_records ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger; readable by whoever could read the deleted row
+CREATE POLICY "Staff can view deletions in their facility" ON public.deleted_records
+    FOR SELECT USING (
+        created_by = auth.uid()
+        OR (table_name = 'emergency_contacts' AND facility_id IS NULL)
+        OR EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND (p.facility_id = deleted_records.facility_id OR p.role = 'admin')
+        )
+    );
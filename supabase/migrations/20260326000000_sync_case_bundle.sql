@@ -0,0 +1,89 @@
+-- Migration: 20260326000000_sync_case_bundle.sql
+-- Purpose: Push a new case atomically. A maternal profile created offline is
+-- sent together with the vitals, checklist, events and other records queued
+-- against it, and all of them are inserted in one transaction, so a dropped
+-- connection can't leave child rows without their case or a case without
+-- the records taken with it. Runs as the caller: RLS applies as usual.
+
+-- Insert one row given as JSON. Only the keys present are written, so
+-- omitted columns keep their defaults (jsonb_populate_record alone would
+-- set them to NULL).
+CREATE OR REPLACE FUNCTION public.insert_sync_row(
+    p_table TEXT,
+    p_row JSONB,
+    OUT new_id UUID,
+    OUT new_updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    cols TEXT;
+BEGIN
+    IF p_table NOT IN ('maternal_profiles', 'vital_signs', 'emotive_checklists', 'case_events',
+                       'blood_loss_entries', 'risk_assessments', 'preparedness_checks') THEN
+        RAISE EXCEPTION 'insert_sync_row: % is not a case table', p_table USING ERRCODE = '22023';
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO cols
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = p_table
+      AND p_row ? c.column_name;
+
+    EXECUTE format(
+        'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1) RETURNING id, updated_at',
+        p_table, cols
+    ) USING p_row INTO new_id, new_updated_at;
+END;
+$$;
+
+-- p_profile:  the maternal_profiles row
+-- p_children: [{ "table_name": "vital_signs", "row": { ... } }, ...] — maternal_profile_id is filled in here
+-- Returns:    [{ "table_name", "local_id", "id", "updated_at" }, ...] for every row inserted
+CREATE OR REPLACE FUNCTION public.sync_case_bundle(p_profile JSONB, p_children JSONB DEFAULT '[]'::jsonb)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    inserted   RECORD;
+    profile_id UUID;
+    child      JSONB;
+    results    JSONB;
+BEGIN
+    SELECT * INTO inserted FROM public.insert_sync_row('maternal_profiles', p_profile);
+    profile_id := inserted.new_id;
+    results := jsonb_build_array(jsonb_build_object(
+        'table_name', 'maternal_profiles',
+        'local_id',   p_profile->>'local_id',
+        'id',         inserted.new_id,
+        'updated_at', inserted.new_updated_at
+    ));
+
+    FOR child IN SELECT value FROM jsonb_array_elements(p_children) LOOP
+        IF child->>'table_name' = 'maternal_profiles' THEN
+            RAISE EXCEPTION 'sync_case_bundle: a bundle holds one case' USING ERRCODE = '22023';
+        END IF;
+
+        SELECT * INTO inserted FROM public.insert_sync_row(
+            child->>'table_name',
+            (child->'row') || jsonb_build_object('maternal_profile_id', profile_id)
+        );
+        results := results || jsonb_build_object(
+            'table_name', child->>'table_name',
+            'local_id',   child->'row'->>'local_id',
+            'id',         inserted.new_id,
+            'updated_at', inserted.new_updated_at
+        );
+    END LOOP;
+
+    RETURN results;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.insert_sync_row(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_case_bundle(JSONB, JSONB) TO authenticated;
@@ -0,0 +1,20 @@
+-- Migration: 20260328000000_realtime_facility_cases.sql
+-- Purpose: Live case feed for supervisors. Adds the case tables to the
+-- supabase_realtime publication so inserts and updates are broadcast.
+-- Realtime checks each change against the table's SELECT policies before
+-- delivering it, so a supervisor only receives rows from their own facility.
+
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['maternal_profiles', 'vital_signs', 'case_events', 'emotive_checklists'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+        END IF;
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,141 @@
+-- Migration: 20260330000000_idempotent_sync_inserts.sql
+-- Purpose: Make replaying a queued insert safe. A device that times out
+-- after the server committed an insert sends it again; until now that
+-- created a second row. local_id (the device-generated id) becomes unique
+-- on every synced table, and inserts become "insert unless this local_id
+-- is already there" — in the app and in sync_case_bundle — so a replay
+-- returns the row it created the first time instead of adding another.
+-- The existing row is left as is: it may have been edited since.
+
+-- ── Remove duplicates left by earlier replays ────────────────
+-- The earliest copy of each local_id is kept. Records of a duplicated case
+-- move to the kept case first so nothing is lost with the extra copy.
+
+CREATE TEMP TABLE duplicate_profiles ON COMMIT DROP AS
+SELECT id AS duplicate_id, keep_id
+FROM (
+    SELECT id,
+           first_value(id) OVER w AS keep_id,
+           row_number() OVER w AS n
+    FROM public.maternal_profiles
+    WHERE local_id IS NOT NULL
+    WINDOW w AS (PARTITION BY local_id ORDER BY created_at NULLS LAST, id)
+) ranked
+WHERE n > 1;
+
+-- One preparedness row per case and item: drop the duplicate case's copy where the kept case has one
+DELETE FROM public.preparedness_checks pc
+USING duplicate_profiles d
+WHERE pc.maternal_profile_id = d.duplicate_id
+  AND EXISTS (
+      SELECT 1 FROM public.preparedness_checks k
+      WHERE k.maternal_profile_id = d.keep_id AND k.item_id = pc.item_id
+  );
+
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['vital_signs', 'emotive_checklists', 'case_events', 'blood_loss_entries',
+                             'risk_assessments', 'preparedness_checks'] LOOP
+        EXECUTE format(
+            'UPDATE public.%I c SET maternal_profile_id = d.keep_id
+             FROM duplicate_profiles d WHERE c.maternal_profile_id = d.duplicate_id', t);
+    END LOOP;
+END;
+$$;
+
+DELETE FROM public.maternal_profiles mp USING duplicate_profiles d WHERE mp.id = d.duplicate_id;
+
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['vital_signs', 'emotive_checklists', 'case_events', 'emergency_contacts',
+                             'shock_threshold_sets', 'blood_loss_entries', 'risk_assessments',
+                             'preparedness_checks'] LOOP
+        EXECUTE format(
+            'DELETE FROM public.%1$I t USING (
+                 SELECT id, row_number() OVER (
+                     PARTITION BY local_id ORDER BY to_jsonb(r)->>''created_at'' NULLS LAST, id
+                 ) AS n
+                 FROM public.%1$I r WHERE local_id IS NOT NULL
+             ) ranked
+             WHERE t.id = ranked.id AND ranked.n > 1', t);
+    END LOOP;
+END;
+$$;
+
+-- The copies removed above left tombstones carrying the kept rows' local_ids;
+-- devices would delete the surviving record. now() is this migration's
+-- transaction time, so this only touches tombstones written here.
+DELETE FROM public.deleted_records WHERE deleted_at = now();
+
+-- ── Unique local_id ──────────────────────────────────────────
+-- Rows created on the server (no local_id) are unaffected: NULLs don't collide.
+
+ALTER TABLE public.maternal_profiles    ADD CONSTRAINT maternal_profiles_local_id_key    UNIQUE (local_id);
+ALTER TABLE public.vital_signs          ADD CONSTRAINT vital_signs_local_id_key          UNIQUE (local_id);
+ALTER TABLE public.emotive_checklists   ADD CONSTRAINT emotive_checklists_local_id_key   UNIQUE (local_id);
+ALTER TABLE public.case_events          ADD CONSTRAINT case_events_local_id_key          UNIQUE (local_id);
+ALTER TABLE public.emergency_contacts   ADD CONSTRAINT emergency_contacts_local_id_key   UNIQUE (local_id);
+ALTER TABLE public.shock_threshold_sets ADD CONSTRAINT shock_threshold_sets_local_id_key UNIQUE (local_id);
+ALTER TABLE public.blood_loss_entries   ADD CONSTRAINT blood_loss_entries_local_id_key   UNIQUE (local_id);
+ALTER TABLE public.risk_assessments     ADD CONSTRAINT risk_assessments_local_id_key     UNIQUE (local_id);
+ALTER TABLE public.preparedness_checks  ADD CONSTRAINT preparedness_checks_local_id_key  UNIQUE (local_id);
+
+-- The unique constraints index local_id; the plain indexes are now redundant
+DROP INDEX IF EXISTS public.idx_maternal_profiles_local_id;
+DROP INDEX IF EXISTS public.idx_vital_signs_local_id;
+DROP INDEX IF EXISTS public.idx_emotive_local_id;
+DROP INDEX IF EXISTS public.idx_emergency_local_id;
+DROP INDEX IF EXISTS public.idx_blood_loss_entries_local_id;
+DROP INDEX IF EXISTS public.idx_risk_assessments_local_id;
+DROP INDEX IF EXISTS public.idx_preparedness_checks_local_id;
+
+-- ── Idempotent bundle rows ───────────────────────────────────
+-- Same contract as before; for a local_id that already exists the existing
+-- row's id and updated_at are returned instead of failing the whole bundle.
+
+CREATE OR REPLACE FUNCTION public.insert_sync_row(
+    p_table TEXT,
+    p_row JSONB,
+    OUT new_id UUID,
+    OUT new_updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    cols TEXT;
+BEGIN
+    IF p_table NOT IN ('maternal_profiles', 'vital_signs', 'emotive_checklists', 'case_events',
+                       'blood_loss_entries', 'risk_assessments', 'preparedness_checks') THEN
+        RAISE EXCEPTION 'insert_sync_row: % is not a case table', p_table USING ERRCODE = '22023';
+    END IF;
+    IF p_row->>'local_id' IS NULL THEN
+        RAISE EXCEPTION 'insert_sync_row: % row has no local_id', p_table USING ERRCODE = '22023';
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO cols
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = p_table
+      AND p_row ? c.column_name;
+
+    EXECUTE format(
+        'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)
+         ON CONFLICT (local_id) DO NOTHING
+         RETURNING id, updated_at',
+        p_table, cols
+    ) USING p_row INTO new_id, new_updated_at;
+
+    -- Already inserted by an earlier attempt
+    IF new_id IS NULL THEN
+        EXECUTE format('SELECT id, updated_at FROM public.%I WHERE local_id = $1', p_table)
+        USING p_row->>'local_id' INTO new_id, new_updated_at;
+    END IF;
+END;
+$$;
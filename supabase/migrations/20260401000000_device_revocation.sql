@@ -0,0 +1,89 @@
+-- Migration: 20260401000000_device_revocation.sql
+-- Purpose: Remote revocation of the patient data held on a device. Each
+-- install checks in with a random device id while online. A device can be
+-- revoked for a user by that user, an admin, or a supervisor of the user's
+-- facility; its next check-in tells the app to wipe its encrypted clinical
+-- database and sign out. A revoked device stays revoked for that user until
+-- the row is deleted.
+
+CREATE TABLE IF NOT EXISTS public.user_devices (
+    device_id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    platform TEXT,
+    first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    revoked_at TIMESTAMPTZ,
+    revoked_by UUID REFERENCES public.profiles(id),
+    PRIMARY KEY (device_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user_id ON public.user_devices(user_id);
+
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the functions below
+CREATE POLICY "Users, admins and facility supervisors can view devices" ON public.user_devices
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.profiles me
+            JOIN public.profiles owner ON owner.id = user_devices.user_id
+            WHERE me.id = auth.uid()
+            AND (me.role = 'admin' OR (me.role = 'supervisor' AND me.facility_id = owner.facility_id))
+        )
+    );
+
+-- ── Check-in ─────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.check_in_device(p_device_id TEXT, p_platform TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    revoked BOOLEAN;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'check_in_device: not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.user_devices (device_id, user_id, platform)
+    VALUES (p_device_id, auth.uid(), p_platform)
+    ON CONFLICT (device_id, user_id) DO UPDATE
+        SET last_seen_at = now(), platform = EXCLUDED.platform
+    RETURNING revoked_at IS NOT NULL INTO revoked;
+
+    RETURN revoked;
+END;
+$$;
+
+-- ── Revocation ───────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.revoke_device(p_device_id TEXT, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT (
+        p_user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.profiles me
+            JOIN public.profiles owner ON owner.id = p_user_id
+            WHERE me.id = auth.uid()
+            AND (me.role = 'admin' OR (me.role = 'supervisor' AND me.facility_id = owner.facility_id))
+        )
+    ) THEN
+        RAISE EXCEPTION 'revoke_device: not allowed' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.user_devices
+    SET revoked_at = now(), revoked_by = auth.uid()
+    WHERE device_id = p_device_id AND user_id = p_user_id AND revoked_at IS NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_device(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_device(TEXT, UUID) TO authenticated;
@@ -0,0 +1,68 @@
+-- Migration: 20260403000000_patients.sql
+-- Purpose: A patient entity separate from the delivery episode. Each
+-- maternal profile stays one delivery; patients links a facility's
+-- episodes of the same woman so a returning patient's earlier PPH or
+-- cesarean is surfaced. Episodes point at their patient by the patient's
+-- device-generated local_id, so a case can sync before its patient does.
+
+CREATE TABLE public.patients (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    facility_id     UUID REFERENCES public.facilities(id) ON DELETE CASCADE,
+    patient_number  TEXT,            -- hospital number (MRN) as entered
+    full_name       TEXT,
+    birth_year      INTEGER,         -- estimated from the age at registration
+    created_by      UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ DEFAULT now(),
+    updated_at      TIMESTAMPTZ DEFAULT now(),
+    -- Sync tracking
+    local_id        TEXT,
+    is_synced       BOOLEAN DEFAULT false,
+    CONSTRAINT patients_local_id_key UNIQUE (local_id)
+);
+
+CREATE INDEX idx_patients_facility_number ON public.patients(facility_id, patient_number);
+CREATE INDEX IF NOT EXISTS idx_patients_updated_at ON public.patients(updated_at, id);
+
+CREATE TRIGGER update_patients_updated_at
+    BEFORE INSERT OR UPDATE ON public.patients
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.maternal_profiles
+    ADD COLUMN IF NOT EXISTS patient_local_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_maternal_profiles_patient ON public.maternal_profiles(patient_local_id);
+
+COMMENT ON COLUMN public.maternal_profiles.patient_local_id IS 'patients.local_id of the patient this delivery episode belongs to';
+
+ALTER TABLE public.patients ENABLE ROW LEVEL SECURITY;
+
+-- Users without a facility see the patients they registered
+CREATE POLICY "Staff can view patients in their facility" ON public.patients
+    FOR SELECT USING (
+        created_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND (p.facility_id = patients.facility_id OR p.role = 'admin')
+        )
+    );
+
+CREATE POLICY "Staff can register patients" ON public.patients
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+    );
+
+CREATE POLICY "Staff can update patients in their facility" ON public.patients
+    FOR UPDATE USING (
+        created_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin')
+            AND (p.facility_id = patients.facility_id OR p.role = 'admin')
+        )
+    );
@@ -0,0 +1,36 @@
+-- Migration: 20260405000000_device_restore.sql
+-- Purpose: Let an admin undo a device revocation. restore_device clears
+-- revoked_at so the device's next check-in is accepted again; an admin can
+-- also delete a device row outright, after which the device registers
+-- afresh on its next check-in. Supervisors and users can still revoke but
+-- not restore — a revoked device may be lost or stolen, so bringing it back
+-- is an admin decision.
+
+-- ── Removal ──────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Admins can remove devices" ON public.user_devices;
+CREATE POLICY "Admins can remove devices" ON public.user_devices
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM public.profiles me WHERE me.id = auth.uid() AND me.role = 'admin')
+    );
+
+-- ── Restore ──────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.restore_device(p_device_id TEXT, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.profiles me WHERE me.id = auth.uid() AND me.role = 'admin') THEN
+        RAISE EXCEPTION 'restore_device: not allowed' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.user_devices
+    SET revoked_at = NULL, revoked_by = NULL
+    WHERE device_id = p_device_id AND user_id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_device(TEXT, UUID) TO authenticated;
@@ -0,0 +1,55 @@
+-- Migration: 20260407000000_shock_threshold_publishing.sql
+-- Purpose: Tighten who can publish shock threshold sets, and number the
+-- versions on the server. A supervisor may only publish for their own
+-- facility; an admin may publish for any facility, with or without one of
+-- their own. Devices publish offline and number a new set from the latest
+-- version they know, so two supervisors publishing at once used to send
+-- the same version and the second insert failed on UNIQUE(facility_id,
+-- version) for good. The version a device sends is now only provisional:
+-- a trigger replaces it with the facility's next version on insert.
+
+-- ── Policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Supervisors/Admins can publish threshold sets" ON public.shock_threshold_sets;
+CREATE POLICY "Supervisors can publish for their facility, admins for any" ON public.shock_threshold_sets
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid()
+            AND (role = 'admin' OR (role = 'supervisor' AND facility_id = shock_threshold_sets.facility_id))
+        )
+    );
+
+-- Admins edit any facility's thresholds, and read back the sets they publish
+DROP POLICY IF EXISTS "Admins can view all threshold sets" ON public.shock_threshold_sets;
+CREATE POLICY "Admins can view all threshold sets" ON public.shock_threshold_sets
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- ── Server-assigned versions ─────────────────────────────────
+
+-- SECURITY DEFINER so the facility's latest version is seen whatever the
+-- publisher may read
+CREATE OR REPLACE FUNCTION public.assign_shock_threshold_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- One publish per facility at a time, so two can't read the same latest version
+    PERFORM pg_advisory_xact_lock(hashtext('shock_threshold_sets:' || NEW.facility_id::text));
+
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM public.shock_threshold_sets
+    WHERE facility_id = NEW.facility_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_assign_shock_threshold_version ON public.shock_threshold_sets;
+CREATE TRIGGER trg_assign_shock_threshold_version
+    BEFORE INSERT ON public.shock_threshold_sets
+    FOR EACH ROW EXECUTE FUNCTION public.assign_shock_threshold_version();
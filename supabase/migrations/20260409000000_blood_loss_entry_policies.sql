@@ -0,0 +1,53 @@
+-- Migration: 20260409000000_blood_loss_entry_policies.sql
+-- Purpose: Bring the blood loss ledger policies in line with the other case
+-- records (vital_signs, case_events). Entries are visible to whoever can see
+-- the case — including staff and users without a facility who created it —
+-- and can only be recorded against a case the recorder can see. 'user' was
+-- missing from the roles allowed to record, so their entries never synced.
+
+-- ── Policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff can view blood loss entries in their facility" ON public.blood_loss_entries;
+CREATE POLICY "Staff can view blood loss entries in their facility" ON public.blood_loss_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = blood_loss_entries.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can record blood loss entries" ON public.blood_loss_entries;
+CREATE POLICY "Staff can record blood loss entries" ON public.blood_loss_entries
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = blood_loss_entries.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
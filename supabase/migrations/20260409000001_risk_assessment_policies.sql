@@ -0,0 +1,54 @@
+-- Migration: 20260409000001_risk_assessment_policies.sql
+-- Purpose: Bring the risk reassessment policies in line with the other case
+-- records (vital_signs, case_events). Reassessments are visible to whoever
+-- can see the case — including staff and users without a facility who
+-- created it — and can only be recorded against a case the assessor can
+-- see. 'user' was missing from the roles allowed to record, so their
+-- reassessments never synced.
+
+-- ── Policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff can view risk assessments in their facility" ON public.risk_assessments;
+CREATE POLICY "Staff can view risk assessments in their facility" ON public.risk_assessments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = risk_assessments.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can record risk assessments" ON public.risk_assessments;
+CREATE POLICY "Staff can record risk assessments" ON public.risk_assessments
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = risk_assessments.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
@@ -0,0 +1,102 @@
+-- Migration: 20260409000002_preparedness_check_policies.sql
+-- Purpose: Bring the preparedness checklist policies in line with the other
+-- case records (vital_signs, case_events). Checks are visible to whoever can
+-- see the case — including staff and users without a facility who created
+-- it — and can only be recorded or ticked off on a case the editor can see.
+-- The UPDATE policy previously let any staff member change checks in any
+-- facility, and 'user' was missing from the roles allowed to record them.
+
+-- ── Policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff can view preparedness checks in their facility" ON public.preparedness_checks;
+CREATE POLICY "Staff can view preparedness checks in their facility" ON public.preparedness_checks
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = preparedness_checks.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can record preparedness checks" ON public.preparedness_checks;
+CREATE POLICY "Staff can record preparedness checks" ON public.preparedness_checks
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = preparedness_checks.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
+
+-- Ticking an item off updates the row; limited to cases the editor can see
+DROP POLICY IF EXISTS "Staff can update preparedness checks" ON public.preparedness_checks;
+CREATE POLICY "Staff can update preparedness checks" ON public.preparedness_checks
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = preparedness_checks.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = preparedness_checks.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
@@ -0,0 +1,66 @@
+-- Migration: 20260411000000_vital_threshold_set_id.sql
+-- Purpose: Readings record the threshold set they were classified against by
+-- id. Since 20260407000000 the server numbers threshold sets, so the version
+-- a device stamped on a reading was only provisional — and could be the
+-- number the server gave another publisher's set. threshold_version is now
+-- filled in from the set: when the reading arrives if the set is already
+-- there, or when the set arrives if the reading came first (readings can
+-- sync before the set they used, so there is no foreign key).
+
+ALTER TABLE public.vital_signs
+    ADD COLUMN IF NOT EXISTS threshold_set_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_vital_signs_threshold_set ON public.vital_signs(threshold_set_id);
+
+COMMENT ON COLUMN public.vital_signs.threshold_set_id IS 'shock_threshold_sets.id in force when recorded; NULL = app defaults';
+COMMENT ON COLUMN public.vital_signs.threshold_version IS 'Version of threshold_set_id, set by the server; 0 = app defaults';
+
+-- ── Reading side ─────────────────────────────────────────────
+
+-- SECURITY DEFINER so the set is found whatever the recorder may read
+CREATE OR REPLACE FUNCTION public.stamp_vital_threshold_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    set_version INTEGER;
+BEGIN
+    IF NEW.threshold_set_id IS NOT NULL THEN
+        SELECT version INTO set_version FROM public.shock_threshold_sets WHERE id = NEW.threshold_set_id;
+        IF FOUND THEN
+            NEW.threshold_version := set_version;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stamp_vital_threshold_version ON public.vital_signs;
+CREATE TRIGGER trg_stamp_vital_threshold_version
+    BEFORE INSERT OR UPDATE OF threshold_set_id, threshold_version ON public.vital_signs
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_vital_threshold_version();
+
+-- ── Set side ─────────────────────────────────────────────────
+
+-- Readings that synced before their set still carry the device's provisional number
+CREATE OR REPLACE FUNCTION public.restamp_vitals_for_threshold_set()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.vital_signs
+    SET threshold_version = NEW.version
+    WHERE threshold_set_id = NEW.id
+    AND threshold_version IS DISTINCT FROM NEW.version;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_restamp_vitals_for_threshold_set ON public.shock_threshold_sets;
+CREATE TRIGGER trg_restamp_vitals_for_threshold_set
+    AFTER INSERT ON public.shock_threshold_sets
+    FOR EACH ROW EXECUTE FUNCTION public.restamp_vitals_for_threshold_set();
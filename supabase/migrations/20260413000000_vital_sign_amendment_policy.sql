@@ -0,0 +1,57 @@
+-- Migration: 20260413000000_vital_sign_amendment_policy.sql
+-- Purpose: Let staff amend or void a reading a colleague recorded. The
+-- vital_signs UPDATE policy still only allowed the recorder (or any
+-- supervisor/admin, in any facility), so a midwife correcting a colleague's
+-- reading updated no rows and the correction never reached the server.
+-- Updates now follow the case: whoever can see the case can amend its
+-- readings, the same rule the other case records use.
+
+-- ── Policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff can update their own vital signs" ON public.vital_signs;
+DROP POLICY IF EXISTS "Staff can amend vital signs on cases they can see" ON public.vital_signs;
+CREATE POLICY "Staff can amend vital signs on cases they can see" ON public.vital_signs
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = vital_signs.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.maternal_profiles mp
+            WHERE mp.id = vital_signs.maternal_profile_id
+            AND (
+                (
+                    mp.facility_id IS NOT NULL
+                    AND mp.facility_id IN (
+                        SELECT p.facility_id FROM public.profiles p
+                        WHERE p.id = auth.uid() AND p.facility_id IS NOT NULL
+                    )
+                )
+                OR mp.created_by = auth.uid()
+                OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+            )
+        )
+    );
@@ -0,0 +1,30 @@
+-- Migration: 20260415000000_patient_registration_policy.sql
+-- Purpose: Register patients only into the registering user's own facility.
+-- The INSERT policy from 20260403000000 checked the role alone, so anyone
+-- signed in could add patients to any facility. A patient's facility must
+-- now be the user's facility or that of a unit they are an approved member
+-- of (the app registers against the active unit); users without a facility
+-- register patients without one. Admins may register into any facility.
+
+-- ── Policies ─────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Staff can register patients" ON public.patients;
+CREATE POLICY "Staff can register patients" ON public.patients
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+            AND p.role IN ('midwife', 'nurse', 'student', 'supervisor', 'admin', 'user')
+            AND (
+                p.role = 'admin'
+                OR patients.facility_id IS NOT DISTINCT FROM p.facility_id
+                OR EXISTS (
+                    SELECT 1 FROM public.unit_memberships um
+                    JOIN public.units u ON u.id = um.unit_id
+                    WHERE um.profile_id = p.id
+                    AND um.status = 'approved'
+                    AND u.facility_id = patients.facility_id
+                )
+            )
+        )
+    );